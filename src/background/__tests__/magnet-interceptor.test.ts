@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import browser from 'webextension-polyfill'
+import { syncMagnetInterceptor } from '../magnet-interceptor'
+import { storage } from '../../utils/storage'
+
+// Mock webextension-polyfill
+vi.mock('webextension-polyfill', () => ({
+  default: {
+    permissions: { contains: vi.fn() },
+    scripting: {
+      getRegisteredContentScripts: vi.fn(),
+      registerContentScripts: vi.fn(() => Promise.resolve()),
+      unregisterContentScripts: vi.fn(() => Promise.resolve()),
+    },
+  },
+}))
+
+// Mock storage
+vi.mock('../../utils/storage', () => ({
+  storage: { getSettings: vi.fn() },
+}))
+
+describe('magnet-interceptor registration', () => {
+  const useState = (enabled: boolean, granted: boolean, registered: boolean) => {
+    vi.mocked(storage.getSettings).mockResolvedValue({ interceptMagnetLinks: enabled } as any)
+    vi.mocked(browser.permissions.contains).mockResolvedValue(granted)
+    vi.mocked(browser.scripting.getRegisteredContentScripts).mockResolvedValue(
+      registered ? [{ id: 'magnet-interceptor' }] : []
+    )
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('registers the content script once interception is on and access is granted', async () => {
+    useState(true, true, false)
+
+    await syncMagnetInterceptor()
+
+    expect(browser.permissions.contains).toHaveBeenCalledWith({
+      origins: ['http://*/*', 'https://*/*'],
+    })
+    expect(browser.scripting.registerContentScripts).toHaveBeenCalledWith([
+      {
+        id: 'magnet-interceptor',
+        matches: ['http://*/*', 'https://*/*'],
+        js: ['src/content/magnet-interceptor.js'],
+        runAt: 'document_idle',
+        allFrames: true,
+      },
+    ])
+  })
+
+  it('does not register without the host permission', async () => {
+    useState(true, false, false)
+
+    await syncMagnetInterceptor()
+
+    expect(browser.scripting.registerContentScripts).not.toHaveBeenCalled()
+  })
+
+  it('unregisters the content script when interception is turned off', async () => {
+    useState(false, true, true)
+
+    await syncMagnetInterceptor()
+
+    expect(browser.scripting.unregisterContentScripts).toHaveBeenCalledWith({
+      ids: ['magnet-interceptor'],
+    })
+  })
+
+  it('registers the script only once for overlapping syncs', async () => {
+    useState(true, true, false)
+    vi.mocked(browser.scripting.registerContentScripts).mockImplementation(async () => {
+      vi.mocked(browser.scripting.getRegisteredContentScripts).mockResolvedValue([
+        { id: 'magnet-interceptor' },
+      ])
+    })
+
+    await Promise.all([syncMagnetInterceptor(), syncMagnetInterceptor()])
+
+    expect(browser.scripting.registerContentScripts).toHaveBeenCalledTimes(1)
+  })
+})
@@ -15,6 +15,9 @@ vi.mock('webextension-polyfill', () => {
     onInstalled: {
       addListener: vi.fn(),
     },
+    onStartup: {
+      addListener: vi.fn(),
+    },
     onMessage: {
       addListener: vi.fn(),
     },
@@ -43,15 +46,38 @@ vi.mock('webextension-polyfill', () => {
     },
   }
 
+  const mockAction = {
+    openPopup: vi.fn(() => Promise.resolve()),
+  }
+
+  const mockDownloads = {
+    download: vi.fn(() => Promise.resolve(1)),
+    search: vi.fn(() => Promise.resolve([])),
+  }
+
+  const mockPermissions = {
+    onAdded: { addListener: vi.fn() },
+    onRemoved: { addListener: vi.fn() },
+  }
+
   return {
     default: {
+      action: mockAction,
       alarms: mockAlarms,
+      downloads: mockDownloads,
+      permissions: mockPermissions,
       runtime: mockRuntime,
       storage: mockStorage,
     },
+    get mockAction() {
+      return mockAction
+    },
     get mockAlarms() {
       return mockAlarms
     },
+    get mockDownloads() {
+      return mockDownloads
+    },
     get mockRuntime() {
       return mockRuntime
     },
@@ -62,10 +88,14 @@ vi.mock('webextension-polyfill', () => {
 })
 
 // Mock realdebrid-api
-vi.mock('../../utils/realdebrid-api', () => ({
-  rdAPI: {
+vi.mock('../../utils/realdebrid-api', () => {
+  const rdAPI = {
     getTorrents: vi.fn(() => Promise.resolve([])),
+    getAllTorrents: vi.fn(() => Promise.resolve([])),
+    getTorrentsPage: vi.fn(() => Promise.resolve({ torrents: [], totalCount: 0 })),
+    deleteTorrent: vi.fn(() => Promise.resolve()),
     addMagnet: vi.fn(() => Promise.resolve({ id: 'test-id' })),
+    addTorrentFile: vi.fn(() => Promise.resolve({ id: 'test-id' })),
     getTorrentInfo: vi.fn(() =>
       Promise.resolve({
         id: 'test-id',
@@ -79,6 +109,43 @@ vi.mock('../../utils/realdebrid-api', () => ({
       Promise.resolve({ download: 'https://example.com/unrestricted.mkv' })
     ),
     selectFiles: vi.fn(() => Promise.resolve()),
+    checkLink: vi.fn(() => Promise.resolve({ supported: 1, host: 'hoster.com' })),
+    unrestrictFolder: vi.fn(() => Promise.resolve([])),
+    getUser: vi.fn(() =>
+      Promise.resolve({
+        id: 1,
+        username: 'tester',
+        type: 'premium',
+        points: 100,
+        premium: 86400 * 30,
+        expiration: '2026-11-18T00:00:00.000Z',
+      })
+    ),
+    getTraffic: vi.fn(() => Promise.resolve({})),
+    checkInstantAvailability: vi.fn(() => Promise.resolve({})),
+    getTrafficDetails: vi.fn(() => Promise.resolve({})),
+  }
+  return { rdAPI, getAccountAPI: vi.fn(() => rdAPI) }
+})
+
+// Mock the IndexedDB history archive
+vi.mock('../../utils/history-db', () => ({
+  archiveTorrents: vi.fn(() => Promise.resolve()),
+  getHistoryEntry: vi.fn(() => Promise.resolve(null)),
+  saveHistoryEntry: vi.fn(() => Promise.resolve()),
+}))
+
+// Mock the aria2 client
+vi.mock('../../utils/aria2', () => ({
+  DEFAULT_ARIA2_SETTINGS: { enabled: false },
+  sendToAria2: vi.fn(() => Promise.resolve(['gid1'])),
+  Aria2SendError: class extends Error {
+    constructor(
+      message: string,
+      readonly sentUrls: string[]
+    ) {
+      super(message)
+    }
   },
 }))
 
@@ -88,13 +155,23 @@ vi.mock('../context-menu', () => ({
   initContextMenuListener: vi.fn(),
 }))
 
+// Mock the magnet interceptor registration
+vi.mock('../magnet-interceptor', () => ({
+  syncMagnetInterceptor: vi.fn(() => Promise.resolve()),
+}))
+
 // Mock notifications
 vi.mock('../../utils/notifications', () => ({
   notifyTorrentStatusChange: vi.fn(() => Promise.resolve()),
   showBatchCompleteNotification: vi.fn(() => Promise.resolve()),
   clearCompletedNotifications: vi.fn(() => Promise.resolve()),
+  notifyPremiumExpiring: vi.fn(() => Promise.resolve()),
 }))
 
+// Minimal bencoded info dictionary and its SHA-1 info hash
+const TORRENT_INFO = `d6:lengthi1024e4:name8:test.bin12:piece lengthi16384e6:pieces20:${'a'.repeat(20)}e`
+const TORRENT_INFO_HASH = '4e649c4fab84c8a840933785cd41848d7fcc5d73'
+
 describe('service-worker', () => {
   beforeEach(async () => {
     vi.clearAllMocks()
@@ -118,6 +195,10 @@ describe('service-worker', () => {
 
     // Reset runtime mocks
     mockRuntime.sendMessage.mockResolvedValue(undefined)
+
+    // Every account shares the default client unless a test says otherwise
+    const { rdAPI, getAccountAPI } = await import('../../utils/realdebrid-api')
+    vi.mocked(getAccountAPI).mockImplementation(() => rdAPI)
   })
 
   describe('message handlers', () => {
@@ -384,6 +465,39 @@ describe('service-worker', () => {
       expect(rdAPI.getTorrentInfo).toHaveBeenCalledWith('torrent-1')
     })
 
+    it('includes speed, seeders and ETA in GET_TORRENT_PROGRESS', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Test.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'downloading',
+        progress: 50,
+        bytes: 2000000,
+        speed: 50000,
+        seeders: 3,
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'GET_TORRENT_PROGRESS', torrentId: 'torrent-1' })
+
+      expect(result).toEqual({
+        success: true,
+        progress: 50,
+        status: 'downloading',
+        speed: 50000,
+        seeders: 3,
+        eta: 20,
+      })
+    })
+
     it('handles GET_TORRENT_PROGRESS with error', async () => {
       const webextension = await import('webextension-polyfill')
       const { mockRuntime } = webextension as any
@@ -477,172 +591,61 @@ describe('service-worker', () => {
     })
   })
 
-  describe('notification integration in polling', () => {
-    it('sends notifications when torrents complete during polling', async () => {
+  describe('instant availability', () => {
+    const magnetLink = 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567'
+    const hash = '0123456789abcdef0123456789abcdef01234567'
+
+    it('reports cached torrents from the availability endpoint', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
-      const { notifyTorrentStatusChange, showBatchCompleteNotification } =
-        await import('../../utils/notifications')
+      const { mockRuntime, mockStorage } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      // Mock torrents that will complete
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Movie1.mkv',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-        {
-          id: 'torrent-2',
-          magnetLink: 'magnet:?xt=urn:btih:abcdef0123456789abcdef0123456789abcdef01',
-          hash: 'abcdef0123456789abcdef0123456789abcdef01',
-          filename: 'Movie2.mkv',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
-
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
-
-      // Mock torrent info to show completion
-      vi.mocked(rdAPI.getTorrentInfo).mockImplementation((id: string) => {
-        if (id === 'torrent-1') {
-          return Promise.resolve({
-            id: 'torrent-1',
-            filename: 'Movie1.mkv',
-            hash: '0123456789abcdef0123456789abcdef01234567',
-            status: 'downloaded' as const,
-            progress: 100,
-            links: ['https://example.com/movie1.mkv'],
-          })
-        } else if (id === 'torrent-2') {
-          return Promise.resolve({
-            id: 'torrent-2',
-            filename: 'Movie2.mkv',
-            hash: 'abcdef0123456789abcdef0123456789abcdef01',
-            status: 'downloaded' as const,
-            progress: 100,
-            links: ['https://example.com/movie2.mkv'],
-          })
-        }
-        return Promise.reject(new Error('Unknown torrent'))
-      })
-
-      vi.mocked(rdAPI.unrestrictLink).mockResolvedValue({
-        id: 'unrestrict-1',
-        filename: 'unrestricted.mkv',
-        filesize: 1073741824,
-        link: 'https://example.com/link.mkv',
-        host: 'example.com',
-        chunks: 1,
-        crc: 0,
-        download: 'https://example.com/unrestricted.mkv',
-        streamable: 0,
+      vi.mocked(rdAPI.checkInstantAvailability).mockResolvedValue({
+        [hash]: { rd: [{ '1': { filename: 'Movie.mkv', filesize: 1024 } }] },
       })
 
       await import('../service-worker')
 
-      // Get the alarm listener
-      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
-      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
-
-      // Trigger alarm
-      await alarmHandler({ name: 'poll-torrents' })
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      // Wait for async operations
-      await new Promise(resolve => setTimeout(resolve, 100))
+      const result = await messageHandler({ type: 'CHECK_AVAILABILITY', magnetLink })
 
-      expect(notifyTorrentStatusChange).toHaveBeenCalledTimes(2)
-      expect(showBatchCompleteNotification).toHaveBeenCalledWith(2, 0)
+      expect(rdAPI.checkInstantAvailability).toHaveBeenCalledWith(hash)
+      expect(result).toEqual({
+        success: true,
+        availability: { hash, status: 'cached', source: 'api' },
+      })
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        availabilityCache: { [hash]: { cached: true, checkedAt: expect.any(Number) } },
+      })
     })
 
-    it('sends notifications when torrents fail during polling', async () => {
+    it('reports not cached when the endpoint returns an empty list', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
-      const { notifyTorrentStatusChange, showBatchCompleteNotification } =
-        await import('../../utils/notifications')
+      const { mockRuntime } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Failed1.mkv',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-        {
-          id: 'torrent-2',
-          magnetLink: 'magnet:?xt=urn:btih:abcdef0123456789abcdef0123456789abcdef01',
-          hash: 'abcdef0123456789abcdef0123456789abcdef01',
-          filename: 'Failed2.mkv',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
-
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
-
-      // Mock torrent info to show errors
-      vi.mocked(rdAPI.getTorrentInfo).mockImplementation((id: string) => {
-        if (id === 'torrent-1') {
-          return Promise.resolve({
-            id: 'torrent-1',
-            filename: 'Failed1.mkv',
-            hash: '0123456789abcdef0123456789abcdef01234567',
-            status: 'error' as const,
-            progress: 0,
-          })
-        } else if (id === 'torrent-2') {
-          return Promise.resolve({
-            id: 'torrent-2',
-            filename: 'Failed2.mkv',
-            hash: 'abcdef0123456789abcdef0123456789abcdef01',
-            status: 'error' as const,
-            progress: 0,
-          })
-        }
-        return Promise.reject(new Error('Unknown torrent'))
-      })
+      vi.mocked(rdAPI.checkInstantAvailability).mockResolvedValue({ [hash]: [] })
 
       await import('../service-worker')
 
-      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
-      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
-
-      await alarmHandler({ name: 'poll-torrents' })
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      await new Promise(resolve => setTimeout(resolve, 100))
+      const result = await messageHandler({ type: 'CHECK_AVAILABILITY', magnetLink })
 
-      expect(notifyTorrentStatusChange).toHaveBeenCalledTimes(2)
-      expect(showBatchCompleteNotification).toHaveBeenCalledWith(0, 2)
+      expect(result.availability).toEqual({ hash, status: 'not_cached', source: 'api' })
     })
-  })
 
-  describe('existing message handlers', () => {
-    it('handles ADD_MAGNET message', async () => {
+    it('falls back to the local cache when the endpoint fails', async () => {
       const webextension = await import('webextension-polyfill')
       const { mockRuntime, mockStorage } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      mockStorage.local.get.mockResolvedValue({ torrents: [] })
-      vi.mocked(rdAPI.addMagnet).mockResolvedValue({
-        id: 'new-torrent-id',
-        uri: 'https://real-debrid.com/torrent/new-torrent-id',
+      vi.mocked(rdAPI.checkInstantAvailability).mockRejectedValue(new Error('disabled_endpoint'))
+      mockStorage.local.get.mockResolvedValue({
+        availabilityCache: { [hash]: { cached: true, checkedAt: Date.now() } },
       })
 
       await import('../service-worker')
@@ -650,493 +653,484 @@ describe('service-worker', () => {
       const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
       const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      const result = await messageHandler({
-        type: 'ADD_MAGNET',
-        magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-      })
+      const result = await messageHandler({ type: 'CHECK_AVAILABILITY', magnetLink })
 
-      expect(result).toHaveProperty('success', true)
-      expect(rdAPI.addMagnet).toHaveBeenCalledWith(
-        'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567'
-      )
+      expect(result.availability).toEqual({ hash, status: 'cached', source: 'local' })
     })
 
-    it('handles RETRY_TORRENT message', async () => {
+    it('reports unknown when neither endpoint nor local cache know the hash', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockRuntime, mockStorage } = webextension as any
-
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Error.mkv',
-          status: 'error',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
+      const { mockRuntime } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      vi.mocked(rdAPI.checkInstantAvailability).mockResolvedValue({})
 
       await import('../service-worker')
 
       const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
       const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      const result = await messageHandler({ type: 'RETRY_TORRENT', torrentId: 'torrent-1' })
+      const result = await messageHandler({ type: 'CHECK_AVAILABILITY', magnetLink })
 
-      expect(result).toEqual({ success: true })
-      expect(mockStorage.local.set).toHaveBeenCalledWith({
-        torrents: expect.arrayContaining([
-          expect.objectContaining({ id: 'torrent-1', status: 'processing', retryCount: 1 }),
-        ]),
-      })
+      expect(result.availability).toEqual({ hash, status: 'unknown', source: 'none' })
     })
 
-    it('handles SELECT_FILES message', async () => {
+    it('rejects invalid magnet links', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockRuntime, mockStorage } = webextension as any
-      const { rdAPI } = await import('../../utils/realdebrid-api')
-
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Test.mkv',
-          status: 'selecting_files',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
-
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      const { mockRuntime } = webextension as any
 
       await import('../service-worker')
 
       const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
       const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      const result = await messageHandler({
-        type: 'SELECT_FILES',
-        torrentId: 'torrent-1',
-        selectedFiles: 'all',
-      })
+      const result = await messageHandler({ type: 'CHECK_AVAILABILITY', magnetLink: 'nope' })
 
-      expect(result).toEqual({ success: true })
-      expect(rdAPI.selectFiles).toHaveBeenCalledWith('torrent-1', 'all')
+      expect(result).toEqual({ error: 'Invalid magnet link' })
     })
 
-    it('handles GET_TORRENT_INFO message', async () => {
+    it('asks for confirmation before adding an uncached torrent', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockRuntime } = webextension as any
+      const { mockRuntime, mockStorage } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      const mockTorrentInfo = {
-        id: 'torrent-1',
-        filename: 'Test.mkv',
-        hash: '0123456789abcdef0123456789abcdef01234567',
-        status: 'waiting_files_selection' as const,
-        progress: 100,
-        files: [
-          { id: 1, path: 'file1.mkv', bytes: 1073741824, selected: 0 },
-          { id: 2, path: 'file2.srt', bytes: 102400, selected: 0 },
-        ],
-      }
-
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue(mockTorrentInfo)
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        maxRetryDuration: 300,
+        confirmUncachedTorrents: true,
+      })
+      vi.mocked(rdAPI.checkInstantAvailability).mockResolvedValue({ [hash]: [] })
 
       await import('../service-worker')
 
       const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
       const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      const result = await messageHandler({ type: 'GET_TORRENT_INFO', torrentId: 'torrent-1' })
+      const result = await messageHandler({ type: 'ADD_MAGNET', magnetLink })
 
-      expect(result).toEqual({ success: true, info: mockTorrentInfo })
-      expect(rdAPI.getTorrentInfo).toHaveBeenCalledWith('torrent-1')
+      expect(result).toEqual({
+        needsConfirmation: true,
+        availability: { hash, status: 'not_cached', source: 'api' },
+      })
+      expect(rdAPI.addMagnet).not.toHaveBeenCalled()
     })
-  })
 
-  describe('polling branches', () => {
-    it('handles timeout during polling', async () => {
+    it('adds an uncached torrent once confirmed', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
-      const { notifyTorrentStatusChange } = await import('../../utils/notifications')
-
-      // Mock torrent that will timeout
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Timeout.mkv',
-          status: 'processing',
-          addedAt: Date.now() - 400000, // Added more than 300 seconds ago
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        maxRetryDuration: 300,
+        confirmUncachedTorrents: true,
+      })
+      vi.mocked(rdAPI.addMagnet).mockResolvedValue({ id: 'new-id', uri: '' })
 
       await import('../service-worker')
 
-      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
-      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
-
-      await alarmHandler({ name: 'poll-torrents' })
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      await new Promise(resolve => setTimeout(resolve, 100))
+      const result = await messageHandler({ type: 'ADD_MAGNET', magnetLink, confirmed: true })
 
-      expect(notifyTorrentStatusChange).toHaveBeenCalledWith('torrent-1', 'Timeout.mkv', 'timeout')
+      expect(result).toHaveProperty('success', true)
+      expect(rdAPI.checkInstantAvailability).not.toHaveBeenCalled()
+      expect(rdAPI.addMagnet).toHaveBeenCalledWith(magnetLink)
     })
+  })
 
-    it('handles waiting_files_selection status without auto-select', async () => {
+  describe('account info', () => {
+    it('handles GET_ACCOUNT_INFO message', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
+      const { mockRuntime } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { notifyPremiumExpiring } = await import('../../utils/notifications')
 
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Processing...',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
-
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
-
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
-        id: 'torrent-1',
-        filename: 'Select Files.mkv',
-        hash: '0123456789abcdef0123456789abcdef01234567',
-        status: 'waiting_files_selection' as const,
-        progress: 0,
-      })
+      const trafficDetails = {
+        '2026-10-18': { host: { 'real-debrid.com': 1024 }, bytes: 1024 },
+      }
+      vi.mocked(rdAPI.getTrafficDetails).mockResolvedValue(trafficDetails)
 
       await import('../service-worker')
 
-      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
-      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
-
-      await alarmHandler({ name: 'poll-torrents' })
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      await new Promise(resolve => setTimeout(resolve, 100))
+      const result = await messageHandler({ type: 'GET_ACCOUNT_INFO' })
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith({
-        torrents: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'torrent-1',
-            status: 'selecting_files',
-            filename: 'Select Files.mkv',
-          }),
-        ]),
-      })
+      expect(result.success).toBe(true)
+      expect(result.account.user.username).toBe('tester')
+      expect(result.account.trafficDetails).toEqual(trafficDetails)
+      expect(notifyPremiumExpiring).toHaveBeenCalledWith(
+        expect.objectContaining({ username: 'tester' })
+      )
     })
 
-    it('handles waiting_files_selection status with auto-select', async () => {
+    it('handles GET_ACCOUNT_INFO with error', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
+      const { mockRuntime } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      // Enable auto-select in settings
-      mockStorage.sync.get.mockResolvedValue({
-        apiToken: 'test-token',
-        maxListSize: 10,
-        retryInterval: 30,
-        maxRetryDuration: 300,
-        contextMenuEnabled: false,
-        alwaysSaveAllFiles: true,
-      })
+      vi.mocked(rdAPI.getUser).mockRejectedValueOnce(new Error('Bad token'))
 
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Processing...',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
+      await import('../service-worker')
 
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
-        id: 'torrent-1',
-        filename: 'Auto Select.mkv',
-        hash: '0123456789abcdef0123456789abcdef01234567',
-        status: 'waiting_files_selection' as const,
-        progress: 0,
-      })
+      const result = await messageHandler({ type: 'GET_ACCOUNT_INFO' })
+
+      expect(result).toEqual({ success: false, error: 'Bad token' })
+    })
+
+    it('checks premium expiry when the account alarm fires', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { notifyPremiumExpiring } = await import('../../utils/notifications')
 
       await import('../service-worker')
 
       const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
       const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      await alarmHandler({ name: 'poll-torrents' })
-
-      await new Promise(resolve => setTimeout(resolve, 100))
+      await alarmHandler({ name: 'check-account' })
 
-      expect(rdAPI.selectFiles).toHaveBeenCalledWith('torrent-1', 'all')
+      expect(rdAPI.getUser).toHaveBeenCalled()
+      expect(notifyPremiumExpiring).toHaveBeenCalled()
+      expect(rdAPI.getTorrentInfo).not.toHaveBeenCalled()
     })
+  })
 
-    it('handles downloaded status without links', async () => {
+  describe('account torrent sync', () => {
+    const HASH = 'a'.repeat(40)
+
+    it('mirrors account torrents that the extension does not track', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
+      const { mockRuntime, mockStorage } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      const mockTorrents = [
+      mockStorage.local.get.mockImplementation((keys: unknown) =>
+        Promise.resolve(
+          keys === 'torrents'
+            ? { torrents: [{ id: 'TRACKED', status: 'ready' }] }
+            : { accountTorrents: [] }
+        )
+      )
+      vi.mocked(rdAPI.getAllTorrents).mockResolvedValue([
+        { id: 'TRACKED', filename: 'tracked.mkv', hash: HASH, status: 'downloaded' },
         {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Processing...',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
+          id: 'RD1',
+          filename: 'Old Movie',
+          hash: HASH,
+          status: 'downloaded',
+          added: '2026-01-02T03:04:05.000Z',
         },
-      ]
+        { id: 'RD2', filename: 'Broken', hash: HASH, status: 'magnet_error' },
+        { id: 'RD3', filename: 'Queued', hash: HASH, status: 'queued' },
+      ] as any)
 
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      await import('../service-worker')
 
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
-        id: 'torrent-1',
-        filename: 'No Links.mkv',
-        hash: '0123456789abcdef0123456789abcdef01234567',
-        status: 'downloaded' as const,
-        progress: 100,
-        links: [],
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'SYNC_ACCOUNT_TORRENTS' })
+
+      expect(result).toEqual({ success: true, count: 3 })
+      const saved = mockStorage.local.set.mock.calls.find((call: any[]) => call[0].accountTorrents)
+      const accountTorrents = saved[0].accountTorrents
+      expect(accountTorrents.map((t: any) => [t.id, t.status])).toEqual([
+        ['RD1', 'ready'],
+        ['RD2', 'error'],
+        ['RD3', 'processing'],
+      ])
+      expect(accountTorrents[0]).toMatchObject({
+        source: 'account',
+        hash: HASH,
+        magnetLink: `magnet:?xt=urn:btih:${HASH}&dn=Old%20Movie`,
+        addedAt: Date.parse('2026-01-02T03:04:05.000Z'),
+        downloadUrl: null,
       })
+    })
 
-      await import('../service-worker')
+    it('keeps unrestricted links of ready torrents across syncs', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
-      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+      const links = [{ filename: 'movie.mkv', url: 'https://example.com/movie.mkv', filesize: 1 }]
+      mockStorage.local.get.mockImplementation((keys: unknown) =>
+        Promise.resolve(
+          keys === 'torrents'
+            ? {}
+            : {
+                accountTorrents: [{ id: 'RD1', status: 'ready', downloadUrl: links[0].url, links }],
+              }
+        )
+      )
+      vi.mocked(rdAPI.getAllTorrents).mockResolvedValue([
+        { id: 'RD1', filename: 'movie.mkv', hash: HASH, status: 'downloaded' },
+      ] as any)
 
-      await alarmHandler({ name: 'poll-torrents' })
+      await import('../service-worker')
 
-      await new Promise(resolve => setTimeout(resolve, 100))
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith({
-        torrents: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'torrent-1',
-            status: 'ready',
-            downloadUrl: null,
-          }),
-        ]),
-      })
+      await messageHandler({ type: 'SYNC_ACCOUNT_TORRENTS' })
+
+      const saved = mockStorage.local.set.mock.calls.find((call: any[]) => call[0].accountTorrents)
+      expect(saved[0].accountTorrents[0]).toMatchObject({ downloadUrl: links[0].url, links })
     })
 
-    it('handles error status during polling', async () => {
+    it('returns an error when the sync fails', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
+      const { mockRuntime, mockStorage } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Processing...',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
+      vi.mocked(rdAPI.getAllTorrents).mockRejectedValueOnce(new Error('Network error'))
 
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      await import('../service-worker')
 
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
-        id: 'torrent-1',
-        filename: 'Error.mkv',
-        hash: '0123456789abcdef0123456789abcdef01234567',
-        status: 'error' as const,
-        progress: 0,
-      })
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'SYNC_ACCOUNT_TORRENTS' })
+
+      expect(result).toEqual({ success: false, error: 'Network error' })
+      expect(mockStorage.local.set).not.toHaveBeenCalledWith(
+        expect.objectContaining({ accountTorrents: expect.anything() })
+      )
+    })
+
+    it('syncs when the account sync alarm fires', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
 
       await import('../service-worker')
 
       const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
       const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      await alarmHandler({ name: 'poll-torrents' })
-
-      await new Promise(resolve => setTimeout(resolve, 100))
+      await alarmHandler({ name: 'sync-account-torrents' })
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith({
-        torrents: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'torrent-1',
-            status: 'error',
-          }),
-        ]),
-      })
+      expect(rdAPI.getAllTorrents).toHaveBeenCalled()
+      expect(rdAPI.getTorrentInfo).not.toHaveBeenCalled()
     })
 
-    it('handles dead status during polling', async () => {
+    it('unrestricts the links of an account torrent on demand', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
+      const { mockRuntime, mockStorage } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Processing...',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
+      mockStorage.local.get.mockResolvedValue({
+        accountTorrents: [{ id: 'RD1', source: 'account', status: 'ready', downloadUrl: null }],
+      })
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'RD1',
+        status: 'downloaded',
+        links: ['https://real-debrid.com/d/RD1'],
+      } as any)
+      vi.mocked(rdAPI.unrestrictLink).mockResolvedValue({
+        download: 'https://example.com/unrestricted.mkv',
+        filename: 'file.mkv',
+        filesize: 100,
+      } as any)
 
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      await import('../service-worker')
 
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
-        id: 'torrent-1',
-        filename: 'Dead.mkv',
-        hash: '0123456789abcdef0123456789abcdef01234567',
-        status: 'dead' as const,
-        progress: 0,
-      })
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'UNRESTRICT_ACCOUNT_TORRENT', torrentId: 'RD1' })
+
+      expect(result.success).toBe(true)
+      expect(rdAPI.getTorrentInfo).toHaveBeenCalledWith('RD1')
+      expect(result.torrent.downloadUrl).toBe('https://example.com/unrestricted.mkv')
+      expect(mockStorage.local.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          accountTorrents: [
+            expect.objectContaining({ downloadUrl: 'https://example.com/unrestricted.mkv' }),
+          ],
+        })
+      )
+    })
+
+    it('returns an error for an unknown account torrent', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
 
       await import('../service-worker')
 
-      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
-      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      await alarmHandler({ name: 'poll-torrents' })
+      const result = await messageHandler({ type: 'UNRESTRICT_ACCOUNT_TORRENT', torrentId: 'nope' })
 
-      await new Promise(resolve => setTimeout(resolve, 100))
+      expect(result).toEqual({ success: false, error: 'Torrent not found' })
+    })
+  })
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith({
-        torrents: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'torrent-1',
-            status: 'error',
-          }),
-        ]),
+  describe('deleting from the account', () => {
+    it('deletes a torrent on Real-Debrid before removing it locally', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [{ id: 'RD1', status: 'ready', filename: 'a.mkv' }],
       })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'DELETE_TORRENT', torrentId: 'RD1' })
+
+      expect(result).toEqual({ success: true })
+      expect(rdAPI.deleteTorrent).toHaveBeenCalledWith('RD1')
+      expect(mockStorage.local.set).toHaveBeenCalledWith({ torrents: [] })
     })
 
-    it('updates filename when available during polling', async () => {
+    it('keeps the torrent when the deletion fails', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
+      const { mockRuntime, mockStorage } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Processing...',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
+      vi.mocked(rdAPI.deleteTorrent).mockRejectedValueOnce(new Error('Bad token'))
 
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      await import('../service-worker')
 
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
-        id: 'torrent-1',
-        filename: 'Updated Filename.mkv',
-        hash: '0123456789abcdef0123456789abcdef01234567',
-        status: 'downloading' as const,
-        progress: 50,
-      })
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      await import('../service-worker')
+      const result = await messageHandler({ type: 'DELETE_TORRENT', torrentId: 'RD1' })
 
-      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
-      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+      expect(result).toEqual({ success: false, error: 'Bad token' })
+      expect(mockStorage.local.set).not.toHaveBeenCalledWith(
+        expect.objectContaining({ torrents: expect.anything() })
+      )
+    })
 
-      await alarmHandler({ name: 'poll-torrents' })
+    it('removes torrents that are already gone from Real-Debrid', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { RdApiError } = await import('../../utils/rd-error')
 
-      await new Promise(resolve => setTimeout(resolve, 100))
+      vi.mocked(rdAPI.deleteTorrent).mockRejectedValueOnce(
+        new RdApiError('not_found', { status: 404 })
+      )
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith({
-        torrents: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'torrent-1',
-            filename: 'Updated Filename.mkv',
-          }),
-        ]),
-      })
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'DELETE_TORRENT', torrentId: 'RD1' })
+
+      expect(result).toEqual({ success: true })
     })
 
-    it('handles polling error gracefully', async () => {
+    it('only removes hoster items locally', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorage, mockAlarms } = webextension as any
+      const { mockRuntime, mockStorage } = webextension as any
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
-      const mockTorrents = [
-        {
-          id: 'torrent-1',
-          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Processing...',
-          status: 'processing',
-          addedAt: Date.now(),
-          lastRetry: Date.now(),
-          retryCount: 0,
-        },
-      ]
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [{ id: 'hoster-1', kind: 'hoster', status: 'ready', filename: 'a.zip' }],
+      })
 
-      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
-      mockStorage.local.set.mockResolvedValue(undefined)
+      await import('../service-worker')
 
-      vi.mocked(rdAPI.getTorrentInfo).mockRejectedValue(new Error('Polling error'))
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'DELETE_TORRENT', torrentId: 'hoster-1' })
+
+      expect(result).toEqual({ success: true })
+      expect(rdAPI.deleteTorrent).not.toHaveBeenCalled()
+    })
+
+    it('deletes completed extension torrents in bulk and reports failures', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockImplementation((keys: unknown) =>
+        Promise.resolve(
+          keys === 'torrents'
+            ? {
+                torrents: [
+                  { id: 'RD1', status: 'ready', filename: 'one.mkv' },
+                  { id: 'RD2', status: 'ready', filename: 'two.mkv' },
+                  { id: 'RD3', status: 'processing', filename: 'three.mkv' },
+                  { id: 'hoster-1', kind: 'hoster', status: 'ready', filename: 'four.zip' },
+                ],
+              }
+            : { accountTorrents: [{ id: 'RD4', status: 'ready', filename: 'five.mkv' }] }
+        )
+      )
+      vi.mocked(rdAPI.deleteTorrent).mockImplementation(async (id: string) => {
+        if (id === 'RD2') throw new Error('Unknown resource')
+      })
 
       await import('../service-worker')
 
-      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
-      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
-      // Should not throw
-      await alarmHandler({ name: 'poll-torrents' })
+      const result = await messageHandler({ type: 'DELETE_COMPLETED_FROM_ACCOUNT' })
 
-      await new Promise(resolve => setTimeout(resolve, 100))
+      expect(result).toEqual({
+        success: false,
+        deleted: 1,
+        failed: [{ id: 'RD2', filename: 'two.mkv', error: 'Unknown resource' }],
+      })
+      // The mirrored RD4 is account history, not something the extension added
+      expect(rdAPI.deleteTorrent).toHaveBeenCalledTimes(2)
+      expect(rdAPI.deleteTorrent).not.toHaveBeenCalledWith('RD4')
+      const savedTorrents = mockStorage.local.set.mock.calls.find(
+        (call: any[]) => call[0].torrents
+      )[0].torrents
+      expect(savedTorrents.map((t: any) => t.id)).toEqual(['RD2', 'RD3', 'hoster-1'])
+      expect(mockStorage.local.set).not.toHaveBeenCalledWith(
+        expect.objectContaining({ accountTorrents: expect.anything() })
+      )
     })
+  })
 
-    it('updates hash from API when missing', async () => {
+  describe('notification integration in polling', () => {
+    it('sends notifications when torrents complete during polling', async () => {
       const webextension = await import('webextension-polyfill')
       const { mockStorage, mockAlarms } = webextension as any
+      const { notifyTorrentStatusChange, showBatchCompleteNotification } =
+        await import('../../utils/notifications')
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
+      // Mock torrents that will complete
       const mockTorrents = [
         {
           id: 'torrent-1',
           magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
-          hash: undefined as any,
-          filename: 'Processing...',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Movie1.mkv',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+        {
+          id: 'torrent-2',
+          magnetLink: 'magnet:?xt=urn:btih:abcdef0123456789abcdef0123456789abcdef01',
+          hash: 'abcdef0123456789abcdef0123456789abcdef01',
+          filename: 'Movie2.mkv',
           status: 'processing',
           addedAt: Date.now(),
           lastRetry: Date.now(),
@@ -1147,36 +1141,63 @@ describe('service-worker', () => {
       mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
       mockStorage.local.set.mockResolvedValue(undefined)
 
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
-        id: 'torrent-1',
-        hash: '0123456789abcdef0123456789abcdef01234567',
-        filename: 'Updated.mkv',
-        status: 'downloading' as const,
-        progress: 50,
+      // Mock torrent info to show completion
+      vi.mocked(rdAPI.getTorrentInfo).mockImplementation((id: string) => {
+        if (id === 'torrent-1') {
+          return Promise.resolve({
+            id: 'torrent-1',
+            filename: 'Movie1.mkv',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+            status: 'downloaded' as const,
+            progress: 100,
+            links: ['https://example.com/movie1.mkv'],
+          })
+        } else if (id === 'torrent-2') {
+          return Promise.resolve({
+            id: 'torrent-2',
+            filename: 'Movie2.mkv',
+            hash: 'abcdef0123456789abcdef0123456789abcdef01',
+            status: 'downloaded' as const,
+            progress: 100,
+            links: ['https://example.com/movie2.mkv'],
+          })
+        }
+        return Promise.reject(new Error('Unknown torrent'))
+      })
+
+      vi.mocked(rdAPI.unrestrictLink).mockResolvedValue({
+        id: 'unrestrict-1',
+        filename: 'unrestricted.mkv',
+        filesize: 1073741824,
+        link: 'https://example.com/link.mkv',
+        host: 'example.com',
+        chunks: 1,
+        crc: 0,
+        download: 'https://example.com/unrestricted.mkv',
+        streamable: 0,
       })
 
       await import('../service-worker')
 
+      // Get the alarm listener
       const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
       const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
+      // Trigger alarm
       await alarmHandler({ name: 'poll-torrents' })
 
+      // Wait for async operations
       await new Promise(resolve => setTimeout(resolve, 100))
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith({
-        torrents: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'torrent-1',
-            hash: '0123456789abcdef0123456789abcdef01234567',
-          }),
-        ]),
-      })
+      expect(notifyTorrentStatusChange).toHaveBeenCalledTimes(2)
+      expect(showBatchCompleteNotification).toHaveBeenCalledWith(2, 0)
     })
 
-    it('handles unrestrictLink error during polling', async () => {
+    it('sends notifications when torrents fail during polling', async () => {
       const webextension = await import('webextension-polyfill')
       const { mockStorage, mockAlarms } = webextension as any
+      const { notifyTorrentStatusChange, showBatchCompleteNotification } =
+        await import('../../utils/notifications')
       const { rdAPI } = await import('../../utils/realdebrid-api')
 
       const mockTorrents = [
@@ -1184,7 +1205,17 @@ describe('service-worker', () => {
           id: 'torrent-1',
           magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
           hash: '0123456789abcdef0123456789abcdef01234567',
-          filename: 'Processing...',
+          filename: 'Failed1.mkv',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+        {
+          id: 'torrent-2',
+          magnetLink: 'magnet:?xt=urn:btih:abcdef0123456789abcdef0123456789abcdef01',
+          hash: 'abcdef0123456789abcdef0123456789abcdef01',
+          filename: 'Failed2.mkv',
           status: 'processing',
           addedAt: Date.now(),
           lastRetry: Date.now(),
@@ -1195,34 +1226,2171 @@ describe('service-worker', () => {
       mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
       mockStorage.local.set.mockResolvedValue(undefined)
 
-      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
-        id: 'torrent-1',
+      // Mock torrent info to show errors
+      vi.mocked(rdAPI.getTorrentInfo).mockImplementation((id: string) => {
+        if (id === 'torrent-1') {
+          return Promise.resolve({
+            id: 'torrent-1',
+            filename: 'Failed1.mkv',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+            status: 'error' as const,
+            progress: 0,
+          })
+        } else if (id === 'torrent-2') {
+          return Promise.resolve({
+            id: 'torrent-2',
+            filename: 'Failed2.mkv',
+            hash: 'abcdef0123456789abcdef0123456789abcdef01',
+            status: 'error' as const,
+            progress: 0,
+          })
+        }
+        return Promise.reject(new Error('Unknown torrent'))
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(notifyTorrentStatusChange).toHaveBeenCalledTimes(2)
+      expect(showBatchCompleteNotification).toHaveBeenCalledWith(0, 2)
+    })
+  })
+
+  describe('existing message handlers', () => {
+    it('handles ADD_MAGNET message', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({ torrents: [] })
+      vi.mocked(rdAPI.addMagnet).mockResolvedValue({
+        id: 'new-torrent-id',
+        uri: 'https://real-debrid.com/torrent/new-torrent-id',
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_MAGNET',
+        magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+      })
+
+      expect(result).toHaveProperty('success', true)
+      expect(rdAPI.addMagnet).toHaveBeenCalledWith(
+        'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567'
+      )
+    })
+
+    it('handles ADD_MAGNET with a base32 info hash', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({ torrents: [] })
+      vi.mocked(rdAPI.addMagnet).mockResolvedValue({ id: 'base32-id', uri: '' })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_MAGNET',
+        magnetLink: 'magnet:?xt=urn:btih:AERUKZ4JVPG66AJDIVTYTK6N54ASGRLH&dn=Base32',
+      })
+
+      expect(result).toHaveProperty('success', true)
+      expect(result.torrent.hash).toBe('0123456789abcdef0123456789abcdef01234567')
+    })
+
+    it('rejects ADD_MAGNET without an info hash', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'ADD_MAGNET', magnetLink: 'magnet:?dn=x' })
+
+      expect(result).toEqual({ error: 'Invalid magnet link' })
+      expect(rdAPI.addMagnet).not.toHaveBeenCalled()
+    })
+
+    it('adds magnets intercepted on web pages', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage, mockAction } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        interceptMagnetLinks: true,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+      })
+      mockStorage.local.get.mockResolvedValue({ torrents: [] })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler(
+        {
+          type: 'INTERCEPTED_MAGNET',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+        },
+        { tab: { url: 'https://example.com/torrents/1' } }
+      )
+
+      expect(result).toHaveProperty('success', true)
+      expect(rdAPI.addMagnet).toHaveBeenCalled()
+      expect(mockAction.openPopup).not.toHaveBeenCalled()
+    })
+
+    it('tells content scripts in frames the URL of their tab', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      expect(
+        await messageHandler(
+          { type: 'GET_TAB_URL' },
+          { tab: { url: 'https://example.com/' }, url: 'https://embed.example/frame' }
+        )
+      ).toEqual({ url: 'https://example.com/' })
+    })
+
+    it('hands intercepted magnets over to the popup in popup mode', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage, mockAction } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        interceptMagnetLinks: true,
+        interceptAction: 'popup',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+      const magnetLink = 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567'
+
+      const result = await messageHandler(
+        { type: 'INTERCEPTED_MAGNET', magnetLink },
+        { tab: { url: 'https://example.com/' } }
+      )
+
+      expect(result).toEqual({ success: true, pending: true })
+      expect(mockStorage.local.set).toHaveBeenCalledWith({ pendingMagnet: magnetLink })
+      expect(mockAction.openPopup).toHaveBeenCalled()
+      expect(rdAPI.addMagnet).not.toHaveBeenCalled()
+    })
+
+    it('rejects intercepted magnets from sites outside the allow list', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        interceptMagnetLinks: true,
+        interceptAction: 'add',
+        interceptSiteMode: 'allowlist',
+        interceptSiteList: ['trusted.org'],
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler(
+        {
+          type: 'INTERCEPTED_MAGNET',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+        },
+        { tab: { url: 'https://example.com/' } }
+      )
+
+      expect(result).toEqual({ error: 'Magnet interception is disabled for this site' })
+      expect(rdAPI.addMagnet).not.toHaveBeenCalled()
+    })
+
+    it('handles ADD_HOSTER_LINK message', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({ torrents: [] })
+      vi.mocked(rdAPI.checkLink).mockResolvedValue({
+        host: 'hoster.com',
+        link: 'https://hoster.com/file/abc',
+        filename: 'movie.mkv',
+        filesize: 1000,
+        supported: 1,
+      })
+      vi.mocked(rdAPI.unrestrictLink).mockResolvedValue({
+        download: 'https://download.real-debrid.com/movie.mkv',
+        filename: 'movie.mkv',
+        filesize: 1000,
+      } as any)
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_HOSTER_LINK',
+        link: ' https://hoster.com/file/abc ',
+      })
+
+      expect(result).toHaveProperty('success', true)
+      expect(result.torrent).toMatchObject({
+        kind: 'hoster',
+        host: 'hoster.com',
+        sourceUrl: 'https://hoster.com/file/abc',
+        filename: 'movie.mkv',
+        downloadUrl: 'https://download.real-debrid.com/movie.mkv',
+        status: 'ready',
+      })
+      expect(rdAPI.unrestrictFolder).not.toHaveBeenCalled()
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: [expect.objectContaining({ kind: 'hoster' })],
+      })
+    })
+
+    it('expands hoster folder links into one item with every file', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({ torrents: [] })
+      vi.mocked(rdAPI.checkLink).mockRejectedValue(new Error('Request failed'))
+      vi.mocked(rdAPI.unrestrictFolder).mockResolvedValue([
+        'https://hoster.com/file/1',
+        'https://hoster.com/file/2',
+      ])
+      vi.mocked(rdAPI.unrestrictLink).mockImplementation(
+        async (link: string) =>
+          ({
+            download: `https://download.real-debrid.com/${link.split('/').pop()}`,
+            filename: `part${link.split('/').pop()}.rar`,
+            filesize: 10,
+          }) as any
+      )
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_HOSTER_LINK',
+        link: 'https://www.hoster.com/folder/xyz',
+      })
+
+      expect(result).toHaveProperty('success', true)
+      expect(result.torrent.filename).toBe('hoster.com folder (2 files)')
+      expect(result.torrent.links).toHaveLength(2)
+      expect(result.torrent.links[1].filename).toBe('part2.rar')
+    })
+
+    it('rejects unsupported and duplicate hoster links', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [
+          { id: 'h1', kind: 'hoster', sourceUrl: 'https://hoster.com/file/dup', status: 'ready' },
+        ],
+      })
+      vi.mocked(rdAPI.checkLink).mockResolvedValue({ supported: 0 } as any)
+      vi.mocked(rdAPI.unrestrictFolder).mockResolvedValue([])
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      expect(
+        await messageHandler({ type: 'ADD_HOSTER_LINK', link: 'https://unknown.org/file' })
+      ).toEqual({ error: 'Unsupported hoster link' })
+      expect(
+        await messageHandler({ type: 'ADD_HOSTER_LINK', link: 'https://hoster.com/file/dup' })
+      ).toHaveProperty('error', 'Link already exists')
+      expect(await messageHandler({ type: 'ADD_HOSTER_LINK', link: 'magnet:?dn=x' })).toEqual({
+        error: 'Invalid hoster link',
+      })
+      expect(rdAPI.unrestrictLink).not.toHaveBeenCalled()
+    })
+
+    it('handles ADD_TORRENT_FILE message', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({ torrents: [] })
+      vi.mocked(rdAPI.addTorrentFile).mockResolvedValue({ id: 'file-torrent-id', uri: '' })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_TORRENT_FILE',
+        fileData: btoa(`d4:info${TORRENT_INFO}e`),
+        fileName: 'test.torrent',
+      })
+
+      expect(result).toHaveProperty('success', true)
+      expect(result.torrent).toMatchObject({
+        id: 'file-torrent-id',
+        hash: TORRENT_INFO_HASH,
+        magnetLink: `magnet:?xt=urn:btih:${TORRENT_INFO_HASH}&dn=test.bin`,
+      })
+      expect(rdAPI.addTorrentFile).toHaveBeenCalledWith(expect.any(ArrayBuffer))
+      expect(rdAPI.addMagnet).not.toHaveBeenCalled()
+    })
+
+    it('detects duplicate torrent files by info hash', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [{ id: 'existing', hash: TORRENT_INFO_HASH, status: 'ready' }],
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_TORRENT_FILE',
+        fileData: btoa(`d4:info${TORRENT_INFO}e`),
+        fileName: 'test.torrent',
+      })
+
+      expect(result).toHaveProperty('error', 'Torrent already exists')
+      expect(rdAPI.addTorrentFile).not.toHaveBeenCalled()
+    })
+
+    it('rejects ADD_TORRENT_FILE with an invalid file', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_TORRENT_FILE',
+        fileData: btoa('<html>not a torrent</html>'),
+        fileName: 'fake.torrent',
+      })
+
+      expect(result).toEqual({ error: 'Invalid torrent file' })
+      expect(rdAPI.addTorrentFile).not.toHaveBeenCalled()
+    })
+
+    it('handles RETRY_TORRENT message', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Error.mkv',
+          status: 'error',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'RETRY_TORRENT', torrentId: 'torrent-1' })
+
+      expect(result).toEqual({ success: true })
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({ id: 'torrent-1', status: 'processing', retryCount: 1 }),
+        ]),
+      })
+    })
+
+    it('handles SELECT_FILES message', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Test.mkv',
+          status: 'selecting_files',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'SELECT_FILES',
+        torrentId: 'torrent-1',
+        selectedFiles: 'all',
+      })
+
+      expect(result).toEqual({ success: true })
+      expect(rdAPI.selectFiles).toHaveBeenCalledWith('torrent-1', 'all')
+    })
+
+    it('handles GET_TORRENT_INFO message', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrentInfo = {
+        id: 'torrent-1',
+        filename: 'Test.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'waiting_files_selection' as const,
+        progress: 100,
+        files: [
+          { id: 1, path: 'file1.mkv', bytes: 1073741824, selected: 0 },
+          { id: 2, path: 'file2.srt', bytes: 102400, selected: 0 },
+        ],
+      }
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue(mockTorrentInfo)
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'GET_TORRENT_INFO', torrentId: 'torrent-1' })
+
+      expect(result).toEqual({ success: true, info: mockTorrentInfo })
+      expect(rdAPI.getTorrentInfo).toHaveBeenCalledWith('torrent-1')
+    })
+  })
+
+  describe('polling branches', () => {
+    it('refreshes many pending torrents with one list request', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const ids = ['t1', 't2', 't3', 't4', 't5']
+      mockStorage.local.get.mockResolvedValue({
+        torrents: ids.map(id => ({
+          id,
+          magnetLink: `magnet:?xt=urn:btih:${id}`,
+          hash: '',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        })),
+      })
+      // t5 is older than the first page and has to be fetched on its own
+      vi.mocked(rdAPI.getTorrentsPage).mockResolvedValueOnce({
+        torrents: ids.slice(0, 4).map(id => ({
+          id,
+          filename: `${id}.mkv`,
+          hash: '',
+          status: 'downloading',
+          progress: 50,
+        })) as any,
+        totalCount: 4,
+      })
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValueOnce({
+        id: 't5',
+        filename: 't5.mkv',
+        hash: '',
+        status: 'downloading',
+        progress: 10,
+      } as any)
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(rdAPI.getTorrentsPage).toHaveBeenCalledTimes(1)
+      expect(rdAPI.getTorrentInfo).toHaveBeenCalledTimes(1)
+      expect(rdAPI.getTorrentInfo).toHaveBeenCalledWith('t5')
+      const saved = mockStorage.local.set.mock.calls.find((call: any[]) => call[0].torrentProgress)
+      expect(Object.keys(saved[0].torrentProgress)).toEqual(ids)
+    })
+
+    it('polls a few pending torrents one by one', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [
+          {
+            id: 'torrent-1',
+            magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+            filename: 'One.mkv',
+            status: 'processing',
+            addedAt: Date.now(),
+            lastRetry: Date.now(),
+            retryCount: 0,
+          },
+        ],
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(rdAPI.getTorrentsPage).not.toHaveBeenCalled()
+      expect(rdAPI.getTorrentInfo).toHaveBeenCalledWith('torrent-1')
+    })
+
+    it('marks a torrent as failed when Real-Debrid no longer has it', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { RdApiError } = await import('../../utils/rd-error')
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [
+          {
+            id: 'torrent-1',
+            magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+            filename: 'Gone.mkv',
+            status: 'processing',
+            addedAt: Date.now(),
+            lastRetry: Date.now(),
+            retryCount: 0,
+          },
+        ],
+      })
+      vi.mocked(rdAPI.getTorrentInfo).mockRejectedValueOnce(
+        new RdApiError('not_found', { status: 404 })
+      )
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      const saved = mockStorage.local.set.mock.calls.find((call: any[]) => call[0].torrents)
+      expect(saved[0].torrents[0]).toMatchObject({
+        status: 'error',
+        error: 'The torrent no longer exists on Real-Debrid.',
+      })
+    })
+
+    it('keeps polling torrents after temporary errors', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { RdApiError } = await import('../../utils/rd-error')
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [
+          {
+            id: 'torrent-1',
+            magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+            filename: 'Busy.mkv',
+            status: 'processing',
+            addedAt: Date.now(),
+            lastRetry: Date.now(),
+            retryCount: 0,
+          },
+        ],
+      })
+      vi.mocked(rdAPI.getTorrentInfo).mockRejectedValueOnce(
+        new RdApiError('service_unavailable', { status: 503 })
+      )
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(mockStorage.local.set).not.toHaveBeenCalledWith(
+        expect.objectContaining({ torrents: expect.anything() })
+      )
+    })
+
+    it('stops polling when the API token is rejected', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { RdApiError } = await import('../../utils/rd-error')
+
+      const torrent = (id: string) => ({
+        id,
+        magnetLink: `magnet:?xt=urn:btih:${id}`,
+        hash: '',
+        filename: 'Processing...',
+        status: 'processing',
+        addedAt: Date.now(),
+        lastRetry: Date.now(),
+        retryCount: 0,
+      })
+      mockStorage.local.get.mockResolvedValue({ torrents: [torrent('t1'), torrent('t2')] })
+      vi.mocked(rdAPI.getTorrentInfo).mockRejectedValueOnce(
+        new RdApiError('bad_token', { status: 401, code: 8 })
+      )
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(rdAPI.getTorrentInfo).toHaveBeenCalledTimes(1)
+    })
+
+    it('stores live speed, seeders and ETA for downloading torrents', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Downloading.mkv',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValueOnce({
+        id: 'torrent-1',
+        filename: 'Downloading.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'downloading',
+        progress: 25,
+        bytes: 4000000,
+        original_bytes: 5000000,
+        speed: 100000,
+        seeders: 12,
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrentProgress: {
+          'torrent-1': {
+            progress: 25,
+            status: 'downloading',
+            downloadSpeed: 100000,
+            uploadSpeed: undefined,
+            eta: 30, // 3 MB left at 100 KB/s
+            seeds: 12,
+          },
+        },
+      })
+    })
+
+    it('clears live progress once no torrent is processing', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [{ id: 'torrent-1', status: 'ready' }],
+        torrentProgress: { 'torrent-1': { progress: 99, status: 'downloading' } },
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(mockStorage.local.set).toHaveBeenCalledWith({ torrentProgress: {} })
+    })
+
+    it('handles timeout during polling', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { notifyTorrentStatusChange } = await import('../../utils/notifications')
+
+      // Mock torrent that will timeout
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Timeout.mkv',
+          status: 'processing',
+          addedAt: Date.now() - 400000, // Added more than 300 seconds ago
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(notifyTorrentStatusChange).toHaveBeenCalledWith('torrent-1', 'Timeout.mkv', 'timeout')
+    })
+
+    it('handles waiting_files_selection status without auto-select', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Select Files.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'waiting_files_selection' as const,
+        progress: 0,
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({
+            id: 'torrent-1',
+            status: 'selecting_files',
+            filename: 'Select Files.mkv',
+          }),
+        ]),
+      })
+    })
+
+    it('handles waiting_files_selection status with auto-select', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      // Enable auto-select in settings
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        contextMenuEnabled: false,
+        alwaysSaveAllFiles: true,
+      })
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Auto Select.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'waiting_files_selection' as const,
+        progress: 0,
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(rdAPI.selectFiles).toHaveBeenCalledWith('torrent-1', 'all')
+    })
+
+    it('selects files with the auto-selection rules', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: {
+          enabled: true,
+          extensions: ['mkv'],
+          minSizeMB: 100,
+          largestOnly: false,
+          include: '',
+          exclude: 'sample',
+        },
+      })
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [
+          {
+            id: 'torrent-1',
+            magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+            filename: 'Processing...',
+            status: 'processing',
+            addedAt: Date.now(),
+            lastRetry: Date.now(),
+            retryCount: 0,
+          },
+        ],
+      })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Show.S01',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'waiting_files_selection' as const,
+        progress: 0,
+        files: [
+          { id: 1, path: '/Show.S01/Show.S01E01.mkv', bytes: 900 * 1024 * 1024, selected: 0 },
+          { id: 2, path: '/Show.S01/Show.S01E02.mkv', bytes: 800 * 1024 * 1024, selected: 0 },
+          { id: 3, path: '/Show.S01/Sample/sample.mkv', bytes: 200 * 1024 * 1024, selected: 0 },
+          { id: 4, path: '/Show.S01/Show.S01.nfo', bytes: 1024, selected: 0 },
+        ],
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(rdAPI.selectFiles).toHaveBeenCalledWith('torrent-1', '1,2')
+    })
+
+    it('falls back to the file selector when no file matches the rules', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: {
+          enabled: true,
+          extensions: ['iso'],
+          minSizeMB: 0,
+          largestOnly: false,
+          include: '',
+          exclude: '',
+        },
+      })
+
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [
+          {
+            id: 'torrent-1',
+            magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+            filename: 'Processing...',
+            status: 'processing',
+            addedAt: Date.now(),
+            lastRetry: Date.now(),
+            retryCount: 0,
+          },
+        ],
+      })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Show.S01',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'waiting_files_selection' as const,
+        progress: 0,
+        files: [{ id: 1, path: '/Show.S01/Show.S01E01.mkv', bytes: 1024, selected: 0 }],
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(rdAPI.selectFiles).not.toHaveBeenCalled()
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({ id: 'torrent-1', status: 'selecting_files' }),
+        ]),
+      })
+    })
+
+    it('handles downloaded status without links', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'No Links.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'downloaded' as const,
+        progress: 100,
+        links: [],
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({
+            id: 'torrent-1',
+            status: 'ready',
+            downloadUrl: null,
+          }),
+        ]),
+      })
+    })
+
+    it('handles error status during polling', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Error.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'error' as const,
+        progress: 0,
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({
+            id: 'torrent-1',
+            status: 'error',
+          }),
+        ]),
+      })
+    })
+
+    it('handles dead status during polling', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Dead.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'dead' as const,
+        progress: 0,
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({
+            id: 'torrent-1',
+            status: 'error',
+          }),
+        ]),
+      })
+    })
+
+    it('updates filename when available during polling', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Updated Filename.mkv',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'downloading' as const,
+        progress: 50,
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({
+            id: 'torrent-1',
+            filename: 'Updated Filename.mkv',
+          }),
+        ]),
+      })
+    })
+
+    it('keeps torrents added while polling', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const pending = {
+        id: 'torrent-1',
+        magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        filename: 'Processing...',
+        downloadUrl: null,
+        status: 'processing',
+        addedAt: Date.now(),
+        lastRetry: Date.now(),
+        retryCount: 0,
+      }
+      const added = {
+        ...pending,
+        id: 'torrent-2',
+        hash: 'abcdef0123456789abcdef0123456789abcdef01',
+      }
+      let stored: unknown[] = [pending]
+      mockStorage.local.get.mockImplementation(() => Promise.resolve({ torrents: stored }))
+      mockStorage.local.set.mockImplementation((items: { torrents?: unknown[] }) => {
+        if (items.torrents) stored = items.torrents
+        return Promise.resolve()
+      })
+
+      // Another torrent is added while the API call is in flight
+      vi.mocked(rdAPI.getTorrentInfo).mockImplementationOnce(async () => {
+        stored = [added, ...stored]
+        return {
+          id: 'torrent-1',
+          filename: 'Updated Filename.mkv',
+          hash: pending.hash,
+          status: 'downloading' as const,
+          progress: 50,
+        }
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(stored).toEqual([
+        added,
+        expect.objectContaining({ id: 'torrent-1', filename: 'Updated Filename.mkv' }),
+      ])
+    })
+
+    it('handles polling error gracefully', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockRejectedValue(new Error('Polling error'))
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      // Should not throw
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+    })
+
+    it('updates hash from API when missing', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: undefined as any,
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        filename: 'Updated.mkv',
+        status: 'downloading' as const,
+        progress: 50,
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({
+            id: 'torrent-1',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+          }),
+        ]),
+      })
+    })
+
+    it('handles unrestrictLink error during polling', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
         filename: 'Downloaded.mkv',
         hash: '0123456789abcdef0123456789abcdef01234567',
         status: 'downloaded' as const,
         progress: 100,
-        links: ['https://example.com/file.mkv'],
+        links: ['https://example.com/file.mkv'],
+      })
+
+      vi.mocked(rdAPI.unrestrictLink).mockRejectedValue(new Error('Unrestrict error'))
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      // Left processing, so the next poll retries the link
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: expect.arrayContaining([
+          expect.objectContaining({
+            id: 'torrent-1',
+            status: 'processing',
+            filename: 'Downloaded.mkv',
+          }),
+        ]),
+      })
+    })
+
+    it('unrestricts every link of a multi-file torrent', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Processing...',
+          status: 'processing',
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      mockStorage.local.get.mockResolvedValue({ torrents: mockTorrents })
+      mockStorage.local.set.mockResolvedValue(undefined)
+
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Season.Pack',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        status: 'downloaded' as const,
+        progress: 100,
+        links: [
+          'https://real-debrid.com/d/ep1',
+          'https://real-debrid.com/d/ep2',
+          'https://real-debrid.com/d/ep3',
+        ],
+      })
+
+      vi.mocked(rdAPI.unrestrictLink).mockImplementation((link: string) => {
+        const name = link.split('/').pop()
+        return Promise.resolve({
+          id: name!,
+          filename: `${name}.mkv`,
+          filesize: 1024,
+          link,
+          host: 'real-debrid.com',
+          chunks: 1,
+          crc: 0,
+          download: `https://download.example.com/${name}.mkv`,
+          streamable: 1,
+        })
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(rdAPI.unrestrictLink).toHaveBeenCalledTimes(3)
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: [
+          expect.objectContaining({
+            id: 'torrent-1',
+            status: 'ready',
+            downloadUrl: 'https://download.example.com/ep1.mkv',
+            links: [
+              {
+                url: 'https://download.example.com/ep1.mkv',
+                filename: 'ep1.mkv',
+                size: 1024,
+                selected: true,
+                id: 'ep1',
+                streamable: true,
+              },
+              {
+                url: 'https://download.example.com/ep2.mkv',
+                filename: 'ep2.mkv',
+                size: 1024,
+                selected: true,
+                id: 'ep2',
+                streamable: true,
+              },
+              {
+                url: 'https://download.example.com/ep3.mkv',
+                filename: 'ep3.mkv',
+                size: 1024,
+                selected: true,
+                id: 'ep3',
+                streamable: true,
+              },
+            ],
+          }),
+        ],
+      })
+    })
+
+    it('stores all links when reusing a downloaded RD torrent', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({ torrents: [] })
+      vi.mocked(rdAPI.getTorrents).mockResolvedValue([
+        {
+          id: 'rd-torrent',
+          filename: 'Season.Pack',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          status: 'downloaded' as const,
+          progress: 100,
+          links: ['https://real-debrid.com/d/ep1', 'https://real-debrid.com/d/ep2'],
+        },
+      ])
+      vi.mocked(rdAPI.unrestrictLink).mockImplementation((link: string) => {
+        const name = link.split('/').pop()
+        return Promise.resolve({
+          id: name!,
+          filename: `${name}.mkv`,
+          filesize: 2048,
+          link,
+          host: 'real-debrid.com',
+          chunks: 1,
+          crc: 0,
+          download: `https://download.example.com/${name}.mkv`,
+          streamable: 1,
+        })
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_MAGNET',
+        magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+      })
+
+      expect(result).toMatchObject({ success: true, reused: true })
+      expect(result.torrent.downloadUrl).toBe('https://download.example.com/ep1.mkv')
+      expect(result.torrent.links).toHaveLength(2)
+      expect(rdAPI.addMagnet).not.toHaveBeenCalled()
+    })
+
+    it('leaves a reused RD torrent processing when a link fails to unrestrict', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime, mockStorage } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+
+      mockStorage.local.get.mockResolvedValue({ torrents: [] })
+      vi.mocked(rdAPI.getTorrents).mockResolvedValue([
+        {
+          id: 'rd-torrent',
+          filename: 'Season.Pack',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          status: 'downloaded' as const,
+          progress: 100,
+          links: ['https://real-debrid.com/d/ep1', 'https://real-debrid.com/d/ep2'],
+        },
+      ])
+      vi.mocked(rdAPI.unrestrictLink).mockImplementation((link: string) => {
+        if (link.endsWith('ep2')) {
+          return Promise.reject(new Error('Unrestrict error'))
+        }
+        return Promise.resolve({
+          id: 'ep1',
+          filename: 'ep1.mkv',
+          filesize: 2048,
+          link,
+          host: 'real-debrid.com',
+          chunks: 1,
+          crc: 0,
+          download: 'https://download.example.com/ep1.mkv',
+          streamable: 1,
+        })
+      })
+
+      await import('../service-worker')
+
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_MAGNET',
+        magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+      })
+
+      expect(result).toMatchObject({ success: true, reused: true })
+      expect(result.torrent).toMatchObject({ status: 'processing', downloadUrl: null })
+      expect(result.torrent.links).toBeUndefined()
+    })
+  })
+
+  describe('multiple accounts', () => {
+    const HASH = '0123456789abcdef0123456789abcdef01234567'
+    const ACCOUNT_SETTINGS = {
+      apiToken: 'test-token',
+      maxListSize: 10,
+      maxRetryDuration: 300,
+      accounts: [{ id: 'acc-2', name: 'Backup', apiToken: 'backup-token' }],
+    }
+
+    // Separate client for the 'acc-2' account; the default account keeps the shared mock
+    async function mockBackupAccount() {
+      const { rdAPI, getAccountAPI } = await import('../../utils/realdebrid-api')
+      const backupAPI = {
+        ...rdAPI,
+        getTorrents: vi.fn(() => Promise.resolve([])),
+        addMagnet: vi.fn(() => Promise.resolve({ id: 'backup-id', uri: '' })),
+        getTorrentInfo: vi.fn(),
+        checkInstantAvailability: vi.fn(() => Promise.resolve({})),
+      }
+      vi.mocked(getAccountAPI).mockImplementation(id =>
+        id === 'acc-2' ? (backupAPI as any) : rdAPI
+      )
+      return { rdAPI, backupAPI }
+    }
+
+    it('adds magnets to the active account', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime } = webextension as any
+      const { rdAPI, backupAPI } = await mockBackupAccount()
+      mockStorage.sync.get.mockResolvedValue({ ...ACCOUNT_SETTINGS, activeAccountId: 'acc-2' })
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_MAGNET',
+        magnetLink: `magnet:?xt=urn:btih:${HASH}`,
+      })
+
+      expect(result.torrent).toMatchObject({ id: 'backup-id', accountId: 'acc-2' })
+      expect(backupAPI.addMagnet).toHaveBeenCalled()
+      expect(rdAPI.addMagnet).not.toHaveBeenCalled()
+    })
+
+    it('checks availability on the active account', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime } = webextension as any
+      const { rdAPI, backupAPI } = await mockBackupAccount()
+      mockStorage.sync.get.mockResolvedValue({ ...ACCOUNT_SETTINGS, activeAccountId: 'acc-2' })
+      backupAPI.checkInstantAvailability.mockResolvedValue({
+        [HASH]: { rd: [{ '1': { filename: 'Movie.mkv', filesize: 1024 } }] },
+      })
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'CHECK_AVAILABILITY',
+        magnetLink: `magnet:?xt=urn:btih:${HASH}`,
+      })
+
+      expect(result.availability).toMatchObject({ status: 'cached', source: 'api' })
+      expect(backupAPI.checkInstantAvailability).toHaveBeenCalledWith(HASH)
+      expect(rdAPI.checkInstantAvailability).not.toHaveBeenCalled()
+    })
+
+    it('falls back to the next account when one has too many active downloads', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime } = webextension as any
+      const { RdApiError } = await import('../../utils/rd-error')
+      const { rdAPI } = await mockBackupAccount()
+      mockStorage.sync.get.mockResolvedValue({ ...ACCOUNT_SETTINGS, activeAccountId: null })
+      vi.mocked(rdAPI.getTorrents).mockResolvedValueOnce([])
+      vi.mocked(rdAPI.addMagnet).mockRejectedValueOnce(
+        new RdApiError('too_many_active_downloads', { status: 509, code: 21 })
+      )
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_MAGNET',
+        magnetLink: `magnet:?xt=urn:btih:${HASH}`,
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.torrent).toMatchObject({ id: 'backup-id', accountId: 'acc-2' })
+    })
+
+    it('reports the error when every account is at its limit', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime } = webextension as any
+      const { RdApiError } = await import('../../utils/rd-error')
+      const { rdAPI, backupAPI } = await mockBackupAccount()
+      const limitError = new RdApiError('too_many_active_downloads', { status: 509, code: 21 })
+      mockStorage.sync.get.mockResolvedValue({ ...ACCOUNT_SETTINGS, activeAccountId: null })
+      vi.mocked(rdAPI.getTorrents).mockResolvedValueOnce([])
+      vi.mocked(rdAPI.addMagnet).mockRejectedValueOnce(limitError)
+      backupAPI.addMagnet.mockRejectedValueOnce(limitError)
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'ADD_MAGNET',
+        magnetLink: `magnet:?xt=urn:btih:${HASH}`,
+      })
+
+      expect(result).toEqual({ error: limitError.message })
+      expect(mockStorage.local.set).not.toHaveBeenCalled()
+    })
+
+    it('polls each torrent with the client of its account', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { RdApiError } = await import('../../utils/rd-error')
+      const { rdAPI, backupAPI } = await mockBackupAccount()
+      mockStorage.sync.get.mockResolvedValue(ACCOUNT_SETTINGS)
+
+      const torrent = (id: string, accountId?: string) => ({
+        id,
+        magnetLink: `magnet:?xt=urn:btih:${id}`,
+        hash: '',
+        filename: 'Processing...',
+        status: 'processing',
+        addedAt: Date.now(),
+        lastRetry: Date.now(),
+        retryCount: 0,
+        accountId,
+      })
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [torrent('t1', 'acc-2'), torrent('t2', 'acc-2'), torrent('t3')],
+      })
+      // A rejected token only stops polling for that account
+      backupAPI.getTorrentInfo.mockRejectedValueOnce(
+        new RdApiError('bad_token', { status: 401, code: 8 })
+      )
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValueOnce({
+        id: 't3',
+        filename: 't3.mkv',
+        hash: '',
+        status: 'downloading',
+        progress: 40,
+      } as any)
+
+      await import('../service-worker')
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(backupAPI.getTorrentInfo).toHaveBeenCalledTimes(1)
+      expect(backupAPI.getTorrentInfo).toHaveBeenCalledWith('t1')
+      expect(rdAPI.getTorrentInfo).toHaveBeenCalledWith('t3')
+    })
+  })
+
+  describe('history archive', () => {
+    const entry = {
+      id: 'old-id',
+      magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+      hash: '0123456789abcdef0123456789abcdef01234567',
+      filename: 'Old.mkv',
+      downloadUrl: 'https://example.com/expired.mkv',
+      status: 'ready',
+      addedAt: 1000,
+      lastRetry: 1000,
+      retryCount: 0,
+      archivedAt: 2000,
+    }
+
+    it('unrestricts the links of an archived torrent again', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { getHistoryEntry, saveHistoryEntry } = await import('../../utils/history-db')
+      vi.mocked(getHistoryEntry).mockResolvedValueOnce({ ...entry } as any)
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValueOnce({
+        id: 'old-id',
+        filename: 'Old.mkv',
+        hash: entry.hash,
+        status: 'downloaded',
+        progress: 100,
+        links: ['https://real-debrid.com/d/OLD'],
+      })
+      vi.mocked(rdAPI.unrestrictLink).mockResolvedValueOnce({
+        download: 'https://example.com/fresh.mkv',
+        filename: 'Old.mkv',
+        filesize: 100,
+      } as any)
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'UNRESTRICT_HISTORY_TORRENT',
+        torrentId: 'old-id',
+      })
+
+      expect(result.success).toBe(true)
+      expect(saveHistoryEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'old-id', downloadUrl: 'https://example.com/fresh.mkv' })
+      )
+    })
+
+    it('suggests re-adding the magnet when the torrent is gone from Real-Debrid', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { RdApiError } = await import('../../utils/rd-error')
+      const { getHistoryEntry, saveHistoryEntry } = await import('../../utils/history-db')
+      vi.mocked(getHistoryEntry).mockResolvedValueOnce({ ...entry } as any)
+      vi.mocked(rdAPI.getTorrentInfo).mockRejectedValueOnce(
+        new RdApiError('not_found', { status: 404 })
+      )
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'UNRESTRICT_HISTORY_TORRENT',
+        torrentId: 'old-id',
+      })
+
+      expect(result).toEqual({
+        success: false,
+        error: 'The torrent is no longer on Real-Debrid. Re-add the magnet instead.',
+      })
+      expect(saveHistoryEntry).not.toHaveBeenCalled()
+    })
+
+    it('reports unknown history entries', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'UNRESTRICT_HISTORY_TORRENT', torrentId: 'nope' })
+
+      expect(result).toEqual({ success: false, error: 'Torrent not found' })
+    })
+  })
+
+  describe('aria2', () => {
+    const aria2 = {
+      enabled: true,
+      rpcUrl: 'http://localhost:6800/jsonrpc',
+      secret: 'SECRET',
+      dir: '/downloads',
+      perTorrentFolder: true,
+      autoSend: false,
+    }
+    const readyTorrent = {
+      id: 'torrent-1',
+      magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+      hash: '0123456789abcdef0123456789abcdef01234567',
+      filename: 'Movie.mkv',
+      status: 'ready',
+      downloadUrl: 'https://example.com/movie.mkv',
+      addedAt: 1000,
+      lastRetry: 1000,
+      retryCount: 0,
+    }
+
+    it('sends a finished torrent to aria2', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime } = webextension as any
+      const { sendToAria2 } = await import('../../utils/aria2')
+      mockStorage.sync.get.mockResolvedValue({ apiToken: 'test-token', aria2 })
+      mockStorage.local.get.mockResolvedValue({ torrents: [{ ...readyTorrent }] })
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'SEND_TO_ARIA2', torrentId: 'torrent-1' })
+
+      expect(result).toEqual({ success: true, count: 1 })
+      expect(sendToAria2).toHaveBeenCalledWith(
+        aria2,
+        expect.objectContaining({ id: 'torrent-1', downloadUrl: readyTorrent.downloadUrl }),
+        []
+      )
+      expect(mockStorage.local.set).toHaveBeenCalledWith({
+        torrents: [expect.objectContaining({ id: 'torrent-1', sentToAria2At: expect.any(Number) })],
+      })
+    })
+
+    it('records a partial send and queues only the rest next time', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime } = webextension as any
+      const { sendToAria2, Aria2SendError } = await import('../../utils/aria2')
+      const links = ['ep1', 'ep2'].map(name => ({
+        url: `https://example.com/${name}.mkv`,
+        filename: `${name}.mkv`,
+        selected: true,
+      }))
+      const torrent = { ...readyTorrent, links }
+      mockStorage.sync.get.mockResolvedValue({ apiToken: 'test-token', aria2 })
+      mockStorage.local.get.mockResolvedValue({ torrents: [torrent] })
+      vi.mocked(sendToAria2).mockRejectedValueOnce(
+        new Aria2SendError('aria2: Invalid URI', [links[0].url])
+      )
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'SEND_TO_ARIA2', torrentId: 'torrent-1' })
+
+      expect(result).toEqual({
+        success: false,
+        count: 1,
+        error: 'aria2: Invalid URI (1 link queued; sending again queues the rest)',
+      })
+      const saved = mockStorage.local.set.mock.calls.at(-1)[0].torrents[0]
+      expect(saved.aria2SentUrls).toEqual([links[0].url])
+      expect(saved.sentToAria2At).toBeUndefined()
+
+      mockStorage.local.get.mockResolvedValue({ torrents: [saved] })
+      expect(await messageHandler({ type: 'SEND_TO_ARIA2', torrentId: 'torrent-1' })).toEqual({
+        success: true,
+        count: 1,
+      })
+      expect(sendToAria2).toHaveBeenLastCalledWith(aria2, expect.anything(), [links[0].url])
+      const resent = mockStorage.local.set.mock.calls.at(-1)[0].torrents[0]
+      expect(resent.sentToAria2At).toEqual(expect.any(Number))
+      expect(resent.aria2SentUrls).toBeUndefined()
+    })
+
+    it('refuses to send when aria2 is not set up', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime } = webextension as any
+      const { sendToAria2 } = await import('../../utils/aria2')
+      mockStorage.local.get.mockResolvedValue({ torrents: [{ ...readyTorrent }] })
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'SEND_TO_ARIA2', torrentId: 'torrent-1' })
+
+      expect(result).toEqual({
+        success: false,
+        error: 'aria2 is not set up. Configure it in the options.',
+      })
+      expect(sendToAria2).not.toHaveBeenCalled()
+    })
+
+    it('sends torrents to aria2 automatically when they complete', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms } = webextension as any
+      const { rdAPI } = await import('../../utils/realdebrid-api')
+      const { sendToAria2 } = await import('../../utils/aria2')
+      mockStorage.sync.get.mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        aria2: { ...aria2, autoSend: true },
+      })
+      mockStorage.local.get.mockResolvedValue({
+        torrents: [
+          {
+            ...readyTorrent,
+            status: 'processing',
+            downloadUrl: undefined,
+            addedAt: Date.now(),
+            lastRetry: Date.now(),
+          },
+        ],
+      })
+      vi.mocked(rdAPI.getTorrentInfo).mockResolvedValue({
+        id: 'torrent-1',
+        filename: 'Movie.mkv',
+        hash: readyTorrent.hash,
+        status: 'downloaded' as const,
+        progress: 100,
+        links: ['https://real-debrid.com/d/MOVIE'],
       })
 
-      vi.mocked(rdAPI.unrestrictLink).mockRejectedValue(new Error('Unrestrict error'))
+      await import('../service-worker')
+      const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
+      const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      await alarmHandler({ name: 'poll-torrents' })
+
+      expect(sendToAria2).toHaveBeenCalledWith(
+        { ...aria2, autoSend: true },
+        expect.objectContaining({ id: 'torrent-1', status: 'ready' }),
+        []
+      )
+      expect(mockStorage.local.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          torrents: [expect.objectContaining({ sentToAria2At: expect.any(Number) })],
+        })
+      )
+    })
+  })
+
+  describe('browser downloads', () => {
+    const readyTorrent = {
+      id: 'torrent-1',
+      magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+      hash: '0123456789abcdef0123456789abcdef01234567',
+      filename: 'Show.S01',
+      status: 'ready',
+      downloadUrl: 'https://example.com/e01.mkv',
+      links: [
+        {
+          url: 'https://example.com/e01.mkv',
+          filename: 'Show.S01E01.mkv',
+          path: '/Season 1/Show.S01E01.mkv',
+          size: 1000,
+          selected: true,
+        },
+        {
+          url: 'https://example.com/e02.mkv',
+          filename: 'Show.S01E02.mkv',
+          selected: true,
+        },
+      ],
+      addedAt: 1000,
+      lastRetry: 1000,
+      retryCount: 0,
+    }
+    const managedSettings = {
+      apiToken: 'test-token',
+      managedDownloads: true,
+      downloadFilenameTemplate: '{torrentName}/{filePath}',
+    }
+
+    it('downloads every link into the templated path', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime, mockDownloads } = webextension as any
+      mockStorage.sync.get.mockResolvedValue(managedSettings)
+      mockStorage.local.get.mockResolvedValue({ torrents: [structuredClone(readyTorrent)] })
+      mockDownloads.download.mockResolvedValueOnce(7).mockResolvedValueOnce(8)
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'START_DOWNLOAD', torrentId: 'torrent-1' })
+
+      expect(result).toEqual({ success: true, count: 2 })
+      expect(mockDownloads.download).toHaveBeenCalledWith({
+        url: 'https://example.com/e01.mkv',
+        filename: 'Show.S01/Season 1/Show.S01E01.mkv',
+        conflictAction: 'uniquify',
+      })
+      expect(mockDownloads.download).toHaveBeenCalledWith(
+        expect.objectContaining({ filename: 'Show.S01/Show.S01E02.mkv' })
+      )
+      const saved = mockStorage.local.set.mock.calls.at(-1)[0].torrents[0]
+      expect(saved.links.map((link: any) => link.localDownload)).toEqual([
+        { id: 7, state: 'in_progress', bytesReceived: 0, totalBytes: 1000 },
+        { id: 8, state: 'in_progress', bytesReceived: 0, totalBytes: 0 },
+      ])
+    })
+
+    it('downloads a single link when asked for one', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime, mockDownloads } = webextension as any
+      mockStorage.sync.get.mockResolvedValue(managedSettings)
+      mockStorage.local.get.mockResolvedValue({ torrents: [structuredClone(readyTorrent)] })
 
       await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'START_DOWNLOAD',
+        torrentId: 'torrent-1',
+        url: 'https://example.com/e02.mkv',
+      })
+
+      expect(result).toEqual({ success: true, count: 1 })
+      expect(mockDownloads.download).toHaveBeenCalledTimes(1)
+    })
+
+    it('refuses to download when browser downloads are turned off', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockRuntime, mockDownloads } = webextension as any
+      mockStorage.local.get.mockResolvedValue({ torrents: [structuredClone(readyTorrent)] })
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({ type: 'START_DOWNLOAD', torrentId: 'torrent-1' })
+
+      expect(result.success).toBe(false)
+      expect(mockDownloads.download).not.toHaveBeenCalled()
+    })
+
+    it('tracks the progress of running downloads when polling', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorage, mockAlarms, mockDownloads } = webextension as any
+      const torrent = structuredClone(readyTorrent) as any
+      torrent.links[0].localDownload = {
+        id: 7,
+        state: 'in_progress',
+        bytesReceived: 0,
+        totalBytes: 1000,
+      }
+      torrent.links[1].localDownload = {
+        id: 8,
+        state: 'in_progress',
+        bytesReceived: 0,
+        totalBytes: 0,
+      }
+      mockStorage.local.get.mockResolvedValue({ torrents: [torrent] })
+      mockDownloads.search.mockImplementation(({ id }: { id: number }) =>
+        Promise.resolve(
+          id === 7
+            ? [{ id: 7, state: 'in_progress', bytesReceived: 400, totalBytes: 1000 }]
+            : [
+                {
+                  id: 8,
+                  state: 'interrupted',
+                  bytesReceived: 0,
+                  totalBytes: -1,
+                  error: 'NETWORK_FAILED',
+                },
+              ]
+        )
+      )
 
+      await import('../service-worker')
       const addListenerCalls = mockAlarms.onAlarm.addListener.mock.calls
       const alarmHandler = addListenerCalls[addListenerCalls.length - 1][0]
 
       await alarmHandler({ name: 'poll-torrents' })
 
-      await new Promise(resolve => setTimeout(resolve, 100))
+      const saved = mockStorage.local.set.mock.calls.at(-1)[0].torrents[0]
+      expect(saved.links.map((link: any) => link.localDownload)).toEqual([
+        { id: 7, state: 'in_progress', bytesReceived: 400, totalBytes: 1000 },
+        { id: 8, state: 'interrupted', bytesReceived: 0, totalBytes: 0, error: 'NETWORK_FAILED' },
+      ])
+    })
+  })
 
-      expect(mockStorage.local.set).toHaveBeenCalledWith({
-        torrents: expect.arrayContaining([
-          expect.objectContaining({
-            id: 'torrent-1',
-            status: 'ready',
-            downloadUrl: null,
-          }),
-        ]),
+  describe('streaming', () => {
+    it('returns the streams and media details of a link', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      const { rdAPI, getAccountAPI } = await import('../../utils/realdebrid-api')
+      const account = {
+        ...rdAPI,
+        getTranscodeLinks: vi.fn(() =>
+          Promise.resolve({ liveMP4: { full: 'https://stream.example.com/full.mp4' } })
+        ),
+        getMediaInfos: vi.fn(() => Promise.reject(new Error('Not available'))),
+      }
+      vi.mocked(getAccountAPI).mockReturnValue(account as any)
+
+      await import('../service-worker')
+      const addListenerCalls = mockRuntime.onMessage.addListener.mock.calls
+      const messageHandler = addListenerCalls[addListenerCalls.length - 1][0]
+
+      const result = await messageHandler({
+        type: 'GET_STREAM_INFO',
+        torrentId: 'torrent-1',
+        linkId: 'LINK1',
+      })
+
+      expect(account.getTranscodeLinks).toHaveBeenCalledWith('LINK1')
+      expect(result).toEqual({
+        success: true,
+        transcode: { liveMP4: { full: 'https://stream.example.com/full.mp4' } },
+        mediaInfos: null,
       })
     })
   })
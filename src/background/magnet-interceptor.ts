@@ -0,0 +1,44 @@
+import browser from 'webextension-polyfill'
+import { storage } from '../utils/storage'
+import { INTERCEPTOR_ORIGINS } from '../utils/site-filter'
+
+const INTERCEPTOR_SCRIPT_ID = 'magnet-interceptor'
+
+// Built from content/magnet-interceptor.ts, which the manifest lists for that reason
+const INTERCEPTOR_SCRIPT = 'src/content/magnet-interceptor.js'
+
+// Tail of the queued syncs, so overlapping ones don't register the script twice
+let pendingSync: Promise<void> = Promise.resolve()
+
+async function updateRegistration(): Promise<void> {
+  const settings = await storage.getSettings()
+  const enabled =
+    settings.interceptMagnetLinks &&
+    (await browser.permissions.contains({ origins: INTERCEPTOR_ORIGINS }))
+  const registered = await browser.scripting.getRegisteredContentScripts({
+    ids: [INTERCEPTOR_SCRIPT_ID],
+  })
+
+  if (enabled && registered.length === 0) {
+    await browser.scripting.registerContentScripts([
+      {
+        id: INTERCEPTOR_SCRIPT_ID,
+        matches: INTERCEPTOR_ORIGINS,
+        js: [INTERCEPTOR_SCRIPT],
+        runAt: 'document_idle',
+        allFrames: true,
+      },
+    ])
+  } else if (!enabled && registered.length > 0) {
+    await browser.scripting.unregisterContentScripts({ ids: [INTERCEPTOR_SCRIPT_ID] })
+  }
+}
+
+// Register the content script while interception is on and its host permission is granted,
+// and unregister it otherwise
+export function syncMagnetInterceptor(): Promise<void> {
+  pendingSync = pendingSync.then(updateRegistration).catch(error => {
+    console.error('Failed to update the magnet interceptor:', error)
+  })
+  return pendingSync
+}
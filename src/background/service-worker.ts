@@ -1,16 +1,61 @@
 import browser from 'webextension-polyfill'
 import { storage } from '../utils/storage'
-import { rdAPI } from '../utils/realdebrid-api'
+import { runMigrations } from '../utils/migrations'
+import { rdAPI, getAccountAPI } from '../utils/realdebrid-api'
+import { extractHashFromMagnet, buildMagnet } from '../utils/magnet'
+import { parseTorrentFile, base64ToArrayBuffer } from '../utils/torrent-file'
+import { isInterceptionAllowed } from '../utils/site-filter'
+import { isHosterLink, getHosterName } from '../utils/hoster-link'
+import { getHistoryEntry, saveHistoryEntry } from '../utils/history-db'
+import { applyFileRules } from '../utils/file-rules'
+import { Aria2SendError, sendToAria2 } from '../utils/aria2'
+import { formatDownloadFilename, toLocalDownload } from '../utils/downloads'
+import { getItemLinks } from '../utils/link-export'
+import { restoreTorrents } from '../utils/backup'
+import { RdApiError, isRdErrorKind } from '../utils/rd-error'
 import { syncContextMenu, initContextMenuListener } from './context-menu'
+import { syncMagnetInterceptor } from './magnet-interceptor'
 import {
   notifyTorrentStatusChange,
   showBatchCompleteNotification,
   clearCompletedNotifications,
+  notifyPremiumExpiring,
 } from '../utils/notifications'
-import type { TorrentItem } from '../utils/types'
+import type {
+  Aria2Settings,
+  RdErrorKind,
+  TorrentItem,
+  DownloadLink,
+  FileSelectionRules,
+  LocalDownload,
+  AccountInfo,
+  AvailabilityResult,
+  RdTorrentAddedResponse,
+  RdUnrestrictCheckResponse,
+  RestoreMode,
+  RdTorrentInfo,
+  Settings,
+  TorrentFileInfo,
+  TorrentProgress,
+  TorrentProgressMap,
+} from '../utils/types'
+
+type MessageSender = browser.Runtime.MessageSender
+type RdClient = typeof rdAPI
 
 const POLL_ALARM = 'poll-torrents'
 const POLL_INTERVAL_MS = 5000 // 5 seconds
+const ACCOUNT_ALARM = 'check-account'
+const ACCOUNT_CHECK_INTERVAL_MIN = 360 // 6 hours
+const SYNC_ALARM = 'sync-account-torrents'
+const SYNC_INTERVAL_MIN = 30
+
+// With this many torrents pending, poll them with one /torrents list call
+const BATCH_REFRESH_THRESHOLD = 5
+const BATCH_REFRESH_LIMIT = 100
+
+// Errors that fail every request until the user fixes the account or token
+const ACCOUNT_ERROR_KINDS: RdErrorKind[] = ['bad_token', 'permission_denied']
 
 // Constants
 const DEFAULT_MAX_RETRY_DURATION = 300 // 5 minutes in seconds
@@ -20,23 +65,170 @@ function scheduleNextAlarm() {
   browser.alarms.create(POLL_ALARM, { when: Date.now() + POLL_INTERVAL_MS })
 }
 
-// Helper: Extract hash from magnet link
-function extractHashFromMagnet(magnetLink: string): string | null {
-  const match = magnetLink.match(/xt=urn:btih:([a-fA-F0-9]{40})/i)
-  return match ? match[1].toLowerCase() : null
+// Helper: Schedule periodic account check (premium expiry)
+function scheduleAccountAlarm() {
+  browser.alarms.create(ACCOUNT_ALARM, { periodInMinutes: ACCOUNT_CHECK_INTERVAL_MIN })
+}
+
+// Helper: Schedule periodic import of the account's torrent history
+function scheduleSyncAlarm() {
+  browser.alarms.create(SYNC_ALARM, { periodInMinutes: SYNC_INTERVAL_MIN })
+}
+
+// Helper: Account new items go to, falling back to the default one if it was removed
+function getActiveAccountId(settings: Settings): string | null {
+  const accounts = settings.accounts || []
+  return accounts.some(a => a.id === settings.activeAccountId) ? settings.activeAccountId : null
+}
+
+// Helper: Accounts to try when adding, active account first (null is the default account)
+function getAddAccountOrder(settings: Settings): (string | null)[] {
+  const active = getActiveAccountId(settings)
+  const accountIds = [null, ...(settings.accounts || []).map(a => a.id)]
+  return [active, ...accountIds.filter(id => id !== active)]
+}
+
+// Helper: Look up the account a tracked or mirrored torrent lives on
+async function findTorrentAccount(torrentId: string): Promise<string | undefined> {
+  const torrents = [...(await storage.getTorrents()), ...(await storage.getAccountTorrents())]
+  return torrents.find(t => t.id === torrentId)?.accountId
+}
+
+// Helper: Unrestrict every hoster link of a torrent
+// Links that fail to unrestrict are skipped so one dead file doesn't hide the rest
+async function unrestrictLinks(
+  api: RdClient,
+  links: string[],
+  paths?: string[]
+): Promise<DownloadLink[]> {
+  const downloadLinks: DownloadLink[] = []
+  for (const [index, link] of links.entries()) {
+    try {
+      const unrestricted = await api.unrestrictLink(link)
+      downloadLinks.push({
+        url: unrestricted.download,
+        filename: unrestricted.filename,
+        size: unrestricted.filesize,
+        selected: true,
+        ...(paths && { path: paths[index] }),
+        id: unrestricted.id,
+        streamable: unrestricted.streamable === 1,
+      })
+    } catch (error) {
+      console.error('Failed to unrestrict link:', link, error)
+    }
+  }
+  return downloadLinks
+}
+
+// Helper: Paths of the selected files, in the order of the torrent's links
+// Archived torrents have one link for several files, so there is nothing to match up
+function getLinkPaths(info: RdTorrentInfo): string[] | undefined {
+  const paths = info.files?.filter(file => file.selected === 1).map(file => file.path)
+  return paths?.length === info.links?.length ? paths : undefined
+}
+
+// Helper: Map a Real-Debrid torrent status to a progress bar status
+function toProgressStatus(status: RdTorrentInfo['status']): TorrentProgress['status'] {
+  switch (status) {
+    case 'downloading':
+      return 'downloading'
+    case 'compressing':
+    case 'uploading':
+      return 'uploading'
+    case 'downloaded':
+      return 'completed'
+    case 'magnet_error':
+    case 'error':
+    case 'virus':
+    case 'dead':
+      return 'error'
+    default:
+      return 'converting'
+  }
+}
+
+// Helper: Build live progress (speed, seeders, ETA) from torrent info
+function toTorrentProgress(info: RdTorrentInfo): TorrentProgress {
+  const status = toProgressStatus(info.status)
+  const speed = info.speed || 0
+  const remainingBytes = ((info.bytes || 0) * (100 - info.progress)) / 100
+
+  return {
+    progress: info.progress,
+    status,
+    downloadSpeed: status === 'downloading' ? speed : undefined,
+    uploadSpeed: status === 'uploading' ? speed : undefined,
+    eta: speed > 0 && remainingBytes > 0 ? Math.round(remainingBytes / speed) : undefined,
+    seeds: info.seeders,
+  }
+}
+
+// Helper: Fall back to locally remembered availability for a hash
+async function lookupLocalAvailability(hash: string): Promise<AvailabilityResult> {
+  const cache = await storage.getAvailabilityCache()
+  const entry = cache[hash]
+  if (!entry) {
+    return { hash, status: 'unknown', source: 'none' }
+  }
+  return { hash, status: entry.cached ? 'cached' : 'not_cached', source: 'local' }
+}
+
+// Helper: Check whether a hash is already cached on the given account's Real-Debrid
+async function checkAvailability(api: RdClient, hash: string): Promise<AvailabilityResult> {
+  try {
+    const response = await api.checkInstantAvailability(hash)
+    const entry = response[hash] ?? response[hash.toUpperCase()]
+    if (entry === undefined) {
+      // Endpoint answered without this hash (e.g. disabled upstream) - nothing to learn
+      return await lookupLocalAvailability(hash)
+    }
+    const cached = !Array.isArray(entry) && (entry.rd?.length ?? 0) > 0
+    await storage.setHashAvailability(hash, cached)
+    return { hash, status: cached ? 'cached' : 'not_cached', source: 'api' }
+  } catch (error) {
+    console.error('Instant availability check failed, using local cache:', error)
+    return await lookupLocalAvailability(hash)
+  }
 }
 
 // Setup alarm on install
 browser.runtime.onInstalled.addListener(async () => {
+  // Bring data stored by older versions up to date before anything reads it
+  await runMigrations()
   scheduleNextAlarm()
+  scheduleAccountAlarm()
+  scheduleSyncAlarm()
   // Initialize context menu based on settings
   await syncContextMenu()
+  await syncMagnetInterceptor()
 })
 
+// Retry migrations that failed on install or update
+browser.runtime.onStartup.addListener(async () => {
+  await runMigrations()
+  await syncMagnetInterceptor()
+})
+
+// Helper: Leave a magnet for the popup to pick up (Popup.loadPendingMagnet) and open it
+async function handOverToPopup(magnetLink: string) {
+  await browser.storage.local.set({ pendingMagnet: magnetLink })
+  try {
+    await browser.action.openPopup()
+  } catch (error) {
+    // Not allowed without a user gesture in some browsers - the magnet waits for the next open
+    console.warn('Could not open popup:', error)
+  }
+}
+
 // Initialize context menu listener with handler
 // This needs to be outside onInstalled to work on browser start/wake
 initContextMenuListener(async (link: string) => {
-  await handleAddMagnet(link)
+  const result = await handleAddMagnet(link)
+  if ('needsConfirmation' in result) {
+    // Hand over to the popup, which shows the uncached-torrent confirmation
+    await handOverToPopup(link)
+  }
 })
 
 // Listen for settings changes to update context menu
@@ -44,18 +236,50 @@ browser.storage.onChanged.addListener(async (changes, areaName) => {
   if (areaName === 'sync' && (changes.contextMenuEnabled || changes.alwaysSaveAllFiles)) {
     await syncContextMenu()
   }
+  if (areaName === 'sync' && changes.interceptMagnetLinks) {
+    await syncMagnetInterceptor()
+  }
 })
 
+// The magnet interceptor only runs while its host permission is granted
+browser.permissions.onAdded.addListener(() => syncMagnetInterceptor())
+browser.permissions.onRemoved.addListener(() => syncMagnetInterceptor())
+
 // Handle alarm for polling
 browser.alarms.onAlarm.addListener(async alarm => {
   if (alarm.name === POLL_ALARM) {
     await checkPendingTorrents()
+    await refreshLocalDownloads()
     scheduleNextAlarm()
+  } else if (alarm.name === ACCOUNT_ALARM) {
+    await checkAccountStatus()
+  } else if (alarm.name === SYNC_ALARM) {
+    await syncAccountTorrents()
   }
 })
 
+// Magnet link clicked on a web page (content/magnet-interceptor.ts)
+async function handleInterceptedMagnet(magnetLink: string, pageUrl: string) {
+  const settings = await storage.getSettings()
+  // The content script checks this too, but its settings may be stale
+  if (!isInterceptionAllowed(pageUrl, settings)) {
+    return { error: 'Magnet interception is disabled for this site' }
+  }
+
+  if (settings.interceptAction === 'add') {
+    const result = await handleAddMagnet(magnetLink)
+    if ('success' in result) {
+      return result
+    }
+    // Confirmation needed or add failed - let the user take it from the popup
+  }
+
+  await handOverToPopup(magnetLink)
+  return { success: true, pending: true }
+}
+
 // Add magnet link
-async function handleAddMagnet(magnetLink: string) {
+async function handleAddMagnet(magnetLink: string, options: { confirmed?: boolean } = {}) {
   const settings = await storage.getSettings()
   if (!settings.apiToken) {
     return { error: 'API token not configured' }
@@ -67,6 +291,151 @@ async function handleAddMagnet(magnetLink: string) {
     return { error: 'Invalid magnet link' }
   }
 
+  return await addTorrentByHash(hash, magnetLink, api => api.addMagnet(magnetLink), {
+    confirmUncached: settings.confirmUncachedTorrents && !options.confirmed,
+    accountIds: getAddAccountOrder(settings),
+  })
+}
+
+// Add .torrent file (contents base64 encoded for messaging)
+async function handleAddTorrentFile(fileData: string, fileName: string) {
+  const settings = await storage.getSettings()
+  if (!settings.apiToken) {
+    return { error: 'API token not configured' }
+  }
+
+  let file: ArrayBuffer
+  let info: TorrentFileInfo
+  try {
+    file = base64ToArrayBuffer(fileData)
+    info = await parseTorrentFile(file)
+  } catch (error) {
+    console.error('Failed to parse torrent file:', fileName, error)
+    return { error: 'Invalid torrent file' }
+  }
+
+  // Keep a magnet link so the item can be deduplicated and re-added like any other
+  const magnetLink = buildMagnet(info.hash, info.name || fileName.replace(/\.torrent$/i, ''))
+
+  // Uploading a file is an explicit choice, so it skips the uncached confirmation
+  return await addTorrentByHash(info.hash, magnetLink, api => api.addTorrentFile(file), {
+    confirmUncached: false,
+    accountIds: getAddAccountOrder(settings),
+  })
+}
+
+// Helper: Resolve a hoster link to the file links behind it
+// Folder links aren't recognised by /unrestrict/check, so only expand when the check fails
+async function expandHosterLink(api: RdClient, sourceUrl: string) {
+  let check: RdUnrestrictCheckResponse | null = null
+  try {
+    check = await api.checkLink(sourceUrl)
+  } catch (error) {
+    console.warn('Hoster link check failed, trying as folder:', sourceUrl, error)
+  }
+
+  let fileLinks: string[] = []
+  if (check?.supported) {
+    fileLinks = [sourceUrl]
+  } else {
+    try {
+      fileLinks = await api.unrestrictFolder(sourceUrl)
+    } catch (error) {
+      console.error('Failed to expand hoster folder:', sourceUrl, error)
+    }
+  }
+
+  return { check, fileLinks }
+}
+
+// Add a file-hoster link (or folder link) as a ready-to-download item
+async function handleAddHosterLink(link: string) {
+  const settings = await storage.getSettings()
+  if (!settings.apiToken) {
+    return { error: 'API token not configured' }
+  }
+
+  const sourceUrl = link.trim()
+  if (!isHosterLink(sourceUrl)) {
+    return { error: 'Invalid hoster link' }
+  }
+
+  const existingTorrents = await storage.getTorrents()
+  const duplicate = existingTorrents.find(t => t.kind === 'hoster' && t.sourceUrl === sourceUrl)
+  if (duplicate) {
+    return { error: 'Link already exists', duplicate }
+  }
+
+  const accountId = getActiveAccountId(settings)
+  const api = getAccountAPI(accountId)
+  const { check, fileLinks } = await expandHosterLink(api, sourceUrl)
+
+  if (fileLinks.length === 0) {
+    return { error: 'Unsupported hoster link' }
+  }
+
+  const links = await unrestrictLinks(api, fileLinks)
+  if (links.length === 0) {
+    return { error: 'Failed to unrestrict link' }
+  }
+
+  const isFolder = !check?.supported
+  const host = check?.host || getHosterName(sourceUrl) || ''
+  const torrent: TorrentItem = {
+    id: `hoster-${crypto.randomUUID()}`,
+    kind: 'hoster',
+    magnetLink: '',
+    hash: '',
+    sourceUrl,
+    host,
+    filename: isFolder
+      ? `${host} folder (${links.length} file${links.length > 1 ? 's' : ''})`
+      : links[0].filename || check?.filename || sourceUrl,
+    downloadUrl: links[0].url,
+    links,
+    status: 'ready',
+    addedAt: Date.now(),
+    lastRetry: Date.now(),
+    retryCount: 0,
+    accountId: accountId ?? undefined,
+  }
+
+  await storage.addTorrent(torrent)
+  return { success: true, torrent }
+}
+
+// Helper: Add to the first account that still has room for another active download
+async function addToAccounts(
+  accountIds: (string | null)[],
+  add: (api: RdClient) => Promise<RdTorrentAddedResponse>
+): Promise<{ response: RdTorrentAddedResponse; accountId: string | null }> {
+  let lastError: unknown
+  for (const accountId of accountIds) {
+    try {
+      return { response: await add(getAccountAPI(accountId)), accountId }
+    } catch (error) {
+      if (!isRdErrorKind(error, 'too_many_active_downloads')) throw error
+      console.warn(
+        'Account is at its active download limit, trying the next one:',
+        accountId ?? 'default'
+      )
+      lastError = error
+    }
+  }
+  throw lastError
+}
+
+// Shared add flow: dedupe by hash locally and on Real-Debrid, then upload via `add`
+// `accountIds` lists the accounts to try in order; duplicates are looked up on the first one
+async function addTorrentByHash(
+  hash: string,
+  magnetLink: string,
+  add: (api: RdClient) => Promise<RdTorrentAddedResponse>,
+  options: { confirmUncached: boolean; accountIds: (string | null)[] }
+) {
+  const accountId = options.accountIds[0] ?? null
+  const api = getAccountAPI(accountId)
+
   // Check local storage first
   const existingTorrents = await storage.getTorrents()
   const localDuplicate = existingTorrents.find(t => t.hash === hash)
@@ -76,31 +445,37 @@ async function handleAddMagnet(magnetLink: string) {
 
   // Check Real-Debrid for already-converted torrents
   try {
-    const rdTorrents = await rdAPI.getTorrents()
+    const rdTorrents = await api.getTorrents()
     const rdTorrent = rdTorrents.find(t => t.hash === hash)
 
     if (rdTorrent) {
-      if (rdTorrent.status === 'downloaded' && rdTorrent.links?.[0]) {
-        // Reuse existing torrent - fetch unrestricted link
-        const unrestricted = await rdAPI.unrestrictLink(rdTorrent.links[0])
+      if (rdTorrent.status === 'downloaded' && rdTorrent.links?.length) {
+        // Reuse existing torrent - fetch unrestricted links
+        const links = await unrestrictLinks(api, rdTorrent.links)
+        // Any link that failed is retried by polling before the torrent is ready
+        const complete = links.length === rdTorrent.links.length
+
+        await storage.setHashAvailability(hash, true)
 
         const torrent: TorrentItem = {
           id: rdTorrent.id,
           magnetLink,
           hash,
           filename: rdTorrent.filename,
-          downloadUrl: unrestricted.download,
-          status: 'ready',
+          downloadUrl: complete ? links[0].url : null,
+          links: complete ? links : undefined,
+          status: complete ? 'ready' : 'processing',
           addedAt: Date.now(),
           lastRetry: Date.now(),
           retryCount: 0,
+          accountId: accountId ?? undefined,
         }
 
         await storage.addTorrent(torrent)
         return { success: true, torrent, reused: true }
       } else if (rdTorrent.status === 'error' || rdTorrent.status === 'dead') {
         // Re-add if previous attempt failed
-        // Fall through to addMagnet below
+        // Fall through to add below
       } else {
         // Still processing - just track it
         const torrent: TorrentItem = {
@@ -113,6 +488,7 @@ async function handleAddMagnet(magnetLink: string) {
           addedAt: Date.now(),
           lastRetry: Date.now(),
           retryCount: 0,
+          accountId: accountId ?? undefined,
         }
 
         await storage.addTorrent(torrent)
@@ -121,15 +497,23 @@ async function handleAddMagnet(magnetLink: string) {
     }
   } catch (error) {
     console.error('Failed to check RD torrents:', error)
-    // Continue to addMagnet on error
+    // Continue to add on error
+  }
+
+  // Optionally confirm before adding torrents that aren't known to be cached
+  if (options.confirmUncached) {
+    const availability = await checkAvailability(api, hash)
+    if (availability.status !== 'cached') {
+      return { needsConfirmation: true, availability }
+    }
   }
 
-  // Add new magnet if not found on RD
+  // Add new torrent if not found on RD
   try {
-    const response = await rdAPI.addMagnet(magnetLink)
+    const added = await addToAccounts(options.accountIds, add)
 
     const torrent: TorrentItem = {
-      id: response.id,
+      id: added.response.id,
       magnetLink,
       hash,
       filename: 'Processing...',
@@ -138,6 +522,7 @@ async function handleAddMagnet(magnetLink: string) {
       addedAt: Date.now(),
       lastRetry: Date.now(),
       retryCount: 0,
+      accountId: added.accountId ?? undefined,
     }
 
     await storage.addTorrent(torrent)
@@ -148,33 +533,56 @@ async function handleAddMagnet(magnetLink: string) {
   }
 }
 
-// Retry torrent
-async function handleRetry(torrentId: string) {
-  const torrents = await storage.getTorrents()
-  const torrent = torrents.find(t => t.id === torrentId)
+// Check instant availability for a magnet before it is submitted
+async function handleCheckAvailability(magnetLink: string) {
+  const hash = extractHashFromMagnet(magnetLink)
+  if (!hash) {
+    return { error: 'Invalid magnet link' }
+  }
 
-  if (torrent) {
-    torrent.status = 'processing'
-    torrent.lastRetry = Date.now()
-    torrent.retryCount += 1
-    await storage.saveTorrents(torrents)
+  const settings = await storage.getSettings()
+  if (!settings.apiToken) {
+    return { success: true, availability: await lookupLocalAvailability(hash) }
+  }
+
+  // Ask the account the magnet would be added to
+  const api = getAccountAPI(getActiveAccountId(settings))
+  return { success: true, availability: await checkAvailability(api, hash) }
+}
+
+// Helper: Put a tracked torrent back in the polling queue
+function toRetried(torrent: TorrentItem): TorrentItem {
+  return {
+    ...torrent,
+    status: 'processing',
+    error: undefined,
+    lastRetry: Date.now(),
+    retryCount: torrent.retryCount + 1,
   }
+}
+
+// Retry torrent
+async function handleRetry(torrentId: string) {
+  await storage.mutateTorrents(torrents =>
+    torrents.some(t => t.id === torrentId)
+      ? torrents.map(t => (t.id === torrentId ? toRetried(t) : t))
+      : torrents
+  )
 
   return { success: true }
 }
 
 // Select files for torrent
 async function handleSelectFiles(torrentId: string, selectedFiles: string) {
-  await rdAPI.selectFiles(torrentId, selectedFiles)
+  const api = getAccountAPI(await findTorrentAccount(torrentId))
+  await api.selectFiles(torrentId, selectedFiles)
 
   // Update torrent status to processing after file selection
-  const torrents = await storage.getTorrents()
-  const torrent = torrents.find(t => t.id === torrentId)
-
-  if (torrent) {
-    torrent.status = 'processing'
-    await storage.saveTorrents(torrents)
-  }
+  await storage.mutateTorrents(torrents =>
+    torrents.some(t => t.id === torrentId)
+      ? torrents.map(t => (t.id === torrentId ? { ...t, status: 'processing' as const } : t))
+      : torrents
+  )
 
   return { success: true }
 }
@@ -182,7 +590,8 @@ async function handleSelectFiles(torrentId: string, selectedFiles: string) {
 // Get torrent info for file selection UI
 async function handleGetTorrentInfo(torrentId: string) {
   try {
-    const info = await rdAPI.getTorrentInfo(torrentId)
+    const api = getAccountAPI(await findTorrentAccount(torrentId))
+    const info = await api.getTorrentInfo(torrentId)
     return { success: true, info }
   } catch (error) {
     return {
@@ -194,54 +603,121 @@ async function handleGetTorrentInfo(torrentId: string) {
 
 // Retry all failed torrents
 async function handleRetryFailed(torrentIds?: string[]) {
-  const torrents = await storage.getTorrents()
-  const torrentsToRetry = torrentIds
-    ? torrents.filter(t => torrentIds.includes(t.id))
-    : torrents.filter(t => t.status === 'error' || t.status === 'timeout')
+  const shouldRetry = (t: TorrentItem) =>
+    torrentIds ? torrentIds.includes(t.id) : t.status === 'error' || t.status === 'timeout'
+  let retried = 0
 
-  if (torrentsToRetry.length === 0) {
-    return { success: true, retried: 0 }
-  }
+  await storage.mutateTorrents(torrents => {
+    retried = torrents.filter(shouldRetry).length
+    return retried > 0 ? torrents.map(t => (shouldRetry(t) ? toRetried(t) : t)) : torrents
+  })
 
-  for (const torrent of torrentsToRetry) {
-    torrent.status = 'processing'
-    torrent.lastRetry = Date.now()
-    torrent.retryCount += 1
-  }
-
-  await storage.saveTorrents(torrents)
-
-  return { success: true, retried: torrentsToRetry.length }
+  return { success: true, retried }
 }
 
 // Clear completed torrents
 async function handleClearCompleted() {
-  const torrents = await storage.getTorrents()
-  const completedTorrents = torrents.filter(t => t.status === 'ready')
+  let completedIds: string[] = []
+  await storage.mutateTorrents(torrents => {
+    completedIds = torrents.filter(t => t.status === 'ready').map(t => t.id)
+    return completedIds.length > 0 ? torrents.filter(t => t.status !== 'ready') : torrents
+  })
 
-  if (completedTorrents.length === 0) {
+  if (completedIds.length === 0) {
     return { success: true, cleared: 0 }
   }
 
-  const completedIds = completedTorrents.map(t => t.id)
-  const remainingTorrents = torrents.filter(t => t.status !== 'ready')
-
-  await storage.saveTorrents(remainingTorrents)
-
   // Clear notification state for completed torrents
   await clearCompletedNotifications(completedIds)
 
-  return { success: true, cleared: completedTorrents.length }
+  return { success: true, cleared: completedIds.length }
+}
+
+// Remove an item from the list only, leaving it on the Real-Debrid account
+async function handleRemoveTorrent(torrentId: string) {
+  await storage.removeTorrent(torrentId)
+  return { success: true }
+}
+
+// Put the torrents of a backup into the list (see utils/backup.ts)
+async function handleRestoreTorrents(torrents: TorrentItem[], mode: RestoreMode) {
+  return { success: true, count: await restoreTorrents(torrents, mode) }
+}
+
+// Helper: Delete a torrent from the Real-Debrid account
+// A torrent that is already gone counts as deleted
+async function deleteFromAccount(torrentId: string, accountId?: string) {
+  try {
+    await getAccountAPI(accountId).deleteTorrent(torrentId)
+  } catch (error) {
+    if (!isRdErrorKind(error, 'not_found')) throw error
+  }
+}
+
+// Remove a torrent locally after deleting it from the Real-Debrid account
+async function handleDeleteTorrent(torrentId: string) {
+  const torrents = [...(await storage.getTorrents()), ...(await storage.getAccountTorrents())]
+  const torrent = torrents.find(t => t.id === torrentId)
+
+  try {
+    // Hoster links have no torrent on the account to delete
+    if (torrent?.kind !== 'hoster') {
+      await deleteFromAccount(torrentId, torrent?.accountId)
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete torrent',
+    }
+  }
+
+  await storage.removeTorrent(torrentId)
+  await clearCompletedNotifications([torrentId])
+  return { success: true }
+}
+
+// Delete the completed torrents the extension tracks from the Real-Debrid account
+// Torrents only mirrored from the account are left alone; failures stay in the list
+// and are reported back
+async function handleDeleteCompletedFromAccount() {
+  const torrents = await storage.getTorrents()
+  const completed = torrents.filter(t => t.status === 'ready' && t.kind !== 'hoster')
+
+  const deletedIds: string[] = []
+  const failed: { id: string; filename: string; error: string }[] = []
+  for (const torrent of completed) {
+    try {
+      await deleteFromAccount(torrent.id, torrent.accountId)
+      deletedIds.push(torrent.id)
+    } catch (error) {
+      failed.push({
+        id: torrent.id,
+        filename: torrent.filename,
+        error: error instanceof Error ? error.message : 'Failed to delete torrent',
+      })
+    }
+  }
+
+  if (deletedIds.length > 0) {
+    await storage.removeTorrents(deletedIds)
+    await clearCompletedNotifications(deletedIds)
+  }
+
+  return { success: failed.length === 0, deleted: deletedIds.length, failed }
 }
 
 // Get torrent progress (for dashboard updates)
 async function handleGetTorrentProgress(torrentId: string) {
   try {
-    const info = await rdAPI.getTorrentInfo(torrentId)
+    const api = getAccountAPI(await findTorrentAccount(torrentId))
+    const info = await api.getTorrentInfo(torrentId)
     return {
       success: true,
       progress: info.progress,
       status: info.status,
+      speed: info.speed,
+      seeders: info.seeders,
+      eta: toTorrentProgress(info).eta,
     }
   } catch (error) {
     return {
@@ -251,6 +727,390 @@ async function handleGetTorrentProgress(torrentId: string) {
   }
 }
 
+// Helper: Pick files with the auto-selection rules
+// Returns the comma-separated ids, or null when the rules are off or match nothing
+async function selectFilesByRules(
+  api: RdClient,
+  info: RdTorrentInfo,
+  rules: FileSelectionRules | undefined
+): Promise<string | null> {
+  if (!rules?.enabled) return null
+  // Torrents from the batched /torrents listing come without their file list
+  const files = info.files ?? (await api.getTorrentInfo(info.id)).files ?? []
+  const ids = applyFileRules(files, rules)
+  return ids.length > 0 ? ids.join(',') : null
+}
+
+// Helper: Map a Real-Debrid torrent status to a list item status
+function toItemStatus(status: RdTorrentInfo['status']): TorrentItem['status'] {
+  switch (status) {
+    case 'downloaded':
+      return 'ready'
+    case 'waiting_files_selection':
+      return 'selecting_files'
+    case 'magnet_error':
+    case 'error':
+    case 'virus':
+    case 'dead':
+      return 'error'
+    default:
+      return 'processing'
+  }
+}
+
+// Mirror the torrent history of every account into the dashboard
+// Torrents already tracked by the extension are skipped; unrestricted links are kept across syncs
+async function syncAccountTorrents() {
+  const settings = await storage.getSettings()
+  if (!settings.apiToken) {
+    return { success: false, error: 'API token not configured' }
+  }
+
+  // Fetched first, so the stored list is only locked while it is rebuilt
+  const accountIds = [null, ...(settings.accounts || []).map(a => a.id)]
+  const fetched = new Map<string | null, RdTorrentInfo[]>()
+  const errors: string[] = []
+  for (const accountId of accountIds) {
+    try {
+      fetched.set(accountId, await getAccountAPI(accountId).getAllTorrents())
+    } catch (error) {
+      console.error('Failed to sync account torrents:', accountId, error)
+      errors.push(error instanceof Error ? error.message : 'Failed to sync account torrents')
+    }
+  }
+
+  if (errors.length === accountIds.length) {
+    return { success: false, error: errors[0] }
+  }
+
+  const trackedIds = new Set((await storage.getTorrents()).map(t => t.id))
+  const accountTorrents = await storage.mutateAccountTorrents(
+    stored => {
+      const previous = new Map(stored.map(t => [t.id, t]))
+      const mirrored: TorrentItem[] = []
+      for (const accountId of accountIds) {
+        const rdTorrents = fetched.get(accountId)
+        if (!rdTorrents) {
+          // Keep the last mirrored history of an account that can't be reached right now
+          mirrored.push(...stored.filter(t => (t.accountId ?? null) === accountId))
+          continue
+        }
+        for (const info of rdTorrents) {
+          if (trackedIds.has(info.id)) continue
+          const status = toItemStatus(info.status)
+          const known = previous.get(info.id)
+          const keepLinks = status === 'ready' && known?.status === 'ready'
+          const addedAt = info.added ? Date.parse(info.added) || Date.now() : Date.now()
+          mirrored.push({
+            id: info.id,
+            source: 'account',
+            magnetLink: info.hash ? buildMagnet(info.hash, info.filename) : '',
+            hash: info.hash || '',
+            filename: info.filename,
+            downloadUrl: keepLinks ? known.downloadUrl : null,
+            links: keepLinks ? known.links : undefined,
+            status,
+            addedAt,
+            lastRetry: addedAt,
+            retryCount: 0,
+            accountId: accountId ?? undefined,
+          })
+        }
+      }
+      return mirrored
+    },
+    { synced: true }
+  )
+  return { success: true, count: accountTorrents.length }
+}
+
+// Unrestrict the links of a mirrored account torrent when the user asks for them
+async function handleUnrestrictAccountTorrent(torrentId: string) {
+  const accountTorrents = await storage.getAccountTorrents()
+  const torrent = accountTorrents.find(t => t.id === torrentId)
+  if (!torrent) {
+    return { success: false, error: 'Torrent not found' }
+  }
+
+  try {
+    const api = getAccountAPI(torrent.accountId)
+    const info = await api.getTorrentInfo(torrentId)
+    const links = info.links?.length
+      ? await unrestrictLinks(api, info.links, getLinkPaths(info))
+      : []
+    const updated = await storage.updateTorrent(torrentId, {
+      links,
+      downloadUrl: links[0]?.url ?? null,
+    })
+    if (!updated) {
+      return { success: false, error: 'Torrent not found' }
+    }
+    return { success: true, torrent: updated }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to unrestrict torrent',
+    }
+  }
+}
+
+// Unrestrict the links of an archived item again once the old ones have expired
+async function handleUnrestrictHistoryTorrent(torrentId: string) {
+  const entry = await getHistoryEntry(torrentId)
+  if (!entry) {
+    return { success: false, error: 'Torrent not found' }
+  }
+
+  try {
+    const api = getAccountAPI(entry.accountId)
+    let fileLinks: string[] = []
+    if (entry.kind === 'hoster') {
+      if (entry.sourceUrl) fileLinks = (await expandHosterLink(api, entry.sourceUrl)).fileLinks
+    } else {
+      fileLinks = (await api.getTorrentInfo(torrentId)).links ?? []
+    }
+
+    const links = await unrestrictLinks(api, fileLinks)
+    if (links.length === 0) {
+      return { success: false, error: 'No download links available' }
+    }
+
+    entry.links = links
+    entry.downloadUrl = links[0].url
+    await saveHistoryEntry(entry)
+    return { success: true, entry }
+  } catch (error) {
+    if (isRdErrorKind(error, 'not_found')) {
+      return {
+        success: false,
+        error: 'The torrent is no longer on Real-Debrid. Re-add the magnet instead.',
+      }
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to unrestrict torrent',
+    }
+  }
+}
+
+// Helper: Queue an item's links in aria2, skipping the ones an earlier partial send queued
+// Returns the number of queued links, the change to store and, when aria2 stopped
+// part-way, its error; the links queued so far are recorded so they aren't sent twice
+async function pushToAria2(
+  aria2: Aria2Settings,
+  torrent: TorrentItem
+): Promise<{ count: number; update: Partial<TorrentItem>; error?: string }> {
+  const alreadySent = torrent.aria2SentUrls ?? []
+  try {
+    const gids = await sendToAria2(aria2, torrent, alreadySent)
+    return { count: gids.length, update: { sentToAria2At: Date.now(), aria2SentUrls: undefined } }
+  } catch (error) {
+    if (!(error instanceof Aria2SendError)) throw error
+    return {
+      count: error.sentUrls.length,
+      update: { aria2SentUrls: [...alreadySent, ...error.sentUrls] },
+      error: error.message,
+    }
+  }
+}
+
+// Helper: Find an item in the tracked or the mirrored account list
+async function findStoredItem(torrentId: string): Promise<TorrentItem | undefined> {
+  return (
+    (await storage.getTorrents()).find(t => t.id === torrentId) ??
+    (await storage.getAccountTorrents()).find(t => t.id === torrentId)
+  )
+}
+
+// Send the links of a finished item to aria2 when the user asks for it
+async function handleSendToAria2(torrentId: string) {
+  const settings = await storage.getSettings()
+  if (!settings.aria2?.enabled) {
+    return { success: false, error: 'aria2 is not set up. Configure it in the options.' }
+  }
+
+  const torrent = await findStoredItem(torrentId)
+  if (!torrent) {
+    return { success: false, error: 'Torrent not found' }
+  }
+
+  try {
+    const { count, update, error } = await pushToAria2(settings.aria2, torrent)
+    await storage.updateTorrent(torrentId, update)
+    if (error) {
+      return {
+        success: false,
+        count,
+        error: `${error} (${count} link${count === 1 ? '' : 's'} queued; sending again queues the rest)`,
+      }
+    }
+    return { success: true, count }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send to aria2',
+    }
+  }
+}
+
+// Download an item's links (or one of them) with browser.downloads so their progress can be tracked
+async function handleStartDownload(torrentId: string, url?: string) {
+  const settings = await storage.getSettings()
+  // The API is only there once the optional downloads permission is granted
+  if (!settings.managedDownloads || !browser.downloads) {
+    return {
+      success: false,
+      error: 'Browser downloads are not enabled. Turn them on in the options.',
+    }
+  }
+
+  const torrent = await findStoredItem(torrentId)
+  if (!torrent) {
+    return { success: false, error: 'Torrent not found' }
+  }
+
+  // Older items only have the single download URL
+  const links = getItemLinks(torrent).filter(link => !url || link.url === url)
+  if (links.length === 0) {
+    return { success: false, error: 'No download links to download' }
+  }
+
+  const started = new Map<string, LocalDownload>()
+  try {
+    for (const link of links) {
+      const id = await browser.downloads.download({
+        url: link.url,
+        filename: formatDownloadFilename(settings.downloadFilenameTemplate, torrent.filename, link),
+        conflictAction: 'uniquify',
+      })
+      started.set(link.url, {
+        id,
+        state: 'in_progress',
+        bytesReceived: 0,
+        totalBytes: link.size ?? 0,
+      })
+    }
+    return { success: true, count: links.length }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start the download',
+    }
+  } finally {
+    // Keep the downloads that did start, even if a later one failed
+    if (started.size > 0) {
+      await storage.updateTorrent(torrentId, current => ({
+        links: getItemLinks(current).map(link =>
+          started.has(link.url) ? { ...link, localDownload: started.get(link.url) } : link
+        ),
+      }))
+    }
+  }
+}
+
+// Helper: Current state of the running browser downloads whose progress changed, by download id
+async function collectLocalDownloads(items: TorrentItem[]): Promise<Map<number, LocalDownload>> {
+  const changed = new Map<number, LocalDownload>()
+  for (const link of items.flatMap(item => item.links ?? [])) {
+    const current = link.localDownload
+    if (current?.state !== 'in_progress') continue
+
+    const [download] = await browser.downloads.search({ id: current.id })
+    // Gone from the browser's download list means it was cleared before finishing
+    const next = download
+      ? toLocalDownload(download)
+      : { ...current, state: 'interrupted' as const, error: 'USER_CANCELED' }
+    if (
+      next.state !== current.state ||
+      next.bytesReceived !== current.bytesReceived ||
+      next.totalBytes !== current.totalBytes
+    ) {
+      changed.set(current.id, next)
+    }
+  }
+  return changed
+}
+
+// Refresh the progress of browser downloads; runs with every poll
+// Polled rather than using downloads.onChanged, which doesn't report received bytes
+async function refreshLocalDownloads() {
+  if (!browser.downloads) return
+
+  try {
+    const items = [...(await storage.getTorrents()), ...(await storage.getAccountTorrents())]
+    const changed = await collectLocalDownloads(items)
+    if (changed.size === 0) return
+
+    const hasChange = (link: DownloadLink) =>
+      link.localDownload !== undefined && changed.has(link.localDownload.id)
+    const updates = items
+      .filter(item => item.links?.some(hasChange))
+      .map(item => [
+        item.id,
+        (current: TorrentItem) => ({
+          links: current.links?.map(link =>
+            hasChange(link) ? { ...link, localDownload: changed.get(link.localDownload!.id) } : link
+          ),
+        }),
+      ])
+    await storage.updateTorrents(Object.fromEntries(updates))
+  } catch (error) {
+    console.error('Failed to refresh browser downloads:', error)
+  }
+}
+
+// Streams of an unrestricted file, for the player page
+async function handleGetStreamInfo(torrentId: string, linkId: string) {
+  const api = getAccountAPI(await findTorrentAccount(torrentId))
+  try {
+    const transcode = await api.getTranscodeLinks(linkId)
+    // Track choice is optional; the plain streams still play without it
+    const mediaInfos = await api.getMediaInfos(linkId).catch(error => {
+      console.error('Failed to get media infos:', linkId, error)
+      return null
+    })
+    return { success: true, transcode, mediaInfos }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get the streams',
+    }
+  }
+}
+
+// Get account overview (user, traffic) of the active account for the dashboard
+async function handleGetAccountInfo() {
+  try {
+    const api = getAccountAPI(getActiveAccountId(await storage.getSettings()))
+    const [user, traffic, trafficDetails] = await Promise.all([
+      api.getUser(),
+      api.getTraffic(),
+      api.getTrafficDetails(),
+    ])
+    await notifyPremiumExpiring(user)
+    const account: AccountInfo = { user, traffic, trafficDetails }
+    return { success: true, account }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get account info',
+    }
+  }
+}
+
+// Check premium expiry in the background
+async function checkAccountStatus() {
+  const settings = await storage.getSettings()
+  if (!settings.apiToken) return
+
+  try {
+    const user = await getAccountAPI(getActiveAccountId(settings)).getUser()
+    await notifyPremiumExpiring(user)
+  } catch (error) {
+    console.error('Failed to check account status:', error)
+  }
+}
+
 // Request notification permission
 async function handleNotificationPermissionRequest() {
   try {
@@ -264,6 +1124,27 @@ async function handleNotificationPermissionRequest() {
   }
 }
 
+// Replace stored live progress, skipping the write when there was and is nothing to show
+async function updateTorrentProgress(progress: TorrentProgressMap) {
+  if (Object.keys(progress).length === 0) {
+    const previous = await storage.getTorrentProgress()
+    if (Object.keys(previous).length === 0) return
+  }
+  await storage.saveTorrentProgress(progress)
+}
+
+// Helper: Fetch the newest torrents of an account in one request, keyed by id
+// Returns an empty map on failure so polling falls back to per-torrent requests
+async function fetchRecentTorrents(api: RdClient): Promise<Map<string, RdTorrentInfo>> {
+  try {
+    const { torrents } = await api.getTorrentsPage(1, BATCH_REFRESH_LIMIT)
+    return new Map(torrents.map(info => [info.id, info]))
+  } catch (error) {
+    console.warn('Batched status refresh failed:', error)
+    return new Map()
+  }
+}
+
 // Check pending torrents
 async function checkPendingTorrents() {
   const settings = await storage.getSettings()
@@ -272,78 +1153,137 @@ async function checkPendingTorrents() {
   const torrents = await storage.getTorrents()
   const processingTorrents = torrents.filter(t => t.status === 'processing')
 
-  if (processingTorrents.length === 0) return
+  if (processingTorrents.length === 0) {
+    await updateTorrentProgress({})
+    return
+  }
 
   const maxRetryDuration = settings.maxRetryDuration || DEFAULT_MAX_RETRY_DURATION
-  let hasChanges = false
+  // Changes are collected per item and applied to the stored list at the end, so items
+  // added, removed or edited while the API calls run aren't overwritten
+  const updates: Record<string, Partial<TorrentItem>> = {}
+  const update = (torrent: TorrentItem, changes: Partial<TorrentItem>) => {
+    Object.assign(torrent, changes)
+    updates[torrent.id] = { ...updates[torrent.id], ...changes }
+  }
   const newlyCompleted: string[] = []
   const newlyFailed: string[] = []
+  const progress: TorrentProgressMap = {}
+  // Batch per account; torrents missing from the list (older than the first page)
+  // are fetched one by one
+  const pendingPerAccount = new Map<string | undefined, number>()
+  for (const torrent of processingTorrents) {
+    pendingPerAccount.set(torrent.accountId, (pendingPerAccount.get(torrent.accountId) ?? 0) + 1)
+  }
+  const recentTorrents = new Map<string, RdTorrentInfo>()
+  for (const [accountId, pending] of pendingPerAccount) {
+    if (pending < BATCH_REFRESH_THRESHOLD) continue
+    for (const [id, info] of await fetchRecentTorrents(getAccountAPI(accountId))) {
+      recentTorrents.set(id, info)
+    }
+  }
+  // Accounts whose token or permissions failed are skipped for the rest of this round
+  const failedAccounts = new Set<string | undefined>()
 
   for (const torrent of processingTorrents) {
+    if (failedAccounts.has(torrent.accountId)) continue
+    const api = getAccountAPI(torrent.accountId)
     const elapsed = (Date.now() - torrent.addedAt) / 1000
 
     // Check for timeout
     if (elapsed > maxRetryDuration) {
-      torrent.status = 'timeout'
+      update(torrent, { status: 'timeout' })
       newlyFailed.push(torrent.id)
-      hasChanges = true
       continue
     }
 
     try {
-      const info = await rdAPI.getTorrentInfo(torrent.id)
-
-      // Update hash from API (for torrents added before hash field)
-      if (info.hash && !torrent.hash) {
-        torrent.hash = info.hash
-        hasChanges = true
-      }
+      const info = recentTorrents.get(torrent.id) ?? (await api.getTorrentInfo(torrent.id))
 
       // Handle different statuses
       if (info.status === 'waiting_files_selection') {
-        if (settings.alwaysSaveAllFiles) {
-          // Auto-select all files if setting is enabled
-          await rdAPI.selectFiles(torrent.id, 'all')
-          hasChanges = true
+        // Auto-select all files if setting is enabled, otherwise try the selection rules
+        const autoSelection = settings.alwaysSaveAllFiles
+          ? 'all'
+          : await selectFilesByRules(api, info, settings.fileSelectionRules)
+        if (autoSelection) {
+          await api.selectFiles(torrent.id, autoSelection)
         } else {
           // Update status to selecting_files so UI can show file selector
-          torrent.status = 'selecting_files'
-          torrent.filename = info.filename || 'Select files...'
-          hasChanges = true
+          update(torrent, {
+            status: 'selecting_files',
+            filename: info.filename || 'Select files...',
+          })
         }
       } else if (info.status === 'downloaded') {
-        torrent.status = 'ready'
-        torrent.filename = info.filename
-        if (info.links?.[0]) {
-          try {
-            const unrestricted = await rdAPI.unrestrictLink(info.links[0])
-            torrent.downloadUrl = unrestricted.download
-          } catch (error) {
-            console.error('Failed to unrestrict link:', error)
-            torrent.downloadUrl = null
-          }
+        const links = info.links?.length
+          ? await unrestrictLinks(api, info.links, getLinkPaths(info))
+          : []
+        if (links.length < (info.links?.length ?? 0)) {
+          // Stay processing so the next poll retries the links that failed
+          update(torrent, { filename: info.filename })
         } else {
-          torrent.downloadUrl = null
+          update(torrent, {
+            status: 'ready',
+            filename: info.filename,
+            links,
+            downloadUrl: links[0]?.url ?? null,
+          })
+          if (torrent.hash) {
+            await storage.setHashAvailability(torrent.hash, true)
+          }
+          newlyCompleted.push(torrent.id)
         }
-        newlyCompleted.push(torrent.id)
-        hasChanges = true
       } else if (info.status === 'error' || info.status === 'dead') {
-        torrent.status = 'error'
+        update(torrent, { status: 'error' })
         newlyFailed.push(torrent.id)
-        hasChanges = true
       } else if (info.filename && torrent.filename === 'Processing...') {
         // Update filename when available
-        torrent.filename = info.filename
-        hasChanges = true
+        update(torrent, { filename: info.filename })
+      }
+
+      if (torrent.status === 'processing') {
+        progress[torrent.id] = toTorrentProgress(info)
       }
     } catch (error) {
-      console.error('Polling error for torrent', torrent.id, error)
-      // Don't set error status on polling errors - keep trying
+      if (error instanceof RdApiError && ACCOUNT_ERROR_KINDS.includes(error.kind)) {
+        // The account's remaining torrents would fail the same way
+        console.warn('Polling stopped for account:', torrent.accountId ?? 'default', error.message)
+        failedAccounts.add(torrent.accountId)
+        continue
+      }
+      if (error instanceof RdApiError && !error.retryable && error.kind !== 'unknown') {
+        // Deleted or blocked on Real-Debrid - polling again won't help
+        update(torrent, { status: 'error', error: error.message })
+        newlyFailed.push(torrent.id)
+      } else {
+        console.error('Polling error for torrent', torrent.id, error)
+        // Don't set error status on temporary errors - keep trying
+      }
     }
   }
 
-  if (hasChanges) {
-    await storage.saveTorrents(torrents)
+  await updateTorrentProgress(progress)
+
+  // Hand finished items to aria2 before saving, so sentToAria2At is stored with them
+  if (settings.aria2?.enabled && settings.aria2.autoSend) {
+    for (const torrentId of newlyCompleted) {
+      const torrent = torrents.find(t => t.id === torrentId)
+      if (!torrent) continue
+      try {
+        const result = await pushToAria2(settings.aria2, torrent)
+        update(torrent, result.update)
+        if (result.error) {
+          console.error('aria2 stopped part-way through torrent:', torrent.filename, result.error)
+        }
+      } catch (error) {
+        console.error('Failed to send torrent to aria2:', torrent.filename, error)
+      }
+    }
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await storage.updateTorrents(updates)
 
     // Send notifications for status changes
     for (const torrentId of newlyCompleted) {
@@ -353,7 +1293,7 @@ async function checkPendingTorrents() {
           torrentId,
           torrent.filename,
           'ready',
-          torrent.downloadUrl ? 1 : 0
+          torrent.links?.length ?? 0
         )
       }
     }
@@ -378,19 +1318,49 @@ browser.alarms.get(POLL_ALARM).then(alarm => {
     scheduleNextAlarm()
   }
 })
+browser.alarms.get(ACCOUNT_ALARM).then(alarm => {
+  if (!alarm) {
+    scheduleAccountAlarm()
+  }
+})
+browser.alarms.get(SYNC_ALARM).then(alarm => {
+  if (!alarm) {
+    scheduleSyncAlarm()
+  }
+})
 
 // Handle messages from popup (must be after handler functions are defined)
-browser.runtime.onMessage.addListener(async (message: unknown) => {
+browser.runtime.onMessage.addListener(async (message: unknown, sender: MessageSender) => {
   const msg = message as {
     type?: string
     magnetLink?: string
+    link?: string
+    confirmed?: boolean
+    fileData?: string
+    fileName?: string
     torrentId?: string
     selectedFiles?: string
     torrentIds?: string[]
+    url?: string
+    linkId?: string
+    torrents?: TorrentItem[]
+    mode?: RestoreMode
   }
 
   if (msg.type === 'ADD_MAGNET') {
-    return await handleAddMagnet(msg.magnetLink || '')
+    return await handleAddMagnet(msg.magnetLink || '', { confirmed: msg.confirmed })
+  } else if (msg.type === 'INTERCEPTED_MAGNET') {
+    // The tab's page, not the frame the link was in (see GET_TAB_URL)
+    return await handleInterceptedMagnet(msg.magnetLink || '', sender?.tab?.url || '')
+  } else if (msg.type === 'GET_TAB_URL') {
+    // Lets content scripts in frames apply the site filter to the page, as INTERCEPTED_MAGNET does
+    return { url: sender?.tab?.url }
+  } else if (msg.type === 'ADD_HOSTER_LINK') {
+    return await handleAddHosterLink(msg.link || '')
+  } else if (msg.type === 'ADD_TORRENT_FILE') {
+    return await handleAddTorrentFile(msg.fileData || '', msg.fileName || '')
+  } else if (msg.type === 'CHECK_AVAILABILITY') {
+    return await handleCheckAvailability(msg.magnetLink || '')
   } else if (msg.type === 'RETRY_TORRENT') {
     return await handleRetry(msg.torrentId || '')
   } else if (msg.type === 'SELECT_FILES') {
@@ -403,10 +1373,32 @@ browser.runtime.onMessage.addListener(async (message: unknown) => {
     return await handleRetryFailed()
   } else if (msg.type === 'CLEAR_COMPLETED') {
     return await handleClearCompleted()
+  } else if (msg.type === 'REMOVE_TORRENT') {
+    return await handleRemoveTorrent(msg.torrentId || '')
+  } else if (msg.type === 'RESTORE_TORRENTS') {
+    return await handleRestoreTorrents(msg.torrents || [], msg.mode || 'merge')
+  } else if (msg.type === 'DELETE_TORRENT') {
+    return await handleDeleteTorrent(msg.torrentId || '')
+  } else if (msg.type === 'DELETE_COMPLETED_FROM_ACCOUNT') {
+    return await handleDeleteCompletedFromAccount()
   } else if (msg.type === 'GET_TORRENT_PROGRESS') {
     return await handleGetTorrentProgress(msg.torrentId || '')
   } else if (msg.type === 'NOTIFICATION_PERMISSION_REQUEST') {
     return await handleNotificationPermissionRequest()
+  } else if (msg.type === 'GET_ACCOUNT_INFO') {
+    return await handleGetAccountInfo()
+  } else if (msg.type === 'SYNC_ACCOUNT_TORRENTS') {
+    return await syncAccountTorrents()
+  } else if (msg.type === 'UNRESTRICT_ACCOUNT_TORRENT') {
+    return await handleUnrestrictAccountTorrent(msg.torrentId || '')
+  } else if (msg.type === 'UNRESTRICT_HISTORY_TORRENT') {
+    return await handleUnrestrictHistoryTorrent(msg.torrentId || '')
+  } else if (msg.type === 'SEND_TO_ARIA2') {
+    return await handleSendToAria2(msg.torrentId || '')
+  } else if (msg.type === 'START_DOWNLOAD') {
+    return await handleStartDownload(msg.torrentId || '', msg.url)
+  } else if (msg.type === 'GET_STREAM_INFO') {
+    return await handleGetStreamInfo(msg.torrentId || '', msg.linkId || '')
   }
 })
 
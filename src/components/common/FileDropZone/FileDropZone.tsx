@@ -0,0 +1,145 @@
+/**
+ * FileDropZone Component - Industrial Terminal Design System
+ *
+ * Wraps content in a drag-and-drop target for files, with an optional
+ * browse button backed by a hidden file input.
+ */
+
+import React, { useRef, useState } from 'react'
+import { Button } from '../Button'
+import { Icon } from '../Icon'
+
+export interface FileDropZoneProps {
+  /** Accepted file types, passed to the file input (e.g. ".torrent") */
+  accept?: string
+  /** Allow selecting or dropping several files at once */
+  multiple?: boolean
+  /** Called with the dropped or selected files */
+  onFiles: (files: File[]) => void
+  /** Disables dropping and browsing */
+  disabled?: boolean
+  /** Label of the browse button; the button is hidden when omitted */
+  browseLabel?: string
+  /** Text shown over the content while dragging files */
+  dropLabel?: string
+  /** Additional CSS class names */
+  className?: string
+  /** Content rendered inside the drop zone */
+  children?: React.ReactNode
+}
+
+/**
+ * FileDropZone component for dropping or picking files.
+ *
+ * @example
+ * ```tsx
+ * <FileDropZone accept=".torrent" multiple browseLabel="Upload" onFiles={handleFiles}>
+ *   <MagnetForm />
+ * </FileDropZone>
+ * ```
+ */
+export const FileDropZone: React.FC<FileDropZoneProps> = ({
+  accept,
+  multiple = false,
+  onFiles,
+  disabled = false,
+  browseLabel,
+  dropLabel = 'Drop files here',
+  className = '',
+  children,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Counter instead of a boolean: dragenter/dragleave fire for every child element
+  const [dragDepth, setDragDepth] = useState(0)
+  const isDragging = dragDepth > 0 && !disabled
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files')
+
+  const emitFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList || [])
+    if (files.length === 0) return
+    onFiles(multiple ? files : files.slice(0, 1))
+  }
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return
+    e.preventDefault()
+    setDragDepth(depth => depth + 1)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return
+    setDragDepth(depth => Math.max(0, depth - 1))
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (disabled || !hasFiles(e)) return
+    e.preventDefault()
+    setDragDepth(0)
+    emitFiles(e.dataTransfer.files)
+  }
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    emitFiles(e.target.files)
+    // Reset so picking the same file again still fires onChange
+    e.target.value = ''
+  }
+
+  const classes = ['file-drop-zone', isDragging ? 'file-drop-zone--active' : '', className]
+    .filter(Boolean)
+    .join(' ')
+
+  return (
+    <div
+      className={classes}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      {browseLabel && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="file-drop-zone__browse"
+          leftIcon={<Icon name="upload" size="sm" />}
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+        >
+          {browseLabel}
+        </Button>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        className="file-drop-zone__input"
+        accept={accept}
+        multiple={multiple}
+        onChange={handleInputChange}
+        disabled={disabled}
+        tabIndex={-1}
+        aria-hidden="true"
+        data-testid="file-drop-zone-input"
+      />
+
+      {isDragging && (
+        <div className="file-drop-zone__overlay" aria-hidden="true">
+          <Icon name="upload" size="lg" />
+          <span className="file-drop-zone__overlay-label">{dropLabel}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FileDropZone
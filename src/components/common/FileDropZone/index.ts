@@ -0,0 +1,5 @@
+/**
+ * FileDropZone Component - Exports
+ */
+
+export { FileDropZone, type FileDropZoneProps } from './FileDropZone'
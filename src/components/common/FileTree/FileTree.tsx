@@ -0,0 +1,217 @@
+/**
+ * FileTree Component - Industrial Terminal Design System
+ *
+ * Torrent file picker showing the files as a collapsible folder tree with
+ * tri-state folder checkboxes, a name filter, type quick filters and
+ * sorting. Used by both the popup and the dashboard file selectors.
+ */
+
+import React, { useMemo, useState } from 'react'
+import { Button } from '../Button'
+import { Icon } from '../Icon'
+import {
+  buildFileTree,
+  collectFileIds,
+  formatBytes,
+  getFileName,
+  type FileCategory,
+  type FileSortOrder,
+  type FileTreeFolder,
+  type TorrentFile,
+} from '../../../utils/file-tree'
+
+export interface FileTreeProps {
+  /** Files of the torrent, as returned by Real-Debrid */
+  files: TorrentFile[]
+  /** Ids of the selected files */
+  selectedIds: Set<number>
+  /** Called with the new selection whenever a file or folder is toggled */
+  onSelectionChange: (selectedIds: Set<number>) => void
+  /** Additional CSS class names */
+  className?: string
+}
+
+const CATEGORY_LABELS: Record<FileCategory, string> = {
+  video: 'Video',
+  subtitles: 'Subtitles',
+  archives: 'Archives',
+}
+
+/**
+ * FileTree component for choosing which torrent files to download.
+ *
+ * @example
+ * ```tsx
+ * <FileTree files={info.files} selectedIds={selected} onSelectionChange={setSelected} />
+ * ```
+ */
+export const FileTree: React.FC<FileTreeProps> = ({
+  files,
+  selectedIds,
+  onSelectionChange,
+  className = '',
+}) => {
+  const [search, setSearch] = useState('')
+  const [categories, setCategories] = useState<FileCategory[]>([])
+  const [sort, setSort] = useState<FileSortOrder>('name')
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const tree = useMemo(
+    () => buildFileTree(files, { search, categories, sort }),
+    [files, search, categories, sort]
+  )
+  const visibleIds = useMemo(() => collectFileIds(tree), [tree])
+  const allVisibleSelected = visibleIds.every(id => selectedIds.has(id))
+  // Keep matches visible while filtering, even inside collapsed folders
+  const filtering = search.trim() !== '' || categories.length > 0
+
+  // Select the ids if any of them is unselected, otherwise deselect them all
+  const toggleIds = (ids: number[]) => {
+    const next = new Set(selectedIds)
+    if (ids.every(id => next.has(id))) {
+      ids.forEach(id => next.delete(id))
+    } else {
+      ids.forEach(id => next.add(id))
+    }
+    onSelectionChange(next)
+  }
+
+  const toggleCategory = (category: FileCategory) => {
+    setCategories(
+      categories.includes(category)
+        ? categories.filter(c => c !== category)
+        : [...categories, category]
+    )
+  }
+
+  const toggleCollapsed = (path: string) => {
+    const next = new Set(collapsed)
+    if (next.has(path)) {
+      next.delete(path)
+    } else {
+      next.add(path)
+    }
+    setCollapsed(next)
+  }
+
+  const renderFolder = (folder: FileTreeFolder, depth: number): React.ReactNode => (
+    <>
+      {folder.folders.map(child => {
+        const ids = collectFileIds(child)
+        const selectedCount = ids.filter(id => selectedIds.has(id)).length
+        const expanded = filtering || !collapsed.has(child.path)
+        return (
+          <div key={child.path} className="file-tree__folder" role="group">
+            <div
+              className="file-tree__row file-tree__row--folder"
+              style={{ '--file-tree-depth': depth } as React.CSSProperties}
+            >
+              <button
+                type="button"
+                className={`file-tree__toggle${expanded ? '' : ' file-tree__toggle--collapsed'}`}
+                onClick={() => toggleCollapsed(child.path)}
+                aria-expanded={expanded}
+                aria-label={`${expanded ? 'Collapse' : 'Expand'} ${child.name}`}
+                disabled={filtering}
+              >
+                <Icon name="chevron-down" size="sm" />
+              </button>
+              <input
+                type="checkbox"
+                className="file-tree__checkbox"
+                checked={selectedCount === ids.length}
+                ref={input => {
+                  if (input) input.indeterminate = selectedCount > 0 && selectedCount < ids.length
+                }}
+                onChange={() => toggleIds(ids)}
+                aria-label={`Select folder ${child.name}`}
+              />
+              <span className="file-tree__name" title={child.path}>
+                {child.name}
+              </span>
+              <span className="file-tree__size">{formatBytes(child.bytes)}</span>
+            </div>
+            {expanded && renderFolder(child, depth + 1)}
+          </div>
+        )
+      })}
+      {folder.files.map(file => (
+        <label
+          key={file.id}
+          className="file-tree__row file-tree__item"
+          style={{ '--file-tree-depth': depth } as React.CSSProperties}
+        >
+          <input
+            type="checkbox"
+            className="file-tree__checkbox"
+            checked={selectedIds.has(file.id)}
+            onChange={() => toggleIds([file.id])}
+          />
+          <span className="file-tree__name" title={file.path}>
+            {getFileName(file.path)}
+          </span>
+          <span className="file-tree__size">{formatBytes(file.bytes)}</span>
+        </label>
+      ))}
+    </>
+  )
+
+  return (
+    <div className={`file-tree ${className}`.trim()}>
+      {/* Filters */}
+      <div className="file-tree__toolbar">
+        <input
+          type="search"
+          className="file-tree__search"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Filter files"
+          aria-label="Filter files"
+        />
+        <select
+          className="file-tree__sort"
+          value={sort}
+          onChange={e => setSort(e.target.value as FileSortOrder)}
+          aria-label="Sort files"
+        >
+          <option value="name">Name</option>
+          <option value="size">Size</option>
+        </select>
+      </div>
+      <div className="file-tree__filters">
+        {(Object.keys(CATEGORY_LABELS) as FileCategory[]).map(category => (
+          <button
+            key={category}
+            type="button"
+            className={`file-tree__filter${categories.includes(category) ? ' file-tree__filter--active' : ''}`}
+            onClick={() => toggleCategory(category)}
+            aria-pressed={categories.includes(category)}
+          >
+            {CATEGORY_LABELS[category]}
+          </button>
+        ))}
+      </div>
+
+      {/* Controls */}
+      <div className="file-tree__controls">
+        <Button variant="secondary" size="sm" onClick={() => toggleIds(visibleIds)}>
+          {allVisibleSelected ? 'Deselect All' : 'Select All'}
+        </Button>
+        <span className="file-tree__select-text">
+          {selectedIds.size} of {files.length} files selected
+        </span>
+      </div>
+
+      {/* Tree */}
+      <div className="file-tree__list">
+        {visibleIds.length === 0 && files.length > 0 ? (
+          <p className="file-tree__empty">No files match the filters</p>
+        ) : (
+          renderFolder(tree, 0)
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default FileTree
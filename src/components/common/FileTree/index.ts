@@ -0,0 +1,5 @@
+/**
+ * FileTree Component - Exports
+ */
+
+export { FileTree, type FileTreeProps } from './FileTree'
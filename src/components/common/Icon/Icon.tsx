@@ -15,6 +15,7 @@ export type IconName =
   | 'clock'
   | 'file'
   | 'download'
+  | 'upload'
   | 'copy'
   | 'trash'
   | 'refresh'
@@ -25,6 +26,7 @@ export type IconName =
   | 'chevron-down'
   | 'external-link'
   | 'gear'
+  | 'play'
 
 export type IconSize = 'sm' | 'md' | 'lg' | 'xl'
 
@@ -148,6 +150,26 @@ const iconPaths: Record<IconName, React.ReactNode> = {
     </>
   ),
 
+  upload: (
+    <>
+      <path
+        d="M12 15V3M12 3l-4 4M12 3l4 4"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="none"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      <path
+        d="M20 17v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="none"
+        strokeLinecap="round"
+      />
+    </>
+  ),
+
   copy: (
     <>
       <rect
@@ -331,6 +353,16 @@ const iconPaths: Record<IconName, React.ReactNode> = {
       />
     </>
   ),
+
+  play: (
+    <path
+      d="M7 4v16l13-8L7 4z"
+      stroke="currentColor"
+      strokeWidth="2"
+      fill="none"
+      strokeLinejoin="round"
+    />
+  ),
 }
 
 /**
@@ -42,3 +42,9 @@ export {
   type ToastProps,
   type ToastContainerProps,
 } from './Toast'
+
+// FileDropZone component
+export { FileDropZone, type FileDropZoneProps } from './FileDropZone'
+
+// FileTree component
+export { FileTree, type FileTreeProps } from './FileTree'
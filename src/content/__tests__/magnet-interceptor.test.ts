@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+// Mock webextension-polyfill
+vi.mock('webextension-polyfill', () => {
+  const mockRuntime = {
+    sendMessage: vi.fn(() => Promise.resolve()),
+  }
+
+  const mockStorage = {
+    sync: {
+      get: vi.fn(() => Promise.resolve({})),
+    },
+    onChanged: {
+      addListener: vi.fn(),
+    },
+  }
+
+  return {
+    default: {
+      runtime: mockRuntime,
+      storage: mockStorage,
+    },
+    get mockRuntime() {
+      return mockRuntime
+    },
+    get mockStorage() {
+      return mockStorage
+    },
+  }
+})
+
+const MAGNET = 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567&dn=Test'
+
+describe('magnet-interceptor', () => {
+  let handleClick: (event: MouseEvent) => boolean
+
+  const loadInterceptor = async (settings: Record<string, unknown>) => {
+    const webextension = await import('webextension-polyfill')
+    const { mockStorage } = webextension as any
+    mockStorage.sync.get.mockResolvedValue({
+      interceptMagnetLinks: true,
+      interceptSiteMode: 'denylist',
+      interceptSiteList: [],
+      ...settings,
+    })
+
+    const module = await import('../magnet-interceptor')
+    handleClick = module.handleClick
+    // Let the initial settings load resolve
+    await Promise.resolve()
+    await Promise.resolve()
+  }
+
+  const clickLink = (href: string, init: MouseEventInit = {}) => {
+    const anchor = document.createElement('a')
+    anchor.href = href
+    anchor.innerHTML = '<span>download</span>'
+    document.body.appendChild(anchor)
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true, ...init })
+    Object.defineProperty(event, 'target', { value: anchor.firstChild })
+    return { event, intercepted: handleClick(event) }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.resetModules()
+    document.body.innerHTML = ''
+  })
+
+  it('sends clicked magnet links to the background', async () => {
+    const webextension = await import('webextension-polyfill')
+    const { mockRuntime } = webextension as any
+    await loadInterceptor({})
+
+    const { event, intercepted } = clickLink(MAGNET)
+
+    expect(intercepted).toBe(true)
+    expect(event.defaultPrevented).toBe(true)
+    expect(mockRuntime.sendMessage).toHaveBeenCalledWith({
+      type: 'INTERCEPTED_MAGNET',
+      magnetLink: MAGNET,
+    })
+  })
+
+  it('ignores clicks when interception is disabled', async () => {
+    const webextension = await import('webextension-polyfill')
+    const { mockRuntime } = webextension as any
+    await loadInterceptor({ interceptMagnetLinks: false })
+
+    const { event, intercepted } = clickLink(MAGNET)
+
+    expect(intercepted).toBe(false)
+    expect(event.defaultPrevented).toBe(false)
+    expect(mockRuntime.sendMessage).not.toHaveBeenCalled()
+  })
+
+  it('ignores clicks on sites in the deny list', async () => {
+    await loadInterceptor({ interceptSiteList: [window.location.hostname] })
+
+    expect(clickLink(MAGNET).intercepted).toBe(false)
+  })
+
+  describe('in frames', () => {
+    const parentWindow = {} as Window
+
+    beforeEach(() => {
+      vi.spyOn(window, 'top', 'get').mockReturnValue(parentWindow)
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('checks the site filter against the URL of the tab', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      mockRuntime.sendMessage.mockResolvedValueOnce({ url: 'https://blocked.example/page' })
+      await loadInterceptor({ interceptSiteList: ['blocked.example'] })
+
+      expect(mockRuntime.sendMessage).toHaveBeenCalledWith({ type: 'GET_TAB_URL' })
+      expect(clickLink(MAGNET).intercepted).toBe(false)
+    })
+
+    it('leaves clicks alone until the tab URL is known', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      mockRuntime.sendMessage.mockReturnValueOnce(new Promise(() => {}))
+      await loadInterceptor({})
+
+      expect(clickLink(MAGNET).intercepted).toBe(false)
+    })
+
+    it('intercepts clicks once the tab passes the site filter', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockRuntime } = webextension as any
+      mockRuntime.sendMessage.mockResolvedValueOnce({ url: 'https://allowed.example/page' })
+      await loadInterceptor({ interceptSiteList: [window.location.hostname] })
+
+      expect(clickLink(MAGNET).intercepted).toBe(true)
+    })
+  })
+
+  it('ignores regular links, invalid magnets and modified clicks', async () => {
+    await loadInterceptor({})
+
+    expect(clickLink('https://example.com/file.torrent').intercepted).toBe(false)
+    expect(clickLink('magnet:?dn=no-hash').intercepted).toBe(false)
+    expect(clickLink(MAGNET, { ctrlKey: true }).intercepted).toBe(false)
+    expect(clickLink(MAGNET, { button: 1 }).intercepted).toBe(false)
+  })
+
+  it('reloads settings when they change', async () => {
+    const webextension = await import('webextension-polyfill')
+    const { mockStorage } = webextension as any
+    await loadInterceptor({ interceptMagnetLinks: false })
+
+    mockStorage.sync.get.mockResolvedValue({
+      interceptMagnetLinks: true,
+      interceptSiteMode: 'denylist',
+      interceptSiteList: [],
+    })
+    const onChanged = mockStorage.onChanged.addListener.mock.calls[0][0]
+    onChanged({ interceptMagnetLinks: { newValue: true } }, 'sync')
+    await Promise.resolve()
+    await Promise.resolve()
+
+    expect(clickLink(MAGNET).intercepted).toBe(true)
+  })
+})
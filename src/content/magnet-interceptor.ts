@@ -0,0 +1,101 @@
+/**
+ * Magnet Interceptor - content script
+ *
+ * Catches clicks on `magnet:` links and hands them to the background instead
+ * of the system torrent client. Opt-in via the `interceptMagnetLinks` setting
+ * and filtered by the per-site allow/deny list.
+ */
+
+import browser from 'webextension-polyfill'
+import { isValidMagnet } from '../utils/magnet'
+import { isInterceptionAllowed } from '../utils/site-filter'
+import type { Settings } from '../utils/types'
+
+type InterceptSettings = Pick<
+  Settings,
+  'interceptMagnetLinks' | 'interceptSiteMode' | 'interceptSiteList'
+>
+
+// Read directly rather than through utils/storage, which would pull every
+// stored torrent into each page the script runs on
+const INTERCEPT_DEFAULTS: InterceptSettings = {
+  interceptMagnetLinks: false,
+  interceptSiteMode: 'denylist',
+  interceptSiteList: [],
+}
+
+// Click handlers must call preventDefault synchronously, so settings are kept in memory
+let settings: InterceptSettings = INTERCEPT_DEFAULTS
+
+async function loadSettings(): Promise<void> {
+  settings = (await browser.storage.sync.get(INTERCEPT_DEFAULTS)) as unknown as InterceptSettings
+}
+
+// The site filter applies to the tab's page, like the background's check of sender.tab.url
+// Frames can't read the top page's URL across origins, so they ask the background for it and
+// leave clicks alone until it answers
+let tabUrl: string | null = null
+
+const isTopFrame = () => window === window.top
+
+async function loadTabUrl(): Promise<void> {
+  if (isTopFrame()) return
+  try {
+    const response = (await browser.runtime.sendMessage({ type: 'GET_TAB_URL' })) as
+      | { url?: string }
+      | undefined
+    tabUrl = response?.url ?? null
+  } catch (error) {
+    console.error('Failed to get the page URL:', error)
+  }
+}
+
+/**
+ * Find the magnet anchor a click landed on, if any
+ */
+export function findMagnetAnchor(target: EventTarget | null): HTMLAnchorElement | null {
+  if (!(target instanceof Element)) return null
+  const anchor = target.closest('a[href]')
+  if (!(anchor instanceof HTMLAnchorElement)) return null
+  return anchor.href.toLowerCase().startsWith('magnet:') ? anchor : null
+}
+
+/**
+ * Intercept a click on a magnet link and send it to the background
+ * @returns true if the click was intercepted
+ */
+export function handleClick(event: MouseEvent): boolean {
+  // Leave modified and non-primary clicks to the browser
+  if (event.defaultPrevented || event.button !== 0) return false
+  if (event.ctrlKey || event.metaKey || event.shiftKey || event.altKey) return false
+
+  const anchor = findMagnetAnchor(event.target)
+  if (!anchor || !isValidMagnet(anchor.href)) return false
+  // The top frame's URL changes without a reload on single-page sites
+  const url = isTopFrame() ? window.location.href : tabUrl
+  if (!url || !isInterceptionAllowed(url, settings)) return false
+
+  event.preventDefault()
+  event.stopPropagation()
+
+  browser.runtime
+    .sendMessage({ type: 'INTERCEPTED_MAGNET', magnetLink: anchor.href })
+    .catch(error => console.error('Failed to send intercepted magnet link:', error))
+
+  return true
+}
+
+browser.storage.onChanged.addListener((changes, areaName) => {
+  if (
+    areaName === 'sync' &&
+    (changes.interceptMagnetLinks || changes.interceptSiteMode || changes.interceptSiteList)
+  ) {
+    loadSettings()
+  }
+})
+
+// Capture phase so page scripts that stop propagation can't hide the click
+document.addEventListener('click', handleClick, true)
+
+loadSettings()
+loadTabUrl()
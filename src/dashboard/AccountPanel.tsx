@@ -0,0 +1,140 @@
+/**
+ * AccountPanel Component - Industrial Terminal Design System
+ *
+ * Compact header panel showing the Real-Debrid account overview:
+ * premium days left, fidelity points and traffic used per host.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react'
+import browser from 'webextension-polyfill'
+import type { AccountInfo, RdTrafficDetails } from '../utils/types'
+import { PREMIUM_EXPIRY_WARNING_DAYS } from '../utils/notifications'
+import { Badge } from '../components/common/Badge'
+import { Icon } from '../components/common/Icon'
+
+interface AccountPanelProps {
+  /** Additional CSS class name */
+  className?: string
+  /** Maximum number of hosts listed in the traffic breakdown */
+  maxHosts?: number
+}
+
+/**
+ * Format bytes to human readable size
+ */
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let size = bytes
+  let unitIndex = 0
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024
+    unitIndex++
+  }
+  return `${size.toFixed(1)} ${units[unitIndex]}`
+}
+
+/**
+ * Sum traffic details over all days into a per-host total, largest first
+ */
+function aggregateTrafficByHost(details: RdTrafficDetails): Array<[string, number]> {
+  const totals = new Map<string, number>()
+  for (const day of Object.values(details)) {
+    for (const [host, bytes] of Object.entries(day.host || {})) {
+      totals.set(host, (totals.get(host) || 0) + bytes)
+    }
+  }
+  return Array.from(totals.entries()).sort((a, b) => b[1] - a[1])
+}
+
+export const AccountPanel: React.FC<AccountPanelProps> = ({ className = '', maxHosts = 5 }) => {
+  const [account, setAccount] = useState<AccountInfo | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchAccountInfo = async () => {
+      try {
+        const response = (await browser.runtime.sendMessage({
+          type: 'GET_ACCOUNT_INFO',
+        })) as { success?: boolean; account?: AccountInfo; error?: string }
+
+        if (response?.success && response?.account) {
+          setAccount(response.account)
+        } else {
+          setError(response?.error || 'Account info unavailable')
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Account info unavailable')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAccountInfo()
+  }, [])
+
+  const hostTraffic = useMemo(
+    () => (account ? aggregateTrafficByHost(account.trafficDetails) : []),
+    [account]
+  )
+
+  if (loading) {
+    return (
+      <div className={`account-panel account-panel--loading ${className}`.trim()}>
+        <Icon name="spinner" size="sm" />
+        <span>Loading account...</span>
+      </div>
+    )
+  }
+
+  if (error || !account) {
+    return (
+      <div className={`account-panel account-panel--error ${className}`.trim()} role="status">
+        <Icon name="x-circle" size="sm" />
+        <span>{error}</span>
+      </div>
+    )
+  }
+
+  const { user, traffic } = account
+  const isPremium = user.type === 'premium'
+  const daysLeft = Math.floor(user.premium / 86400)
+  const expiringSoon = isPremium && daysLeft <= PREMIUM_EXPIRY_WARNING_DAYS
+
+  return (
+    <div className={`account-panel ${className}`.trim()} aria-label="Real-Debrid account">
+      <div className="account-panel__row">
+        <span className="account-panel__username">{user.username}</span>
+        <Badge variant={!isPremium ? 'default' : expiringSoon ? 'timeout' : 'ready'} size="sm">
+          {isPremium ? `Premium · ${daysLeft}d left` : 'Free'}
+        </Badge>
+        <span className="account-panel__points" title="Fidelity points">
+          <span className="account-panel__points-value">{user.points.toLocaleString()}</span>
+          <span className="account-panel__label">pts</span>
+        </span>
+      </div>
+
+      {hostTraffic.length > 0 && (
+        <ul className="account-panel__traffic" aria-label="Traffic used per host">
+          {hostTraffic.slice(0, maxHosts).map(([host, bytes]) => (
+            <li key={host} className="account-panel__traffic-item">
+              <span className="account-panel__host">{host}</span>
+              <span className="account-panel__bytes">
+                {formatBytes(bytes)}
+                {traffic[host]?.type === 'bytes' && traffic[host].limit > 0 && (
+                  <span className="account-panel__label">
+                    {' '}
+                    / {formatBytes(traffic[host].limit)}
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default AccountPanel
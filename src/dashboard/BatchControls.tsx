@@ -1,12 +1,24 @@
 import React from 'react'
 import { Button } from '../components/common/Button'
 import { Icon } from '../components/common/Icon'
+import type { ExportFormat } from '../utils/link-export'
+import { ExportMenu } from './ExportMenu'
 
 interface BatchControlsProps {
   failedCount: number
   completedCount: number
   onRetryFailed?: () => void
   onClearCompleted?: () => void
+  /** Completed torrents that can be deleted from the Real-Debrid account */
+  deletableCount?: number
+  onDeleteFromAccount?: () => void
+  deleting?: boolean
+  onSyncAccount?: () => void
+  syncing?: boolean
+  /** Torrents ticked on their cards for a batch export */
+  selectedCount?: number
+  onExportSelected?: (format: ExportFormat) => void
+  onClearSelection?: () => void
   disabled?: boolean
 }
 
@@ -15,10 +27,20 @@ export const BatchControls: React.FC<BatchControlsProps> = ({
   completedCount,
   onRetryFailed,
   onClearCompleted,
+  deletableCount = 0,
+  onDeleteFromAccount,
+  deleting = false,
+  onSyncAccount,
+  syncing = false,
+  selectedCount = 0,
+  onExportSelected,
+  onClearSelection,
   disabled = false,
 }) => {
   const hasFailed = failedCount > 0
   const hasCompleted = completedCount > 0
+  const hasDeletable = deletableCount > 0
+  const hasSelected = selectedCount > 0
 
   return (
     <div className="batch-controls">
@@ -57,6 +79,75 @@ export const BatchControls: React.FC<BatchControlsProps> = ({
           {completedCount > 0 && <span className="batch-control-count">{completedCount}</span>}
         </Button>
       )}
+
+      {onDeleteFromAccount && (
+        <Button
+          variant="danger"
+          size="md"
+          onClick={onDeleteFromAccount}
+          disabled={!hasDeletable || disabled}
+          loading={deleting}
+          aria-label={`Delete completed torrents from Real-Debrid (${deletableCount})`}
+          title={
+            !hasDeletable
+              ? 'No completed torrents to delete'
+              : `Delete ${deletableCount} completed torrents from your Real-Debrid account`
+          }
+          leftIcon={<Icon name="trash" size="sm" />}
+        >
+          Delete from Account
+          {hasDeletable && <span className="batch-control-count">{deletableCount}</span>}
+        </Button>
+      )}
+
+      {onSyncAccount && (
+        <Button
+          variant="secondary"
+          size="md"
+          onClick={onSyncAccount}
+          disabled={disabled}
+          loading={syncing}
+          aria-label="Sync torrents from Real-Debrid account"
+          title="Import the torrent history of your Real-Debrid account"
+          leftIcon={<Icon name="download" size="sm" />}
+        >
+          Sync Account
+        </Button>
+      )}
+
+      {onExportSelected && (
+        <ExportMenu
+          variant="secondary"
+          size="md"
+          onExport={onExportSelected}
+          disabled={!hasSelected || disabled}
+          aria-label={`Export links of selected torrents (${selectedCount})`}
+          title={
+            !hasSelected
+              ? 'Select torrents to export their links'
+              : `Export the links of ${selectedCount} selected torrents`
+          }
+          label={
+            <>
+              Export Selected
+              {hasSelected && <span className="batch-control-count">{selectedCount}</span>}
+            </>
+          }
+        />
+      )}
+
+      {onClearSelection && hasSelected && (
+        <Button
+          variant="ghost"
+          size="md"
+          onClick={onClearSelection}
+          disabled={disabled}
+          aria-label="Clear selection"
+          leftIcon={<Icon name="x" size="sm" />}
+        >
+          Clear Selection
+        </Button>
+      )}
     </div>
   )
 }
@@ -1,13 +1,24 @@
-import React, { useSyncExternalStore, useCallback, useMemo, useState } from 'react'
+import React, { useSyncExternalStore, useCallback, useEffect, useMemo, useState } from 'react'
 import browser from 'webextension-polyfill'
 import { storage } from '../utils/storage'
-import type { ExtendedTorrentItem, TorrentItem } from '../utils/types'
-import { Icon, Modal, Button } from '../components/common'
+import type {
+  DownloadLink,
+  ExtendedTorrentItem,
+  TorrentItem,
+  TorrentProgressMap,
+} from '../utils/types'
+import { Icon, Modal, Button, FileDropZone } from '../components/common'
+import { isTorrentFile, sendTorrentFile } from '../utils/torrent-file'
+import { downloadExport, type ExportFormat } from '../utils/link-export'
 import { TorrentCard } from './TorrentCard'
 import { BatchControls } from './BatchControls'
 import { DarkModeToggle } from './DarkModeToggle'
 import { DashboardFileSelector } from './DashboardFileSelector'
 import { VersionBadge } from './VersionBadge'
+import { AccountPanel } from './AccountPanel'
+import { HistoryView } from './HistoryView'
+
+type DashboardView = 'active' | 'history'
 
 // Custom hook for storage synchronization using useSyncExternalStore
 function useStorage<T>(key: string, defaultValue: T): T {
@@ -36,9 +47,22 @@ function useStorage<T>(key: string, defaultValue: T): T {
   return snapshot
 }
 
+// Stable default so useSyncExternalStore doesn't see a new snapshot on every render
+const EMPTY_PROGRESS: TorrentProgressMap = {}
+const EMPTY_TORRENTS: TorrentItem[] = []
+
+interface DeleteFromAccountResult {
+  deleted: number
+  failed: { id: string; filename: string; error: string }[]
+}
+
 export const ConversionDashboard: React.FC = () => {
   // Subscribe to torrent list changes
-  const torrents = useStorage<TorrentItem[]>('torrents', [])
+  const torrents = useStorage<TorrentItem[]>('torrents', EMPTY_TORRENTS)
+  // Torrents mirrored from the Real-Debrid account history
+  const accountTorrents = useStorage<TorrentItem[]>('accountTorrents', EMPTY_TORRENTS)
+  // Live progress of processing torrents, refreshed by background polling
+  const torrentProgress = useStorage<TorrentProgressMap>('torrentProgress', EMPTY_PROGRESS)
 
   // State for file selector modal
   const [selectingFilesTorrentId, setSelectingFilesTorrentId] = useState<string | null>(null)
@@ -46,13 +70,56 @@ export const ConversionDashboard: React.FC = () => {
   // State for remove confirmation modal
   const [removeConfirmTorrent, setRemoveConfirmTorrent] = useState<ExtendedTorrentItem | null>(null)
 
+  const [deleteFromAccount, setDeleteFromAccount] = useState(false)
+  const [removeError, setRemoveError] = useState<string | null>(null)
+
+  // State for bulk deletion from the Real-Debrid account
+  const [deletingFromAccount, setDeletingFromAccount] = useState(false)
+  const [deleteResult, setDeleteResult] = useState<DeleteFromAccountResult | null>(null)
+
+  // State for account history sync
+  const [syncingAccount, setSyncingAccount] = useState(false)
+
+  // Active list or the archive of evicted torrents
+  const [view, setView] = useState<DashboardView>('active')
+
+  // aria2 and browser downloads are only used once they are set up in the options
+  const [aria2Enabled, setAria2Enabled] = useState(false)
+  const [managedDownloads, setManagedDownloads] = useState(false)
+  const [actionResult, setActionResult] = useState<{ error: boolean; message: string } | null>(null)
+
+  // Torrents ticked for a batch export
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+
+  useEffect(() => {
+    storage.getSettings().then(settings => {
+      setAria2Enabled(settings.aria2.enabled)
+      setManagedDownloads(settings.managedDownloads)
+    })
+  }, [])
+
   // Convert TorrentItem to ExtendedTorrentItem
   const extendedTorrents: ExtendedTorrentItem[] = useMemo(() => {
-    return torrents.map(torrent => ({
+    const trackedIds = new Set(torrents.map(t => t.id))
+    const mirrored = accountTorrents.filter(t => !trackedIds.has(t.id))
+    return [...torrents, ...mirrored].map(torrent => ({
       ...torrent,
+      progress: torrent.status === 'processing' ? torrentProgress[torrent.id] : undefined,
       lastUpdated: torrent.addedAt,
     }))
-  }, [torrents])
+  }, [torrents, accountTorrents, torrentProgress])
+
+  // Ids of removed torrents may linger in the selection; only count the ones still listed
+  const selectedTorrents = useMemo(
+    () => extendedTorrents.filter(t => selectedIds.has(t.id)),
+    [extendedTorrents, selectedIds]
+  )
+
+  // Batch actions only apply to torrents added through the extension
+  const extensionTorrents = useMemo(
+    () => extendedTorrents.filter(t => t.source !== 'account'),
+    [extendedTorrents]
+  )
 
   // Calculate counts for batch controls and stats
   const { total, processing, ready, failedCount, completedCount, selectingFilesCount } =
@@ -63,18 +130,30 @@ export const ConversionDashboard: React.FC = () => {
       const selectingFilesCount = extendedTorrents.filter(
         t => t.status === 'selecting_files'
       ).length
-      const failedTorrents = extendedTorrents.filter(
+      const failedCount = extendedTorrents.filter(
         t => t.status === 'error' || t.status === 'timeout'
-      )
-      const failedCount = failedTorrents.length
-      const completedCount = ready
+      ).length
+      const completedCount = extensionTorrents.filter(t => t.status === 'ready').length
 
       return { total, processing, ready, failedCount, completedCount, selectingFilesCount }
-    }, [extendedTorrents])
+    }, [extendedTorrents, extensionTorrents])
+
+  // Hoster links have nothing to delete on the account, and mirrored torrents are the
+  // user's own history, so only completed extension torrents count
+  const deletableCount = useMemo(
+    () => extensionTorrents.filter(t => t.status === 'ready' && t.kind !== 'hoster').length,
+    [extensionTorrents]
+  )
+
+  // Retry only applies to extension torrents; mirrored failures are reported in the stats
+  const retryableCount = useMemo(
+    () => extensionTorrents.filter(t => t.status === 'error' || t.status === 'timeout').length,
+    [extensionTorrents]
+  )
 
   // Handle retry all failed
   const handleRetryFailed = useCallback(async () => {
-    const failedTorrents = extendedTorrents.filter(
+    const failedTorrents = extensionTorrents.filter(
       t => t.status === 'error' || t.status === 'timeout'
     )
 
@@ -88,11 +167,11 @@ export const ConversionDashboard: React.FC = () => {
     } catch (error) {
       console.error('Failed to retry torrents:', error)
     }
-  }, [extendedTorrents])
+  }, [extensionTorrents])
 
   // Handle clear completed
   const handleClearCompleted = useCallback(async () => {
-    const completedTorrents = extendedTorrents.filter(t => t.status === 'ready')
+    const completedTorrents = extensionTorrents.filter(t => t.status === 'ready')
 
     if (completedTorrents.length === 0) return
 
@@ -111,7 +190,55 @@ export const ConversionDashboard: React.FC = () => {
     } catch (error) {
       console.error('Failed to clear completed torrents:', error)
     }
-  }, [extendedTorrents])
+  }, [extensionTorrents])
+
+  // Handle bulk deletion of completed torrents from the Real-Debrid account
+  const handleDeleteFromAccount = useCallback(async () => {
+    if (deletableCount === 0) return
+
+    if (
+      !confirm(
+        `Delete ${deletableCount} completed torrent${deletableCount > 1 ? 's' : ''} from your Real-Debrid account?`
+      )
+    ) {
+      return
+    }
+
+    setDeletingFromAccount(true)
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'DELETE_COMPLETED_FROM_ACCOUNT',
+      })) as DeleteFromAccountResult | undefined
+      if (response) {
+        setDeleteResult({ deleted: response.deleted, failed: response.failed || [] })
+      }
+    } catch (error) {
+      console.error('Failed to delete torrents from account:', error)
+    } finally {
+      setDeletingFromAccount(false)
+    }
+  }, [deletableCount])
+
+  // Handle account history sync; the synced torrents show up in the list on their own
+  const handleSyncAccount = useCallback(async () => {
+    setSyncingAccount(true)
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'SYNC_ACCOUNT_TORRENTS',
+      })) as { success?: boolean; error?: string } | undefined
+      if (!response?.success) {
+        setActionResult({
+          error: true,
+          message: response?.error || 'Failed to sync account torrents',
+        })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to sync account torrents'
+      setActionResult({ error: true, message })
+    } finally {
+      setSyncingAccount(false)
+    }
+  }, [])
 
   // Handle individual torrent actions
   const handleRetryTorrent = useCallback(async (torrentId: string) => {
@@ -125,19 +252,99 @@ export const ConversionDashboard: React.FC = () => {
     }
   }, [])
 
+  // The links show up on the card; only failures need reporting
+  const handleGetLinks = useCallback(async (torrentId: string) => {
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'UNRESTRICT_ACCOUNT_TORRENT',
+        torrentId,
+      })) as { success?: boolean; error?: string } | undefined
+      if (!response?.success) {
+        setActionResult({ error: true, message: response?.error || 'Failed to get links' })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get links'
+      setActionResult({ error: true, message })
+    }
+  }, [])
+
+  const handleSendToAria2 = useCallback(async (torrentId: string) => {
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'SEND_TO_ARIA2',
+        torrentId,
+      })) as { success?: boolean; count?: number; error?: string } | undefined
+      setActionResult(
+        response?.success
+          ? {
+              error: false,
+              message: `Sent ${response.count} link${response.count === 1 ? '' : 's'} to aria2`,
+            }
+          : { error: true, message: response?.error || 'Failed to send to aria2' }
+      )
+    } catch (error) {
+      console.error('Failed to send to aria2:', error)
+    }
+  }, [])
+
+  // Progress shows up on the card; only failures to start need reporting
+  const handleManagedDownload = useCallback(async (torrentId: string, url?: string) => {
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'START_DOWNLOAD',
+        torrentId,
+        url,
+      })) as { success?: boolean; error?: string } | undefined
+      if (!response?.success) {
+        setActionResult({ error: true, message: response?.error || 'Failed to start the download' })
+      }
+    } catch (error) {
+      console.error('Failed to start download:', error)
+    }
+  }, [])
+
+  // The player page asks the background for the streams of the link
+  const handleStream = useCallback(async (torrentId: string, link: DownloadLink) => {
+    const params = new URLSearchParams({ torrentId, linkId: link.id!, name: link.filename })
+    try {
+      await browser.tabs.create({
+        url: browser.runtime.getURL(`src/player/player.html?${params}`),
+      })
+    } catch (error) {
+      console.error('Failed to open player:', error)
+    }
+  }, [])
+
   const handleRemoveTorrent = useCallback((torrent: ExtendedTorrentItem) => {
+    setDeleteFromAccount(false)
+    setRemoveError(null)
     setRemoveConfirmTorrent(torrent)
   }, [])
 
   const confirmRemoveTorrent = useCallback(async () => {
     if (!removeConfirmTorrent) return
     try {
-      await storage.removeTorrent(removeConfirmTorrent.id)
+      if (deleteFromAccount) {
+        const response = (await browser.runtime.sendMessage({
+          type: 'DELETE_TORRENT',
+          torrentId: removeConfirmTorrent.id,
+        })) as { success?: boolean; error?: string }
+        if (!response?.success) {
+          // Keep the modal open so the user can retry or remove locally only
+          setRemoveError(response?.error || 'Failed to delete torrent from Real-Debrid')
+          return
+        }
+      } else {
+        await browser.runtime.sendMessage({
+          type: 'REMOVE_TORRENT',
+          torrentId: removeConfirmTorrent.id,
+        })
+      }
       setRemoveConfirmTorrent(null)
     } catch (error) {
       console.error('Failed to remove torrent:', error)
     }
-  }, [removeConfirmTorrent])
+  }, [removeConfirmTorrent, deleteFromAccount])
 
   const handleCopyLinks = useCallback(
     async (torrentId: string) => {
@@ -155,6 +362,54 @@ export const ConversionDashboard: React.FC = () => {
     [extendedTorrents]
   )
 
+  const handleExport = useCallback(
+    (torrentId: string, format: ExportFormat) => {
+      const torrent = extendedTorrents.find(t => t.id === torrentId)
+      if (torrent) downloadExport(format, [torrent])
+    },
+    [extendedTorrents]
+  )
+
+  const handleExportSelected = useCallback(
+    (format: ExportFormat) => {
+      if (selectedTorrents.length > 0) downloadExport(format, selectedTorrents)
+    },
+    [selectedTorrents]
+  )
+
+  const handleToggleSelect = useCallback((torrentId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (!next.delete(torrentId)) next.add(torrentId)
+      return next
+    })
+  }, [])
+
+  // Handle .torrent uploads; files that fail are listed in the action banner
+  const handleTorrentFiles = useCallback(async (files: File[]) => {
+    const torrentFiles = files.filter(isTorrentFile)
+    if (torrentFiles.length === 0) {
+      setActionResult({ error: true, message: 'Only .torrent files can be uploaded' })
+      return
+    }
+
+    const failures: string[] = []
+    for (const file of torrentFiles) {
+      try {
+        const response = await sendTorrentFile(file)
+        if (response.error) {
+          failures.push(`${file.name}: ${response.error}`)
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to upload torrent file'
+        failures.push(`${file.name}: ${message}`)
+      }
+    }
+    if (failures.length > 0) {
+      setActionResult({ error: true, message: failures.join('; ') })
+    }
+  }, [])
+
   // Handle file selection
   const handleSelectFiles = useCallback((torrentId: string) => {
     setSelectingFilesTorrentId(torrentId)
@@ -215,47 +470,145 @@ export const ConversionDashboard: React.FC = () => {
             </span>
           </div>
         </div>
+        <AccountPanel className="dashboard-account-panel" />
         <div className="dashboard-header-actions">
           <VersionBadge className="dashboard-version-badge" />
           <DarkModeToggle className="dashboard-dark-mode-toggle" />
         </div>
       </header>
 
-      {/* Batch Controls */}
-      <BatchControls
-        failedCount={failedCount}
-        completedCount={completedCount}
-        onRetryFailed={handleRetryFailed}
-        onClearCompleted={handleClearCompleted}
-      />
-
-      {/* Main Content */}
-      <main className="dashboard-main">
-        {extendedTorrents.length === 0 ? (
-          <div className="dashboard-empty-state">
-            <div className="empty-state-icon">
-              <Icon name="download" size="xl" />
+      {/* View Tabs */}
+      <nav className="dashboard-view-tabs" role="tablist" aria-label="Dashboard view">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={view === 'active'}
+          className={`dashboard-view-tab${view === 'active' ? ' dashboard-view-tab--active' : ''}`}
+          onClick={() => setView('active')}
+        >
+          Active
+        </button>
+        <button
+          type="button"
+          role="tab"
+          aria-selected={view === 'history'}
+          className={`dashboard-view-tab${view === 'history' ? ' dashboard-view-tab--active' : ''}`}
+          onClick={() => setView('history')}
+        >
+          History
+        </button>
+      </nav>
+
+      {view === 'history' ? (
+        <main className="dashboard-main">
+          <HistoryView />
+        </main>
+      ) : (
+        <>
+          {/* Batch Controls */}
+          <BatchControls
+            failedCount={retryableCount}
+            completedCount={completedCount}
+            onRetryFailed={handleRetryFailed}
+            onClearCompleted={handleClearCompleted}
+            deletableCount={deletableCount}
+            onDeleteFromAccount={handleDeleteFromAccount}
+            deleting={deletingFromAccount}
+            onSyncAccount={handleSyncAccount}
+            syncing={syncingAccount}
+            selectedCount={selectedTorrents.length}
+            onExportSelected={handleExportSelected}
+            onClearSelection={() => setSelectedIds(new Set())}
+          />
+
+          {/* Bulk Deletion Result */}
+          {deleteResult && (
+            <div
+              className={`dashboard-notice${deleteResult.failed.length > 0 ? ' dashboard-notice--error' : ''}`}
+              role="status"
+            >
+              <div className="dashboard-notice-content">
+                <p className="dashboard-notice-title">
+                  Deleted {deleteResult.deleted} torrent{deleteResult.deleted === 1 ? '' : 's'} from
+                  Real-Debrid
+                  {deleteResult.failed.length > 0 && `, ${deleteResult.failed.length} failed`}
+                </p>
+                {deleteResult.failed.length > 0 && (
+                  <ul className="dashboard-notice-list">
+                    {deleteResult.failed.map(failure => (
+                      <li key={failure.id}>
+                        {failure.filename}: {failure.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setDeleteResult(null)}>
+                Dismiss
+              </Button>
             </div>
-            <h2 className="empty-state-title">No torrents yet</h2>
-            <p className="empty-state-description">
-              Paste a magnet link in the popup to start converting torrents.
-            </p>
-          </div>
-        ) : (
-          <div className="torrent-list">
-            {extendedTorrents.map(torrent => (
-              <TorrentCard
-                key={torrent.id}
-                torrent={torrent}
-                onRetry={handleRetryTorrent}
-                onRemove={handleRemoveTorrent}
-                onCopyLinks={handleCopyLinks}
-                onSelectFiles={handleSelectFiles}
-              />
-            ))}
-          </div>
-        )}
-      </main>
+          )}
+
+          {/* aria2 / Download Result */}
+          {actionResult && (
+            <div
+              className={`dashboard-notice${actionResult.error ? ' dashboard-notice--error' : ''}`}
+              role="status"
+            >
+              <div className="dashboard-notice-content">
+                <p className="dashboard-notice-title">{actionResult.message}</p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setActionResult(null)}>
+                Dismiss
+              </Button>
+            </div>
+          )}
+
+          {/* Main Content */}
+          <FileDropZone
+            accept=".torrent,application/x-bittorrent"
+            multiple
+            onFiles={handleTorrentFiles}
+            browseLabel="Upload .torrent"
+            dropLabel="Drop .torrent files to add them"
+            className="dashboard-drop-zone"
+          >
+            <main className="dashboard-main">
+              {extendedTorrents.length === 0 ? (
+                <div className="dashboard-empty-state">
+                  <div className="empty-state-icon">
+                    <Icon name="download" size="xl" />
+                  </div>
+                  <h2 className="empty-state-title">No torrents yet</h2>
+                  <p className="empty-state-description">
+                    Paste a magnet link in the popup to start converting torrents.
+                  </p>
+                </div>
+              ) : (
+                <div className="torrent-list">
+                  {extendedTorrents.map(torrent => (
+                    <TorrentCard
+                      key={torrent.id}
+                      torrent={torrent}
+                      onRetry={handleRetryTorrent}
+                      onRemove={handleRemoveTorrent}
+                      onCopyLinks={handleCopyLinks}
+                      onSelectFiles={handleSelectFiles}
+                      onGetLinks={handleGetLinks}
+                      onSendToAria2={aria2Enabled ? handleSendToAria2 : undefined}
+                      onDownload={managedDownloads ? handleManagedDownload : undefined}
+                      onStream={handleStream}
+                      onExport={handleExport}
+                      selected={selectedIds.has(torrent.id)}
+                      onToggleSelect={handleToggleSelect}
+                    />
+                  ))}
+                </div>
+              )}
+            </main>
+          </FileDropZone>
+        </>
+      )}
 
       {/* File Selector Modal */}
       {selectingFilesTorrentId && selectingTorrent && (
@@ -290,6 +643,17 @@ export const ConversionDashboard: React.FC = () => {
           <p>
             Are you sure you want to remove <strong>{removeConfirmTorrent.filename}</strong>?
           </p>
+          {removeConfirmTorrent.kind !== 'hoster' && (
+            <label className="dashboard-remove-option">
+              <input
+                type="checkbox"
+                checked={deleteFromAccount}
+                onChange={e => setDeleteFromAccount(e.target.checked)}
+              />
+              Also delete from Real-Debrid
+            </label>
+          )}
+          {removeError && <p className="dashboard-remove-error">{removeError}</p>}
           <p
             style={{
               color: 'var(--text-muted)',
@@ -8,7 +8,8 @@
 import { useState, useEffect } from 'react'
 import browser from 'webextension-polyfill'
 import type { RdTorrentInfo } from '../utils/types'
-import { Button, Icon } from '../components/common'
+import { formatBytes } from '../utils/file-tree'
+import { Button, FileTree, Icon } from '../components/common'
 
 interface DashboardFileSelectorProps {
   torrentId: string
@@ -55,32 +56,6 @@ export function DashboardFileSelector({
   const files = torrentInfo?.files || []
   const totalSize = files.reduce((sum, file) => sum + file.bytes, 0)
 
-  const formatBytes = (bytes: number): string => {
-    if (bytes === 0) return '0 B'
-    const k = 1024
-    const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`
-  }
-
-  const toggleFile = (id: number) => {
-    const newSelected = new Set(selectedIds)
-    if (newSelected.has(id)) {
-      newSelected.delete(id)
-    } else {
-      newSelected.add(id)
-    }
-    setSelectedIds(newSelected)
-  }
-
-  const toggleAll = () => {
-    if (selectedIds.size === files.length) {
-      setSelectedIds(new Set())
-    } else {
-      setSelectedIds(new Set(files.map(f => f.id)))
-    }
-  }
-
   const handleConfirm = () => {
     // If no files are explicitly selected, treat this as "all files" (empty selection = all)
     if (selectedIds.size === 0) {
@@ -148,35 +123,8 @@ export function DashboardFileSelector({
         </span>
       </div>
 
-      {/* Controls */}
-      <div className="dashboard-file-selector__controls">
-        <Button variant="secondary" size="sm" onClick={toggleAll}>
-          {selectedIds.size === files.length ? 'Deselect All' : 'Select All'}
-        </Button>
-        <span className="dashboard-file-selector__select-text">
-          {selectedIds.size} of {files.length} files selected
-        </span>
-      </div>
-
-      {/* File List */}
-      <div className="dashboard-file-selector__list">
-        {files.map(file => (
-          <label key={file.id} className="dashboard-file-selector__item">
-            <input
-              type="checkbox"
-              checked={selectedIds.has(file.id)}
-              onChange={() => toggleFile(file.id)}
-              className="dashboard-file-selector__checkbox"
-            />
-            <div className="dashboard-file-selector__file-info">
-              <div className="dashboard-file-selector__file-path" title={file.path}>
-                {file.path}
-              </div>
-              <div className="dashboard-file-selector__file-size">{formatBytes(file.bytes)}</div>
-            </div>
-          </label>
-        ))}
-      </div>
+      {/* File Tree */}
+      <FileTree files={files} selectedIds={selectedIds} onSelectionChange={setSelectedIds} />
 
       {/* Footer */}
       <div className="dashboard-file-selector__footer">
@@ -6,6 +6,8 @@ interface DownloadLinksProps {
   links: DownloadLink[]
   onLinkClick?: (link: DownloadLink) => void
   onCopyLink?: (link: DownloadLink) => void
+  /** Shows a play button on streamable links */
+  onStream?: (link: DownloadLink) => void
 }
 
 /**
@@ -34,7 +36,12 @@ function truncateFilename(filename: string, maxLength = 40): string {
   return `${truncated}...${ext}`
 }
 
-export const DownloadLinks: React.FC<DownloadLinksProps> = ({ links, onLinkClick, onCopyLink }) => {
+export const DownloadLinks: React.FC<DownloadLinksProps> = ({
+  links,
+  onLinkClick,
+  onCopyLink,
+  onStream,
+}) => {
   const [selectedLinkIndex, setSelectedLinkIndex] = useState<number | null>(null)
 
   const handleLinkClick = (link: DownloadLink, index: number) => {
@@ -82,6 +89,18 @@ export const DownloadLinks: React.FC<DownloadLinksProps> = ({ links, onLinkClick
               <span className="download-link-filename">{truncateFilename(link.filename)}</span>
               {link.size && <span className="download-link-size">{formatFileSize(link.size)}</span>}
             </div>
+            {onStream && link.streamable && link.id && (
+              <button
+                className="download-link-copy"
+                onClick={e => {
+                  e.stopPropagation()
+                  onStream(link)
+                }}
+                aria-label={`Stream ${link.filename}`}
+              >
+                <Icon name="play" size="sm" />
+              </button>
+            )}
             <button
               className="download-link-copy"
               onClick={e => handleCopyLink(e, link)}
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { EXPORT_FORMATS, type ExportFormat } from '../utils/link-export'
+import { Button, type ButtonSize, type ButtonVariant } from '../components/common/Button'
+import { Icon } from '../components/common/Icon'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void
+  label?: React.ReactNode
+  'aria-label'?: string
+  variant?: ButtonVariant
+  size?: ButtonSize
+  disabled?: boolean
+  title?: string
+}
+
+/**
+ * Button opening a menu of link export formats
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  onExport,
+  label = 'Export',
+  'aria-label': ariaLabel,
+  variant = 'secondary',
+  size = 'sm',
+  disabled = false,
+  title,
+}) => {
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close on outside clicks and Escape
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false)
+    }
+
+    document.addEventListener('mousedown', handlePointerDown)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  const handleSelect = (format: ExportFormat) => {
+    setOpen(false)
+    onExport(format)
+  }
+
+  return (
+    <div className="export-menu" ref={containerRef}>
+      <Button
+        variant={variant}
+        size={size}
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        aria-label={ariaLabel}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title={title}
+        leftIcon={<Icon name="download" size="sm" />}
+        rightIcon={<Icon name="chevron-down" size="sm" />}
+      >
+        {label}
+      </Button>
+      {open && (
+        <div className="export-menu__list" role="menu">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              className="export-menu__item"
+              onClick={() => handleSelect(format)}
+            >
+              {EXPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExportMenu
@@ -0,0 +1,219 @@
+/**
+ * HistoryView Component - Industrial Terminal Design System
+ *
+ * Searchable list of torrents evicted from the active list into the
+ * IndexedDB archive, with actions to refresh expired links or re-add
+ * the magnet.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import browser from 'webextension-polyfill'
+import { queryHistory, deleteHistoryEntry } from '../utils/history-db'
+import type { HistoryEntry, TorrentStatus } from '../utils/types'
+import { Button } from '../components/common/Button'
+import { Input } from '../components/common/Input'
+import { Icon } from '../components/common/Icon'
+import { DownloadLinks } from './DownloadLinks'
+
+interface HistoryViewProps {
+  /** Additional CSS class name */
+  className?: string
+}
+
+const STATUS_LABELS: Record<TorrentStatus, string> = {
+  processing: 'Processing',
+  ready: 'Ready',
+  error: 'Error',
+  timeout: 'Timeout',
+  selecting_files: 'Waiting for file selection',
+}
+
+/**
+ * Convert a yyyy-mm-dd date input value to a local timestamp
+ * @param endOfDay - Use the last millisecond of the day (for inclusive upper bounds)
+ */
+function parseDateInput(value: string, endOfDay = false): number | undefined {
+  if (!value) return undefined
+  const time = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime()
+  return Number.isNaN(time) ? undefined : time
+}
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ className = '' }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [search, setSearch] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [notice, setNotice] = useState<{ message: string; error: boolean } | null>(null)
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(
+        await queryHistory({
+          search,
+          from: parseDateInput(from),
+          to: parseDateInput(to, true),
+        })
+      )
+    } catch (err) {
+      setNotice({
+        message: err instanceof Error ? err.message : 'Failed to load history',
+        error: true,
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [search, from, to])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const handleRefreshLinks = async (entry: HistoryEntry) => {
+    setBusyId(entry.id)
+    setNotice(null)
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'UNRESTRICT_HISTORY_TORRENT',
+        torrentId: entry.id,
+      })) as { success?: boolean; entry?: HistoryEntry; error?: string }
+
+      if (response?.success && response.entry) {
+        const refreshed = response.entry
+        setEntries(current => current.map(e => (e.id === refreshed.id ? refreshed : e)))
+      } else {
+        setNotice({ message: response?.error || 'Failed to refresh links', error: true })
+      }
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleReAdd = async (entry: HistoryEntry) => {
+    setBusyId(entry.id)
+    setNotice(null)
+    try {
+      // Re-adding is an explicit choice, so it skips the uncached confirmation
+      const response = (await browser.runtime.sendMessage({
+        type: 'ADD_MAGNET',
+        magnetLink: entry.magnetLink,
+        confirmed: true,
+      })) as { success?: boolean; error?: string }
+
+      setNotice(
+        response?.success
+          ? { message: `${entry.filename} was added to the active list`, error: false }
+          : { message: response?.error || 'Failed to add magnet', error: true }
+      )
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    await deleteHistoryEntry(entry.id)
+    setEntries(current => current.filter(e => e.id !== entry.id))
+  }
+
+  return (
+    <section className={`history-view ${className}`.trim()} aria-label="Torrent history">
+      <div className="history-filters">
+        <Input
+          id="historySearch"
+          type="search"
+          placeholder="Search by name, hash or link"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          aria-label="Search history"
+        />
+        <Input
+          id="historyFrom"
+          type="date"
+          label="From"
+          value={from}
+          onChange={e => setFrom(e.target.value)}
+        />
+        <Input
+          id="historyTo"
+          type="date"
+          label="To"
+          value={to}
+          onChange={e => setTo(e.target.value)}
+        />
+      </div>
+
+      {notice && (
+        <p
+          className={`history-notice${notice.error ? ' history-notice--error' : ''}`}
+          role="status"
+        >
+          {notice.message}
+        </p>
+      )}
+
+      {!loading && entries.length === 0 ? (
+        <div className="dashboard-empty-state">
+          <div className="empty-state-icon">
+            <Icon name="clock" size="xl" />
+          </div>
+          <h2 className="empty-state-title">No history yet</h2>
+          <p className="empty-state-description">
+            Torrents dropped from the active list are kept here.
+          </p>
+        </div>
+      ) : (
+        <ul className="history-list">
+          {entries.map(entry => (
+            <li key={entry.id} className="history-entry">
+              <div className="history-entry-info">
+                <span className="history-entry-name" title={entry.filename}>
+                  {entry.filename}
+                </span>
+                <span className="history-entry-meta">
+                  Added {new Date(entry.addedAt).toLocaleDateString()} ·{' '}
+                  {STATUS_LABELS[entry.status]}
+                  {entry.kind === 'hoster' && entry.host && ` · ${entry.host}`}
+                </span>
+                {entry.links && entry.links.length > 0 && <DownloadLinks links={entry.links} />}
+              </div>
+              <div className="history-entry-actions">
+                {entry.status === 'ready' && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleRefreshLinks(entry)}
+                    loading={busyId === entry.id}
+                    disabled={busyId !== null}
+                    leftIcon={<Icon name="refresh" size="sm" />}
+                  >
+                    Refresh Links
+                  </Button>
+                )}
+                {entry.magnetLink && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleReAdd(entry)}
+                    disabled={busyId !== null}
+                  >
+                    Re-add Magnet
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(entry)}
+                  disabled={busyId !== null}
+                  aria-label={`Delete ${entry.filename} from history`}
+                >
+                  <Icon name="trash" size="sm" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -1,10 +1,14 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react'
-import type { ExtendedTorrentItem } from '../utils/types'
+import type { DownloadLink, ExtendedTorrentItem, LocalDownload } from '../utils/types'
+import { getDownloadPercent } from '../utils/downloads'
+import type { ExportFormat } from '../utils/link-export'
 import { Badge, BadgeVariant } from '../components/common/Badge'
 import { Button } from '../components/common/Button'
 import { Icon } from '../components/common/Icon'
+import { ProgressBar, ProgressBarVariant } from '../components/common/ProgressBar'
 import { ProgressIndicator } from './ProgressIndicator'
 import { DownloadLinks } from './DownloadLinks'
+import { ExportMenu } from './ExportMenu'
 
 interface TorrentCardProps {
   torrent: ExtendedTorrentItem
@@ -12,6 +16,39 @@ interface TorrentCardProps {
   onRemove?: (torrent: ExtendedTorrentItem) => void
   onCopyLinks?: (torrentId: string) => void
   onSelectFiles?: (torrentId: string) => void
+  onGetLinks?: (torrentId: string) => void
+  onSendToAria2?: (torrentId: string) => void
+  /** Download with the browser's download manager instead of a plain link; url limits it to one link */
+  onDownload?: (torrentId: string, url?: string) => void
+  /** Open a streamable link in the player */
+  onStream?: (torrentId: string, link: DownloadLink) => void
+  onExport?: (torrentId: string, format: ExportFormat) => void
+  /** Whether the torrent is part of the multi-selection for batch exports */
+  selected?: boolean
+  onToggleSelect?: (torrentId: string) => void
+}
+
+/**
+ * Map a browser download state to ProgressBar variant
+ */
+function getLocalDownloadVariant(state: LocalDownload['state']): ProgressBarVariant {
+  switch (state) {
+    case 'complete':
+      return 'completed'
+    case 'interrupted':
+      return 'error'
+    default:
+      return 'downloading'
+  }
+}
+
+/**
+ * Label of a browser download, with the reason if it stopped
+ */
+function getLocalDownloadLabel(link: DownloadLink): string {
+  const download = link.localDownload!
+  if (download.state !== 'interrupted') return link.filename
+  return `${link.filename} - ${download.error === 'USER_CANCELED' ? 'Canceled' : `Failed (${download.error ?? 'unknown error'})`}`
 }
 
 /**
@@ -89,6 +126,16 @@ function formatSpeed(bytesPerSecond?: number): string {
   return `${speed.toFixed(1)} ${units[unitIndex]}`
 }
 
+/**
+ * Format remaining seconds as a short duration
+ */
+function formatEta(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60)
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  return `${hours}h ${minutes % 60}m`
+}
+
 /**
  * Format timestamp to relative time
  */
@@ -113,12 +160,27 @@ export const TorrentCard: React.FC<TorrentCardProps> = ({
   onRemove,
   onCopyLinks,
   onSelectFiles,
+  onGetLinks,
+  onSendToAria2,
+  onDownload,
+  onStream,
+  onExport,
+  selected = false,
+  onToggleSelect,
 }) => {
-  const canRetry = torrent.status === 'error' || torrent.status === 'timeout'
+  // Torrents mirrored from the account have no magnet to resubmit; their links are fetched on demand
+  const isAccountTorrent = torrent.source === 'account'
+  const canRetry = !isAccountTorrent && (torrent.status === 'error' || torrent.status === 'timeout')
+  const canGetLinks = isAccountTorrent && torrent.status === 'ready' && !torrent.downloadUrl
   const canSelectFiles = torrent.status === 'selecting_files'
-  const hasProgress = torrent.progress && torrent.progress.progress > 0
+  // Show progress as soon as polling reports it, so queued torrents show their seeders too
+  const hasProgress = torrent.progress !== undefined
   const hasLinks = torrent.links && torrent.links.length > 0
   const hasDownloadUrl = torrent.status === 'ready' && torrent.downloadUrl
+  const canExport = hasLinks || !!hasDownloadUrl
+  // Links downloaded through the browser, whose local progress is tracked
+  const localDownloads = torrent.links?.filter(link => link.localDownload) ?? []
+  const streamableLink = torrent.links?.find(link => link.streamable && link.id)
 
   // Tooltip state for copy and download buttons
   const [copyTooltip, setCopyTooltip] = useState(false)
@@ -150,23 +212,36 @@ export const TorrentCard: React.FC<TorrentCardProps> = ({
   const handleDownload = useCallback(() => {
     if (torrent.downloadUrl) {
       setDownloadTooltip(true)
-      // Create a temporary anchor to trigger download
-      const link = document.createElement('a')
-      link.href = torrent.downloadUrl
-      link.download = torrent.filename || 'download'
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
+      if (onDownload) {
+        onDownload(torrent.id)
+      } else {
+        // Create a temporary anchor to trigger download
+        const link = document.createElement('a')
+        link.href = torrent.downloadUrl
+        link.download = torrent.filename || 'download'
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+      }
       const timeoutId = setTimeout(() => setDownloadTooltip(false), 2000)
       downloadTimeoutRef.current = timeoutId
     }
-  }, [torrent.downloadUrl, torrent.filename])
+  }, [torrent.id, torrent.downloadUrl, torrent.filename, onDownload])
 
   return (
     <div className="torrent-card">
       {/* Card Header */}
       <div className="torrent-card-header">
         <div className="torrent-card-title">
+          {canExport && onToggleSelect && (
+            <input
+              type="checkbox"
+              className="torrent-card-select"
+              checked={selected}
+              onChange={() => onToggleSelect(torrent.id)}
+              aria-label={`Select ${torrent.filename}`}
+            />
+          )}
           <span className="torrent-filename" title={torrent.filename}>
             {torrent.filename}
           </span>
@@ -183,11 +258,22 @@ export const TorrentCard: React.FC<TorrentCardProps> = ({
       {/* Card Meta */}
       <div className="torrent-card-meta">
         <span className="torrent-added-time">Added {formatDate(torrent.addedAt)}</span>
+        {torrent.kind === 'hoster' && (
+          <span className="torrent-host" title={torrent.sourceUrl}>
+            {torrent.host || 'Hoster link'}
+          </span>
+        )}
+        {isAccountTorrent && <span className="torrent-source">From account</span>}
         {torrent.retryCount > 0 && (
           <span className="torrent-retry-count">Retries: {torrent.retryCount}</span>
         )}
       </div>
 
+      {/* Failure reason reported by Real-Debrid */}
+      {torrent.status === 'error' && torrent.error && (
+        <div className="torrent-error-message">{torrent.error}</div>
+      )}
+
       {/* Progress Section */}
       {hasProgress && (
         <div className="torrent-progress-section">
@@ -197,18 +283,23 @@ export const TorrentCard: React.FC<TorrentCardProps> = ({
             showPercentage={true}
           />
           <div className="torrent-speed-info">
-            {torrent.progress!.downloadSpeed && (
+            {!!torrent.progress!.downloadSpeed && (
               <span className="torrent-download-speed">
                 ↓ {formatSpeed(torrent.progress!.downloadSpeed)}
               </span>
             )}
-            {torrent.progress!.uploadSpeed && (
+            {!!torrent.progress!.uploadSpeed && (
               <span className="torrent-upload-speed">
                 ↑ {formatSpeed(torrent.progress!.uploadSpeed)}
               </span>
             )}
-            {torrent.progress!.eta && (
-              <span className="torrent-eta">ETA: {Math.ceil(torrent.progress!.eta / 60)}m</span>
+            {torrent.progress!.seeds !== undefined && (
+              <span className="torrent-seeders">
+                {torrent.progress!.seeds} seeder{torrent.progress!.seeds === 1 ? '' : 's'}
+              </span>
+            )}
+            {!!torrent.progress!.eta && (
+              <span className="torrent-eta">ETA: {formatEta(torrent.progress!.eta)}</span>
             )}
           </div>
         </div>
@@ -258,12 +349,38 @@ export const TorrentCard: React.FC<TorrentCardProps> = ({
           <DownloadLinks
             links={torrent.links!}
             onLinkClick={link => {
-              window.open(link.url, '_blank', 'noopener,noreferrer')
+              if (onDownload) {
+                onDownload(torrent.id, link.url)
+              } else {
+                window.open(link.url, '_blank', 'noopener,noreferrer')
+              }
             }}
+            onStream={onStream ? link => onStream(torrent.id, link) : undefined}
           />
         </div>
       )}
 
+      {/* Local Download Section - browser download progress, apart from the Real-Debrid progress */}
+      {localDownloads.length > 0 && (
+        <div className="torrent-local-downloads">
+          <div className="torrent-local-downloads-label">Local Download</div>
+          {localDownloads.map(link => {
+            const percent = getDownloadPercent(link.localDownload!)
+            return (
+              <ProgressBar
+                key={link.localDownload!.id}
+                value={percent ?? 0}
+                indeterminate={percent === null}
+                variant={getLocalDownloadVariant(link.localDownload!.state)}
+                label={getLocalDownloadLabel(link)}
+                showPercentage
+                size="sm"
+              />
+            )
+          })}
+        </div>
+      )}
+
       {/* Card Actions */}
       <div className="torrent-card-actions">
         {canSelectFiles && onSelectFiles && (
@@ -277,6 +394,17 @@ export const TorrentCard: React.FC<TorrentCardProps> = ({
             Choose Files
           </Button>
         )}
+        {canGetLinks && onGetLinks && (
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={() => onGetLinks(torrent.id)}
+            aria-label={`Get links for ${torrent.filename}`}
+            leftIcon={<Icon name="external-link" size="sm" />}
+          >
+            Get Links
+          </Button>
+        )}
         {canRetry && onRetry && (
           <Button
             variant="secondary"
@@ -299,6 +427,39 @@ export const TorrentCard: React.FC<TorrentCardProps> = ({
             Copy Links
           </Button>
         )}
+        {streamableLink && onStream && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => onStream(torrent.id, streamableLink)}
+            aria-label={`Stream ${torrent.filename}`}
+            leftIcon={<Icon name="play" size="sm" />}
+          >
+            Stream
+          </Button>
+        )}
+        {canExport && onExport && (
+          <ExportMenu
+            onExport={format => onExport(torrent.id, format)}
+            aria-label={`Export links for ${torrent.filename}`}
+          />
+        )}
+        {canExport && onSendToAria2 && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => onSendToAria2(torrent.id)}
+            aria-label={`Send ${torrent.filename} to aria2`}
+            title={
+              torrent.sentToAria2At
+                ? `Sent ${new Date(torrent.sentToAria2At).toLocaleString()}`
+                : undefined
+            }
+            leftIcon={<Icon name="download" size="sm" />}
+          >
+            {torrent.sentToAria2At ? 'Send Again' : 'Send to aria2'}
+          </Button>
+        )}
         {onRemove && (
           <Button
             variant="ghost"
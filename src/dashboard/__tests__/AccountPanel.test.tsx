@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import '@testing-library/jest-dom/vitest'
+import { AccountPanel } from '../AccountPanel'
+import browser from 'webextension-polyfill'
+
+// Mock webextension-polyfill
+vi.mock('webextension-polyfill', () => ({
+  default: {
+    runtime: {
+      sendMessage: vi.fn(),
+    },
+  },
+}))
+
+// Mock storage module (pulled in through notifications)
+vi.mock('../../utils/storage', () => ({
+  storage: {},
+}))
+
+describe('AccountPanel', () => {
+  const mockAccount = {
+    user: {
+      id: 1,
+      username: 'tester',
+      email: 'tester@example.com',
+      points: 1250,
+      locale: 'en',
+      avatar: '',
+      type: 'premium',
+      premium: 86400 * 42,
+      expiration: '2026-11-30T00:00:00.000Z',
+    },
+    traffic: {
+      'rapidgator.net': {
+        left: 0,
+        bytes: 0,
+        links: 0,
+        limit: 1024 * 1024 * 1024 * 20,
+        type: 'bytes',
+        extra: 0,
+        reset: 'daily',
+      },
+    },
+    trafficDetails: {
+      '2026-10-17': {
+        host: { 'real-debrid.com': 1024 * 1024 * 100, 'rapidgator.net': 1024 * 1024 },
+        bytes: 1024 * 1024 * 101,
+      },
+      '2026-10-18': {
+        host: { 'real-debrid.com': 1024 * 1024 * 50 },
+        bytes: 1024 * 1024 * 50,
+      },
+    },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    ;(browser.runtime.sendMessage as any).mockResolvedValue({
+      success: true,
+      account: mockAccount,
+    })
+  })
+
+  it('renders loading state initially', async () => {
+    let resolvePromise: (value: any) => void
+    const promise = new Promise(resolve => {
+      resolvePromise = resolve
+    })
+    ;(browser.runtime.sendMessage as any).mockReturnValue(promise)
+
+    render(<AccountPanel />)
+
+    expect(screen.getByText('Loading account...')).toBeInTheDocument()
+
+    resolvePromise!({ success: true, account: mockAccount })
+    await waitFor(() => expect(screen.queryByText('Loading account...')).not.toBeInTheDocument())
+  })
+
+  it('requests account info from the background', async () => {
+    render(<AccountPanel />)
+
+    await waitFor(() => {
+      expect(browser.runtime.sendMessage).toHaveBeenCalledWith({ type: 'GET_ACCOUNT_INFO' })
+    })
+  })
+
+  it('shows username, premium days left and points', async () => {
+    render(<AccountPanel />)
+
+    await waitFor(() => {
+      expect(screen.getByText('tester')).toBeInTheDocument()
+    })
+    expect(screen.getByText('Premium · 42d left')).toBeInTheDocument()
+    expect(screen.getByText((1250).toLocaleString())).toBeInTheDocument()
+  })
+
+  it('aggregates traffic per host across days, largest first', async () => {
+    render(<AccountPanel />)
+
+    await waitFor(() => {
+      expect(screen.getByText('real-debrid.com')).toBeInTheDocument()
+    })
+    const hosts = screen.getAllByRole('listitem')
+    expect(hosts).toHaveLength(2)
+    expect(hosts[0]).toHaveTextContent('real-debrid.com150.0 MB')
+    expect(hosts[1]).toHaveTextContent('rapidgator.net1.0 MB / 20.0 GB')
+  })
+
+  it('limits the number of hosts shown', async () => {
+    render(<AccountPanel maxHosts={1} />)
+
+    await waitFor(() => {
+      expect(screen.getByText('real-debrid.com')).toBeInTheDocument()
+    })
+    expect(screen.queryByText('rapidgator.net')).not.toBeInTheDocument()
+  })
+
+  it('shows free accounts without premium days', async () => {
+    ;(browser.runtime.sendMessage as any).mockResolvedValue({
+      success: true,
+      account: {
+        ...mockAccount,
+        user: { ...mockAccount.user, type: 'free', premium: 0 },
+      },
+    })
+
+    render(<AccountPanel />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Free')).toBeInTheDocument()
+    })
+  })
+
+  it('highlights premium expiring soon', async () => {
+    ;(browser.runtime.sendMessage as any).mockResolvedValue({
+      success: true,
+      account: {
+        ...mockAccount,
+        user: { ...mockAccount.user, premium: 86400 * 3 },
+      },
+    })
+
+    render(<AccountPanel />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Premium · 3d left').closest('.badge')).toHaveClass('badge--timeout')
+    })
+  })
+
+  it('shows error message when request fails', async () => {
+    ;(browser.runtime.sendMessage as any).mockResolvedValue({
+      success: false,
+      error: 'NO_TOKEN',
+    })
+
+    render(<AccountPanel />)
+
+    await waitFor(() => {
+      expect(screen.getByText('NO_TOKEN')).toBeInTheDocument()
+    })
+  })
+
+  it('handles sendMessage rejection', async () => {
+    ;(browser.runtime.sendMessage as any).mockRejectedValue(new Error('Disconnected'))
+
+    render(<AccountPanel />)
+
+    await waitFor(() => {
+      expect(screen.getByText('Disconnected')).toBeInTheDocument()
+    })
+  })
+})
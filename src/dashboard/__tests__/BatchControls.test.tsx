@@ -350,6 +350,104 @@ describe('BatchControls', () => {
     })
   })
 
+  describe('delete from account', () => {
+    it('shows the deletable count and calls onDeleteFromAccount', () => {
+      const onDeleteFromAccount = vi.fn()
+      render(
+        <BatchControls
+          failedCount={0}
+          completedCount={0}
+          deletableCount={4}
+          onDeleteFromAccount={onDeleteFromAccount}
+        />
+      )
+
+      const button = screen.getByRole('button', { name: /Delete completed torrents/ })
+      expect(button).toHaveTextContent('4')
+      fireEvent.click(button)
+
+      expect(onDeleteFromAccount).toHaveBeenCalledTimes(1)
+    })
+
+    it('disables the delete button when nothing can be deleted', () => {
+      render(<BatchControls failedCount={0} completedCount={0} onDeleteFromAccount={vi.fn()} />)
+
+      expect(screen.getByRole('button', { name: /Delete completed torrents/ })).toBeDisabled()
+    })
+  })
+
+  describe('account sync', () => {
+    it('renders the sync button only when onSyncAccount is provided', () => {
+      const { rerender } = render(<BatchControls failedCount={0} completedCount={0} />)
+      expect(screen.queryByText('Sync Account')).not.toBeInTheDocument()
+
+      rerender(<BatchControls failedCount={0} completedCount={0} onSyncAccount={vi.fn()} />)
+      expect(screen.getByText('Sync Account')).toBeInTheDocument()
+    })
+
+    it('calls onSyncAccount when clicked', () => {
+      const onSyncAccount = vi.fn()
+      render(<BatchControls failedCount={0} completedCount={0} onSyncAccount={onSyncAccount} />)
+
+      fireEvent.click(screen.getByRole('button', { name: /Sync torrents/ }))
+
+      expect(onSyncAccount).toHaveBeenCalledTimes(1)
+    })
+
+    it('disables the sync button while syncing', () => {
+      render(<BatchControls failedCount={0} completedCount={0} onSyncAccount={vi.fn()} syncing />)
+
+      expect(screen.getByRole('button', { name: /Sync torrents/ })).toBeDisabled()
+    })
+  })
+
+  describe('export selected', () => {
+    it('exports the selection in the chosen format', () => {
+      const onExportSelected = vi.fn()
+      render(
+        <BatchControls
+          failedCount={0}
+          completedCount={0}
+          selectedCount={2}
+          onExportSelected={onExportSelected}
+        />
+      )
+
+      fireEvent.click(screen.getByRole('button', { name: /Export links of selected torrents/ }))
+      fireEvent.click(screen.getByRole('menuitem', { name: 'aria2 Input File' }))
+
+      expect(onExportSelected).toHaveBeenCalledWith('aria2')
+    })
+
+    it('disables the export until torrents are selected', () => {
+      render(<BatchControls failedCount={0} completedCount={0} onExportSelected={vi.fn()} />)
+
+      expect(
+        screen.getByRole('button', { name: /Export links of selected torrents/ })
+      ).toBeDisabled()
+    })
+
+    it('clears the selection', () => {
+      const onClearSelection = vi.fn()
+      const { rerender } = render(
+        <BatchControls failedCount={0} completedCount={0} onClearSelection={onClearSelection} />
+      )
+      expect(screen.queryByText('Clear Selection')).not.toBeInTheDocument()
+
+      rerender(
+        <BatchControls
+          failedCount={0}
+          completedCount={0}
+          selectedCount={1}
+          onClearSelection={onClearSelection}
+        />
+      )
+      fireEvent.click(screen.getByRole('button', { name: 'Clear selection' }))
+
+      expect(onClearSelection).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('edge cases', () => {
     it('handles very large counts', () => {
       render(
@@ -3,12 +3,17 @@ import { render, screen, fireEvent, waitFor, act, within } from '@testing-librar
 import '@testing-library/jest-dom/vitest'
 import { ConversionDashboard } from '../ConversionDashboard'
 import { storage } from '../../utils/storage'
+import { downloadExport } from '../../utils/link-export'
 
 // Mock webextension-polyfill
 vi.mock('webextension-polyfill', () => ({
   default: {
     runtime: {
       sendMessage: vi.fn(),
+      getURL: vi.fn((path: string) => `chrome-extension://test/${path}`),
+    },
+    tabs: {
+      create: vi.fn(),
     },
     storage: {
       onChanged: {
@@ -23,13 +28,29 @@ vi.mock('webextension-polyfill', () => ({
 vi.mock('../../utils/storage', () => ({
   storage: {
     getCache: vi.fn(() => ({})),
-    removeTorrent: vi.fn(),
+    getSettings: vi.fn(() => Promise.resolve({ aria2: { enabled: false } })),
     getDarkMode: vi.fn(() => Promise.resolve('auto')),
     setDarkMode: vi.fn(() => Promise.resolve()),
     subscribe: vi.fn(() => vi.fn()), // Returns unsubscribe function
   },
 }))
 
+// Mock the file download of link exports
+vi.mock('../../utils/link-export', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../utils/link-export')>()),
+  downloadExport: vi.fn(),
+}))
+
+// Mock AccountPanel (fetches account info from the background on mount)
+vi.mock('../AccountPanel', () => ({
+  AccountPanel: () => null,
+}))
+
+// Mock HistoryView (reads the IndexedDB archive on mount)
+vi.mock('../HistoryView', () => ({
+  HistoryView: () => <div>History archive</div>,
+}))
+
 // Mock matchMedia
 const mockMatchMedia = vi.fn().mockImplementation((query: string) => ({
   matches: query === '(prefers-color-scheme: dark)',
@@ -63,6 +84,7 @@ describe('ConversionDashboard', () => {
 
     // Reset storage mock
     vi.mocked(storage.getCache).mockReturnValue({})
+    vi.mocked(storage.getSettings).mockResolvedValue({ aria2: { enabled: false } } as any)
 
     // Reset matchMedia mock
     mockMatchMedia.mockImplementation((query: string) => ({
@@ -145,6 +167,36 @@ describe('ConversionDashboard', () => {
       })
     })
 
+    it('shows live progress for processing torrents', async () => {
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Test Movie.mkv',
+          status: 'processing' as const,
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      vi.mocked(storage.getCache).mockReturnValue({
+        torrents: mockTorrents,
+        torrentProgress: {
+          'torrent-1': { progress: 42, status: 'downloading', downloadSpeed: 2048, seeds: 7 },
+        },
+      })
+
+      render(<ConversionDashboard />)
+
+      await waitFor(() => {
+        expect(screen.getByText('42%')).toBeInTheDocument()
+      })
+      expect(screen.getByText('7 seeders')).toBeInTheDocument()
+      expect(screen.getByText(/↓ 2.0 KB\/s/)).toBeInTheDocument()
+    })
+
     it('renders multiple torrent cards', async () => {
       const mockTorrents = [
         {
@@ -393,6 +445,7 @@ describe('ConversionDashboard', () => {
     })
 
     it('removes torrent when remove clicked', async () => {
+      const browser = await import('webextension-polyfill')
       const mockTorrents = [
         {
           id: 'torrent-1',
@@ -429,7 +482,161 @@ describe('ConversionDashboard', () => {
       const confirmRemoveButton = within(dialog).getByRole('button', { name: 'Remove' })
       fireEvent.click(confirmRemoveButton)
 
-      expect(storage.removeTorrent).toHaveBeenCalledWith('torrent-1')
+      // The background owns the torrent list
+      expect(browser.default.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'REMOVE_TORRENT',
+        torrentId: 'torrent-1',
+      })
+    })
+
+    it('deletes the torrent from Real-Debrid when the option is checked', async () => {
+      const mockTorrents = [
+        {
+          id: 'torrent-1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'Test.mkv',
+          status: 'ready' as const,
+          addedAt: Date.now(),
+          lastRetry: Date.now(),
+          retryCount: 0,
+        },
+      ]
+
+      vi.mocked(storage.getCache).mockReturnValue({ torrents: mockTorrents })
+      const browser = await import('webextension-polyfill')
+      vi.mocked(browser.default.runtime.sendMessage).mockResolvedValue({
+        success: false,
+        error: 'Permission denied',
+      })
+
+      render(<ConversionDashboard />)
+
+      fireEvent.click(screen.getByRole('button', { name: /Remove Test.mkv/ }))
+      const dialog = await waitFor(() => screen.getByRole('dialog', { name: 'Remove Torrent' }))
+
+      fireEvent.click(within(dialog).getByLabelText('Also delete from Real-Debrid'))
+      fireEvent.click(within(dialog).getByRole('button', { name: 'Remove' }))
+
+      await waitFor(() => {
+        expect(browser.default.runtime.sendMessage).toHaveBeenCalledWith({
+          type: 'DELETE_TORRENT',
+          torrentId: 'torrent-1',
+        })
+      })
+      // The modal stays open with the error so nothing is removed silently
+      expect(await within(dialog).findByText('Permission denied')).toBeInTheDocument()
+      expect(browser.default.runtime.sendMessage).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'REMOVE_TORRENT' })
+      )
+    })
+
+    it('reports partial failures when deleting completed torrents from the account', async () => {
+      const mockTorrents = [1, 2].map(n => ({
+        id: `torrent-${n}`,
+        magnetLink: `magnet:?xt=urn:btih:${String(n).repeat(40)}`,
+        hash: String(n).repeat(40),
+        filename: `Test ${n}.mkv`,
+        downloadUrl: 'https://example.com/file.mkv',
+        status: 'ready' as const,
+        addedAt: Date.now(),
+        lastRetry: Date.now(),
+        retryCount: 0,
+      }))
+
+      // Mirrored account history isn't counted
+      const accountTorrents = [{ ...mockTorrents[0], id: 'account-1', source: 'account' as const }]
+      vi.mocked(storage.getCache).mockReturnValue({ torrents: mockTorrents, accountTorrents })
+      const browser = await import('webextension-polyfill')
+      vi.mocked(browser.default.runtime.sendMessage).mockResolvedValue({
+        success: false,
+        deleted: 1,
+        failed: [{ id: 'torrent-2', filename: 'Test 2.mkv', error: 'Unknown resource' }],
+      })
+
+      render(<ConversionDashboard />)
+
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Delete completed torrents from Real-Debrid (2)' })
+      )
+
+      await waitFor(() => {
+        expect(browser.default.runtime.sendMessage).toHaveBeenCalledWith({
+          type: 'DELETE_COMPLETED_FROM_ACCOUNT',
+        })
+      })
+      expect(await screen.findByText(/Deleted 1 torrent from/)).toHaveTextContent('1 failed')
+      expect(screen.getByText('Test 2.mkv: Unknown resource')).toBeInTheDocument()
+    })
+
+    it('reports a failed account sync', async () => {
+      const browser = await import('webextension-polyfill')
+      vi.mocked(browser.default.runtime.sendMessage).mockResolvedValue({
+        success: false,
+        error: 'Real-Debrid is temporarily unavailable. Try again later.',
+      })
+
+      render(<ConversionDashboard />)
+
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Sync torrents from Real-Debrid account' })
+      )
+
+      expect(
+        await screen.findByText('Real-Debrid is temporarily unavailable. Try again later.')
+      ).toBeInTheDocument()
+    })
+
+    it('reports links of an account torrent that could not be fetched', async () => {
+      const accountTorrent = {
+        id: 'account-1',
+        source: 'account' as const,
+        magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+        hash: '0123456789abcdef0123456789abcdef01234567',
+        filename: 'Old Movie.mkv',
+        downloadUrl: null,
+        status: 'ready' as const,
+        addedAt: Date.now(),
+        lastRetry: Date.now(),
+        retryCount: 0,
+      }
+      vi.mocked(storage.getCache).mockReturnValue({ accountTorrents: [accountTorrent] })
+      const browser = await import('webextension-polyfill')
+      vi.mocked(browser.default.runtime.sendMessage).mockResolvedValue({
+        success: false,
+        error: 'The torrent no longer exists on Real-Debrid.',
+      })
+
+      render(<ConversionDashboard />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Get links for Old Movie.mkv' }))
+
+      expect(
+        await screen.findByText('The torrent no longer exists on Real-Debrid.')
+      ).toBeInTheDocument()
+      expect(browser.default.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'UNRESTRICT_ACCOUNT_TORRENT',
+        torrentId: 'account-1',
+      })
+    })
+
+    it('reports .torrent files that fail to upload', async () => {
+      const browser = await import('webextension-polyfill')
+      vi.mocked(browser.default.runtime.sendMessage).mockResolvedValue({
+        success: false,
+        error: 'Invalid torrent file',
+      })
+
+      render(<ConversionDashboard />)
+
+      fireEvent.change(screen.getByTestId('file-drop-zone-input'), {
+        target: { files: [new File(['d4:infoe'], 'Broken.torrent')] },
+      })
+
+      expect(await screen.findByText('Broken.torrent: Invalid torrent file')).toBeInTheDocument()
+      expect(browser.default.runtime.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'ADD_TORRENT_FILE', fileName: 'Broken.torrent' })
+      )
     })
 
     it('copies links to clipboard when copy links clicked', async () => {
@@ -546,6 +753,147 @@ describe('ConversionDashboard', () => {
     })
   })
 
+  describe('aria2', () => {
+    const readyTorrent = {
+      id: 'torrent-1',
+      magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+      hash: '0123456789abcdef0123456789abcdef01234567',
+      filename: 'Movie.mkv',
+      status: 'ready' as const,
+      downloadUrl: 'https://example.com/movie.mkv',
+      addedAt: Date.now(),
+      lastRetry: Date.now(),
+      retryCount: 0,
+    }
+
+    it('hides the send action until aria2 is set up', async () => {
+      vi.mocked(storage.getCache).mockReturnValue({ torrents: [readyTorrent] })
+
+      render(<ConversionDashboard />)
+      await screen.findByText('Movie.mkv')
+
+      expect(screen.queryByText('Send to aria2')).not.toBeInTheDocument()
+    })
+
+    it('sends a torrent to aria2 and reports the result', async () => {
+      const webextension = await import('webextension-polyfill')
+      const browser = webextension.default as any
+      browser.runtime.sendMessage.mockResolvedValueOnce({ success: true, count: 2 })
+      vi.mocked(storage.getSettings).mockResolvedValue({ aria2: { enabled: true } } as any)
+      vi.mocked(storage.getCache).mockReturnValue({ torrents: [readyTorrent] })
+
+      render(<ConversionDashboard />)
+      fireEvent.click(await screen.findByRole('button', { name: 'Send Movie.mkv to aria2' }))
+
+      expect(await screen.findByText('Sent 2 links to aria2')).toBeInTheDocument()
+      expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'SEND_TO_ARIA2',
+        torrentId: 'torrent-1',
+      })
+    })
+  })
+
+  describe('link export', () => {
+    const createReadyTorrent = (id: string, filename: string) => ({
+      id,
+      magnetLink: `magnet:?xt=urn:btih:${id}`,
+      hash: id,
+      filename,
+      status: 'ready' as const,
+      downloadUrl: `https://example.com/${filename}`,
+      addedAt: Date.now(),
+      lastRetry: Date.now(),
+      retryCount: 0,
+    })
+
+    it('exports the links of one torrent', async () => {
+      const movie = createReadyTorrent('torrent-1', 'Movie.mkv')
+      vi.mocked(storage.getCache).mockReturnValue({ torrents: [movie] })
+
+      render(<ConversionDashboard />)
+      fireEvent.click(await screen.findByRole('button', { name: 'Export links for Movie.mkv' }))
+      fireEvent.click(screen.getByRole('menuitem', { name: 'M3U8 Playlist' }))
+
+      expect(downloadExport).toHaveBeenCalledWith('m3u8', [expect.objectContaining(movie)])
+    })
+
+    it('exports the selected torrents together', async () => {
+      const movie = createReadyTorrent('torrent-1', 'Movie.mkv')
+      const show = createReadyTorrent('torrent-2', 'Show.mkv')
+      const other = createReadyTorrent('torrent-3', 'Other.mkv')
+      vi.mocked(storage.getCache).mockReturnValue({ torrents: [movie, show, other] })
+
+      render(<ConversionDashboard />)
+      fireEvent.click(await screen.findByRole('checkbox', { name: 'Select Movie.mkv' }))
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Select Show.mkv' }))
+      fireEvent.click(screen.getByRole('button', { name: 'Export links of selected torrents (2)' }))
+      fireEvent.click(screen.getByRole('menuitem', { name: 'JSON' }))
+
+      expect(downloadExport).toHaveBeenCalledWith('json', [
+        expect.objectContaining({ id: 'torrent-1' }),
+        expect.objectContaining({ id: 'torrent-2' }),
+      ])
+
+      fireEvent.click(screen.getByRole('button', { name: 'Clear selection' }))
+      expect(screen.getByRole('checkbox', { name: 'Select Movie.mkv' })).not.toBeChecked()
+    })
+  })
+
+  describe('streaming', () => {
+    it('opens the player page for a streamable file', async () => {
+      const webextension = await import('webextension-polyfill')
+      const browser = webextension.default as any
+      vi.mocked(storage.getCache).mockReturnValue({
+        torrents: [
+          {
+            id: 'torrent-1',
+            magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+            hash: '0123456789abcdef0123456789abcdef01234567',
+            filename: 'Movie Night',
+            status: 'ready' as const,
+            downloadUrl: 'https://example.com/movie.mkv',
+            links: [
+              {
+                filename: 'Movie.mkv',
+                url: 'https://example.com/movie.mkv',
+                selected: true,
+                id: 'ABC123',
+                streamable: true,
+              },
+            ],
+            addedAt: Date.now(),
+            lastRetry: Date.now(),
+            retryCount: 0,
+          },
+        ],
+      })
+
+      render(<ConversionDashboard />)
+      fireEvent.click(await screen.findByRole('button', { name: 'Stream Movie Night' }))
+
+      expect(browser.tabs.create).toHaveBeenCalledWith({
+        url: 'chrome-extension://test/src/player/player.html?torrentId=torrent-1&linkId=ABC123&name=Movie.mkv',
+      })
+    })
+  })
+
+  describe('history view', () => {
+    it('switches between the active list and the history archive', async () => {
+      render(<ConversionDashboard />)
+      await screen.findByText('No torrents yet')
+
+      fireEvent.click(screen.getByRole('tab', { name: 'History' }))
+
+      expect(screen.getByText('History archive')).toBeInTheDocument()
+      expect(screen.queryByText('No torrents yet')).not.toBeInTheDocument()
+      expect(screen.getByRole('tab', { name: 'History' })).toHaveAttribute('aria-selected', 'true')
+
+      fireEvent.click(screen.getByRole('tab', { name: 'Active' }))
+
+      expect(screen.getByText('No torrents yet')).toBeInTheDocument()
+    })
+  })
+
   describe('edge cases', () => {
     it('handles empty links array', async () => {
       const mockTorrents = [
@@ -629,7 +977,9 @@ describe('ConversionDashboard', () => {
     })
 
     it('handles error when removing torrent', async () => {
-      vi.mocked(storage.removeTorrent).mockRejectedValueOnce(new Error('Remove error'))
+      const webextension = await import('webextension-polyfill')
+      const browser = webextension.default as any
+      browser.runtime.sendMessage.mockRejectedValueOnce(new Error('Remove error'))
 
       const mockTorrents = [
         {
@@ -663,7 +1013,10 @@ describe('ConversionDashboard', () => {
       fireEvent.click(confirmRemoveButton)
 
       // Error should be logged but not throw
-      expect(storage.removeTorrent).toHaveBeenCalledWith('torrent-1')
+      expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'REMOVE_TORRENT',
+        torrentId: 'torrent-1',
+      })
     })
 
     it('handles error when copying links', async () => {
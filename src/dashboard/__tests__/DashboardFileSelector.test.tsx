@@ -70,9 +70,9 @@ describe('DashboardFileSelector', () => {
     )
 
     await waitFor(() => {
-      expect(screen.getByText('/file1.mp4')).toBeInTheDocument()
-      expect(screen.getByText('/file2.txt')).toBeInTheDocument()
-      expect(screen.getByText('/file3.mkv')).toBeInTheDocument()
+      expect(screen.getByText('file1.mp4')).toBeInTheDocument()
+      expect(screen.getByText('file2.txt')).toBeInTheDocument()
+      expect(screen.getByText('file3.mkv')).toBeInTheDocument()
     })
   })
 
@@ -103,7 +103,7 @@ describe('DashboardFileSelector', () => {
     render(<DashboardFileSelector {...defaultProps} />)
 
     await waitFor(() => {
-      expect(screen.getByText('/file1.mp4')).toBeInTheDocument()
+      expect(screen.getByText('file1.mp4')).toBeInTheDocument()
     })
 
     const checkboxes = screen.getAllByRole('checkbox')
@@ -145,7 +145,7 @@ describe('DashboardFileSelector', () => {
     render(<DashboardFileSelector {...defaultProps} />)
 
     await waitFor(() => {
-      expect(screen.getByText('/file1.mp4')).toBeInTheDocument()
+      expect(screen.getByText('file1.mp4')).toBeInTheDocument()
     })
 
     const checkboxes = screen.getAllByRole('checkbox')
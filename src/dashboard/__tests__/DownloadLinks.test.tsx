@@ -169,6 +169,20 @@ describe('DownloadLinks', () => {
     })
   })
 
+  describe('streaming', () => {
+    it('offers to stream streamable files', () => {
+      const onStream = vi.fn()
+      const links = [{ ...mockLinks[0], id: 'ABC123', streamable: true }, mockLinks[1]]
+      render(<DownloadLinks links={links} onStream={onStream} />)
+
+      fireEvent.click(screen.getByLabelText('Stream movie.mkv'))
+
+      expect(onStream).toHaveBeenCalledWith(links[0])
+      expect(screen.queryByLabelText('Stream subtitle.srt')).not.toBeInTheDocument()
+      expect(window.open).not.toHaveBeenCalled()
+    })
+  })
+
   describe('filename truncation', () => {
     it('does not truncate short filenames', () => {
       render(<DownloadLinks links={mockLinks} />)
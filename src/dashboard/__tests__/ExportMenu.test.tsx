@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import '@testing-library/jest-dom/vitest'
+import { ExportMenu } from '../ExportMenu'
+
+describe('ExportMenu', () => {
+  it('lists every export format', () => {
+    render(<ExportMenu onExport={vi.fn()} />)
+
+    const button = screen.getByRole('button', { name: 'Export' })
+    expect(button).toHaveAttribute('aria-expanded', 'false')
+    fireEvent.click(button)
+
+    expect(button).toHaveAttribute('aria-expanded', 'true')
+    expect(screen.getAllByRole('menuitem').map(item => item.textContent)).toEqual([
+      'M3U8 Playlist',
+      'aria2 Input File',
+      'wget Script',
+      'curl Script',
+      'JSON',
+      'JDownloader Crawljob',
+      'Plain Text',
+    ])
+  })
+
+  it('exports the chosen format and closes', () => {
+    const onExport = vi.fn()
+    render(<ExportMenu onExport={onExport} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }))
+    fireEvent.click(screen.getByRole('menuitem', { name: 'wget Script' }))
+
+    expect(onExport).toHaveBeenCalledWith('wget')
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+
+  it('closes on Escape and outside clicks', () => {
+    render(<ExportMenu onExport={vi.fn()} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }))
+    fireEvent.keyDown(document, { key: 'Escape' })
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }))
+    fireEvent.mouseDown(document.body)
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+
+  it('does not open when disabled', () => {
+    render(<ExportMenu onExport={vi.fn()} disabled />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }))
+
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+  })
+})
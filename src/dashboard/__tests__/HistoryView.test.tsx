@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import '@testing-library/jest-dom/vitest'
+import { HistoryView } from '../HistoryView'
+import { queryHistory, deleteHistoryEntry } from '../../utils/history-db'
+import browser from 'webextension-polyfill'
+import type { HistoryEntry } from '../../utils/types'
+
+// Mock webextension-polyfill
+vi.mock('webextension-polyfill', () => ({
+  default: {
+    runtime: {
+      sendMessage: vi.fn(),
+    },
+  },
+}))
+
+// Mock the IndexedDB archive
+vi.mock('../../utils/history-db', () => ({
+  queryHistory: vi.fn(),
+  deleteHistoryEntry: vi.fn(() => Promise.resolve()),
+}))
+
+describe('HistoryView', () => {
+  const entry: HistoryEntry = {
+    id: 'torrent-1',
+    magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+    hash: '0123456789abcdef0123456789abcdef01234567',
+    filename: 'Old Movie.mkv',
+    downloadUrl: null,
+    status: 'ready',
+    addedAt: new Date('2026-01-15T12:00:00').getTime(),
+    lastRetry: 0,
+    retryCount: 0,
+    archivedAt: new Date('2026-02-01T12:00:00').getTime(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(queryHistory).mockResolvedValue([entry])
+  })
+
+  it('lists archived torrents', async () => {
+    render(<HistoryView />)
+
+    expect(await screen.findByText('Old Movie.mkv')).toBeInTheDocument()
+    expect(queryHistory).toHaveBeenCalledWith({ search: '', from: undefined, to: undefined })
+  })
+
+  it('shows an empty state when nothing is archived', async () => {
+    vi.mocked(queryHistory).mockResolvedValue([])
+
+    render(<HistoryView />)
+
+    expect(await screen.findByText('No history yet')).toBeInTheDocument()
+  })
+
+  it('queries with the search text and date range', async () => {
+    render(<HistoryView />)
+    await screen.findByText('Old Movie.mkv')
+
+    fireEvent.change(screen.getByLabelText('Search history'), { target: { value: 'movie' } })
+    fireEvent.change(screen.getByLabelText('From'), { target: { value: '2026-01-01' } })
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2026-01-31' } })
+
+    await waitFor(() => {
+      expect(queryHistory).toHaveBeenLastCalledWith({
+        search: 'movie',
+        from: new Date('2026-01-01T00:00:00').getTime(),
+        to: new Date('2026-01-31T23:59:59.999').getTime(),
+      })
+    })
+  })
+
+  it('refreshes expired links through the background', async () => {
+    const refreshed = {
+      ...entry,
+      downloadUrl: 'https://download.real-debrid.com/fresh',
+      links: [
+        {
+          filename: 'Old Movie.mkv',
+          url: 'https://download.real-debrid.com/fresh',
+          selected: true,
+        },
+      ],
+    }
+    vi.mocked(browser.runtime.sendMessage).mockResolvedValue({ success: true, entry: refreshed })
+
+    render(<HistoryView />)
+    fireEvent.click(await screen.findByRole('button', { name: /Refresh Links/ }))
+
+    expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+      type: 'UNRESTRICT_HISTORY_TORRENT',
+      torrentId: 'torrent-1',
+    })
+    expect(await screen.findByRole('button', { name: 'Copy Old Movie.mkv' })).toBeInTheDocument()
+  })
+
+  it('shows the error when links cannot be refreshed', async () => {
+    vi.mocked(browser.runtime.sendMessage).mockResolvedValue({
+      success: false,
+      error: 'The torrent is no longer on Real-Debrid. Re-add the magnet instead.',
+    })
+
+    render(<HistoryView />)
+    fireEvent.click(await screen.findByRole('button', { name: /Refresh Links/ }))
+
+    expect(
+      await screen.findByText('The torrent is no longer on Real-Debrid. Re-add the magnet instead.')
+    ).toBeInTheDocument()
+  })
+
+  it('re-adds the stored magnet', async () => {
+    vi.mocked(browser.runtime.sendMessage).mockResolvedValue({ success: true })
+
+    render(<HistoryView />)
+    fireEvent.click(await screen.findByRole('button', { name: 'Re-add Magnet' }))
+
+    expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+      type: 'ADD_MAGNET',
+      magnetLink: entry.magnetLink,
+      confirmed: true,
+    })
+    expect(
+      await screen.findByText('Old Movie.mkv was added to the active list')
+    ).toBeInTheDocument()
+  })
+
+  it('hides re-add for hoster links', async () => {
+    vi.mocked(queryHistory).mockResolvedValue([
+      { ...entry, kind: 'hoster', magnetLink: '', hash: '', host: 'rapidgator.net' },
+    ])
+
+    render(<HistoryView />)
+    await screen.findByText('Old Movie.mkv')
+
+    expect(screen.queryByRole('button', { name: 'Re-add Magnet' })).not.toBeInTheDocument()
+  })
+
+  it('deletes an entry from the archive', async () => {
+    render(<HistoryView />)
+    fireEvent.click(
+      await screen.findByRole('button', { name: 'Delete Old Movie.mkv from history' })
+    )
+
+    await waitFor(() => {
+      expect(screen.queryByText('Old Movie.mkv')).not.toBeInTheDocument()
+    })
+    expect(deleteHistoryEntry).toHaveBeenCalledWith('torrent-1')
+  })
+})
@@ -109,6 +109,30 @@ describe('TorrentCard', () => {
       expect(screen.getByText('Retries: 3')).toBeInTheDocument()
     })
 
+    it('shows the hoster for hoster items', () => {
+      const torrent = createMockTorrent({
+        kind: 'hoster',
+        host: 'rapidgator.net',
+        sourceUrl: 'https://rapidgator.net/file/abc',
+      })
+      render(<TorrentCard torrent={torrent} />)
+
+      expect(screen.getByText('rapidgator.net')).toHaveAttribute(
+        'title',
+        'https://rapidgator.net/file/abc'
+      )
+    })
+
+    it('shows the failure reason for failed torrents', () => {
+      const torrent = createMockTorrent({
+        status: 'error',
+        error: 'Real-Debrid blocked this file as infringing.',
+      })
+      render(<TorrentCard torrent={torrent} />)
+
+      expect(screen.getByText('Real-Debrid blocked this file as infringing.')).toBeInTheDocument()
+    })
+
     it('does not show retry count when 0', () => {
       const torrent = createMockTorrent({ retryCount: 0 })
       render(<TorrentCard torrent={torrent} />)
@@ -171,6 +195,42 @@ describe('TorrentCard', () => {
       expect(screen.getByText(/ETA: 5m/)).toBeInTheDocument()
     })
 
+    it('shows the progress of browser downloads apart from the conversion', () => {
+      const torrent = createMockTorrent({
+        status: 'ready',
+        links: [
+          {
+            filename: 'e01.mkv',
+            url: 'https://example.com/e01.mkv',
+            selected: true,
+            localDownload: { id: 1, state: 'in_progress', bytesReceived: 400, totalBytes: 1000 },
+          },
+          {
+            filename: 'e02.mkv',
+            url: 'https://example.com/e02.mkv',
+            selected: true,
+            localDownload: {
+              id: 2,
+              state: 'interrupted',
+              bytesReceived: 0,
+              totalBytes: 0,
+              error: 'USER_CANCELED',
+            },
+          },
+          { filename: 'e03.mkv', url: 'https://example.com/e03.mkv', selected: true },
+        ],
+      })
+      render(<TorrentCard torrent={torrent} />)
+
+      expect(screen.getByText('Local Download')).toBeInTheDocument()
+      expect(screen.getByRole('progressbar', { name: 'e01.mkv' })).toHaveAttribute(
+        'aria-valuenow',
+        '40'
+      )
+      expect(screen.getByText('e02.mkv - Canceled')).toBeInTheDocument()
+      expect(screen.getAllByRole('progressbar')).toHaveLength(2)
+    })
+
     it('shows download links when available', () => {
       const torrent = createMockTorrent({
         status: 'ready',
@@ -242,6 +302,108 @@ describe('TorrentCard', () => {
       expect(screen.queryByText('Copy Links')).not.toBeInTheDocument()
     })
 
+    it('offers to send ready torrents to aria2', () => {
+      const onSendToAria2 = vi.fn()
+      const torrent = createMockTorrent({
+        status: 'ready',
+        downloadUrl: 'https://example.com/movie.mkv',
+      })
+      render(<TorrentCard torrent={torrent} onSendToAria2={onSendToAria2} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Send Test Movie 2024.mkv to aria2' }))
+
+      expect(onSendToAria2).toHaveBeenCalledWith('torrent-1')
+    })
+
+    it('does not offer aria2 for torrents without links', () => {
+      const torrent = createMockTorrent({ status: 'processing' })
+      render(<TorrentCard torrent={torrent} onSendToAria2={vi.fn()} />)
+
+      expect(screen.queryByText('Send to aria2')).not.toBeInTheDocument()
+    })
+
+    it('downloads through onDownload when the browser manages downloads', () => {
+      const onDownload = vi.fn()
+      const torrent = createMockTorrent({
+        status: 'ready',
+        downloadUrl: 'https://example.com/movie.mkv',
+        links: [{ filename: 'movie.mkv', url: 'https://example.com/movie.mkv', selected: true }],
+      })
+      render(<TorrentCard torrent={torrent} onDownload={onDownload} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Download file' }))
+      fireEvent.click(screen.getByTitle('movie.mkv'))
+
+      expect(onDownload).toHaveBeenCalledWith('torrent-1')
+      expect(onDownload).toHaveBeenCalledWith('torrent-1', 'https://example.com/movie.mkv')
+      expect(window.open).not.toHaveBeenCalled()
+    })
+
+    it('streams the first streamable file', () => {
+      const onStream = vi.fn()
+      const link = {
+        filename: 'movie.mkv',
+        url: 'https://example.com/movie.mkv',
+        selected: true,
+        id: 'ABC123',
+        streamable: true,
+      }
+      const torrent = createMockTorrent({
+        status: 'ready',
+        downloadUrl: link.url,
+        links: [
+          { filename: 'notes.txt', url: 'https://example.com/notes.txt', selected: true },
+          link,
+        ],
+      })
+      render(<TorrentCard torrent={torrent} onStream={onStream} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Stream Test Movie 2024.mkv' }))
+
+      expect(onStream).toHaveBeenCalledWith('torrent-1', link)
+    })
+
+    it('exports the links of the torrent', () => {
+      const onExport = vi.fn()
+      const torrent = createMockTorrent({
+        status: 'ready',
+        downloadUrl: 'https://example.com/movie.mkv',
+      })
+      render(<TorrentCard torrent={torrent} onExport={onExport} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Export links for Test Movie 2024.mkv' }))
+      fireEvent.click(screen.getByRole('menuitem', { name: 'JDownloader Crawljob' }))
+
+      expect(onExport).toHaveBeenCalledWith('torrent-1', 'crawljob')
+    })
+
+    it('selects torrents with links for batch exports', () => {
+      const onToggleSelect = vi.fn()
+      const { rerender } = render(
+        <TorrentCard
+          torrent={createMockTorrent({ status: 'processing' })}
+          onToggleSelect={onToggleSelect}
+        />
+      )
+      expect(screen.queryByRole('checkbox')).not.toBeInTheDocument()
+
+      rerender(
+        <TorrentCard
+          torrent={createMockTorrent({
+            status: 'ready',
+            downloadUrl: 'https://example.com/movie.mkv',
+          })}
+          selected
+          onToggleSelect={onToggleSelect}
+        />
+      )
+      const checkbox = screen.getByRole('checkbox', { name: 'Select Test Movie 2024.mkv' })
+      expect(checkbox).toBeChecked()
+      fireEvent.click(checkbox)
+
+      expect(onToggleSelect).toHaveBeenCalledWith('torrent-1')
+    })
+
     it('shows remove button when onRemove provided', () => {
       const torrent = createMockTorrent()
       render(<TorrentCard torrent={torrent} onRemove={mockOnRemove} />)
@@ -257,6 +419,43 @@ describe('TorrentCard', () => {
     })
   })
 
+  describe('account torrents', () => {
+    it('marks torrents mirrored from the account', () => {
+      const torrent = createMockTorrent({ source: 'account' })
+      render(<TorrentCard torrent={torrent} />)
+
+      expect(screen.getByText('From account')).toBeInTheDocument()
+    })
+
+    it('does not offer retry for account torrents', () => {
+      const torrent = createMockTorrent({ source: 'account', status: 'error' })
+      render(<TorrentCard torrent={torrent} onRetry={mockOnRetry} />)
+
+      expect(screen.queryByText('Retry')).not.toBeInTheDocument()
+    })
+
+    it('offers to fetch links for ready account torrents without links', () => {
+      const onGetLinks = vi.fn()
+      const torrent = createMockTorrent({ source: 'account', status: 'ready' })
+      render(<TorrentCard torrent={torrent} onGetLinks={onGetLinks} />)
+
+      fireEvent.click(screen.getByText('Get Links'))
+
+      expect(onGetLinks).toHaveBeenCalledWith('torrent-1')
+    })
+
+    it('hides the get links button once links are available', () => {
+      const torrent = createMockTorrent({
+        source: 'account',
+        status: 'ready',
+        downloadUrl: 'https://example.com/movie.mkv',
+      })
+      render(<TorrentCard torrent={torrent} onGetLinks={vi.fn()} />)
+
+      expect(screen.queryByText('Get Links')).not.toBeInTheDocument()
+    })
+  })
+
   describe('action handling', () => {
     it('calls onRetry with torrent id when retry clicked', () => {
       const torrent = createMockTorrent({ status: 'error' })
@@ -383,6 +582,26 @@ describe('TorrentCard', () => {
       expect(screen.getByRole('progressbar')).toBeInTheDocument()
       expect(screen.queryByText(/↓/)).not.toBeInTheDocument()
       expect(screen.queryByText(/↑/)).not.toBeInTheDocument()
+      expect(document.querySelector('.torrent-speed-info')).toBeEmptyDOMElement()
+    })
+
+    it('shows seeders and progress before the download starts', () => {
+      const torrent = createMockTorrent({
+        progress: { progress: 0, status: 'converting', seeds: 1 },
+      })
+      render(<TorrentCard torrent={torrent} />)
+
+      expect(screen.getByRole('progressbar')).toBeInTheDocument()
+      expect(screen.getByText('1 seeder')).toBeInTheDocument()
+    })
+
+    it('formats long ETAs in hours', () => {
+      const torrent = createMockTorrent({
+        progress: { progress: 10, status: 'downloading', eta: 3 * 3600 + 120 },
+      })
+      render(<TorrentCard torrent={torrent} />)
+
+      expect(screen.getByText('ETA: 3h 2m')).toBeInTheDocument()
     })
 
     it('handles progress with missing ETA', () => {
@@ -11,6 +11,10 @@ export { DarkModeToggle } from './DarkModeToggle'
 
 export { NotificationManager } from './NotificationManager'
 
+export { AccountPanel } from './AccountPanel'
+
+export { HistoryView } from './HistoryView'
+
 import { ConversionDashboard } from './ConversionDashboard'
 export { ConversionDashboard }
 export default ConversionDashboard
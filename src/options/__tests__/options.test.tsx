@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import '@testing-library/jest-dom/vitest'
+import Options from '../options'
+import { storage, DEFAULT_SETTINGS } from '../../utils/storage'
+import { rdAPI } from '../../utils/realdebrid-api'
+
+// The real storage module loads for DEFAULT_SETTINGS, so it needs an empty browser.storage
+vi.mock('webextension-polyfill', () => {
+  const area = { get: vi.fn(() => Promise.resolve({})) }
+  return {
+    default: {
+      storage: { sync: area, local: area, session: area, onChanged: { addListener: vi.fn() } },
+      permissions: { request: vi.fn(() => Promise.resolve(true)) },
+    },
+  }
+})
+
+// Mock storage
+vi.mock('../../utils/storage', async importOriginal => {
+  const { DEFAULT_SETTINGS } = await importOriginal<typeof import('../../utils/storage')>()
+  return {
+    DEFAULT_SETTINGS,
+    storage: {
+      getSettings: vi.fn(),
+      saveSettings: vi.fn(() => Promise.resolve()),
+      getOAuthCredentials: vi.fn(() => Promise.resolve(null)),
+      clearOAuthCredentials: vi.fn(() => Promise.resolve()),
+      getTokenLockState: vi.fn(),
+    },
+  }
+})
+
+// Mock the Real-Debrid API
+vi.mock('../../utils/realdebrid-api', () => ({
+  rdAPI: { validateToken: vi.fn(() => Promise.resolve(true)) },
+}))
+
+vi.mock('../../utils/realdebrid-oauth', () => ({
+  requestDeviceCode: vi.fn(),
+  authorizeDevice: vi.fn(),
+}))
+
+vi.mock('../../utils/backup', () => ({
+  createBackup: vi.fn(),
+  downloadBackup: vi.fn(),
+  parseBackup: vi.fn(),
+  restoreBackup: vi.fn(),
+}))
+
+describe('Options', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(storage.getSettings).mockResolvedValue({
+      ...DEFAULT_SETTINGS,
+      apiToken: 'TOKEN',
+      accounts: [{ id: 'acc-1', name: 'Second', apiToken: 'TOKEN-2' }],
+      activeAccountId: 'acc-1',
+    })
+    vi.mocked(storage.getTokenLockState).mockResolvedValue('plain')
+  })
+
+  it('validates and saves the API tokens', async () => {
+    render(<Options />)
+    await waitFor(() =>
+      expect(screen.getByPlaceholderText('Enter your API token')).toHaveValue('TOKEN')
+    )
+
+    fireEvent.click(screen.getByText('Save Changes'))
+
+    await waitFor(() =>
+      expect(screen.getByText('Settings saved successfully!')).toBeInTheDocument()
+    )
+    expect(rdAPI.validateToken).toHaveBeenCalledWith('TOKEN')
+    expect(storage.saveSettings).toHaveBeenCalledWith(
+      expect.objectContaining({
+        apiToken: 'TOKEN',
+        accounts: [{ id: 'acc-1', name: 'Second', apiToken: 'TOKEN-2' }],
+        activeAccountId: 'acc-1',
+      })
+    )
+  })
+
+  it('saves the other settings without touching locked tokens', async () => {
+    vi.mocked(storage.getSettings).mockResolvedValue({ ...DEFAULT_SETTINGS, maxListSize: 20 })
+    vi.mocked(storage.getTokenLockState).mockResolvedValue('locked')
+    render(<Options />)
+    await waitFor(() => expect(screen.getByPlaceholderText('Enter your API token')).toBeDisabled())
+
+    fireEvent.click(screen.getByText('Save Changes'))
+
+    await waitFor(() =>
+      expect(
+        screen.getByText('Settings saved. Unlock the API tokens to change them.')
+      ).toBeInTheDocument()
+    )
+    expect(rdAPI.validateToken).not.toHaveBeenCalled()
+    const saved = vi.mocked(storage.saveSettings).mock.calls[0][0]
+    expect(saved.maxListSize).toBe(20)
+    expect(saved).not.toHaveProperty('apiToken')
+    expect(saved).not.toHaveProperty('accounts')
+    expect(saved).not.toHaveProperty('activeAccountId')
+  })
+})
@@ -5,15 +5,50 @@
  * Industrial Terminal design system.
  */
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { createRoot } from 'react-dom/client'
+import browser from 'webextension-polyfill'
 import { storage } from '../utils/storage'
 import { rdAPI } from '../utils/realdebrid-api'
+import { requestDeviceCode, authorizeDevice } from '../utils/realdebrid-oauth'
+import { INTERCEPTOR_ORIGINS, parseSiteList } from '../utils/site-filter'
+import {
+  DEFAULT_FILE_RULES,
+  VIDEO_EXTENSIONS,
+  applyFileRules,
+  parseExtensionList,
+  parseSampleFiles,
+  validateFileRules,
+} from '../utils/file-rules'
+import { DEFAULT_ARIA2_SETTINGS, getAria2Origin, getAria2Version } from '../utils/aria2'
+import { DEFAULT_DOWNLOAD_TEMPLATE, validateDownloadTemplate } from '../utils/downloads'
+import { createBackup, downloadBackup, parseBackup, restoreBackup } from '../utils/backup'
+import type {
+  Aria2Settings,
+  BackupDocument,
+  FileSelectionRules,
+  InterceptAction,
+  InterceptSiteMode,
+  RdAccount,
+  RdDeviceCode,
+  RestoreMode,
+  Settings,
+  TokenLockState,
+} from '../utils/types'
 import { Button } from '../components/common/Button'
 import { Input } from '../components/common/Input'
 import { Icon } from '../components/common/Icon'
 import './options.css'
 
+// Preview list shown until the user pastes their own
+const SAMPLE_FILES = [
+  'Show.S01/Show.S01E01.1080p.mkv, 1450',
+  'Show.S01/Show.S01E02.1080p.mkv, 1380',
+  'Show.S01/Sample/show.sample.mkv, 45',
+  'Show.S01/Subs/English.srt, 0.1',
+  'Show.S01/Show.S01.nfo, 0.01',
+].join('\n')
+
 /**
  * Options component for managing extension settings.
  */
@@ -22,48 +57,340 @@ function Options() {
   const [maxListSize, setMaxListSize] = useState(10)
   const [contextMenuEnabled, setContextMenuEnabled] = useState(false)
   const [alwaysSaveAllFiles, setAlwaysSaveAllFiles] = useState(false)
+  const [fileRules, setFileRules] = useState<FileSelectionRules>(DEFAULT_FILE_RULES)
+  const [fileRuleExtensions, setFileRuleExtensions] = useState('')
+  const [sampleFiles, setSampleFiles] = useState(SAMPLE_FILES)
+  const [aria2, setAria2] = useState<Aria2Settings>(DEFAULT_ARIA2_SETTINGS)
+  const [testingAria2, setTestingAria2] = useState(false)
+  const [managedDownloads, setManagedDownloads] = useState(false)
+  const [downloadFilenameTemplate, setDownloadFilenameTemplate] =
+    useState(DEFAULT_DOWNLOAD_TEMPLATE)
   const [visibleTorrentsCount, setVisibleTorrentsCount] = useState(5)
+  const [confirmUncachedTorrents, setConfirmUncachedTorrents] = useState(false)
+  const [interceptMagnetLinks, setInterceptMagnetLinks] = useState(false)
+  const [interceptAction, setInterceptAction] = useState<InterceptAction>('add')
+  const [interceptSiteMode, setInterceptSiteMode] = useState<InterceptSiteMode>('denylist')
+  const [interceptSiteList, setInterceptSiteList] = useState('')
+  const [accounts, setAccounts] = useState<RdAccount[]>([])
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null)
   const [saving, setSaving] = useState(false)
   const [message, setMessage] = useState('')
   const [showToken, setShowToken] = useState(false)
+  const [oauthLoggedIn, setOauthLoggedIn] = useState(false)
+  const [deviceCode, setDeviceCode] = useState<RdDeviceCode | null>(null)
+  const [tokenLockState, setTokenLockState] = useState<TokenLockState>('plain')
+  const [passphrase, setPassphrase] = useState('')
+  const [passphraseConfirm, setPassphraseConfirm] = useState('')
+  const [includeSecretsInBackup, setIncludeSecretsInBackup] = useState(false)
+  const [pendingBackup, setPendingBackup] = useState<BackupDocument | null>(null)
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge')
+  const [restoring, setRestoring] = useState(false)
+  const loginAbortRef = useRef<AbortController | null>(null)
+  const backupInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
     loadSettings()
+    // Stop polling for the device approval when the page closes
+    return () => loginAbortRef.current?.abort()
   }, [])
 
   const loadSettings = async () => {
     const settings = await storage.getSettings()
-    setApiToken(settings.apiToken || '')
+    const credentials = await storage.getOAuthCredentials()
+    // While logged in with OAuth, settings.apiToken is its access token rather than a pasted one
+    setApiToken(credentials ? '' : settings.apiToken || '')
     setMaxListSize(settings.maxListSize)
     setContextMenuEnabled(settings.contextMenuEnabled)
     setAlwaysSaveAllFiles(settings.alwaysSaveAllFiles)
+    setFileRules(settings.fileSelectionRules)
+    setFileRuleExtensions(settings.fileSelectionRules.extensions.join(', '))
+    setAria2(settings.aria2)
+    setManagedDownloads(settings.managedDownloads)
+    setDownloadFilenameTemplate(settings.downloadFilenameTemplate)
     setVisibleTorrentsCount(settings.visibleTorrentsCount)
+    setConfirmUncachedTorrents(settings.confirmUncachedTorrents)
+    setInterceptMagnetLinks(settings.interceptMagnetLinks)
+    setInterceptAction(settings.interceptAction)
+    setInterceptSiteMode(settings.interceptSiteMode)
+    setInterceptSiteList(settings.interceptSiteList.join('\n'))
+    setAccounts(settings.accounts)
+    setActiveAccountId(settings.activeAccountId)
+    setOauthLoggedIn(credentials !== null)
+    setTokenLockState(await storage.getTokenLockState())
+  }
+
+  // Run a token protection action, then reload so the form shows the tokens it can now read
+  const runTokenAction = async (action: () => Promise<void>, success: string) => {
+    setMessage('')
+    try {
+      await action()
+      setPassphrase('')
+      setPassphraseConfirm('')
+      await loadSettings()
+      setMessage(success)
+    } catch (error) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleEncryptTokens = () => {
+    if (passphrase.length < 8) {
+      setMessage('Error: Use a passphrase of at least 8 characters.')
+      return
+    }
+    if (passphrase !== passphraseConfirm) {
+      setMessage('Error: The passphrases do not match.')
+      return
+    }
+    runTokenAction(() => storage.encryptTokens(passphrase), 'API tokens encrypted.')
+  }
+
+  const handleOAuthLogin = async () => {
+    setMessage('')
+    if (tokenLockState === 'locked') {
+      setMessage('Error: Unlock the API tokens to log in.')
+      return
+    }
+    const controller = new AbortController()
+    loginAbortRef.current = controller
+
+    try {
+      const code = await requestDeviceCode()
+      setDeviceCode(code)
+      const credentials = await authorizeDevice(code, { signal: controller.signal })
+
+      await storage.saveOAuthCredentials(credentials)
+      setApiToken('')
+      setOauthLoggedIn(true)
+      setMessage('Logged in with Real-Debrid!')
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setMessage(`Error: ${error instanceof Error ? error.message : 'Login failed'}`)
+      }
+    } finally {
+      setDeviceCode(null)
+      loginAbortRef.current = null
+    }
+  }
+
+  const handleCancelLogin = () => {
+    loginAbortRef.current?.abort()
+  }
+
+  const handleOAuthLogout = async () => {
+    await storage.clearOAuthCredentials()
+    await storage.saveSettings({ apiToken: null })
+    setApiToken('')
+    setOauthLoggedIn(false)
+    setMessage('Logged out.')
+  }
+
+  const handleAddAccount = () => {
+    setAccounts([
+      ...accounts,
+      { id: crypto.randomUUID(), name: `Account ${accounts.length + 2}`, apiToken: '' },
+    ])
+  }
+
+  const handleUpdateAccount = (id: string, changes: Partial<RdAccount>) => {
+    setAccounts(accounts.map(account => (account.id === id ? { ...account, ...changes } : account)))
+  }
+
+  const handleRemoveAccount = (id: string) => {
+    setAccounts(accounts.filter(account => account.id !== id))
+  }
+
+  const updateFileRules = (changes: Partial<FileSelectionRules>) => {
+    setFileRules({ ...fileRules, ...changes })
+  }
+
+  const updateAria2 = (changes: Partial<Aria2Settings>) => {
+    setAria2({ ...aria2, ...changes })
+  }
+
+  // Ask for access to the RPC host; must be called before the first await of a click handler
+  const requestAria2Access = () => {
+    const origin = getAria2Origin(aria2.rpcUrl)
+    return origin ? browser.permissions.request({ origins: [origin] }) : Promise.resolve(false)
+  }
+
+  const handleTestAria2 = async () => {
+    const access = requestAria2Access()
+    setTestingAria2(true)
+    setMessage('')
+
+    try {
+      if (!(await access)) {
+        setMessage('Error: Access to the aria2 RPC URL was not granted.')
+        return
+      }
+      const version = await getAria2Version(aria2)
+      setMessage(`Connected to aria2 ${version}.`)
+    } catch (error) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Connection failed'}`)
+    } finally {
+      setTestingAria2(false)
+    }
+  }
+
+  // Rules as they would be saved, with the extension text parsed
+  const editedFileRules = { ...fileRules, extensions: parseExtensionList(fileRuleExtensions) }
+  const fileRulesError = validateFileRules(editedFileRules)
+  const previewFiles = parseSampleFiles(sampleFiles)
+  const previewSelection = new Set(applyFileRules(previewFiles, editedFileRules))
+
+  const handleExportBackup = async () => {
+    setMessage('')
+    try {
+      downloadBackup(await createBackup(includeSecretsInBackup))
+    } catch (error) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow picking the same file again
+    e.target.value = ''
+    if (!file) return
+
+    setMessage('')
+    try {
+      setPendingBackup(parseBackup(await file.text()))
+    } catch (error) {
+      setPendingBackup(null)
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return
+    if (
+      restoreMode === 'replace' &&
+      !confirm('Replace your torrent list with the one from the backup?')
+    ) {
+      return
+    }
+
+    setRestoring(true)
+    setMessage('')
+    try {
+      const count = await restoreBackup(pendingBackup, restoreMode)
+      setPendingBackup(null)
+      await loadSettings()
+      setMessage(`Backup restored with ${count} torrent${count === 1 ? '' : 's'}.`)
+    } catch (error) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setRestoring(false)
+    }
   }
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault()
+    const aria2Access = aria2.enabled ? requestAria2Access() : Promise.resolve(true)
+    const downloadsAccess = managedDownloads
+      ? browser.permissions.request({ permissions: ['downloads'] })
+      : Promise.resolve(true)
+    const interceptAccess = interceptMagnetLinks
+      ? browser.permissions.request({ origins: INTERCEPTOR_ORIGINS })
+      : Promise.resolve(true)
     setSaving(true)
     setMessage('')
 
     try {
-      // Test API token
-      const isValid = await rdAPI.validateToken(apiToken)
+      if (fileRulesError) {
+        setMessage(`Error: ${fileRulesError}.`)
+        return
+      }
+
+      const templateError = managedDownloads
+        ? validateDownloadTemplate(downloadFilenameTemplate)
+        : null
+      if (templateError) {
+        setMessage(`Error: ${templateError}.`)
+        return
+      }
+
+      if (!(await downloadsAccess)) {
+        setMessage('Error: Browser downloads need the downloads permission.')
+        return
+      }
 
-      if (!isValid) {
-        setMessage('Error: Invalid API token. Please check and try again.')
+      if (!(await aria2Access)) {
+        setMessage('Error: Enter a valid aria2 RPC URL and allow access to it.')
         return
       }
 
+      if (!(await interceptAccess)) {
+        setMessage('Error: Intercepting magnet links needs access to the sites you visit.')
+        return
+      }
+
+      // Locked tokens read as empty, so they and the account choice are left as stored
+      const tokensLocked = tokenLockState === 'locked'
+      let tokenSettings: Partial<Settings> = {}
+      if (!tokensLocked) {
+        // Test API token; while logged in with OAuth, the field is only set to replace the login
+        if (apiToken || !oauthLoggedIn) {
+          const isValid = await rdAPI.validateToken(apiToken)
+
+          if (!isValid) {
+            setMessage('Error: Invalid API token. Please check and try again.')
+            return
+          }
+        }
+
+        for (const account of accounts) {
+          if (!(await rdAPI.validateToken(account.apiToken))) {
+            setMessage(`Error: Invalid API token for "${account.name}".`)
+            return
+          }
+        }
+
+        // A pasted token replaces the OAuth login, which would otherwise take precedence over it
+        const credentials = await storage.getOAuthCredentials()
+        if (credentials && apiToken) {
+          await storage.clearOAuthCredentials()
+          setOauthLoggedIn(false)
+        }
+
+        tokenSettings = {
+          apiToken: apiToken || null,
+          accounts: accounts.map(account => ({
+            ...account,
+            name: account.name.trim() || 'Account',
+          })),
+          // New items go back to the default account when the active one is removed
+          activeAccountId: accounts.some(account => account.id === activeAccountId)
+            ? activeAccountId
+            : null,
+        }
+      }
+
       // Save settings
       await storage.saveSettings({
-        apiToken,
         maxListSize,
         contextMenuEnabled,
         alwaysSaveAllFiles,
+        fileSelectionRules: editedFileRules,
+        aria2: { ...aria2, rpcUrl: aria2.rpcUrl.trim() },
+        managedDownloads,
+        downloadFilenameTemplate: downloadFilenameTemplate.trim(),
         visibleTorrentsCount,
+        confirmUncachedTorrents,
+        interceptMagnetLinks,
+        interceptAction,
+        interceptSiteMode,
+        interceptSiteList: parseSiteList(interceptSiteList),
+        ...tokenSettings,
       })
 
-      setMessage('Settings saved successfully!')
+      setMessage(
+        tokensLocked
+          ? 'Settings saved. Unlock the API tokens to change them.'
+          : 'Settings saved successfully!'
+      )
     } catch (error) {
       setMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
@@ -97,7 +424,8 @@ function Options() {
                 value={apiToken}
                 onChange={e => setApiToken(e.target.value)}
                 placeholder="Enter your API token"
-                required
+                required={!oauthLoggedIn && tokenLockState !== 'locked'}
+                disabled={tokenLockState === 'locked'}
               />
               <Button
                 type="button"
@@ -122,6 +450,176 @@ function Options() {
               </a>
             </div>
           </div>
+
+          <div className="options__input-group">
+            {deviceCode ? (
+              <div className="options__device-code">
+                <div className="options__helper-text">
+                  Open{' '}
+                  <a
+                    href={deviceCode.direct_verification_url || deviceCode.verification_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="options__external-link"
+                  >
+                    {deviceCode.verification_url}
+                    <Icon name="external-link" size="sm" aria-label="Opens in new tab" />
+                  </a>{' '}
+                  and enter this code:
+                </div>
+                <div className="options__device-code-value">{deviceCode.user_code}</div>
+                <div className="options__helper-text">Waiting for authorization...</div>
+                <Button type="button" variant="secondary" size="sm" onClick={handleCancelLogin}>
+                  Cancel
+                </Button>
+              </div>
+            ) : oauthLoggedIn ? (
+              <div className="options__oauth-status">
+                <span className="options__helper-text">
+                  Logged in with Real-Debrid. The token is renewed automatically.
+                </span>
+                <Button type="button" variant="secondary" size="sm" onClick={handleOAuthLogout}>
+                  Log out
+                </Button>
+              </div>
+            ) : (
+              <Button type="button" variant="secondary" size="md" onClick={handleOAuthLogin}>
+                Log in with Real-Debrid
+              </Button>
+            )}
+          </div>
+        </section>
+
+        {/* Additional Accounts Section */}
+        <section className="options__section">
+          <h2 className="options__section-title">Additional Accounts</h2>
+
+          {accounts.map(account => (
+            <div key={account.id} className="options__input-group options__account">
+              <Input
+                id={`account-name-${account.id}`}
+                label="Name"
+                value={account.name}
+                onChange={e => handleUpdateAccount(account.id, { name: e.target.value })}
+                required
+              />
+              <Input
+                id={`account-token-${account.id}`}
+                type={showToken ? 'text' : 'password'}
+                label="API Token"
+                value={account.apiToken}
+                onChange={e => handleUpdateAccount(account.id, { apiToken: e.target.value })}
+                placeholder="Enter the account's API token"
+                required
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="md"
+                onClick={() => handleRemoveAccount(account.id)}
+                aria-label={`Remove ${account.name}`}
+              >
+                <Icon name="trash" size="sm" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="options__input-group">
+            <Button type="button" variant="secondary" size="sm" onClick={handleAddAccount}>
+              Add account
+            </Button>
+            <div className="options__helper-text">
+              Pick the account new torrents go to in the popup. When it has too many active
+              downloads, the next account is used.
+            </div>
+          </div>
+        </section>
+
+        {/* Token Security Section */}
+        <section className="options__section">
+          <h2 className="options__section-title">Token Security</h2>
+
+          {tokenLockState === 'plain' && (
+            <div className="options__input-group options__token-security">
+              <Input
+                id="passphrase"
+                type="password"
+                label="Passphrase"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <Input
+                id="passphraseConfirm"
+                type="password"
+                label="Repeat passphrase"
+                value={passphraseConfirm}
+                onChange={e => setPassphraseConfirm(e.target.value)}
+                autoComplete="new-password"
+              />
+              <Button type="button" variant="secondary" size="sm" onClick={handleEncryptTokens}>
+                Encrypt tokens
+              </Button>
+              <div className="options__helper-text">
+                API tokens are stored on this device only. Encrypt the saved tokens with a
+                passphrase to unlock them once per browser session.
+              </div>
+            </div>
+          )}
+
+          {tokenLockState === 'locked' && (
+            <div className="options__input-group options__token-security">
+              <Input
+                id="unlockPassphrase"
+                type="password"
+                label="Passphrase"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                autoComplete="current-password"
+              />
+              <Button
+                type="button"
+                variant="primary"
+                size="sm"
+                onClick={() =>
+                  runTokenAction(() => storage.unlockTokens(passphrase), 'API tokens unlocked.')
+                }
+              >
+                Unlock
+              </Button>
+              <div className="options__helper-text">
+                API tokens are encrypted. Unlock them to use the extension in this session.
+              </div>
+            </div>
+          )}
+
+          {tokenLockState === 'unlocked' && (
+            <div className="options__input-group options__oauth-status">
+              <span className="options__helper-text">
+                API tokens are encrypted and unlocked until the browser closes.
+              </span>
+              <div className="options__token-actions">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => runTokenAction(() => storage.lockTokens(), 'API tokens locked.')}
+                >
+                  Lock now
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    runTokenAction(() => storage.decryptTokens(), 'Token encryption removed.')
+                  }
+                >
+                  Remove encryption
+                </Button>
+              </div>
+            </div>
+          )}
         </section>
 
         {/* Preferences Section */}
@@ -194,6 +692,477 @@ function Options() {
               </div>
             </label>
           </div>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={confirmUncachedTorrents}
+                onChange={e => setConfirmUncachedTorrents(e.target.checked)}
+                className="options__checkbox-input"
+              />
+              <div>
+                <span className="options__checkbox-label">Confirm uncached torrents</span>
+                <span className="options__checkbox-description">
+                  Ask before adding torrents that are not already cached on Real-Debrid
+                </span>
+              </div>
+            </label>
+          </div>
+        </section>
+
+        {/* File Selection Rules Section */}
+        <section className="options__section">
+          <h2 className="options__section-title">File Selection Rules</h2>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={fileRules.enabled}
+                onChange={e => updateFileRules({ enabled: e.target.checked })}
+                className="options__checkbox-input"
+              />
+              <div>
+                <span className="options__checkbox-label">Select files automatically by rules</span>
+                <span className="options__checkbox-description">
+                  Pick the files of multi-file torrents with the rules below. The file selector only
+                  opens when no file matches. Ignored while "Always save all files" is on.
+                </span>
+              </div>
+            </label>
+          </div>
+
+          <div className="options__input-group">
+            <div className="options__file-rule-row">
+              <Input
+                id="fileRuleExtensions"
+                label="File extensions"
+                value={fileRuleExtensions}
+                onChange={e => setFileRuleExtensions(e.target.value)}
+                placeholder="Any extension"
+                disabled={!fileRules.enabled}
+              />
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => setFileRuleExtensions(VIDEO_EXTENSIONS.join(', '))}
+                disabled={!fileRules.enabled}
+              >
+                Video only
+              </Button>
+            </div>
+          </div>
+
+          <div className="options__input-group">
+            <Input
+              id="fileRuleMinSize"
+              type="number"
+              label="Skip files smaller than (MB)"
+              value={fileRules.minSizeMB}
+              onChange={e => updateFileRules({ minSizeMB: Math.max(0, Number(e.target.value)) })}
+              min="0"
+              helperText="Drops samples and small extras; 0 keeps every size"
+              disabled={!fileRules.enabled}
+            />
+          </div>
+
+          <div className="options__input-group">
+            <Input
+              id="fileRuleInclude"
+              label="Include pattern"
+              value={fileRules.include}
+              onChange={e => updateFileRules({ include: e.target.value })}
+              placeholder="e.g. S01E\d+"
+              helperText="Regular expression the file path must match (case insensitive)"
+              disabled={!fileRules.enabled}
+            />
+          </div>
+
+          <div className="options__input-group">
+            <Input
+              id="fileRuleExclude"
+              label="Exclude pattern"
+              value={fileRules.exclude}
+              onChange={e => updateFileRules({ exclude: e.target.value })}
+              placeholder="e.g. sample|trailer"
+              helperText="Regular expression for file paths to leave out"
+              disabled={!fileRules.enabled}
+            />
+          </div>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={fileRules.largestOnly}
+                onChange={e => updateFileRules({ largestOnly: e.target.checked })}
+                className="options__checkbox-input"
+                disabled={!fileRules.enabled}
+              />
+              <div>
+                <span className="options__checkbox-label">Largest file only</span>
+                <span className="options__checkbox-description">
+                  Keep only the biggest of the matching files
+                </span>
+              </div>
+            </label>
+          </div>
+
+          <div className="options__input-group">
+            <label className="options__select-label" htmlFor="fileRuleSample">
+              Preview
+            </label>
+            <textarea
+              id="fileRuleSample"
+              className="options__textarea"
+              value={sampleFiles}
+              onChange={e => setSampleFiles(e.target.value)}
+              rows={5}
+            />
+            <div className="options__helper-text">
+              One file per line as "path, size in MB". Paste a real torrent's file list to try your
+              rules.
+            </div>
+            {fileRulesError ? (
+              <div className="options__message options__message--error">
+                <Icon name="x-circle" size="sm" />
+                <span>{fileRulesError}</span>
+              </div>
+            ) : (
+              <ul className="options__file-preview" aria-label="Rule preview">
+                {previewFiles.map(file => {
+                  const selected = previewSelection.has(file.id)
+                  return (
+                    <li
+                      key={file.id}
+                      className={`options__file-preview-item${selected ? ' options__file-preview-item--selected' : ''}`}
+                    >
+                      <Icon name={selected ? 'check-circle' : 'x-circle'} size="sm" />
+                      <span>{file.path}</span>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </section>
+
+        {/* Browser Downloads Section */}
+        <section className="options__section">
+          <h2 className="options__section-title">Browser Downloads</h2>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={managedDownloads}
+                onChange={e => setManagedDownloads(e.target.checked)}
+                className="options__checkbox-input"
+              />
+              <div>
+                <span className="options__checkbox-label">
+                  Download through the browser's download manager
+                </span>
+                <span className="options__checkbox-description">
+                  Save files into folders and show their local download progress on the dashboard.
+                  Asks for the downloads permission.
+                </span>
+              </div>
+            </label>
+          </div>
+
+          <div className="options__input-group">
+            <Input
+              id="downloadFilenameTemplate"
+              label="File name template"
+              value={downloadFilenameTemplate}
+              onChange={e => setDownloadFilenameTemplate(e.target.value)}
+              placeholder={DEFAULT_DOWNLOAD_TEMPLATE}
+              helperText="{torrentName}, {filePath} (with the torrent's folders) or {fileName}; slashes create folders in your download folder"
+              disabled={!managedDownloads}
+            />
+          </div>
+        </section>
+
+        {/* Download Manager Section */}
+        <section className="options__section">
+          <h2 className="options__section-title">Download Manager (aria2)</h2>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={aria2.enabled}
+                onChange={e => updateAria2({ enabled: e.target.checked })}
+                className="options__checkbox-input"
+              />
+              <div>
+                <span className="options__checkbox-label">Send downloads to aria2</span>
+                <span className="options__checkbox-description">
+                  Queue the unrestricted links of finished torrents in an aria2 instance running
+                  with --enable-rpc
+                </span>
+              </div>
+            </label>
+          </div>
+
+          <div className="options__input-group">
+            <div className="options__aria2-row">
+              <Input
+                id="aria2RpcUrl"
+                label="RPC URL"
+                value={aria2.rpcUrl}
+                onChange={e => updateAria2({ rpcUrl: e.target.value })}
+                placeholder={DEFAULT_ARIA2_SETTINGS.rpcUrl}
+                disabled={!aria2.enabled}
+              />
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleTestAria2}
+                loading={testingAria2}
+                disabled={!aria2.enabled}
+              >
+                Test Connection
+              </Button>
+            </div>
+          </div>
+
+          <div className="options__input-group">
+            <Input
+              id="aria2Secret"
+              type="password"
+              label="RPC secret"
+              value={aria2.secret}
+              onChange={e => updateAria2({ secret: e.target.value })}
+              placeholder="None"
+              helperText="The value of aria2's --rpc-secret option"
+              disabled={!aria2.enabled}
+            />
+          </div>
+
+          <div className="options__input-group">
+            <Input
+              id="aria2Dir"
+              label="Download directory"
+              value={aria2.dir}
+              onChange={e => updateAria2({ dir: e.target.value })}
+              placeholder="aria2's default directory"
+              helperText="Path on the machine running aria2"
+              disabled={!aria2.enabled}
+            />
+          </div>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={aria2.perTorrentFolder}
+                onChange={e => updateAria2({ perTorrentFolder: e.target.checked })}
+                className="options__checkbox-input"
+                disabled={!aria2.enabled}
+              />
+              <div>
+                <span className="options__checkbox-label">Create a folder per torrent</span>
+                <span className="options__checkbox-description">
+                  Save the files of each torrent in a subfolder named after it
+                </span>
+              </div>
+            </label>
+          </div>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={aria2.autoSend}
+                onChange={e => updateAria2({ autoSend: e.target.checked })}
+                className="options__checkbox-input"
+                disabled={!aria2.enabled}
+              />
+              <div>
+                <span className="options__checkbox-label">Send automatically</span>
+                <span className="options__checkbox-description">
+                  Queue torrents in aria2 as soon as Real-Debrid finishes them, instead of with the
+                  "Send to aria2" button
+                </span>
+              </div>
+            </label>
+          </div>
+        </section>
+
+        {/* Web Page Integration Section */}
+        <section className="options__section">
+          <h2 className="options__section-title">Web Page Integration</h2>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={interceptMagnetLinks}
+                onChange={e => setInterceptMagnetLinks(e.target.checked)}
+                className="options__checkbox-input"
+              />
+              <div>
+                <span className="options__checkbox-label">Intercept magnet link clicks</span>
+                <span className="options__checkbox-description">
+                  Send magnet links clicked on web pages to Real-Debrid instead of your torrent
+                  client
+                </span>
+              </div>
+            </label>
+          </div>
+
+          <div className="options__input-group">
+            <label className="options__select-label" htmlFor="interceptAction">
+              When a magnet link is clicked
+            </label>
+            <select
+              id="interceptAction"
+              className="options__select"
+              value={interceptAction}
+              onChange={e => setInterceptAction(e.target.value as InterceptAction)}
+              disabled={!interceptMagnetLinks}
+            >
+              <option value="add">Add it to Real-Debrid right away</option>
+              <option value="popup">Open it in the popup first</option>
+            </select>
+          </div>
+
+          <div className="options__input-group">
+            <label className="options__select-label" htmlFor="interceptSiteMode">
+              Sites
+            </label>
+            <select
+              id="interceptSiteMode"
+              className="options__select"
+              value={interceptSiteMode}
+              onChange={e => setInterceptSiteMode(e.target.value as InterceptSiteMode)}
+              disabled={!interceptMagnetLinks}
+            >
+              <option value="denylist">Intercept on all sites except those listed</option>
+              <option value="allowlist">Intercept only on the sites listed</option>
+            </select>
+          </div>
+
+          <div className="options__input-group">
+            <label className="options__select-label" htmlFor="interceptSiteList">
+              Site list
+            </label>
+            <textarea
+              id="interceptSiteList"
+              className="options__textarea"
+              value={interceptSiteList}
+              onChange={e => setInterceptSiteList(e.target.value)}
+              placeholder={'example.com\ntracker.example.org'}
+              rows={4}
+              disabled={!interceptMagnetLinks}
+            />
+            <div className="options__helper-text">
+              One domain per line. Subdomains are included automatically.
+            </div>
+          </div>
+        </section>
+
+        {/* Backup Section */}
+        <section className="options__section">
+          <h2 className="options__section-title">Backup &amp; Restore</h2>
+
+          <div className="options__input-group">
+            <label className="options__checkbox">
+              <input
+                type="checkbox"
+                checked={includeSecretsInBackup}
+                onChange={e => setIncludeSecretsInBackup(e.target.checked)}
+                className="options__checkbox-input"
+              />
+              <div>
+                <span className="options__checkbox-label">Include API tokens</span>
+                <span className="options__checkbox-description">
+                  Also save the API tokens, additional accounts and the aria2 secret. The file is
+                  not encrypted.
+                </span>
+              </div>
+            </label>
+            <div className="options__token-actions">
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={handleExportBackup}
+                leftIcon={<Icon name="download" size="sm" />}
+              >
+                Export Backup
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={() => backupInputRef.current?.click()}
+                leftIcon={<Icon name="upload" size="sm" />}
+              >
+                Import Backup
+              </Button>
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleBackupFile}
+                hidden
+              />
+            </div>
+            <div className="options__helper-text">
+              Saves the settings, the torrent list and notification state as a JSON file.
+            </div>
+          </div>
+
+          {pendingBackup && (
+            <div className="options__input-group options__backup-restore">
+              <div className="options__helper-text">
+                Backup from{' '}
+                {pendingBackup.exportedAt
+                  ? new Date(pendingBackup.exportedAt).toLocaleString()
+                  : 'an unknown date'}{' '}
+                with {pendingBackup.torrents.length} torrent
+                {pendingBackup.torrents.length === 1 ? '' : 's'}
+                {pendingBackup.includesSecrets ? ' and API tokens' : ''}. Its settings replace the
+                current ones.
+              </div>
+              <label className="options__select-label" htmlFor="restoreMode">
+                Torrent list
+              </label>
+              <select
+                id="restoreMode"
+                className="options__select"
+                value={restoreMode}
+                onChange={e => setRestoreMode(e.target.value as RestoreMode)}
+              >
+                <option value="merge">Merge: add torrents that aren't in the list yet</option>
+                <option value="replace">Replace: use only the torrents from the backup</option>
+              </select>
+              <div className="options__token-actions">
+                <Button
+                  type="button"
+                  variant="primary"
+                  size="sm"
+                  onClick={handleRestore}
+                  loading={restoring}
+                >
+                  Restore
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPendingBackup(null)}
+                  disabled={restoring}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
         </section>
 
         {/* Action Buttons */}
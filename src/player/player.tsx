@@ -0,0 +1,271 @@
+/**
+ * Player Page - Real-Debrid Magnet Handler
+ *
+ * Plays a streamable file through Real-Debrid's transcoded streams, with
+ * format, quality, audio and subtitle choice, and copies an M3U playlist
+ * for external players. Opened from the dashboard with the torrent id,
+ * unrestrict id and file name in the query string.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { createRoot } from 'react-dom/client'
+import browser from 'webextension-polyfill'
+import {
+  STREAM_FORMATS,
+  buildM3uPlaylist,
+  buildStreamUrl,
+  getStreamVariants,
+  getTrackOptions,
+  type StreamFormat,
+  type StreamVariant,
+} from '../utils/streaming'
+import type { RdMediaInfos, RdTranscodeLinks } from '../utils/types'
+import { Button } from '../components/common/Button'
+import { Icon } from '../components/common/Icon'
+import './player.css'
+
+interface StreamInfoResponse {
+  success?: boolean
+  transcode?: RdTranscodeLinks
+  mediaInfos?: RdMediaInfos | null
+  error?: string
+}
+
+/**
+ * Whether the browser's <video> plays the format; Chrome and Firefox have no native HLS
+ */
+function canPlay(format: StreamFormat): boolean {
+  return document.createElement('video').canPlayType(STREAM_FORMATS[format].mimeType) !== ''
+}
+
+/**
+ * Player component for one streamable file.
+ */
+function Player() {
+  const { torrentId, linkId, name } = useMemo(() => {
+    const params = new URLSearchParams(window.location.search)
+    return {
+      torrentId: params.get('torrentId') ?? '',
+      linkId: params.get('linkId') ?? '',
+      name: params.get('name') ?? 'Stream',
+    }
+  }, [])
+
+  const [variants, setVariants] = useState<StreamVariant[]>([])
+  const [mediaInfos, setMediaInfos] = useState<RdMediaInfos | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [format, setFormat] = useState<StreamFormat>('liveMP4')
+  const [quality, setQuality] = useState('')
+  const [audio, setAudio] = useState<string | undefined>(undefined)
+  const [subtitles, setSubtitles] = useState('none')
+  const [copied, setCopied] = useState(false)
+  const copiedTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    document.title = `${name} - Real-Debrid Player`
+
+    const loadStreams = async () => {
+      try {
+        const response = (await browser.runtime.sendMessage({
+          type: 'GET_STREAM_INFO',
+          torrentId,
+          linkId,
+        })) as StreamInfoResponse
+        if (!response?.success || !response.transcode) {
+          setError(response?.error || 'Failed to get the streams')
+          return
+        }
+
+        const found = getStreamVariants(response.transcode)
+        if (found.length === 0) {
+          setError('Real-Debrid has no MP4 or HLS stream for this file')
+          return
+        }
+        setVariants(found)
+        setMediaInfos(response.mediaInfos ?? null)
+        // Start with a stream this browser can play
+        const initial = found.find(variant => canPlay(variant.format)) ?? found[0]
+        setFormat(initial.format)
+        setQuality(initial.quality)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to get the streams')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadStreams()
+
+    return () => {
+      if (copiedTimeoutRef.current) clearTimeout(copiedTimeoutRef.current)
+    }
+  }, [torrentId, linkId, name])
+
+  const formats = [...new Set(variants.map(variant => variant.format))]
+  const qualities = variants.filter(v => v.format === format).map(v => v.quality)
+  // Tracks can only be chosen through the URL model of the media infos
+  const tracksSelectable = !!mediaInfos?.modelUrl?.includes('{format}')
+  const audioTracks = tracksSelectable ? getTrackOptions(mediaInfos?.details.audio) : []
+  const subtitleTracks = tracksSelectable ? getTrackOptions(mediaInfos?.details.subtitles) : []
+  const streamUrl = buildStreamUrl(variants, mediaInfos, { format, quality, audio, subtitles })
+
+  const getQualityLabel = (id: string) =>
+    Object.entries(mediaInfos?.availableQualities ?? {}).find(([, value]) => value === id)?.[0] ??
+    id
+
+  const handleFormatChange = (next: StreamFormat) => {
+    setFormat(next)
+    // Keep the quality when the new format has it
+    const nextQualities = variants.filter(v => v.format === next).map(v => v.quality)
+    if (!nextQualities.includes(quality)) {
+      setQuality(nextQualities[0])
+    }
+  }
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text)
+    setCopied(true)
+    if (copiedTimeoutRef.current) clearTimeout(copiedTimeoutRef.current)
+    copiedTimeoutRef.current = setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="player">
+      <header className="player__header">
+        <span className="player__prompt">rd://</span>
+        <h1 className="player__title" title={name}>
+          {name}
+        </h1>
+      </header>
+
+      {loading ? (
+        <p className="player__status">
+          <Icon name="spinner" size="sm" />
+          Loading streams...
+        </p>
+      ) : error ? (
+        <p className="player__status player__status--error">
+          <Icon name="x-circle" size="sm" />
+          {error}
+        </p>
+      ) : (
+        <>
+          {/* Video */}
+          {streamUrl && canPlay(format) ? (
+            <video key={streamUrl} className="player__video" src={streamUrl} controls autoPlay />
+          ) : (
+            <p className="player__status">
+              This browser can't play {STREAM_FORMATS[format].label} streams. Copy the playlist to
+              open it in an external player.
+            </p>
+          )}
+
+          {/* Stream and track selection */}
+          <div className="player__controls">
+            <label className="player__field">
+              <span className="player__label">Format</span>
+              <select
+                className="player__select"
+                value={format}
+                onChange={e => handleFormatChange(e.target.value as StreamFormat)}
+              >
+                {formats.map(f => (
+                  <option key={f} value={f}>
+                    {STREAM_FORMATS[f].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="player__field">
+              <span className="player__label">Quality</span>
+              <select
+                className="player__select"
+                value={quality}
+                onChange={e => setQuality(e.target.value)}
+              >
+                {qualities.map(q => (
+                  <option key={q} value={q}>
+                    {getQualityLabel(q)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {audioTracks.length > 1 && (
+              <label className="player__field">
+                <span className="player__label">Audio</span>
+                <select
+                  className="player__select"
+                  value={audio ?? audioTracks[0].id}
+                  onChange={e => setAudio(e.target.value)}
+                >
+                  {audioTracks.map(track => (
+                    <option key={track.id} value={track.id}>
+                      {track.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {subtitleTracks.length > 0 && (
+              <label className="player__field">
+                <span className="player__label">Subtitles</span>
+                <select
+                  className="player__select"
+                  value={subtitles}
+                  onChange={e => setSubtitles(e.target.value)}
+                >
+                  <option value="none">None</option>
+                  {subtitleTracks.map(track => (
+                    <option key={track.id} value={track.id}>
+                      {track.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {/* External players */}
+          <div className="player__actions">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() =>
+                copyToClipboard(
+                  buildM3uPlaylist([
+                    { title: name, url: streamUrl!, duration: mediaInfos?.duration },
+                  ])
+                )
+              }
+              disabled={!streamUrl}
+              leftIcon={<Icon name="copy" size="sm" />}
+            >
+              Copy M3U Playlist
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => copyToClipboard(streamUrl!)}
+              disabled={!streamUrl}
+              leftIcon={<Icon name="copy" size="sm" />}
+            >
+              Copy Stream URL
+            </Button>
+            {copied && <span className="player__copied">Copied!</span>}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+const container = document.getElementById('root')
+if (container) {
+  const root = createRoot(container)
+  root.render(<Player />)
+}
+
+export default Player
@@ -2,10 +2,33 @@ import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { createRoot } from 'react-dom/client'
 import browser from 'webextension-polyfill'
 import { storage } from '../utils/storage'
+import { validateTorrents } from '../utils/schema'
+import { isValidMagnet } from '../utils/magnet'
+import { isTorrentFile, sendTorrentFile } from '../utils/torrent-file'
+import { isHosterLink } from '../utils/hoster-link'
 import { FileSelector } from './FileSelector'
 import { usePopupHeight } from './usePopupHeight'
-import type { TorrentItem, RdTorrentInfo } from '../utils/types'
-import { Button, Input, Badge, Icon, ProgressBar } from '../components/common'
+import type { TorrentItem, RdTorrentInfo, AvailabilityResult, RdAccount } from '../utils/types'
+import { Button, Input, Badge, Icon, ProgressBar, FileDropZone } from '../components/common'
+
+// Delay before checking availability of a magnet being typed/pasted
+const AVAILABILITY_CHECK_DELAY_MS = 400
+
+/**
+ * Get the badge variant and label for an availability result
+ */
+const getAvailabilityBadge = (
+  availability: AvailabilityResult
+): { variant: 'ready' | 'timeout' | 'default'; label: string } => {
+  switch (availability.status) {
+    case 'cached':
+      return { variant: 'ready', label: 'Cached' }
+    case 'not_cached':
+      return { variant: 'timeout', label: 'Not cached' }
+    default:
+      return { variant: 'default', label: 'Availability unknown' }
+  }
+}
 
 /**
  * Get the badge variant based on torrent status
@@ -34,12 +57,24 @@ function Popup() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [hasToken, setHasToken] = useState(true)
+  const [tokensLocked, setTokensLocked] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const [accounts, setAccounts] = useState<RdAccount[]>([])
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null)
+  const [aria2Enabled, setAria2Enabled] = useState(false)
+  const [managedDownloads, setManagedDownloads] = useState(false)
   const [torrents, setTorrents] = useState<TorrentItem[]>([])
   const [selectingFilesTorrentId, setSelectingFilesTorrentId] = useState<string | null>(null)
   const [torrentInfoCache, setTorrentInfoCache] = useState<Map<string, RdTorrentInfo>>(new Map())
   const [visibleTorrentsCount, setVisibleTorrentsCount] = useState(5)
   const [downloadTooltip, setDownloadTooltip] = useState<string | null>(null)
   const [showClearAllConfirm, setShowClearAllConfirm] = useState(false)
+  const [removeConfirm, setRemoveConfirm] = useState<TorrentItem | null>(null)
+  const [deleteFromAccount, setDeleteFromAccount] = useState(false)
+  const [removeError, setRemoveError] = useState('')
+  const [availability, setAvailability] = useState<AvailabilityResult | null>(null)
+  const [uncachedConfirm, setUncachedConfirm] = useState<AvailabilityResult | null>(null)
   const torrentListRef = useRef<HTMLDivElement>(null)
   const downloadTooltipTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
@@ -78,7 +113,7 @@ function Popup() {
     // Subscribe to torrent list changes
     const listener = (changes: { [key: string]: { newValue?: unknown } }, areaName: string) => {
       if (areaName === 'local' && changes.torrents) {
-        setTorrents((changes.torrents.newValue as TorrentItem[]) || [])
+        setTorrents(validateTorrents(changes.torrents.newValue).torrents)
       }
     }
     browser.storage.onChanged.addListener(listener)
@@ -89,8 +124,7 @@ function Popup() {
 
   const loadTorrents = async () => {
     try {
-      const data = await browser.storage.local.get('torrents')
-      setTorrents((data.torrents as TorrentItem[]) || [])
+      setTorrents(await storage.getTorrents())
     } catch (e) {
       console.error('Failed to load torrents', e)
     }
@@ -99,8 +133,38 @@ function Popup() {
   const checkToken = async () => {
     const settings = await storage.getSettings()
     setHasToken(!!settings.apiToken)
+    setAccounts(settings.accounts || [])
+    setActiveAccountId(settings.activeAccountId)
+    setAria2Enabled(settings.aria2.enabled)
+    setManagedDownloads(settings.managedDownloads)
+    setTokensLocked((await storage.getTokenLockState()) === 'locked')
   }
 
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setUnlocking(true)
+    setError('')
+    try {
+      await storage.unlockTokens(passphrase)
+      setPassphrase('')
+      await checkToken()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock API tokens')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  const handleAccountChange = async (accountId: string) => {
+    const id = accountId || null
+    setActiveAccountId(id)
+    await storage.saveSettings({ activeAccountId: id })
+  }
+
+  // Items without an account live on the default one
+  const getAccountName = (accountId?: string) =>
+    accountId ? (accounts.find(a => a.id === accountId)?.name ?? 'Removed account') : 'Default'
+
   const loadVisibleTorrentsCount = async () => {
     try {
       const settings = await storage.getSettings()
@@ -123,23 +187,34 @@ function Popup() {
     }
   }
 
-  const isValidMagnet = (link: string): boolean => {
-    return link.startsWith('magnet:?') && link.includes('xt=urn:btih:')
-  }
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-
-    if (!isValidMagnet(magnetLink)) {
-      setError('Invalid magnet link format. Must start with "magnet:?" and contain "xt=urn:btih:"')
-      return
-    }
+  // Check cached availability of the magnet before it is submitted
+  useEffect(() => {
+    setAvailability(null)
+    if (!isValidMagnet(magnetLink)) return
+
+    let cancelled = false
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = (await browser.runtime.sendMessage({
+          type: 'CHECK_AVAILABILITY',
+          magnetLink,
+        })) as { success?: boolean; availability?: AvailabilityResult }
+
+        if (!cancelled && response?.success && response.availability) {
+          setAvailability(response.availability)
+        }
+      } catch (e) {
+        console.error('Failed to check availability', e)
+      }
+    }, AVAILABILITY_CHECK_DELAY_MS)
 
-    if (!hasToken) {
-      setError('API token not configured. Please visit Settings to add your token.')
-      return
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
     }
+  }, [magnetLink])
 
+  const submitMagnet = async (confirmed: boolean) => {
     setLoading(true)
     setError('')
 
@@ -147,6 +222,31 @@ function Popup() {
       const response = (await browser.runtime.sendMessage({
         type: 'ADD_MAGNET',
         magnetLink,
+        confirmed,
+      })) as { error?: string; needsConfirmation?: boolean; availability?: AvailabilityResult }
+
+      if (response?.needsConfirmation && response.availability) {
+        setUncachedConfirm(response.availability)
+      } else if (response?.error) {
+        setError(response.error)
+      } else {
+        setMagnetLink('')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add magnet link')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const submitHosterLink = async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'ADD_HOSTER_LINK',
+        link: magnetLink,
       })) as { error?: string }
 
       if (response?.error) {
@@ -155,12 +255,77 @@ function Popup() {
         setMagnetLink('')
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add magnet link')
+      setError(err instanceof Error ? err.message : 'Failed to unrestrict link')
     } finally {
       setLoading(false)
     }
   }
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const isMagnet = isValidMagnet(magnetLink)
+    if (!isMagnet && !isHosterLink(magnetLink)) {
+      setError(
+        'Invalid link. Paste a magnet link (with "xt=urn:btih:" or "xt=urn:btmh:") or a file hoster URL'
+      )
+      return
+    }
+
+    if (!hasToken) {
+      setError(
+        tokensLocked
+          ? 'API tokens are locked. Enter your passphrase to unlock them.'
+          : 'API token not configured. Please visit Settings to add your token.'
+      )
+      return
+    }
+
+    if (isMagnet) {
+      await submitMagnet(false)
+    } else {
+      await submitHosterLink()
+    }
+  }
+
+  const handleTorrentFiles = async (files: File[]) => {
+    if (!hasToken) {
+      setError(
+        tokensLocked
+          ? 'API tokens are locked. Enter your passphrase to unlock them.'
+          : 'API token not configured. Please visit Settings to add your token.'
+      )
+      return
+    }
+
+    const torrentFiles = files.filter(isTorrentFile)
+    if (torrentFiles.length === 0) {
+      setError('Only .torrent files can be uploaded')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      for (const file of torrentFiles) {
+        const response = await sendTorrentFile(file)
+        if (response.error) {
+          setError(`${file.name}: ${response.error}`)
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload torrent file')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleConfirmUncached = async () => {
+    setUncachedConfirm(null)
+    await submitMagnet(true)
+  }
+
   const handleRetry = async (torrentId: string) => {
     await browser.runtime.sendMessage({
       type: 'RETRY_TORRENT',
@@ -168,20 +333,82 @@ function Popup() {
     })
   }
 
-  const handleDownload = useCallback((torrentId: string, downloadUrl: string, filename: string) => {
-    setDownloadTooltip(torrentId)
-    const link = document.createElement('a')
-    link.href = downloadUrl
-    link.download = filename || 'download'
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-    const timeoutId = setTimeout(() => setDownloadTooltip(null), 2000)
-    downloadTooltipTimeoutRef.current = timeoutId
-  }, [])
+  // Hand every link to the browser's download manager, which tracks their progress
+  const startManagedDownload = async (torrentId: string) => {
+    setError('')
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'START_DOWNLOAD',
+        torrentId,
+      })) as { success?: boolean; error?: string }
+      if (!response?.success) {
+        setError(response?.error || 'Failed to start the download')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the download')
+    }
+  }
+
+  const handleDownload = useCallback(
+    (torrentId: string, downloadUrl: string, filename: string) => {
+      setDownloadTooltip(torrentId)
+      if (managedDownloads) {
+        startManagedDownload(torrentId)
+      } else {
+        const link = document.createElement('a')
+        link.href = downloadUrl
+        link.download = filename || 'download'
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+      }
+      const timeoutId = setTimeout(() => setDownloadTooltip(null), 2000)
+      downloadTooltipTimeoutRef.current = timeoutId
+    },
+    [managedDownloads]
+  )
 
-  const handleRemove = async (torrentId: string) => {
-    await storage.removeTorrent(torrentId)
+  // The stored item gets sentToAria2At on success, which relabels the button
+  const handleSendToAria2 = async (torrentId: string) => {
+    setError('')
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'SEND_TO_ARIA2',
+        torrentId,
+      })) as { success?: boolean; error?: string }
+      if (!response?.success) {
+        setError(response?.error || 'Failed to send to aria2')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send to aria2')
+    }
+  }
+
+  const handleRemove = (torrent: TorrentItem) => {
+    setDeleteFromAccount(false)
+    setRemoveError('')
+    setRemoveConfirm(torrent)
+  }
+
+  const handleConfirmRemove = async () => {
+    if (!removeConfirm) return
+    try {
+      if (deleteFromAccount) {
+        const response = (await browser.runtime.sendMessage({
+          type: 'DELETE_TORRENT',
+          torrentId: removeConfirm.id,
+        })) as { success?: boolean; error?: string }
+        if (!response?.success) {
+          setRemoveError(response?.error || 'Failed to delete torrent from Real-Debrid')
+          return
+        }
+      } else {
+        await browser.runtime.sendMessage({ type: 'REMOVE_TORRENT', torrentId: removeConfirm.id })
+      }
+      setRemoveConfirm(null)
+    } catch (error) {
+      console.error('Failed to remove torrent:', error)
+    }
   }
 
   const handleSelectFiles = async (torrentId: string, selectedFiles: string) => {
@@ -195,15 +422,12 @@ function Popup() {
 
   const handleClearAll = useCallback(async () => {
     try {
-      const completedTorrents = torrents.filter(t => t.status === 'ready')
-      for (const torrent of completedTorrents) {
-        await storage.removeTorrent(torrent.id)
-      }
+      await browser.runtime.sendMessage({ type: 'CLEAR_COMPLETED' })
       setShowClearAllConfirm(false)
     } catch (error) {
       console.error('Failed to clear torrents:', error)
     }
-  }, [torrents])
+  }, [])
 
   const completedCount = torrents.filter(t => t.status === 'ready').length
 
@@ -269,29 +493,82 @@ function Popup() {
         </div>
       </header>
 
-      {/* Magnet Input Section */}
-      <section className="popup__input-section">
-        <form onSubmit={handleSubmit}>
+      {/* Passphrase prompt while the API tokens are encrypted and locked */}
+      {tokensLocked && (
+        <form className="popup__unlock" onSubmit={handleUnlock}>
           <Input
-            terminal
-            placeholder="paste_magnet_link_here..."
-            value={magnetLink}
-            onChange={e => setMagnetLink(e.target.value)}
-            disabled={loading}
-            aria-label="Magnet link input"
+            type="password"
+            placeholder="Passphrase to unlock API tokens"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            disabled={unlocking}
+            aria-label="Passphrase"
+            autoFocus
           />
-          <div className="popup__input-row">
-            <Button
-              type="submit"
-              variant="primary"
-              fullWidth
-              loading={loading}
-              disabled={!hasToken}
-            >
-              {loading ? 'Converting...' : 'Convert'}
-            </Button>
-          </div>
+          <Button type="submit" variant="primary" size="sm" loading={unlocking}>
+            Unlock
+          </Button>
         </form>
+      )}
+
+      {/* Magnet Input Section */}
+      <section className="popup__input-section">
+        <FileDropZone
+          accept=".torrent,application/x-bittorrent"
+          multiple
+          onFiles={handleTorrentFiles}
+          disabled={loading || !hasToken}
+          browseLabel="Upload .torrent"
+          dropLabel="Drop .torrent files"
+        >
+          <form onSubmit={handleSubmit}>
+            <Input
+              terminal
+              placeholder="paste_magnet_or_hoster_link..."
+              value={magnetLink}
+              onChange={e => setMagnetLink(e.target.value)}
+              disabled={loading}
+              aria-label="Magnet or hoster link input"
+            />
+            {availability && (
+              <div className="popup__availability" aria-live="polite">
+                <Badge variant={getAvailabilityBadge(availability).variant} size="sm">
+                  {getAvailabilityBadge(availability).label}
+                </Badge>
+                {availability.source === 'local' && (
+                  <span className="popup__availability-source">from local history</span>
+                )}
+              </div>
+            )}
+            {accounts.length > 0 && (
+              <select
+                className="popup__account-select"
+                value={activeAccountId ?? ''}
+                onChange={e => handleAccountChange(e.target.value)}
+                disabled={loading}
+                aria-label="Account to add to"
+              >
+                <option value="">Default account</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="popup__input-row">
+              <Button
+                type="submit"
+                variant="primary"
+                fullWidth
+                loading={loading}
+                disabled={!hasToken}
+              >
+                {loading ? 'Converting...' : 'Convert'}
+              </Button>
+            </div>
+          </form>
+        </FileDropZone>
       </section>
 
       {/* Status Bar */}
@@ -331,7 +608,9 @@ function Popup() {
             <div className="popup__empty-icon">
               <Icon name="download" size="xl" />
             </div>
-            <p className="popup__empty-text">No torrents yet. Paste a magnet link above!</p>
+            <p className="popup__empty-text">
+              No torrents yet. Paste a magnet or hoster link above!
+            </p>
           </div>
         ) : (
           torrents.map(torrent => (
@@ -355,6 +634,16 @@ function Popup() {
                       {torrent.status === 'timeout' && 'Timeout'}
                       {torrent.status === 'selecting_files' && 'Select Files'}
                     </Badge>
+                    {torrent.kind === 'hoster' && (
+                      <Badge variant="default" size="sm">
+                        {torrent.host || 'Hoster'}
+                      </Badge>
+                    )}
+                    {accounts.length > 0 && (
+                      <Badge variant="default" size="sm">
+                        {getAccountName(torrent.accountId)}
+                      </Badge>
+                    )}
                   </div>
 
                   {/* Progress bar for processing torrents - shown when status is processing */}
@@ -364,6 +653,11 @@ function Popup() {
                     </div>
                   )}
 
+                  {/* Failure reason reported by Real-Debrid */}
+                  {torrent.status === 'error' && torrent.error && (
+                    <div className="popup__torrent-error">{torrent.error}</div>
+                  )}
+
                   {/* Download link for ready torrents */}
                   {torrent.status === 'ready' && torrent.downloadUrl && (
                     <a
@@ -425,6 +719,17 @@ function Popup() {
                         >
                           Copy Link
                         </Button>
+                        {aria2Enabled && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSendToAria2(torrent.id)}
+                            aria-label={`Send ${torrent.filename} to aria2`}
+                            leftIcon={<Icon name="download" size="sm" />}
+                          >
+                            {torrent.sentToAria2At ? 'Sent to aria2' : 'aria2'}
+                          </Button>
+                        )}
                       </>
                     )}
                     {torrent.status === 'selecting_files' && (
@@ -443,7 +748,7 @@ function Popup() {
                 <button
                   type="button"
                   className="popup__torrent-remove"
-                  onClick={() => handleRemove(torrent.id)}
+                  onClick={() => handleRemove(torrent)}
                   aria-label="Remove torrent"
                 >
                   <Icon name="x" size="md" />
@@ -491,6 +796,60 @@ function Popup() {
         </div>
       )}
 
+      {/* Uncached Torrent Confirmation Modal */}
+      {uncachedConfirm && (
+        <div className="popup__confirm-overlay">
+          <div className="popup__confirm-dialog">
+            <h3 className="popup__confirm-title">
+              {uncachedConfirm.status === 'not_cached' ? 'Torrent Not Cached' : 'Cache Unknown'}
+            </h3>
+            <p className="popup__confirm-message">
+              {uncachedConfirm.status === 'not_cached'
+                ? 'Real-Debrid has to download this torrent first, which may take a while.'
+                : 'Could not confirm this torrent is cached on Real-Debrid.'}{' '}
+              Add it anyway?
+            </p>
+            <div className="popup__confirm-actions">
+              <Button variant="secondary" size="sm" onClick={() => setUncachedConfirm(null)}>
+                Cancel
+              </Button>
+              <Button variant="primary" size="sm" onClick={handleConfirmUncached}>
+                Add Anyway
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Remove Torrent Confirmation Modal */}
+      {removeConfirm && (
+        <div className="popup__confirm-overlay">
+          <div className="popup__confirm-dialog">
+            <h3 className="popup__confirm-title">Remove Torrent?</h3>
+            <p className="popup__confirm-message">Remove {removeConfirm.filename} from the list?</p>
+            {removeConfirm.kind !== 'hoster' && (
+              <label className="popup__confirm-option">
+                <input
+                  type="checkbox"
+                  checked={deleteFromAccount}
+                  onChange={e => setDeleteFromAccount(e.target.checked)}
+                />
+                Also delete from Real-Debrid
+              </label>
+            )}
+            {removeError && <p className="popup__confirm-error">{removeError}</p>}
+            <div className="popup__confirm-actions">
+              <Button variant="secondary" size="sm" onClick={() => setRemoveConfirm(null)}>
+                Cancel
+              </Button>
+              <Button variant="primary" size="sm" onClick={handleConfirmRemove}>
+                Remove
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Clear All Confirmation Modal */}
       {showClearAllConfirm && (
         <div className="popup__confirm-overlay">
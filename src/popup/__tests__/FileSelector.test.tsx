@@ -234,4 +234,111 @@ describe('FileSelector', () => {
 
     expect(screen.getByText('0 of 0 files selected')).toBeInTheDocument()
   })
+
+  describe('folder tree', () => {
+    const packInfo: RdTorrentInfo = {
+      ...mockTorrentInfo,
+      files: [
+        { id: 1, path: '/Show/Season 1/Show.S01E01.mkv', bytes: 700 * 1024 * 1024, selected: 0 },
+        { id: 2, path: '/Show/Season 1/Show.S01E02.mkv', bytes: 900 * 1024 * 1024, selected: 0 },
+        { id: 3, path: '/Show/Season 1/Show.S01E01.srt', bytes: 50 * 1024, selected: 0 },
+        { id: 4, path: '/Show/Extras.rar', bytes: 200 * 1024 * 1024, selected: 0 },
+      ],
+    }
+
+    const renderPack = () =>
+      render(
+        <FileSelector torrentInfo={packInfo} onConfirm={mockOnConfirm} onCancel={mockOnCancel} />
+      )
+
+    it('groups files under their folders', () => {
+      renderPack()
+
+      expect(screen.getByText('Show')).toBeInTheDocument()
+      expect(screen.getByText('Season 1')).toBeInTheDocument()
+      expect(screen.getByTitle('/Show/Season 1/Show.S01E01.mkv')).toHaveTextContent(
+        'Show.S01E01.mkv'
+      )
+    })
+
+    it('selects every file in a folder from its checkbox', () => {
+      renderPack()
+
+      fireEvent.click(screen.getByLabelText('Select folder Season 1'))
+      fireEvent.click(screen.getByText('Confirm Selection'))
+
+      expect(mockOnConfirm).toHaveBeenCalledWith('1,2,3')
+    })
+
+    it('marks a partly selected folder as indeterminate', () => {
+      renderPack()
+
+      fireEvent.click(screen.getByLabelText('Select folder Season 1'))
+
+      const show = screen.getByLabelText('Select folder Show') as HTMLInputElement
+      expect(show).not.toBeChecked()
+      expect(show.indeterminate).toBe(true)
+      expect(
+        (screen.getByLabelText('Select folder Season 1') as HTMLInputElement).indeterminate
+      ).toBe(false)
+    })
+
+    it('collapses and expands folders', () => {
+      renderPack()
+
+      fireEvent.click(screen.getByLabelText('Collapse Season 1'))
+      expect(screen.queryByText('Show.S01E01.mkv')).not.toBeInTheDocument()
+
+      fireEvent.click(screen.getByLabelText('Expand Season 1'))
+      expect(screen.getByText('Show.S01E01.mkv')).toBeInTheDocument()
+    })
+
+    it('filters files by name', () => {
+      renderPack()
+
+      fireEvent.change(screen.getByLabelText('Filter files'), { target: { value: 'e02' } })
+
+      expect(screen.getByText('Show.S01E02.mkv')).toBeInTheDocument()
+      expect(screen.queryByText('Show.S01E01.mkv')).not.toBeInTheDocument()
+      expect(screen.queryByText('Extras.rar')).not.toBeInTheDocument()
+    })
+
+    it('applies select all to the filtered files only', () => {
+      renderPack()
+
+      fireEvent.click(screen.getByRole('button', { name: 'Video' }))
+      fireEvent.click(screen.getByText('Select All'))
+      fireEvent.click(screen.getByText('Confirm Selection'))
+
+      expect(mockOnConfirm).toHaveBeenCalledWith('1,2')
+    })
+
+    it('filters by file type', () => {
+      renderPack()
+
+      fireEvent.click(screen.getByRole('button', { name: 'Subtitles' }))
+      fireEvent.click(screen.getByRole('button', { name: 'Archives' }))
+
+      expect(screen.getByText('Show.S01E01.srt')).toBeInTheDocument()
+      expect(screen.getByText('Extras.rar')).toBeInTheDocument()
+      expect(screen.queryByText('Show.S01E01.mkv')).not.toBeInTheDocument()
+    })
+
+    it('shows a message when no file matches', () => {
+      renderPack()
+
+      fireEvent.change(screen.getByLabelText('Filter files'), { target: { value: 'missing' } })
+
+      expect(screen.getByText('No files match the filters')).toBeInTheDocument()
+    })
+
+    it('sorts files by size, largest first', () => {
+      renderPack()
+
+      fireEvent.change(screen.getByLabelText('Sort files'), { target: { value: 'size' } })
+
+      const names = screen.getAllByTitle(/Season 1\/.+/).map(element => element.textContent)
+      expect(names).toEqual(['Show.S01E02.mkv', 'Show.S01E01.mkv', 'Show.S01E01.srt'])
+    })
+  })
 })
@@ -0,0 +1,209 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import {
+  Aria2SendError,
+  DEFAULT_ARIA2_SETTINGS,
+  callAria2,
+  getAria2Origin,
+  getAria2Version,
+  sendToAria2,
+} from '../aria2'
+import type { Aria2Settings } from '../types'
+
+interface RpcRequest {
+  id: string
+  method: string
+  params: unknown[]
+}
+
+// Local stand-in for an aria2c --enable-rpc --rpc-secret=SECRET server
+const mockServer = {
+  calls: [] as RpcRequest[],
+  defaultDir: '/downloads',
+  rejectedUrl: '', // addUri fails for this link
+}
+
+function handleRequest({ id, method, params }: RpcRequest) {
+  if (params[0] !== 'token:SECRET') {
+    return {
+      status: 400,
+      data: { id, jsonrpc: '2.0', error: { code: 1, message: 'Unauthorized' } },
+    }
+  }
+  mockServer.calls.push({ id, method, params: params.slice(1) })
+
+  switch (method) {
+    case 'aria2.getVersion':
+      return { status: 200, data: { id, jsonrpc: '2.0', result: { version: '1.37.0' } } }
+    case 'aria2.getGlobalOption':
+      return { status: 200, data: { id, jsonrpc: '2.0', result: { dir: mockServer.defaultDir } } }
+    case 'aria2.addUri':
+      if ((params[1] as string[])[0] === mockServer.rejectedUrl) {
+        return {
+          status: 400,
+          data: { id, jsonrpc: '2.0', error: { code: 1, message: 'Invalid URI' } },
+        }
+      }
+      return {
+        status: 200,
+        data: { id, jsonrpc: '2.0', result: `gid${mockServer.calls.length}` },
+      }
+    default:
+      return {
+        status: 400,
+        data: { id, jsonrpc: '2.0', error: { code: 1, message: `No such method: ${method}` } },
+      }
+  }
+}
+
+let server: Server
+let settings: Aria2Settings
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = ''
+    req.on('data', chunk => (raw += chunk))
+    req.on('end', () => {
+      const { status, data } =
+        req.url === '/jsonrpc'
+          ? handleRequest(JSON.parse(raw))
+          : { status: 404, data: { error: 'not found' } }
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(data))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  settings = {
+    ...DEFAULT_ARIA2_SETTINGS,
+    enabled: true,
+    rpcUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/jsonrpc`,
+    secret: 'SECRET',
+    perTorrentFolder: false,
+  }
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('aria2', () => {
+  const item = {
+    filename: 'Show: Season 1',
+    downloadUrl: 'https://download.real-debrid.com/d/ep1/Show.S01E01.mkv',
+    links: [
+      {
+        url: 'https://download.real-debrid.com/d/ep1/Show.S01E01.mkv',
+        filename: 'Show.S01E01.mkv',
+        selected: true,
+      },
+      {
+        url: 'https://download.real-debrid.com/d/ep2/Show.S01E02.mkv',
+        filename: 'Show.S01E02.mkv',
+        selected: true,
+      },
+    ],
+  }
+
+  beforeEach(() => {
+    mockServer.calls = []
+    mockServer.defaultDir = '/downloads'
+    mockServer.rejectedUrl = ''
+  })
+
+  it('sends the secret as the token parameter', async () => {
+    expect(await getAria2Version(settings)).toBe('1.37.0')
+  })
+
+  it("reports aria2's error message", async () => {
+    await expect(getAria2Version({ ...settings, secret: 'wrong' })).rejects.toThrow(
+      'aria2: Unauthorized'
+    )
+    await expect(callAria2(settings, 'aria2.unknown')).rejects.toThrow(
+      'aria2: No such method: aria2.unknown'
+    )
+  })
+
+  it('reports a server that cannot be reached', async () => {
+    const rpcUrl = settings.rpcUrl.replace('/jsonrpc', '/missing')
+
+    await expect(getAria2Version({ ...settings, rpcUrl })).rejects.toThrow(
+      `Could not reach aria2 at ${rpcUrl}`
+    )
+  })
+
+  it('derives the host permission from the RPC URL', () => {
+    expect(getAria2Origin('http://192.168.1.5:6800/jsonrpc')).toBe('http://192.168.1.5:6800/*')
+    expect(getAria2Origin('ws://localhost:6800/jsonrpc')).toBeNull()
+    expect(getAria2Origin('localhost:6800')).toBeNull()
+  })
+
+  it('queues every link with its file name', async () => {
+    const gids = await sendToAria2({ ...settings, dir: '/mnt/nas' }, item)
+
+    expect(gids).toEqual(['gid1', 'gid2'])
+    expect(mockServer.calls.map(call => call.params)).toEqual([
+      [[item.links[0].url], { out: 'Show.S01E01.mkv', dir: '/mnt/nas' }],
+      [[item.links[1].url], { out: 'Show.S01E02.mkv', dir: '/mnt/nas' }],
+    ])
+  })
+
+  it('keeps the folders inside the torrent', async () => {
+    const links = [{ ...item.links[0], path: '/Season 1/Show.S01E01.mkv' }]
+
+    await sendToAria2(settings, { ...item, links })
+
+    expect(mockServer.calls[0].params[1]).toEqual({ out: 'Season 1/Show.S01E01.mkv' })
+  })
+
+  it('puts the files in a folder named after the torrent', async () => {
+    await sendToAria2({ ...settings, dir: '/mnt/nas/', perTorrentFolder: true }, item)
+
+    expect(mockServer.calls[0].params[1]).toMatchObject({ dir: '/mnt/nas/Show_ Season 1' })
+  })
+
+  it("uses aria2's default directory as the base for the torrent folder", async () => {
+    await sendToAria2({ ...settings, perTorrentFolder: true }, item)
+
+    expect(mockServer.calls[0].method).toBe('aria2.getGlobalOption')
+    expect(mockServer.calls[1].params[1]).toMatchObject({ dir: '/downloads/Show_ Season 1' })
+  })
+
+  it('leaves the directory to aria2 when none is configured', async () => {
+    await sendToAria2(settings, item)
+
+    expect(mockServer.calls[0].params[1]).toEqual({ out: 'Show.S01E01.mkv' })
+  })
+
+  it('falls back to the single download URL', async () => {
+    await sendToAria2(settings, { ...item, filename: 'Movie.mkv', links: [] })
+
+    expect(mockServer.calls.map(call => call.params)).toEqual([
+      [[item.downloadUrl], { out: 'Movie.mkv' }],
+    ])
+  })
+
+  it('reports the links queued before aria2 rejected one', async () => {
+    mockServer.rejectedUrl = item.links[1].url
+
+    const error = await sendToAria2(settings, item).catch(error => error)
+
+    expect(error).toBeInstanceOf(Aria2SendError)
+    expect(error.message).toBe('aria2: Invalid URI')
+    expect(error.sentUrls).toEqual([item.links[0].url])
+  })
+
+  it('skips the links an earlier send queued', async () => {
+    const gids = await sendToAria2(settings, item, [item.links[0].url])
+
+    expect(gids).toEqual(['gid1'])
+    expect(mockServer.calls.map(call => call.params[0])).toEqual([[item.links[1].url]])
+  })
+
+  it('refuses items without links', async () => {
+    await expect(
+      sendToAria2(settings, { filename: 'Movie.mkv', downloadUrl: null, links: [] })
+    ).rejects.toThrow('No download links to send')
+  })
+})
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { BACKUP_FORMAT, createBackup, parseBackup, restoreBackup } from '../backup'
+import { DEFAULT_DASHBOARD_SETTINGS, DEFAULT_SETTINGS } from '../storage'
+import { archiveTorrents } from '../history-db'
+import type { RestoreMode, TorrentItem } from '../types'
+
+// In-memory browser.storage areas, so backups round-trip through the real storage module
+vi.mock('webextension-polyfill', () => {
+  const areas: Record<string, Record<string, unknown>> = { sync: {}, local: {}, session: {} }
+
+  const createArea = (name: string) => ({
+    get: vi.fn(async (keys?: string | string[] | Record<string, unknown> | null) => {
+      const data = areas[name]
+      if (keys === null || keys === undefined) return { ...data }
+      if (typeof keys === 'string') return keys in data ? { [keys]: data[keys] } : {}
+      if (Array.isArray(keys)) {
+        return Object.fromEntries(keys.filter(key => key in data).map(key => [key, data[key]]))
+      }
+      return Object.fromEntries(
+        Object.entries(keys).map(([key, fallback]) => [key, key in data ? data[key] : fallback])
+      )
+    }),
+    set: vi.fn(async (items: Record<string, unknown>) => {
+      Object.assign(areas[name], structuredClone(items))
+    }),
+    remove: vi.fn(async (keys: string | string[]) => {
+      for (const key of [keys].flat()) delete areas[name][key]
+    }),
+  })
+
+  return {
+    default: {
+      storage: {
+        sync: createArea('sync'),
+        local: createArea('local'),
+        session: createArea('session'),
+        onChanged: { addListener: vi.fn() },
+      },
+      runtime: {
+        // Stands in for the background's RESTORE_TORRENTS handler
+        sendMessage: vi.fn(async (message: { torrents: TorrentItem[]; mode: RestoreMode }) => {
+          const { restoreTorrents } = await import('../backup')
+          return { success: true, count: await restoreTorrents(message.torrents, message.mode) }
+        }),
+      },
+    },
+    get areas() {
+      return areas
+    },
+  }
+})
+
+// Mock the IndexedDB history archive
+vi.mock('../history-db', () => ({
+  archiveTorrents: vi.fn(() => Promise.resolve()),
+}))
+
+const createTorrent = (id: string, hash: string, addedAt: number): TorrentItem => ({
+  id,
+  magnetLink: `magnet:?xt=urn:btih:${hash}`,
+  hash,
+  filename: `${id}.mkv`,
+  downloadUrl: null,
+  status: 'ready',
+  addedAt,
+  lastRetry: addedAt,
+  retryCount: 0,
+})
+
+describe('backup', () => {
+  let areas: Record<string, Record<string, unknown>>
+
+  beforeEach(async () => {
+    const webextension = (await import('webextension-polyfill')) as any
+    areas = webextension.areas
+    areas.sync = {
+      maxListSize: 20,
+      aria2: { ...DEFAULT_SETTINGS.aria2, enabled: true, secret: 'rpc-secret' },
+      dashboardSettings: { ...DEFAULT_DASHBOARD_SETTINGS, darkMode: 'dark' },
+    }
+    areas.local = {
+      apiToken: 'TOKEN',
+      accounts: [{ id: 'acc-1', name: 'Second', apiToken: 'TOKEN-2' }],
+      torrents: [createTorrent('t1', 'AAAA', 2000), createTorrent('t2', 'bbbb', 1000)],
+      notificationState: { notifiedTorrentIds: ['t1'], lastNotificationTime: 500 },
+    }
+    areas.session = {}
+  })
+
+  describe('createBackup', () => {
+    it('serialises settings, torrents and notification state without secrets', async () => {
+      const backup = await createBackup()
+
+      expect(backup).toMatchObject({
+        format: BACKUP_FORMAT,
+        version: 1,
+        includesSecrets: false,
+        dashboardSettings: { darkMode: 'dark' },
+        notificationState: { notifiedTorrentIds: ['t1'] },
+      })
+      expect(backup.torrents.map(t => t.id)).toEqual(['t1', 't2'])
+      expect(backup.settings.maxListSize).toBe(20)
+      expect(backup.settings.aria2?.secret).toBe('')
+      expect(backup.settings).not.toHaveProperty('apiToken')
+      expect(backup.settings).not.toHaveProperty('accounts')
+    })
+
+    it('includes the secrets on request', async () => {
+      const backup = await createBackup(true)
+
+      expect(backup.includesSecrets).toBe(true)
+      expect(backup.settings.apiToken).toBe('TOKEN')
+      expect(backup.settings.accounts).toHaveLength(1)
+      expect(backup.settings.aria2?.secret).toBe('rpc-secret')
+    })
+  })
+
+  describe('parseBackup', () => {
+    it('reads its own backups', async () => {
+      const backup = await createBackup()
+
+      expect(parseBackup(JSON.stringify(backup))).toEqual(backup)
+    })
+
+    it('rejects files that are not backups', () => {
+      expect(() => parseBackup('not json')).toThrow('The file is not valid JSON')
+      expect(() => parseBackup('{"torrents": []}')).toThrow(
+        'The file is not a Real-Debrid Magnet Handler backup'
+      )
+    })
+
+    it('rejects backups from newer versions', () => {
+      expect(() => parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: 2 }))).toThrow(
+        'Backup version 2 needs a newer version of the extension'
+      )
+    })
+
+    it('reports invalid torrents and settings', async () => {
+      const backup = await createBackup()
+
+      expect(() =>
+        parseBackup(JSON.stringify({ ...backup, torrents: [backup.torrents[0], { id: 't3' }] }))
+      ).toThrow('Invalid torrent at position 2 in the backup')
+      expect(() =>
+        parseBackup(JSON.stringify({ ...backup, settings: { maxListSize: '10' } }))
+      ).toThrow('Invalid setting "maxListSize" in the backup')
+      expect(() =>
+        parseBackup(JSON.stringify({ ...backup, settings: { aria2: { enabled: 'yes' } } }))
+      ).toThrow('Invalid setting "aria2" in the backup')
+    })
+
+    it('drops unknown settings and fills in missing fields', async () => {
+      const backup = await createBackup()
+      const parsed = parseBackup(
+        JSON.stringify({
+          ...backup,
+          settings: { removedSetting: true, fileSelectionRules: { enabled: true } },
+          torrents: [{ ...backup.torrents[0], lastRetry: undefined, retryCount: undefined }],
+        })
+      )
+
+      expect(parsed.settings).toEqual({
+        fileSelectionRules: { ...DEFAULT_SETTINGS.fileSelectionRules, enabled: true },
+      })
+      expect(parsed.torrents[0]).toMatchObject({ lastRetry: 2000, retryCount: 0 })
+    })
+  })
+
+  describe('restoreBackup', () => {
+    const importTorrents = [createTorrent('t3', 'aaaa', 3000), createTorrent('t4', 'cccc', 1500)]
+
+    it('merges torrents, deduplicating them by hash', async () => {
+      const backup = {
+        ...(await createBackup()),
+        torrents: importTorrents,
+        notificationState: { notifiedTorrentIds: ['t4'], lastNotificationTime: 900 },
+      }
+
+      expect(await restoreBackup(backup, 'merge')).toBe(3)
+
+      expect((areas.local.torrents as TorrentItem[]).map(t => t.id)).toEqual(['t1', 't4', 't2'])
+      expect(areas.local.notificationState).toEqual({
+        notifiedTorrentIds: ['t1', 't4'],
+        lastNotificationTime: 900,
+      })
+    })
+
+    it('replaces the torrent list', async () => {
+      const backup = { ...(await createBackup()), torrents: importTorrents }
+
+      await restoreBackup(backup, 'replace')
+
+      expect((areas.local.torrents as TorrentItem[]).map(t => t.id)).toEqual(['t3', 't4'])
+    })
+
+    it('archives the torrents a replaced list has over maxListSize', async () => {
+      const backup = { ...(await createBackup()), torrents: importTorrents }
+      backup.settings.maxListSize = 1
+
+      await restoreBackup(backup, 'replace')
+
+      expect((areas.local.torrents as TorrentItem[]).map(t => t.id)).toEqual(['t3'])
+      expect(archiveTorrents).toHaveBeenCalledWith([importTorrents[1]])
+    })
+
+    it('keeps the current secrets when the backup has none', async () => {
+      const backup = await createBackup()
+      backup.settings.maxListSize = 50
+      areas.local.apiToken = 'NEW-TOKEN'
+
+      await restoreBackup(backup, 'merge')
+
+      expect(areas.sync.maxListSize).toBe(50)
+      expect(areas.local.apiToken).toBe('NEW-TOKEN')
+      expect(areas.local.accounts).toHaveLength(1)
+      expect((areas.sync.aria2 as { secret: string }).secret).toBe('rpc-secret')
+    })
+
+    it('leaves the torrent list to the background', async () => {
+      const webextension = (await import('webextension-polyfill')) as any
+      const backup = { ...(await createBackup()), torrents: importTorrents }
+
+      await restoreBackup(backup, 'replace')
+
+      expect(webextension.default.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'RESTORE_TORRENTS',
+        torrents: importTorrents,
+        mode: 'replace',
+      })
+    })
+
+    it('fails when the background could not restore the torrents', async () => {
+      const webextension = (await import('webextension-polyfill')) as any
+      webextension.default.runtime.sendMessage.mockResolvedValueOnce({
+        success: false,
+        error: 'Storage unavailable',
+      })
+
+      await expect(restoreBackup(await createBackup(), 'merge')).rejects.toThrow(
+        'Storage unavailable'
+      )
+    })
+
+    it('restores the secrets from the backup', async () => {
+      const backup = await createBackup(true)
+      areas.local.apiToken = 'NEW-TOKEN'
+
+      await restoreBackup(backup, 'replace')
+
+      expect(areas.local.apiToken).toBe('TOKEN')
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_DOWNLOAD_TEMPLATE,
+  formatDownloadFilename,
+  getDownloadPercent,
+  toLocalDownload,
+  validateDownloadTemplate,
+} from '../downloads'
+
+describe('validateDownloadTemplate', () => {
+  it('accepts templates with a file placeholder', () => {
+    expect(validateDownloadTemplate(DEFAULT_DOWNLOAD_TEMPLATE)).toBeNull()
+    expect(validateDownloadTemplate('Real-Debrid/{fileName}')).toBeNull()
+  })
+
+  it('rejects unknown placeholders', () => {
+    expect(validateDownloadTemplate('{torrent}/{fileName}')).toBe(
+      'Unknown placeholder {torrent} in the download file name template'
+    )
+  })
+
+  it('requires the file name or path', () => {
+    expect(validateDownloadTemplate('{torrentName}')).toBe(
+      'The download file name template needs {filePath} or {fileName}'
+    )
+  })
+})
+
+describe('formatDownloadFilename', () => {
+  const link = { filename: 'Show.S01E01.mkv', path: '/Season 1/Show.S01E01.mkv' }
+
+  it('keeps the folders of the file inside the torrent', () => {
+    expect(formatDownloadFilename(DEFAULT_DOWNLOAD_TEMPLATE, 'Show.S01', link)).toBe(
+      'Show.S01/Season 1/Show.S01E01.mkv'
+    )
+  })
+
+  it('uses the file name when the path is unknown', () => {
+    expect(
+      formatDownloadFilename(DEFAULT_DOWNLOAD_TEMPLATE, 'Show.S01', { filename: 'Movie.mkv' })
+    ).toBe('Show.S01/Movie.mkv')
+    expect(formatDownloadFilename('{fileName}', 'Show.S01', link)).toBe('Show.S01E01.mkv')
+  })
+
+  it('replaces characters browsers reject and drops relative segments', () => {
+    expect(formatDownloadFilename(DEFAULT_DOWNLOAD_TEMPLATE, 'Show: "Pilot"?', link)).toBe(
+      'Show_ _Pilot__/Season 1/Show.S01E01.mkv'
+    )
+    expect(formatDownloadFilename('../{torrentName}/./{fileName}', '..', link)).toBe(
+      'Show.S01E01.mkv'
+    )
+  })
+})
+
+describe('toLocalDownload', () => {
+  it('copies the state of a browser download', () => {
+    expect(
+      toLocalDownload({
+        id: 3,
+        state: 'interrupted',
+        bytesReceived: 10,
+        totalBytes: -1,
+        error: 'NETWORK_FAILED',
+      } as any)
+    ).toEqual({
+      id: 3,
+      state: 'interrupted',
+      bytesReceived: 10,
+      totalBytes: 0,
+      error: 'NETWORK_FAILED',
+    })
+  })
+})
+
+describe('getDownloadPercent', () => {
+  it('reports the share of bytes received', () => {
+    expect(
+      getDownloadPercent({ id: 1, state: 'in_progress', bytesReceived: 256, totalBytes: 1024 })
+    ).toBe(25)
+    expect(
+      getDownloadPercent({ id: 1, state: 'complete', bytesReceived: 1024, totalBytes: 0 })
+    ).toBe(100)
+  })
+
+  it('returns null while the size is unknown', () => {
+    expect(
+      getDownloadPercent({ id: 1, state: 'in_progress', bytesReceived: 256, totalBytes: 0 })
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_FILE_RULES,
+  VIDEO_EXTENSIONS,
+  applyFileRules,
+  parseExtensionList,
+  parseSampleFiles,
+  validateFileRules,
+  type RuleFile,
+} from '../file-rules'
+
+const MB = 1024 * 1024
+
+const files: RuleFile[] = [
+  { id: 1, path: '/Movie.2024/Movie.2024.1080p.mkv', bytes: 4200 * MB },
+  { id: 2, path: '/Movie.2024/Sample/movie-sample.mkv', bytes: 40 * MB },
+  { id: 3, path: '/Movie.2024/Movie.2024.nfo', bytes: 2048 },
+  { id: 4, path: '/Movie.2024/Subs/English.srt', bytes: 80 * 1024 },
+  { id: 5, path: '/Movie.2024/Extras/Behind.The.Scenes.mp4', bytes: 600 * MB },
+]
+
+const rules = { ...DEFAULT_FILE_RULES, enabled: true }
+
+describe('file-rules', () => {
+  describe('applyFileRules', () => {
+    it('selects every file when no rule is set', () => {
+      expect(applyFileRules(files, rules)).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('keeps only the listed extensions', () => {
+      expect(applyFileRules(files, { ...rules, extensions: VIDEO_EXTENSIONS })).toEqual([1, 2, 5])
+    })
+
+    it('skips files under the minimum size', () => {
+      expect(
+        applyFileRules(files, { ...rules, extensions: VIDEO_EXTENSIONS, minSizeMB: 100 })
+      ).toEqual([1, 5])
+    })
+
+    it('applies include and exclude patterns to the path, ignoring case', () => {
+      expect(applyFileRules(files, { ...rules, include: '\\.(mkv|srt)$' })).toEqual([1, 2, 4])
+      expect(applyFileRules(files, { ...rules, exclude: 'sample|extras' })).toEqual([1, 3, 4])
+    })
+
+    it('keeps only the largest match', () => {
+      expect(
+        applyFileRules(files, { ...rules, extensions: ['mp4', 'srt'], largestOnly: true })
+      ).toEqual([5])
+    })
+
+    it('returns nothing when no file matches', () => {
+      expect(applyFileRules(files, { ...rules, extensions: ['iso'] })).toEqual([])
+    })
+
+    it('returns nothing when a pattern is invalid', () => {
+      expect(applyFileRules(files, { ...rules, include: '(' })).toEqual([])
+    })
+  })
+
+  describe('validateFileRules', () => {
+    it('reports the invalid pattern', () => {
+      expect(validateFileRules({ ...rules, exclude: '[' })).toBe(
+        'Exclude pattern is not a valid regular expression'
+      )
+      expect(validateFileRules({ ...rules, include: 'sample' })).toBeNull()
+    })
+  })
+
+  describe('parseExtensionList', () => {
+    it('normalises dots, wildcards and case and drops duplicates', () => {
+      expect(parseExtensionList('.mkv, MP4 *.avi\nmkv')).toEqual(['mkv', 'mp4', 'avi'])
+    })
+  })
+
+  describe('parseSampleFiles', () => {
+    it('reads one path and size in MB per line', () => {
+      expect(parseSampleFiles('Movie.mkv, 1.5\n\nnotes, with comma.txt')).toEqual([
+        { id: 1, path: 'Movie.mkv', bytes: 1.5 * MB },
+        { id: 2, path: 'notes, with comma.txt', bytes: 0 },
+      ])
+    })
+  })
+})
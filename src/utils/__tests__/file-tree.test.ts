@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { buildFileTree, collectFileIds, formatBytes, type TorrentFile } from '../file-tree'
+
+const MB = 1024 * 1024
+
+const files: TorrentFile[] = [
+  { id: 1, path: '/Pack/B/Movie 10.mkv', bytes: 800 * MB, selected: 0 },
+  { id: 2, path: '/Pack/B/Movie 9.mkv', bytes: 900 * MB, selected: 0 },
+  { id: 3, path: '/Pack/A/notes.txt', bytes: 1024, selected: 0 },
+  { id: 4, path: '/Pack/cover.jpg', bytes: 2 * MB, selected: 0 },
+]
+
+describe('file-tree', () => {
+  describe('buildFileTree', () => {
+    it('nests files under their folders with folder totals', () => {
+      const root = buildFileTree(files)
+      const pack = root.folders[0]
+
+      expect(root.files).toEqual([])
+      expect(pack).toMatchObject({ name: 'Pack', path: 'Pack', bytes: 1702 * MB + 1024 })
+      expect(pack.folders.map(f => f.path)).toEqual(['Pack/A', 'Pack/B'])
+      expect(pack.files.map(f => f.id)).toEqual([4])
+    })
+
+    it('sorts names naturally, or by size largest first', () => {
+      const byName = buildFileTree(files).folders[0].folders[1]
+      expect(byName.files.map(f => f.id)).toEqual([2, 1])
+
+      const bySize = buildFileTree(files, { sort: 'size' }).folders[0]
+      expect(bySize.folders.map(f => f.name)).toEqual(['B', 'A'])
+      expect(bySize.folders[0].files.map(f => f.id)).toEqual([2, 1])
+    })
+
+    it('drops files and folders that do not match the filters', () => {
+      const searched = buildFileTree(files, { search: 'NOTES' })
+      expect(collectFileIds(searched)).toEqual([3])
+      expect(searched.folders[0].folders.map(f => f.name)).toEqual(['A'])
+
+      expect(collectFileIds(buildFileTree(files, { categories: ['video'] }))).toEqual([2, 1])
+    })
+
+    it('keeps files without folders at the root', () => {
+      expect(
+        buildFileTree([{ id: 1, path: 'file.mkv', bytes: 1, selected: 0 }]).files
+      ).toHaveLength(1)
+    })
+  })
+
+  describe('formatBytes', () => {
+    it('uses the largest fitting unit', () => {
+      expect(formatBytes(0)).toBe('0 B')
+      expect(formatBytes(1536)).toBe('1.5 KB')
+      expect(formatBytes(3 * 1024 * MB)).toBe('3.0 GB')
+    })
+  })
+})
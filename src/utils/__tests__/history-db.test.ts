@@ -0,0 +1,95 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { TorrentItem } from '../types'
+
+const torrent = (id: string, overrides: Partial<TorrentItem> = {}): TorrentItem => ({
+  id,
+  magnetLink: `magnet:?xt=urn:btih:${id}`,
+  hash: `${id}hash`,
+  filename: `${id}.mkv`,
+  downloadUrl: null,
+  status: 'ready',
+  addedAt: 1000,
+  lastRetry: 1000,
+  retryCount: 0,
+  ...overrides,
+})
+
+describe('history-db', () => {
+  let historyDb: typeof import('../history-db')
+
+  beforeEach(async () => {
+    // Fresh database and module (which caches the connection) for every test
+    indexedDB = new IDBFactory()
+    vi.resetModules()
+    historyDb = await import('../history-db')
+  })
+
+  it('archives torrents with the time they were archived', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(5000)
+
+    await historyDb.archiveTorrents([torrent('a')])
+
+    expect(await historyDb.getHistoryEntry('a')).toEqual({ ...torrent('a'), archivedAt: 5000 })
+    vi.restoreAllMocks()
+  })
+
+  it('overwrites an entry archived earlier', async () => {
+    await historyDb.archiveTorrents([torrent('a', { filename: 'old name' })])
+    await historyDb.archiveTorrents([torrent('a', { filename: 'new name' })])
+
+    const entries = await historyDb.queryHistory()
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0].filename).toBe('new name')
+  })
+
+  it('lists entries newest first', async () => {
+    await historyDb.archiveTorrents([
+      torrent('old', { addedAt: 1000 }),
+      torrent('new', { addedAt: 3000 }),
+      torrent('mid', { addedAt: 2000 }),
+    ])
+
+    const entries = await historyDb.queryHistory()
+
+    expect(entries.map(e => e.id)).toEqual(['new', 'mid', 'old'])
+  })
+
+  it('filters by filename, hash or hoster URL', async () => {
+    await historyDb.archiveTorrents([
+      torrent('a', { filename: 'Some.Movie.2024.mkv' }),
+      torrent('b', { hash: 'deadbeef' }),
+      torrent('c', { kind: 'hoster', sourceUrl: 'https://hoster.example/file' }),
+    ])
+
+    expect((await historyDb.queryHistory({ search: 'movie' })).map(e => e.id)).toEqual(['a'])
+    expect((await historyDb.queryHistory({ search: 'DEADBEEF' })).map(e => e.id)).toEqual(['b'])
+    expect((await historyDb.queryHistory({ search: 'hoster.example' })).map(e => e.id)).toEqual([
+      'c',
+    ])
+  })
+
+  it('filters by the date the torrent was added', async () => {
+    await historyDb.archiveTorrents([
+      torrent('a', { addedAt: 1000 }),
+      torrent('b', { addedAt: 2000 }),
+      torrent('c', { addedAt: 3000 }),
+    ])
+
+    const entries = await historyDb.queryHistory({ from: 2000, to: 3000 })
+
+    expect(entries.map(e => e.id)).toEqual(['c', 'b'])
+  })
+
+  it('updates and deletes entries', async () => {
+    await historyDb.archiveTorrents([torrent('a')])
+    const entry = (await historyDb.getHistoryEntry('a'))!
+
+    await historyDb.saveHistoryEntry({ ...entry, downloadUrl: 'https://example.com/new' })
+    expect((await historyDb.getHistoryEntry('a'))?.downloadUrl).toBe('https://example.com/new')
+
+    await historyDb.deleteHistoryEntry('a')
+    expect(await historyDb.getHistoryEntry('a')).toBeNull()
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { isHosterLink, getHosterName } from '../hoster-link'
+
+describe('hoster-link', () => {
+  describe('isHosterLink', () => {
+    it('accepts http and https urls', () => {
+      expect(isHosterLink('https://rapidgator.net/file/abc/movie.mkv.html')).toBe(true)
+      expect(isHosterLink(' http://1fichier.com/?abcdef ')).toBe(true)
+    })
+
+    it('rejects magnets and other schemes', () => {
+      expect(isHosterLink('magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567')).toBe(
+        false
+      )
+      expect(isHosterLink('ftp://example.com/file')).toBe(false)
+      expect(isHosterLink('not a link')).toBe(false)
+    })
+  })
+
+  describe('getHosterName', () => {
+    it('returns the domain without www', () => {
+      expect(getHosterName('https://www.Mega.nz/folder/abc')).toBe('mega.nz')
+    })
+
+    it('returns null for invalid links', () => {
+      expect(getHosterName('')).toBeNull()
+    })
+  })
+})
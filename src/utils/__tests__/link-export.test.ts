@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { downloadExport, exportLinks, getExportFilename, getItemLinks } from '../link-export'
+
+const season = {
+  filename: 'Show S01',
+  downloadUrl: 'https://download.real-debrid.com/d/ep1/e01.mkv',
+  links: [
+    {
+      url: 'https://download.real-debrid.com/d/ep1/e01.mkv',
+      filename: 'e01.mkv',
+      path: '/e01.mkv',
+      size: 1000,
+      selected: true,
+    },
+    {
+      url: "https://download.real-debrid.com/d/ep2/it's.mkv",
+      filename: "it's.mkv",
+      path: "/Extras/it's.mkv",
+      selected: true,
+    },
+  ],
+}
+
+const movie = {
+  filename: 'Movie.mkv',
+  downloadUrl: 'https://download.real-debrid.com/d/mv/Movie.mkv',
+}
+
+describe('getItemLinks', () => {
+  it('falls back to the single download URL', () => {
+    expect(getItemLinks(movie)).toEqual([
+      { url: movie.downloadUrl, filename: 'Movie.mkv', selected: true },
+    ])
+    expect(getItemLinks({ filename: 'Pending', downloadUrl: null })).toEqual([])
+  })
+})
+
+describe('exportLinks', () => {
+  it('writes an M3U8 playlist', () => {
+    expect(exportLinks('m3u8', [movie])).toBe(
+      `#EXTM3U\n#EXTINF:-1,Movie.mkv\n${movie.downloadUrl}\n`
+    )
+  })
+
+  it('writes an aria2 input file with out= lines', () => {
+    expect(exportLinks('aria2', [season, movie])).toBe(
+      [
+        season.links[0].url,
+        '  out=Show S01/e01.mkv',
+        season.links[1].url,
+        "  out=Show S01/Extras/it's.mkv",
+        movie.downloadUrl,
+        '  out=Movie.mkv',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('writes wget and curl scripts with quoted paths', () => {
+    const wget = exportLinks('wget', [season])
+
+    expect(wget.split('\n')).toEqual([
+      '#!/bin/sh',
+      'set -e',
+      "mkdir -p 'Show S01'",
+      `wget -c -O 'Show S01/e01.mkv' '${season.links[0].url}'`,
+      "mkdir -p 'Show S01/Extras'",
+      `wget -c -O 'Show S01/Extras/it'\\''s.mkv' 'https://download.real-debrid.com/d/ep2/it'\\''s.mkv'`,
+      '',
+    ])
+    expect(exportLinks('curl', [movie])).toContain(
+      `curl -L -C - -o 'Movie.mkv' '${movie.downloadUrl}'`
+    )
+  })
+
+  it('writes JSON grouped by torrent', () => {
+    expect(JSON.parse(exportLinks('json', [season, movie]))).toEqual([
+      {
+        name: 'Show S01',
+        links: [
+          { filename: 'e01.mkv', path: '/e01.mkv', url: season.links[0].url, size: 1000 },
+          { filename: "it's.mkv", path: "/Extras/it's.mkv", url: season.links[1].url },
+        ],
+      },
+      { name: 'Movie.mkv', links: [{ filename: 'Movie.mkv', url: movie.downloadUrl }] },
+    ])
+  })
+
+  it('writes a JDownloader crawljob per link', () => {
+    expect(exportLinks('crawljob', [movie])).toBe(
+      [
+        `text=${movie.downloadUrl}`,
+        'packageName=Movie.mkv',
+        'filename=Movie.mkv',
+        'enabled=TRUE',
+        'autoStart=TRUE',
+        'autoConfirm=TRUE',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('writes plain URLs', () => {
+    expect(exportLinks('text', [season])).toBe(`${season.links[0].url}\n${season.links[1].url}\n`)
+  })
+})
+
+describe('getExportFilename', () => {
+  it('names single exports after the torrent', () => {
+    expect(getExportFilename('crawljob', [{ ...movie, filename: 'Show: Pilot' }])).toBe(
+      'Show_ Pilot.crawljob'
+    )
+    expect(getExportFilename('aria2', [season, movie])).toBe('real-debrid-links.aria2.txt')
+  })
+})
+
+describe('downloadExport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('downloads the export as a file', async () => {
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:export')
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+    downloadExport('text', [movie])
+
+    const anchor = click.mock.contexts[0] as HTMLAnchorElement
+    expect(anchor.download).toBe('Movie.mkv.txt')
+    expect(anchor.getAttribute('href')).toBe('blob:export')
+    expect(await createObjectURL.mock.calls[0][0].text()).toBe(`${movie.downloadUrl}\n`)
+    click.mockRestore()
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import {
+  base32ToHex,
+  parseMagnet,
+  isValidMagnet,
+  extractHashFromMagnet,
+  buildMagnet,
+} from '../magnet'
+
+const HEX_HASH = '0123456789abcdef0123456789abcdef01234567'
+const BASE32_HASH = 'AERUKZ4JVPG66AJDIVTYTK6N54ASGRLH'
+const V2_DIGEST = 'a'.repeat(32) + 'b'.repeat(32)
+
+describe('magnet', () => {
+  describe('base32ToHex', () => {
+    it('decodes a 32-char base32 info hash to hex', () => {
+      expect(base32ToHex(BASE32_HASH)).toBe(HEX_HASH)
+    })
+
+    it('is case insensitive', () => {
+      expect(base32ToHex(BASE32_HASH.toLowerCase())).toBe(HEX_HASH)
+    })
+
+    it('returns null for invalid characters', () => {
+      expect(base32ToHex('AERUKZ4JVPG66AJDIVTYTK6N54ASGRL1')).toBeNull()
+    })
+  })
+
+  describe('parseMagnet', () => {
+    it('parses a hex btih magnet', () => {
+      const parsed = parseMagnet(`magnet:?xt=urn:btih:${HEX_HASH.toUpperCase()}`)
+
+      expect(parsed).toEqual({
+        hash: HEX_HASH,
+        btih: [HEX_HASH],
+        btmh: [],
+        displayName: undefined,
+        trackers: [],
+        exactLength: undefined,
+      })
+    })
+
+    it('normalises a base32 btih to hex', () => {
+      expect(parseMagnet(`magnet:?xt=urn:btih:${BASE32_HASH}`)?.hash).toBe(HEX_HASH)
+    })
+
+    it('extracts dn, tr and xl', () => {
+      const parsed = parseMagnet(
+        `magnet:?xt=urn:btih:${HEX_HASH}&dn=Some%20Movie%202024&xl=1073741824` +
+          '&tr=udp%3A%2F%2Ftracker.example.com%3A80&tr=https%3A%2F%2Ftracker.example.org%2Fannounce'
+      )
+
+      expect(parsed?.displayName).toBe('Some Movie 2024')
+      expect(parsed?.exactLength).toBe(1073741824)
+      expect(parsed?.trackers).toEqual([
+        'udp://tracker.example.com:80',
+        'https://tracker.example.org/announce',
+      ])
+    })
+
+    it('parses a BitTorrent v2 btmh magnet', () => {
+      const parsed = parseMagnet(`magnet:?xt=urn:btmh:1220${V2_DIGEST}`)
+
+      expect(parsed?.hash).toBe(V2_DIGEST)
+      expect(parsed?.btih).toEqual([])
+      expect(parsed?.btmh).toEqual([V2_DIGEST])
+    })
+
+    it('prefers btih for hybrid magnets with several xt params', () => {
+      const parsed = parseMagnet(
+        `magnet:?xt=urn:btmh:1220${V2_DIGEST}&xt=urn:btih:${HEX_HASH}&dn=hybrid`
+      )
+
+      expect(parsed?.hash).toBe(HEX_HASH)
+      expect(parsed?.btih).toEqual([HEX_HASH])
+      expect(parsed?.btmh).toEqual([V2_DIGEST])
+    })
+
+    it('supports numbered xt and tr params', () => {
+      const parsed = parseMagnet(
+        `magnet:?xt.1=urn:btih:${HEX_HASH}&xt.2=urn:btih:${'f'.repeat(40)}&tr.1=udp://a&tr.2=udp://b`
+      )
+
+      expect(parsed?.btih).toEqual([HEX_HASH, 'f'.repeat(40)])
+      expect(parsed?.trackers).toEqual(['udp://a', 'udp://b'])
+    })
+
+    it('deduplicates repeated hashes and trackers', () => {
+      const parsed = parseMagnet(
+        `magnet:?xt=urn:btih:${HEX_HASH}&xt=urn:btih:${BASE32_HASH}&tr=udp://a&tr=udp://a`
+      )
+
+      expect(parsed?.btih).toEqual([HEX_HASH])
+      expect(parsed?.trackers).toEqual(['udp://a'])
+    })
+
+    it('ignores invalid xl values', () => {
+      expect(parseMagnet(`magnet:?xt=urn:btih:${HEX_HASH}&xl=abc`)?.exactLength).toBeUndefined()
+    })
+
+    it('returns null for non-magnet links', () => {
+      expect(parseMagnet(`https://example.com/?xt=urn:btih:${HEX_HASH}`)).toBeNull()
+    })
+
+    it('returns null when no usable hash is present', () => {
+      expect(parseMagnet('magnet:?dn=nothing')).toBeNull()
+      expect(parseMagnet('magnet:?xt=urn:btih:tooshort')).toBeNull()
+      expect(parseMagnet('magnet:?xt=urn:btmh:1114deadbeef')).toBeNull()
+      expect(parseMagnet('magnet:?xt=urn:sha1:' + HEX_HASH)).toBeNull()
+    })
+  })
+
+  describe('isValidMagnet', () => {
+    it('accepts hex, base32 and v2 magnets', () => {
+      expect(isValidMagnet(`magnet:?xt=urn:btih:${HEX_HASH}`)).toBe(true)
+      expect(isValidMagnet(`magnet:?xt=urn:btih:${BASE32_HASH}`)).toBe(true)
+      expect(isValidMagnet(`magnet:?xt=urn:btmh:1220${V2_DIGEST}`)).toBe(true)
+    })
+
+    it('rejects invalid magnets', () => {
+      expect(isValidMagnet('')).toBe(false)
+      expect(isValidMagnet('magnet:?xt=urn:btih:')).toBe(false)
+    })
+  })
+
+  describe('extractHashFromMagnet', () => {
+    it('returns the primary hash', () => {
+      expect(extractHashFromMagnet(`magnet:?xt=urn:btih:${BASE32_HASH}&dn=x`)).toBe(HEX_HASH)
+    })
+
+    it('returns null for invalid magnets', () => {
+      expect(extractHashFromMagnet('not a magnet')).toBeNull()
+    })
+  })
+
+  describe('buildMagnet', () => {
+    it('builds a magnet that parses back to the same hash and name', () => {
+      const magnet = buildMagnet(HEX_HASH, 'Some Movie & Extras')
+
+      expect(magnet).toBe(`magnet:?xt=urn:btih:${HEX_HASH}&dn=Some%20Movie%20%26%20Extras`)
+      expect(parseMagnet(magnet)?.displayName).toBe('Some Movie & Extras')
+    })
+
+    it('omits dn without a display name', () => {
+      expect(buildMagnet(HEX_HASH)).toBe(`magnet:?xt=urn:btih:${HEX_HASH}`)
+    })
+
+    it('builds a v2 magnet for a btmh digest', () => {
+      const magnet = buildMagnet(V2_DIGEST)
+
+      expect(magnet).toBe(`magnet:?xt=urn:btmh:1220${V2_DIGEST}`)
+      expect(parseMagnet(magnet)).toMatchObject({ hash: V2_DIGEST, btih: [], btmh: [V2_DIGEST] })
+    })
+  })
+})
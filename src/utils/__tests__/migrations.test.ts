@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { MIGRATIONS, SCHEMA_VERSION, runMigrations } from '../migrations'
+import type { TorrentItem } from '../types'
+
+// In-memory browser.storage areas, so migrations run against the real storage module
+vi.mock('webextension-polyfill', () => {
+  const areas: Record<string, Record<string, unknown>> = { sync: {}, local: {}, session: {} }
+
+  const createArea = (name: string) => ({
+    get: vi.fn(async (keys?: string | string[] | Record<string, unknown> | null) => {
+      const data = areas[name]
+      if (keys === null || keys === undefined) return { ...data }
+      if (typeof keys === 'string') return keys in data ? { [keys]: data[keys] } : {}
+      if (Array.isArray(keys)) {
+        return Object.fromEntries(keys.filter(key => key in data).map(key => [key, data[key]]))
+      }
+      return Object.fromEntries(
+        Object.entries(keys).map(([key, fallback]) => [key, key in data ? data[key] : fallback])
+      )
+    }),
+    set: vi.fn(async (items: Record<string, unknown>) => {
+      Object.assign(areas[name], structuredClone(items))
+    }),
+    remove: vi.fn(async (keys: string | string[]) => {
+      for (const key of [keys].flat()) delete areas[name][key]
+    }),
+  })
+
+  return {
+    default: {
+      storage: {
+        sync: createArea('sync'),
+        local: createArea('local'),
+        session: createArea('session'),
+        onChanged: { addListener: vi.fn() },
+      },
+    },
+    get areas() {
+      return areas
+    },
+  }
+})
+
+// Mock the IndexedDB history archive
+vi.mock('../history-db', () => ({
+  archiveTorrents: vi.fn(() => Promise.resolve()),
+}))
+
+const HASH = '0123456789abcdef0123456789abcdef01234567'
+
+// Saved before the hash field existed
+const legacyTorrent = {
+  id: 'RD1',
+  magnetLink: `magnet:?xt=urn:btih:${HASH}`,
+  filename: 'Movie.mkv',
+  downloadUrl: null,
+  status: 'ready',
+  addedAt: 1000,
+  lastRetry: 1000,
+  retryCount: 0,
+}
+
+describe('migrations', () => {
+  let areas: Record<string, Record<string, unknown>>
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    const webextension = (await import('webextension-polyfill')) as any
+    areas = webextension.areas
+    areas.sync = {}
+    areas.local = {}
+    areas.session = {}
+  })
+
+  it('lists migrations in ascending version order', () => {
+    const versions = MIGRATIONS.map(migration => migration.version)
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b))
+    expect(SCHEMA_VERSION).toBe(versions[versions.length - 1])
+  })
+
+  it('brings data from before schema versioning up to date', async () => {
+    areas.sync = { apiToken: 'TOKEN', maxListSize: 20 }
+    areas.local = { torrents: [legacyTorrent, { id: 'RD2', status: 'gone' }] }
+
+    expect(await runMigrations()).toBe(SCHEMA_VERSION)
+
+    expect(areas.local.schemaVersion).toBe(SCHEMA_VERSION)
+    expect(areas.local.apiToken).toBe('TOKEN')
+    expect(areas.sync).not.toHaveProperty('apiToken')
+    expect((areas.local.torrents as TorrentItem[]).map(t => [t.id, t.hash])).toEqual([
+      ['RD1', HASH],
+    ])
+    expect(areas.local.quarantinedTorrents).toEqual([
+      { record: { id: 'RD2', status: 'gone' }, quarantinedAt: expect.any(Number) },
+    ])
+  })
+
+  it('quarantines a torrent list that is not a list', async () => {
+    areas.local = { schemaVersion: 1, accountTorrents: { RD1: legacyTorrent } }
+
+    await runMigrations()
+
+    expect(areas.local.accountTorrents).toEqual([])
+    expect(areas.local.quarantinedTorrents).toEqual([
+      { record: { RD1: legacyTorrent }, quarantinedAt: expect.any(Number) },
+    ])
+  })
+
+  it('removes an OAuth login left unencrypted beside the token vault', async () => {
+    const vault = { salt: 'c2FsdA==', iv: 'aXY=', data: 'ZGF0YQ==' }
+    areas.local = { schemaVersion: 2, secretVault: vault, oauthCredentials: { accessToken: 'A' } }
+
+    await runMigrations()
+
+    expect(areas.local).not.toHaveProperty('oauthCredentials')
+    expect(areas.local.secretVault).toEqual(vault)
+  })
+
+  it('keeps an OAuth login without a token vault', async () => {
+    areas.local = { schemaVersion: 2, oauthCredentials: { accessToken: 'A' } }
+
+    await runMigrations()
+
+    expect(areas.local.oauthCredentials).toEqual({ accessToken: 'A' })
+  })
+
+  it('skips migrations the data already went through', async () => {
+    areas.sync = { apiToken: 'SYNCED' }
+    areas.local = { schemaVersion: SCHEMA_VERSION, torrents: [legacyTorrent] }
+
+    expect(await runMigrations()).toBe(SCHEMA_VERSION)
+
+    expect(areas.sync.apiToken).toBe('SYNCED')
+    expect(areas.local.torrents).toEqual([legacyTorrent])
+  })
+
+  it('stops at a failed migration and retries it on the next run', async () => {
+    const migration = MIGRATIONS[1]
+    const migrate = vi
+      .spyOn(migration, 'migrate')
+      .mockRejectedValueOnce(new Error('Storage unavailable'))
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(await runMigrations()).toBe(migration.version - 1)
+    expect(areas.local.schemaVersion).toBe(migration.version - 1)
+    expect(consoleSpy).toHaveBeenCalled()
+
+    expect(await runMigrations()).toBe(SCHEMA_VERSION)
+    expect(migrate).toHaveBeenCalledTimes(2)
+
+    migrate.mockRestore()
+    consoleSpy.mockRestore()
+  })
+})
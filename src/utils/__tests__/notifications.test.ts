@@ -9,6 +9,7 @@ import {
   notifyTorrentStatusChange,
   clearCompletedNotifications,
   resetNotificationState,
+  notifyPremiumExpiring,
 } from '../notifications'
 import { storage } from '../storage'
 
@@ -469,6 +470,77 @@ describe('notifications', () => {
     })
   })
 
+  describe('notifyPremiumExpiring', () => {
+    const premiumUser = {
+      id: 1,
+      username: 'tester',
+      email: 'tester@example.com',
+      points: 100,
+      locale: 'en',
+      avatar: '',
+      type: 'premium' as const,
+      premium: 3 * 86400,
+      expiration: '2026-10-22T00:00:00.000Z',
+    }
+
+    beforeEach(() => {
+      ;(globalThis.Notification as any).permission = 'granted'
+    })
+
+    it('shows notification when premium expires within the warning window', async () => {
+      await notifyPremiumExpiring(premiumUser)
+
+      expect(mockNotificationConstructor).toHaveBeenCalledWith(
+        'Premium Expiring Soon',
+        expect.objectContaining({
+          body: 'Your Real-Debrid premium expires in 3 days',
+          tag: 'premium-expiry',
+        })
+      )
+      expect(storage.saveNotificationState).toHaveBeenCalledWith(
+        expect.objectContaining({ premiumExpiryNotified: premiumUser.expiration })
+      )
+    })
+
+    it('does not notify when plenty of premium time is left', async () => {
+      await notifyPremiumExpiring({ ...premiumUser, premium: 30 * 86400 })
+
+      expect(mockNotificationConstructor).not.toHaveBeenCalled()
+    })
+
+    it('does not notify free accounts', async () => {
+      await notifyPremiumExpiring({ ...premiumUser, type: 'free', premium: 0 })
+
+      expect(mockNotificationConstructor).not.toHaveBeenCalled()
+    })
+
+    it('does not notify twice for the same expiration date', async () => {
+      vi.mocked(storage.getNotificationState).mockResolvedValue({
+        notifiedTorrentIds: [],
+        lastNotificationTime: 0,
+        premiumExpiryNotified: premiumUser.expiration,
+      })
+
+      await notifyPremiumExpiring(premiumUser)
+
+      expect(mockNotificationConstructor).not.toHaveBeenCalled()
+      expect(storage.saveNotificationState).not.toHaveBeenCalled()
+    })
+
+    it('respects disabled notifications setting', async () => {
+      vi.mocked(storage.getDashboardSettings).mockResolvedValue({
+        darkMode: 'auto',
+        notificationsEnabled: false,
+        autoRefresh: true,
+        refreshInterval: 30,
+      })
+
+      await notifyPremiumExpiring(premiumUser)
+
+      expect(mockNotificationConstructor).not.toHaveBeenCalled()
+    })
+  })
+
   describe('clearCompletedNotifications', () => {
     it('removes torrent IDs from notified list', async () => {
       vi.mocked(storage.getNotificationState).mockResolvedValue({
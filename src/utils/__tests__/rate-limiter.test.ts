@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { TokenBucket } from '../rate-limiter'
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('lets a burst up to the capacity through immediately', async () => {
+    const bucket = new TokenBucket(3, 60)
+    const acquired = vi.fn()
+
+    for (let i = 0; i < 3; i++) bucket.acquire().then(acquired)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(acquired).toHaveBeenCalledTimes(3)
+  })
+
+  it('makes callers wait for the bucket to refill', async () => {
+    // 60 per minute = one token per second
+    const bucket = new TokenBucket(1, 60)
+    const acquired = vi.fn()
+
+    await bucket.acquire()
+    bucket.acquire().then(acquired)
+
+    await vi.advanceTimersByTimeAsync(999)
+    expect(acquired).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(1)
+    expect(acquired).toHaveBeenCalledTimes(1)
+  })
+
+  it('serves waiting callers in order', async () => {
+    const bucket = new TokenBucket(1, 60)
+    const order: number[] = []
+
+    await bucket.acquire()
+    const waiting = [1, 2, 3].map(n => bucket.acquire().then(() => order.push(n)))
+
+    await vi.advanceTimersByTimeAsync(3000)
+    await Promise.all(waiting)
+
+    expect(order).toEqual([1, 2, 3])
+  })
+
+  it('never holds more than the capacity', async () => {
+    const bucket = new TokenBucket(2, 60)
+    const acquired = vi.fn()
+
+    // Idle long enough to refill far beyond the capacity
+    await vi.advanceTimersByTimeAsync(60000)
+    for (let i = 0; i < 3; i++) bucket.acquire().then(acquired)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(acquired).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { RdApiError, toRdApiError, isRdErrorKind } from '../rd-error'
+
+// Shape of an axios error with a Real-Debrid error body
+const apiError = (status: number | undefined, data?: unknown) => ({
+  isAxiosError: true,
+  message: `Request failed with status code ${status}`,
+  response: status === undefined ? undefined : { status, data },
+})
+
+describe('rd-error', () => {
+  describe('toRdApiError', () => {
+    it.each([
+      [8, 'bad_token'],
+      [9, 'permission_denied'],
+      [21, 'too_many_active_downloads'],
+      [35, 'infringing_file'],
+      [19, 'hoster_unavailable'],
+      [34, 'rate_limited'],
+    ] as const)('maps error_code %i to %s', (code, kind) => {
+      const error = toRdApiError(apiError(403, { error: 'some_error', error_code: code }))
+
+      expect(error.kind).toBe(kind)
+      expect(error.code).toBe(code)
+      expect(error.apiError).toBe('some_error')
+    })
+
+    it('prefers error_code over the HTTP status', () => {
+      expect(toRdApiError(apiError(503, { error: 'infringing_file', error_code: 35 })).kind).toBe(
+        'infringing_file'
+      )
+    })
+
+    it('falls back to the HTTP status without an error_code', () => {
+      expect(toRdApiError(apiError(401)).kind).toBe('bad_token')
+      expect(toRdApiError(apiError(403)).kind).toBe('permission_denied')
+      expect(toRdApiError(apiError(404)).kind).toBe('not_found')
+      expect(toRdApiError(apiError(429)).kind).toBe('rate_limited')
+      expect(toRdApiError(apiError(503)).kind).toBe('service_unavailable')
+      expect(toRdApiError(apiError(400)).kind).toBe('unknown')
+    })
+
+    it('treats a missing response as a network error', () => {
+      const error = toRdApiError(apiError(undefined))
+
+      expect(error.kind).toBe('network')
+      expect(error.status).toBeUndefined()
+    })
+
+    it('returns RdApiError instances unchanged', () => {
+      const error = new RdApiError('not_found')
+      expect(toRdApiError(error)).toBe(error)
+    })
+
+    it('replaces the raw axios message with a user-facing one', () => {
+      const error = toRdApiError(apiError(403, { error: 'permission_denied', error_code: 9 }))
+
+      expect(error).toBeInstanceOf(Error)
+      expect(error.message).not.toContain('status code')
+      expect(error.message).toMatch(/premium/)
+    })
+  })
+
+  describe('retryable', () => {
+    it('marks temporary failures as retryable', () => {
+      expect(new RdApiError('rate_limited').retryable).toBe(true)
+      expect(new RdApiError('service_unavailable').retryable).toBe(true)
+      expect(new RdApiError('too_many_active_downloads').retryable).toBe(true)
+      expect(new RdApiError('hoster_unavailable').retryable).toBe(true)
+      expect(new RdApiError('network').retryable).toBe(true)
+    })
+
+    it('marks failures that need user action as not retryable', () => {
+      expect(new RdApiError('bad_token').retryable).toBe(false)
+      expect(new RdApiError('permission_denied').retryable).toBe(false)
+      expect(new RdApiError('infringing_file').retryable).toBe(false)
+      expect(new RdApiError('not_found').retryable).toBe(false)
+    })
+  })
+
+  describe('isRdErrorKind', () => {
+    it('matches only RdApiErrors of the given kind', () => {
+      expect(isRdErrorKind(new RdApiError('bad_token'), 'bad_token')).toBe(true)
+      expect(isRdErrorKind(new RdApiError('not_found'), 'bad_token')).toBe(false)
+      expect(isRdErrorKind(new Error('bad_token'), 'bad_token')).toBe(false)
+    })
+  })
+})
@@ -1,4 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { DEFAULT_FILE_RULES } from '../file-rules'
+import { DEFAULT_ARIA2_SETTINGS } from '../aria2'
+import { DEFAULT_DOWNLOAD_TEMPLATE } from '../downloads'
 
 // Mock axios at the module level
 vi.mock('axios', () => ({
@@ -6,6 +9,7 @@ vi.mock('axios', () => ({
     create: vi.fn(() => ({
       defaults: { headers: { common: {} } },
       post: vi.fn(),
+      put: vi.fn(),
       get: vi.fn(),
       delete: vi.fn(),
     })),
@@ -24,12 +28,32 @@ vi.mock('../storage', () => ({
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
     ),
+    onSettingsChanged: vi.fn(),
+    saveSettings: vi.fn(),
+    getOAuthCredentials: vi.fn(() => Promise.resolve(null)),
+    saveOAuthCredentials: vi.fn(),
   },
 }))
 
+// Mock the OAuth token endpoint
+vi.mock('../realdebrid-oauth', () => ({
+  refreshAccessToken: vi.fn(),
+}))
+
 describe('RealDebridAPI', () => {
   // Track the axios instance created by the API class
   let mockClientInstance: any
@@ -44,6 +68,7 @@ describe('RealDebridAPI', () => {
     mockClientInstance = {
       defaults: { headers: { common: {} } },
       post: vi.fn(),
+      put: vi.fn(),
       get: vi.fn(),
       delete: vi.fn(),
     }
@@ -101,7 +126,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
 
       await expect(rdAPI.addMagnet('magnet:?xt=test')).rejects.toThrow('NO_TOKEN')
@@ -116,7 +152,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
 
       await expect(rdAPI.getTorrentInfo('TORRENT_ID')).rejects.toThrow('NO_TOKEN')
@@ -131,7 +178,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
 
       await expect(rdAPI.selectFiles('TORRENT_ID')).rejects.toThrow('NO_TOKEN')
@@ -146,7 +204,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
 
       await expect(rdAPI.deleteTorrent('TORRENT_ID')).rejects.toThrow('NO_TOKEN')
@@ -161,7 +230,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
 
       await expect(rdAPI.unrestrictLink('https://example.com/link')).rejects.toThrow('NO_TOKEN')
@@ -176,7 +256,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
 
       await expect(rdAPI.getTorrents()).rejects.toThrow('NO_TOKEN')
@@ -193,7 +284,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
     })
 
@@ -213,6 +315,19 @@ describe('RealDebridAPI', () => {
       )
     })
 
+    it('uploads a torrent file with the bittorrent content type', async () => {
+      const mockResponse = { id: 'TORRENT_ID', uri: 'magnet:?xt=test' }
+      mockClientInstance.put.mockResolvedValue({ data: mockResponse })
+      const file = new Uint8Array([0x64, 0x65]).buffer
+
+      const result = await rdAPI.addTorrentFile(file)
+
+      expect(result).toEqual(mockResponse)
+      expect(mockClientInstance.put).toHaveBeenCalledWith('/torrents/addTorrent', file, {
+        headers: { 'Content-Type': 'application/x-bittorrent' },
+      })
+    })
+
     it('sets Authorization header when apiToken is available', async () => {
       const { storage } = await import('../storage')
       vi.mocked(storage.getSettings).mockResolvedValue({
@@ -222,7 +337,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
 
       mockClientInstance.post.mockResolvedValue({ data: { id: '123' } })
@@ -243,7 +369,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
     })
 
@@ -274,7 +411,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
     })
 
@@ -317,7 +465,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
     })
 
@@ -330,6 +489,349 @@ describe('RealDebridAPI', () => {
     })
   })
 
+  describe('torrent list pagination with valid token', () => {
+    beforeEach(async () => {
+      const { storage } = await import('../storage')
+      vi.mocked(storage.getSettings).mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        contextMenuEnabled: false,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+        visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
+      })
+    })
+
+    it('requests a page and reads the total count header', async () => {
+      mockClientInstance.get.mockResolvedValue({
+        data: [{ id: 'T1' }],
+        headers: { 'x-total-count': '42' },
+      })
+
+      const result = await rdAPI.getTorrentsPage(2, 50)
+
+      expect(mockClientInstance.get).toHaveBeenCalledWith('/torrents?page=2&limit=50')
+      expect(result).toEqual({ torrents: [{ id: 'T1' }], totalCount: 42 })
+    })
+
+    it('treats an empty page as no torrents', async () => {
+      mockClientInstance.get.mockResolvedValue({ data: '', headers: {} })
+
+      const result = await rdAPI.getTorrentsPage(3)
+
+      expect(result).toEqual({ torrents: [], totalCount: null })
+    })
+
+    it('walks every page until the total count is reached', async () => {
+      mockClientInstance.get
+        .mockResolvedValueOnce({
+          data: [{ id: 'T1' }, { id: 'T2' }],
+          headers: { 'x-total-count': '3' },
+        })
+        .mockResolvedValueOnce({ data: [{ id: 'T3' }], headers: { 'x-total-count': '3' } })
+
+      const torrents = await rdAPI.getAllTorrents(2)
+
+      expect(torrents.map((t: { id: string }) => t.id)).toEqual(['T1', 'T2', 'T3'])
+      expect(mockClientInstance.get).toHaveBeenCalledTimes(2)
+      expect(mockClientInstance.get).toHaveBeenLastCalledWith('/torrents?page=2&limit=2')
+    })
+
+    it('stops when a full page matches the total count', async () => {
+      mockClientInstance.get.mockResolvedValueOnce({
+        data: [{ id: 'T1' }, { id: 'T2' }],
+        headers: { 'x-total-count': '2' },
+      })
+
+      const torrents = await rdAPI.getAllTorrents(2)
+
+      expect(torrents).toHaveLength(2)
+      expect(mockClientInstance.get).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('error handling with valid token', () => {
+    const httpError = (status: number, data?: unknown, headers: Record<string, string> = {}) => ({
+      isAxiosError: true,
+      message: `Request failed with status code ${status}`,
+      response: { status, data, headers },
+    })
+
+    beforeEach(async () => {
+      const { storage } = await import('../storage')
+      vi.mocked(storage.getSettings).mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        contextMenuEnabled: false,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+        visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
+      })
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('throws a typed error built from error_code', async () => {
+      mockClientInstance.post.mockRejectedValue(
+        httpError(403, { error: 'too_many_active_downloads', error_code: 21 })
+      )
+
+      const error = await rdAPI.addMagnet('magnet:?xt=test').catch((e: unknown) => e)
+
+      expect(error.name).toBe('RdApiError')
+      expect(error.kind).toBe('too_many_active_downloads')
+      expect(error.retryable).toBe(true)
+      expect(error.status).toBe(403)
+      expect(mockClientInstance.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('retries 429 responses with backoff, honouring Retry-After', async () => {
+      vi.useFakeTimers()
+      mockClientInstance.get
+        .mockRejectedValueOnce(httpError(429, undefined, { 'retry-after': '2' }))
+        .mockResolvedValueOnce({ data: { id: 'T1' } })
+
+      const promise = rdAPI.getTorrentInfo('T1')
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(mockClientInstance.get).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+
+      await expect(promise).resolves.toEqual({ id: 'T1' })
+      expect(mockClientInstance.get).toHaveBeenCalledTimes(2)
+    })
+
+    it('gives up on 503 after the maximum number of retries', async () => {
+      vi.useFakeTimers()
+      mockClientInstance.get.mockRejectedValue(httpError(503))
+
+      const promise = rdAPI.getTorrentInfo('T1').catch((e: unknown) => e)
+      await vi.runAllTimersAsync()
+      const error = await promise
+
+      expect(error.kind).toBe('service_unavailable')
+      expect(mockClientInstance.get).toHaveBeenCalledTimes(4)
+    })
+
+    it('does not retry other HTTP errors', async () => {
+      mockClientInstance.get.mockRejectedValue(
+        httpError(401, { error: 'bad_token', error_code: 8 })
+      )
+
+      await expect(rdAPI.getUser()).rejects.toMatchObject({ kind: 'bad_token', retryable: false })
+      expect(mockClientInstance.get).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('request sharing with valid token', () => {
+    beforeEach(async () => {
+      const { storage } = await import('../storage')
+      vi.mocked(storage.getSettings).mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        contextMenuEnabled: false,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+        visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
+      })
+    })
+
+    it('merges identical GET requests that are in flight', async () => {
+      mockClientInstance.get.mockResolvedValue({ data: { id: 'T1' } })
+
+      const [first, second] = await Promise.all([
+        rdAPI.getTorrentInfo('T1'),
+        rdAPI.getTorrentInfo('T1'),
+      ])
+
+      expect(first).toEqual({ id: 'T1' })
+      expect(second).toEqual({ id: 'T1' })
+      expect(mockClientInstance.get).toHaveBeenCalledTimes(1)
+    })
+
+    it('sends the request again once the previous one finished', async () => {
+      mockClientInstance.get.mockResolvedValue({ data: { id: 'T1' } })
+
+      await rdAPI.getTorrentInfo('T1')
+      await rdAPI.getTorrentInfo('T1')
+
+      expect(mockClientInstance.get).toHaveBeenCalledTimes(2)
+    })
+
+    it('reads the token from settings only once', async () => {
+      const { storage } = await import('../storage')
+      mockClientInstance.get.mockResolvedValue({ data: {} })
+
+      await rdAPI.getUser()
+      await rdAPI.getTraffic()
+
+      expect(storage.getSettings).toHaveBeenCalledTimes(1)
+    })
+
+    it('reloads the token after it changes in settings', async () => {
+      const { storage } = await import('../storage')
+      mockClientInstance.get.mockResolvedValue({ data: {} })
+
+      await rdAPI.getUser()
+      const onChange = vi.mocked(storage.onSettingsChanged).mock.calls[0][0]
+      onChange({ apiToken: 'new-token' })
+      vi.mocked(storage.getSettings).mockResolvedValueOnce({
+        ...(await storage.getSettings()),
+        apiToken: 'new-token',
+      })
+      await rdAPI.getUser()
+
+      expect(mockClientInstance.defaults.headers.common['Authorization']).toBe('Bearer new-token')
+    })
+  })
+
+  describe('OAuth login', () => {
+    const credentials = (expiresAt: number) => ({
+      clientId: 'APP_ID',
+      clientSecret: 'APP_SECRET',
+      accessToken: 'ACCESS_1',
+      refreshToken: 'REFRESH_1',
+      expiresAt,
+    })
+
+    it('uses the OAuth access token while it is valid', async () => {
+      const { storage } = await import('../storage')
+      const { refreshAccessToken } = await import('../realdebrid-oauth')
+      vi.mocked(storage.getOAuthCredentials).mockResolvedValueOnce(
+        credentials(Date.now() + 3600000)
+      )
+      mockClientInstance.get.mockResolvedValue({ data: {} })
+
+      await rdAPI.getUser()
+
+      expect(refreshAccessToken).not.toHaveBeenCalled()
+      expect(mockClientInstance.defaults.headers.common['Authorization']).toBe('Bearer ACCESS_1')
+    })
+
+    it('refreshes an expired access token and stores the rotated tokens', async () => {
+      const { storage } = await import('../storage')
+      const { refreshAccessToken } = await import('../realdebrid-oauth')
+      const refreshed = { ...credentials(Date.now() + 3600000), accessToken: 'ACCESS_2' }
+      vi.mocked(storage.getOAuthCredentials).mockResolvedValueOnce(credentials(Date.now() - 1))
+      vi.mocked(refreshAccessToken).mockResolvedValueOnce(refreshed)
+      mockClientInstance.get.mockResolvedValue({ data: {} })
+
+      await rdAPI.getUser()
+
+      expect(storage.saveOAuthCredentials).toHaveBeenCalledWith(refreshed)
+      expect(storage.saveSettings).not.toHaveBeenCalled()
+      expect(mockClientInstance.defaults.headers.common['Authorization']).toBe('Bearer ACCESS_2')
+    })
+
+    it('refreshes only once for concurrent requests', async () => {
+      const { storage } = await import('../storage')
+      const { refreshAccessToken } = await import('../realdebrid-oauth')
+      vi.mocked(storage.getOAuthCredentials).mockResolvedValueOnce(credentials(Date.now() - 1))
+      vi.mocked(refreshAccessToken).mockResolvedValueOnce(credentials(Date.now() + 3600000))
+      mockClientInstance.get.mockResolvedValue({ data: {} })
+
+      await Promise.all([rdAPI.getUser(), rdAPI.getTraffic()])
+
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('multiple accounts', () => {
+    beforeEach(async () => {
+      const { storage } = await import('../storage')
+      vi.mocked(storage.getSettings).mockResolvedValue({
+        apiToken: 'default-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        contextMenuEnabled: false,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+        visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [{ id: 'acc-2', name: 'Backup', apiToken: 'backup-token' }],
+        activeAccountId: null,
+      })
+    })
+
+    it('returns the default client without an account id', async () => {
+      const { getAccountAPI } = await import('../realdebrid-api')
+
+      expect(getAccountAPI()).toBe(rdAPI)
+      expect(getAccountAPI(null)).toBe(rdAPI)
+    })
+
+    it('reuses one client per account', async () => {
+      const { getAccountAPI } = await import('../realdebrid-api')
+
+      expect(getAccountAPI('acc-2')).toBe(getAccountAPI('acc-2'))
+      expect(getAccountAPI('acc-2')).not.toBe(rdAPI)
+    })
+
+    it('authenticates with the token of the selected account', async () => {
+      const { storage } = await import('../storage')
+      const { getAccountAPI } = await import('../realdebrid-api')
+      mockClientInstance.get.mockResolvedValue({ data: {} })
+
+      await getAccountAPI('acc-2').getUser()
+
+      expect(storage.getOAuthCredentials).not.toHaveBeenCalled()
+      expect(mockClientInstance.defaults.headers.common['Authorization']).toBe(
+        'Bearer backup-token'
+      )
+    })
+
+    it('throws NO_TOKEN for an account that was removed', async () => {
+      const { getAccountAPI } = await import('../realdebrid-api')
+
+      await expect(getAccountAPI('acc-missing').getUser()).rejects.toThrow('NO_TOKEN')
+    })
+  })
+
   describe('unrestrictLink with valid token', () => {
     beforeEach(async () => {
       const { storage } = await import('../storage')
@@ -340,7 +842,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
     })
 
@@ -376,6 +889,44 @@ describe('RealDebridAPI', () => {
 
       await expect(rdAPI.unrestrictLink('https://hoster.com/link')).rejects.toThrow('API Error')
     })
+
+    it('checks a hoster link', async () => {
+      const mockResponse = {
+        host: 'hoster.com',
+        link: 'https://hoster.com/file',
+        filename: 'file.zip',
+        filesize: 1024000,
+        supported: 1,
+      }
+      mockClientInstance.post.mockResolvedValue({ data: mockResponse })
+
+      const result = await rdAPI.checkLink('https://hoster.com/file')
+
+      expect(result).toEqual(mockResponse)
+      expect(mockClientInstance.post).toHaveBeenCalledWith(
+        '/unrestrict/check',
+        expect.any(URLSearchParams),
+        {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        }
+      )
+    })
+
+    it('expands a hoster folder link', async () => {
+      const links = ['https://hoster.com/file/1', 'https://hoster.com/file/2']
+      mockClientInstance.post.mockResolvedValue({ data: links })
+
+      const result = await rdAPI.unrestrictFolder('https://hoster.com/folder/abc')
+
+      expect(result).toEqual(links)
+      expect(mockClientInstance.post).toHaveBeenCalledWith(
+        '/unrestrict/folder',
+        expect.any(URLSearchParams),
+        {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        }
+      )
+    })
   })
 
   describe('getTorrents with valid token', () => {
@@ -388,7 +939,18 @@ describe('RealDebridAPI', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
     })
 
@@ -437,6 +999,187 @@ describe('RealDebridAPI', () => {
     })
   })
 
+  describe('checkInstantAvailability with valid token', () => {
+    beforeEach(async () => {
+      const { storage } = await import('../storage')
+      vi.mocked(storage.getSettings).mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        contextMenuEnabled: false,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+        visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
+      })
+    })
+
+    it('requests availability for the given hash', async () => {
+      const mockResponse = {
+        abc123: { rd: [{ '1': { filename: 'file.mkv', filesize: 1024 } }] },
+      }
+      mockClientInstance.get.mockResolvedValue({ data: mockResponse })
+
+      const result = await rdAPI.checkInstantAvailability('abc123')
+
+      expect(result).toEqual(mockResponse)
+      expect(mockClientInstance.get).toHaveBeenCalledWith('/torrents/instantAvailability/abc123')
+    })
+
+    it('throws on API error', async () => {
+      mockClientInstance.get.mockRejectedValue(new Error('API Error'))
+
+      await expect(rdAPI.checkInstantAvailability('abc123')).rejects.toThrow('API Error')
+    })
+  })
+
+  describe('account endpoints with valid token', () => {
+    beforeEach(async () => {
+      const { storage } = await import('../storage')
+      vi.mocked(storage.getSettings).mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        contextMenuEnabled: false,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+        visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
+      })
+    })
+
+    it('returns the current user', async () => {
+      const mockUser = {
+        id: 42,
+        username: 'tester',
+        email: 'tester@example.com',
+        points: 1200,
+        locale: 'en',
+        avatar: 'https://example.com/avatar.png',
+        type: 'premium',
+        premium: 86400 * 30,
+        expiration: '2026-11-18T00:00:00.000Z',
+      }
+      mockClientInstance.get.mockResolvedValue({ data: mockUser })
+
+      const result = await rdAPI.getUser()
+
+      expect(result).toEqual(mockUser)
+      expect(mockClientInstance.get).toHaveBeenCalledWith('/user')
+      expect(mockClientInstance.defaults.headers.common['Authorization']).toBe('Bearer test-token')
+    })
+
+    it('returns traffic information', async () => {
+      const mockTraffic = {
+        'rapidgator.net': {
+          left: 1000,
+          bytes: 500,
+          links: 2,
+          limit: 1500,
+          type: 'bytes',
+          extra: 0,
+          reset: 'daily',
+        },
+      }
+      mockClientInstance.get.mockResolvedValue({ data: mockTraffic })
+
+      const result = await rdAPI.getTraffic()
+
+      expect(result).toEqual(mockTraffic)
+      expect(mockClientInstance.get).toHaveBeenCalledWith('/traffic')
+    })
+
+    it('requests traffic details for the default range', async () => {
+      mockClientInstance.get.mockResolvedValue({ data: {} })
+
+      await rdAPI.getTrafficDetails()
+
+      expect(mockClientInstance.get).toHaveBeenCalledWith('/traffic/details')
+    })
+
+    it('requests traffic details for a custom range', async () => {
+      const mockDetails = {
+        '2026-10-01': { host: { 'real-debrid.com': 2048 }, bytes: 2048 },
+      }
+      mockClientInstance.get.mockResolvedValue({ data: mockDetails })
+
+      const result = await rdAPI.getTrafficDetails('2026-10-01', '2026-10-07')
+
+      expect(result).toEqual(mockDetails)
+      expect(mockClientInstance.get).toHaveBeenCalledWith(
+        '/traffic/details?start=2026-10-01&end=2026-10-07'
+      )
+    })
+  })
+
+  describe('streaming endpoints with valid token', () => {
+    beforeEach(async () => {
+      const { storage } = await import('../storage')
+      vi.mocked(storage.getSettings).mockResolvedValue({
+        apiToken: 'test-token',
+        maxListSize: 10,
+        retryInterval: 30,
+        maxRetryDuration: 300,
+        contextMenuEnabled: false,
+        alwaysSaveAllFiles: false,
+        fileSelectionRules: DEFAULT_FILE_RULES,
+        aria2: DEFAULT_ARIA2_SETTINGS,
+        managedDownloads: false,
+        downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+        visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
+      })
+    })
+
+    it('returns the transcoded streams of a file', async () => {
+      const mockLinks = {
+        apple: { full: 'https://stream.real-debrid.com/t/ABC/full.m3u8' },
+        liveMP4: { full: 'https://stream.real-debrid.com/t/ABC/full.mp4' },
+      }
+      mockClientInstance.get.mockResolvedValue({ data: mockLinks })
+
+      const result = await rdAPI.getTranscodeLinks('ABC')
+
+      expect(result).toEqual(mockLinks)
+      expect(mockClientInstance.get).toHaveBeenCalledWith('/streaming/transcode/ABC')
+    })
+
+    it('returns the media details of a file', async () => {
+      mockClientInstance.get.mockResolvedValue({ data: { filename: 'Movie.mkv', duration: 5400 } })
+
+      const result = await rdAPI.getMediaInfos('ABC')
+
+      expect(result).toEqual({ filename: 'Movie.mkv', duration: 5400 })
+      expect(mockClientInstance.get).toHaveBeenCalledWith('/streaming/mediaInfos/ABC')
+    })
+  })
+
   describe('endpoints', () => {
     it('has correct base URL', () => {
       expect('https://api.real-debrid.com/rest/1.0').toBeTruthy()
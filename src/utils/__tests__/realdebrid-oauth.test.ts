@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import {
+  RD_OAUTH_CLIENT_ID,
+  requestDeviceCode,
+  getDeviceCredentials,
+  authorizeDevice,
+  refreshAccessToken,
+} from '../realdebrid-oauth'
+
+// Local stand-in for https://api.real-debrid.com/oauth/v2
+const mockServer = {
+  // Credential polls to answer with 403 before the device counts as approved
+  pendingPolls: 0,
+  tokenRequests: [] as URLSearchParams[],
+  tokenCount: 0,
+}
+
+function handleRequest(path: string, query: URLSearchParams, body: URLSearchParams) {
+  if (path === '/device/code' && query.get('client_id') === RD_OAUTH_CLIENT_ID) {
+    return {
+      status: 200,
+      data: {
+        device_code: 'DEVICE',
+        user_code: 'ABCD1234',
+        interval: 1,
+        expires_in: 60,
+        verification_url: 'https://real-debrid.com/device',
+      },
+    }
+  }
+  if (path === '/device/credentials' && query.get('code') === 'DEVICE') {
+    if (mockServer.pendingPolls > 0) {
+      mockServer.pendingPolls--
+      return { status: 403, data: { error: 'authorization_pending' } }
+    }
+    return { status: 200, data: { client_id: 'APP_ID', client_secret: 'APP_SECRET' } }
+  }
+  if (path === '/token') {
+    mockServer.tokenRequests.push(body)
+    const validClient =
+      body.get('client_id') === 'APP_ID' && body.get('client_secret') === 'APP_SECRET'
+    const validCode = body.get('code') === 'DEVICE' || body.get('code')?.startsWith('REFRESH_')
+    if (!validClient || !validCode) return { status: 400, data: { error: 'bad_request' } }
+    mockServer.tokenCount++
+    return {
+      status: 200,
+      data: {
+        access_token: `ACCESS_${mockServer.tokenCount}`,
+        refresh_token: `REFRESH_${mockServer.tokenCount}`,
+        expires_in: 3600,
+        token_type: 'Bearer',
+      },
+    }
+  }
+  return { status: 404, data: { error: 'unknown_ressource' } }
+}
+
+let server: Server
+let baseURL: string
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = ''
+    req.on('data', chunk => (raw += chunk))
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost')
+      const { status, data } = handleRequest(
+        url.pathname,
+        url.searchParams,
+        new URLSearchParams(raw)
+      )
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(data))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('realdebrid-oauth', () => {
+  beforeEach(() => {
+    mockServer.pendingPolls = 0
+    mockServer.tokenRequests = []
+    mockServer.tokenCount = 0
+  })
+
+  it('requests a device code for the open-source client id', async () => {
+    const code = await requestDeviceCode({ baseURL })
+
+    expect(code.user_code).toBe('ABCD1234')
+    expect(code.device_code).toBe('DEVICE')
+  })
+
+  it('reports pending approval as null', async () => {
+    mockServer.pendingPolls = 1
+
+    expect(await getDeviceCredentials('DEVICE', { baseURL })).toBeNull()
+    expect(await getDeviceCredentials('DEVICE', { baseURL })).toEqual({
+      client_id: 'APP_ID',
+      client_secret: 'APP_SECRET',
+    })
+  })
+
+  it('polls until the device is approved and exchanges the code for tokens', async () => {
+    mockServer.pendingPolls = 1
+    const code = await requestDeviceCode({ baseURL })
+
+    const credentials = await authorizeDevice(code, { baseURL })
+
+    expect(credentials).toMatchObject({
+      clientId: 'APP_ID',
+      clientSecret: 'APP_SECRET',
+      accessToken: 'ACCESS_1',
+      refreshToken: 'REFRESH_1',
+    })
+    expect(credentials.expiresAt).toBeGreaterThan(Date.now() + 3500 * 1000)
+    expect(mockServer.tokenRequests[0].get('grant_type')).toBe(
+      'http://oauth.net/grant_type/device/1.0'
+    )
+  })
+
+  it('stops polling when the login is cancelled', async () => {
+    mockServer.pendingPolls = 100
+    const controller = new AbortController()
+    const code = await requestDeviceCode({ baseURL })
+
+    const login = authorizeDevice(code, { baseURL, signal: controller.signal })
+    controller.abort()
+
+    await expect(login).rejects.toThrow('Login cancelled')
+  })
+
+  it('fails once the device code expires', async () => {
+    const code = await requestDeviceCode({ baseURL })
+
+    await expect(authorizeDevice({ ...code, expires_in: 0 }, { baseURL })).rejects.toThrow(
+      'expired'
+    )
+  })
+
+  it('refreshes the access token with the rotated refresh token', async () => {
+    const code = await requestDeviceCode({ baseURL })
+    const first = await authorizeDevice(code, { baseURL })
+
+    const second = await refreshAccessToken(first, { baseURL })
+
+    expect(mockServer.tokenRequests[1].get('code')).toBe('REFRESH_1')
+    expect(second).toMatchObject({ accessToken: 'ACCESS_2', refreshToken: 'REFRESH_2' })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { repairSettings, repairTorrentItem, validateTorrents } from '../schema'
+import type { TorrentItem } from '../types'
+
+const HASH = '0123456789abcdef0123456789abcdef01234567'
+
+const torrent: TorrentItem = {
+  id: 'RD1',
+  magnetLink: `magnet:?xt=urn:btih:${HASH}`,
+  hash: HASH,
+  filename: 'Movie.mkv',
+  downloadUrl: 'https://example.com/movie.mkv',
+  links: [{ url: 'https://example.com/movie.mkv', filename: 'Movie.mkv', selected: true }],
+  status: 'ready',
+  addedAt: 1000,
+  lastRetry: 1500,
+  retryCount: 2,
+}
+
+describe('schema', () => {
+  describe('repairSettings', () => {
+    const defaults = {
+      maxListSize: 10,
+      apiToken: null as string | null,
+      siteList: [] as string[],
+      rules: { enabled: false, minSizeMB: 0 },
+    }
+
+    it('keeps valid values and unknown keys', () => {
+      const stored = { maxListSize: 20, apiToken: 'TOKEN', siteList: ['a.com'], extra: 1 }
+
+      expect(repairSettings(defaults, stored)).toEqual({
+        ...stored,
+        rules: defaults.rules,
+      })
+    })
+
+    it('replaces values of the wrong type with their defaults', () => {
+      const repaired = repairSettings(defaults, {
+        maxListSize: '20',
+        apiToken: 42,
+        siteList: [1, 2],
+        rules: { enabled: 'yes' },
+      })
+
+      expect(repaired).toEqual(defaults)
+    })
+
+    it('fills in missing fields of nested settings', () => {
+      expect(repairSettings(defaults, { rules: { enabled: true } }).rules).toEqual({
+        enabled: true,
+        minSizeMB: 0,
+      })
+    })
+  })
+
+  describe('repairTorrentItem', () => {
+    it('leaves valid records unchanged', () => {
+      expect(repairTorrentItem(torrent)).toEqual(torrent)
+    })
+
+    it('backfills the hash from the magnet link', () => {
+      const withoutHash: Partial<TorrentItem> = { ...torrent }
+      delete withoutHash.hash
+
+      expect(repairTorrentItem(withoutHash)?.hash).toBe(HASH)
+    })
+
+    it('fills in missing and mistyped fields', () => {
+      expect(
+        repairTorrentItem({
+          id: 'RD2',
+          status: 'processing',
+          filename: null,
+          addedAt: 'yesterday',
+          retryCount: 1.5,
+          links: [{ url: 'https://example.com/a.mkv' }, 'broken'],
+          kind: 'unknown',
+        })
+      ).toEqual({
+        id: 'RD2',
+        status: 'processing',
+        magnetLink: '',
+        hash: '',
+        filename: 'RD2',
+        downloadUrl: null,
+        links: [
+          {
+            url: 'https://example.com/a.mkv',
+            filename: 'https://example.com/a.mkv',
+            selected: true,
+          },
+        ],
+        addedAt: 0,
+        lastRetry: 0,
+        retryCount: 0,
+      })
+    })
+
+    it('rejects records without an id or with an unknown status', () => {
+      expect(repairTorrentItem({ ...torrent, id: '' })).toBeNull()
+      expect(repairTorrentItem({ ...torrent, status: 'deleted' })).toBeNull()
+      expect(repairTorrentItem('RD1')).toBeNull()
+    })
+  })
+
+  describe('validateTorrents', () => {
+    it('splits repairable records from unusable ones', () => {
+      const broken = { id: 'RD3' }
+
+      expect(validateTorrents([torrent, broken, null])).toEqual({
+        torrents: [torrent],
+        quarantined: [broken, null],
+      })
+    })
+
+    it('treats anything but a list as empty', () => {
+      expect(validateTorrents(undefined)).toEqual({ torrents: [], quarantined: [] })
+      expect(validateTorrents({ 0: torrent })).toEqual({ torrents: [], quarantined: [] })
+    })
+  })
+})
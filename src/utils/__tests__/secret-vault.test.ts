@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createVaultSalt,
+  deriveVaultKey,
+  exportVaultKey,
+  importVaultKey,
+  openVault,
+  sealVault,
+} from '../secret-vault'
+
+// torrent-file (base64 helpers) imports the polyfill
+vi.mock('webextension-polyfill', () => ({ default: {} }))
+
+describe('secret-vault', () => {
+  it('round-trips a value with the same passphrase', async () => {
+    const salt = createVaultSalt()
+    const vault = await sealVault(await deriveVaultKey('passphrase', salt), salt, {
+      apiToken: 'secret-token',
+    })
+
+    const opened = await openVault(await deriveVaultKey('passphrase', vault.salt), vault)
+
+    expect(opened).toEqual({ apiToken: 'secret-token' })
+  })
+
+  it('does not store the value in the clear', async () => {
+    const salt = createVaultSalt()
+    const vault = await sealVault(await deriveVaultKey('passphrase', salt), salt, 'secret-token')
+
+    expect(atob(vault.data)).not.toContain('secret-token')
+  })
+
+  it('uses a fresh IV for every encryption', async () => {
+    const salt = createVaultSalt()
+    const key = await deriveVaultKey('passphrase', salt)
+
+    const first = await sealVault(key, salt, 'value')
+    const second = await sealVault(key, salt, 'value')
+
+    expect(first.iv).not.toBe(second.iv)
+    expect(first.data).not.toBe(second.data)
+  })
+
+  it('rejects a wrong passphrase', async () => {
+    const salt = createVaultSalt()
+    const vault = await sealVault(await deriveVaultKey('passphrase', salt), salt, 'value')
+
+    await expect(openVault(await deriveVaultKey('wrong', salt), vault)).rejects.toThrow(
+      'Wrong passphrase'
+    )
+  })
+
+  it('exports and imports the key for session storage', async () => {
+    const salt = createVaultSalt()
+    const key = await deriveVaultKey('passphrase', salt)
+    const vault = await sealVault(key, salt, 'value')
+
+    const imported = await importVaultKey(await exportVaultKey(key))
+
+    expect(await openVault(imported, vault)).toBe('value')
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normaliseSitePattern,
+  parseSiteList,
+  matchesSite,
+  isInterceptionAllowed,
+} from '../site-filter'
+
+describe('site-filter', () => {
+  describe('normaliseSitePattern', () => {
+    it('reduces urls and wildcards to a bare hostname', () => {
+      expect(normaliseSitePattern('https://Example.com/some/path?q=1')).toBe('example.com')
+      expect(normaliseSitePattern('*.example.com')).toBe('example.com')
+      expect(normaliseSitePattern('  tracker.example.org:8080 ')).toBe('tracker.example.org')
+    })
+
+    it('returns null for blank entries', () => {
+      expect(normaliseSitePattern('   ')).toBeNull()
+    })
+  })
+
+  describe('parseSiteList', () => {
+    it('splits on newlines and commas and drops duplicates', () => {
+      expect(parseSiteList('example.com\n\nhttps://example.com/, other.org')).toEqual([
+        'example.com',
+        'other.org',
+      ])
+    })
+  })
+
+  describe('matchesSite', () => {
+    it('matches the site and its subdomains', () => {
+      expect(matchesSite('example.com', 'example.com')).toBe(true)
+      expect(matchesSite('www.Example.com', 'example.com')).toBe(true)
+    })
+
+    it('does not match unrelated hosts sharing a suffix', () => {
+      expect(matchesSite('notexample.com', 'example.com')).toBe(false)
+    })
+  })
+
+  describe('isInterceptionAllowed', () => {
+    const base = {
+      interceptMagnetLinks: true,
+      interceptSiteMode: 'denylist' as const,
+      interceptSiteList: ['blocked.com'],
+    }
+
+    it('is disabled unless interception is turned on', () => {
+      expect(
+        isInterceptionAllowed('https://example.com/', { ...base, interceptMagnetLinks: false })
+      ).toBe(false)
+    })
+
+    it('skips listed sites in denylist mode', () => {
+      expect(isInterceptionAllowed('https://example.com/', base)).toBe(true)
+      expect(isInterceptionAllowed('https://www.blocked.com/t/1', base)).toBe(false)
+    })
+
+    it('only allows listed sites in allowlist mode', () => {
+      const settings = { ...base, interceptSiteMode: 'allowlist' as const }
+
+      expect(isInterceptionAllowed('https://blocked.com/', settings)).toBe(true)
+      expect(isInterceptionAllowed('https://example.com/', settings)).toBe(false)
+    })
+
+    it('rejects pages without a hostname or invalid urls', () => {
+      expect(isInterceptionAllowed('about:blank', base)).toBe(false)
+      expect(isInterceptionAllowed('', base)).toBe(false)
+    })
+  })
+})
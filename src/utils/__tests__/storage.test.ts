@@ -1,16 +1,24 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { storage, _testNotifySubscribers } from '../storage'
+import { storage, _testNotifySubscribers, DEFAULT_SETTINGS } from '../storage'
 
 // Mock webextension-polyfill - factory function to avoid hoisting issues
 vi.mock('webextension-polyfill', () => {
   const mockStorageSync = {
     get: vi.fn((defaults?: any) => Promise.resolve(defaults || {})),
     set: vi.fn(),
+    remove: vi.fn(),
   }
 
   const mockStorageLocal = {
     get: vi.fn(() => Promise.resolve({})),
     set: vi.fn(),
+    remove: vi.fn(),
+  }
+
+  const mockStorageSession = {
+    get: vi.fn(() => Promise.resolve({})),
+    set: vi.fn(),
+    remove: vi.fn(),
   }
 
   // Track listener
@@ -21,6 +29,7 @@ vi.mock('webextension-polyfill', () => {
       storage: {
         sync: mockStorageSync,
         local: mockStorageLocal,
+        session: mockStorageSession,
         onChanged: {
           addListener: vi.fn((callback: any) => {
             listenerCallback = callback
@@ -37,17 +46,30 @@ vi.mock('webextension-polyfill', () => {
     get mockStorageLocal() {
       return mockStorageLocal
     },
+    get mockStorageSession() {
+      return mockStorageSession
+    },
   }
 })
 
+// Mock the IndexedDB history archive
+vi.mock('../history-db', () => ({
+  archiveTorrents: vi.fn(() => Promise.resolve()),
+}))
+
 describe('storage', () => {
   beforeEach(async () => {
     vi.clearAllMocks()
     const webextension = await import('webextension-polyfill')
-    const { mockStorageSync, mockStorageLocal } = webextension as any
+    const { mockStorageSync, mockStorageLocal, mockStorageSession } = webextension as any
     // Reset mocks with fresh implementations
     mockStorageSync.get.mockImplementation((defaults?: any) => Promise.resolve(defaults || {}))
     mockStorageLocal.get.mockImplementation(() => Promise.resolve({}))
+    mockStorageLocal.set.mockImplementation(() => Promise.resolve())
+    mockStorageLocal.remove.mockImplementation(() => Promise.resolve())
+    mockStorageSession.get.mockImplementation(() => Promise.resolve({}))
+    mockStorageSession.set.mockImplementation(() => Promise.resolve())
+    mockStorageSession.remove.mockImplementation(() => Promise.resolve())
   })
 
   describe('getSettings', () => {
@@ -61,7 +83,32 @@ describe('storage', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: {
+          enabled: false,
+          extensions: [],
+          minSizeMB: 0,
+          largestOnly: false,
+          include: '',
+          exclude: '',
+        },
+        aria2: {
+          enabled: false,
+          rpcUrl: 'http://localhost:6800/jsonrpc',
+          secret: '',
+          dir: '',
+          perTorrentFolder: true,
+          autoSend: false,
+        },
+        managedDownloads: false,
+        downloadFilenameTemplate: '{torrentName}/{filePath}',
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       })
     })
 
@@ -80,7 +127,8 @@ describe('storage', () => {
 
       const settings = await storage.getSettings()
 
-      expect(settings).toEqual(storedSettings)
+      // Settings missing from storage fall back to their defaults
+      expect(settings).toEqual({ ...DEFAULT_SETTINGS, ...storedSettings })
     })
 
     it('merges stored settings with defaults', async () => {
@@ -100,6 +148,54 @@ describe('storage', () => {
       expect(settings.retryInterval).toBe(30)
       expect(settings.maxRetryDuration).toBe(300)
     })
+
+    it('reads the API tokens from local storage', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      const accounts = [{ id: 'acc-2', name: 'Backup', apiToken: 'backup-token' }]
+      mockStorageLocal.get.mockResolvedValueOnce({ apiToken: 'local-token', accounts })
+
+      const settings = await storage.getSettings()
+
+      expect(settings.apiToken).toBe('local-token')
+      expect(settings.accounts).toEqual(accounts)
+    })
+
+    it('reports the OAuth access token as the API token while logged in', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.get.mockResolvedValueOnce({
+        apiToken: 'pasted-token',
+        oauthCredentials: { accessToken: 'ACCESS', expiresAt: 1000 },
+      })
+
+      const settings = await storage.getSettings()
+
+      expect(settings.apiToken).toBe('ACCESS')
+    })
+    it('replaces stored values of the wrong type with their defaults', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageSync } = webextension as any
+      mockStorageSync.get.mockImplementationOnce((defaults?: any) =>
+        Promise.resolve({
+          ...defaults,
+          maxListSize: '20',
+          interceptSiteList: 'example.com',
+          aria2: { ...defaults.aria2, enabled: 'yes' },
+          fileSelectionRules: { enabled: true },
+        })
+      )
+
+      const settings = await storage.getSettings()
+
+      expect(settings.maxListSize).toBe(10)
+      expect(settings.interceptSiteList).toEqual([])
+      expect(settings.aria2).toEqual(DEFAULT_SETTINGS.aria2)
+      expect(settings.fileSelectionRules).toEqual({
+        ...DEFAULT_SETTINGS.fileSelectionRules,
+        enabled: true,
+      })
+    })
   })
 
   describe('saveSettings', () => {
@@ -108,14 +204,14 @@ describe('storage', () => {
       const { mockStorageSync } = webextension as any
       mockStorageSync.set.mockResolvedValue(undefined)
 
-      await storage.saveSettings({ apiToken: 'new-token' })
+      await storage.saveSettings({ maxListSize: 25 })
 
-      expect(mockStorageSync.set).toHaveBeenCalledWith({ apiToken: 'new-token' })
+      expect(mockStorageSync.set).toHaveBeenCalledWith({ maxListSize: 25 })
     })
 
-    it('saves multiple settings at once', async () => {
+    it('keeps the API token out of browser.storage.sync', async () => {
       const webextension = await import('webextension-polyfill')
-      const { mockStorageSync } = webextension as any
+      const { mockStorageSync, mockStorageLocal } = webextension as any
       mockStorageSync.set.mockResolvedValue(undefined)
 
       await storage.saveSettings({
@@ -123,10 +219,174 @@ describe('storage', () => {
         maxListSize: 25,
       })
 
-      expect(mockStorageSync.set).toHaveBeenCalledWith({
-        apiToken: 'new-token',
-        maxListSize: 25,
+      expect(mockStorageSync.set).toHaveBeenCalledWith({ maxListSize: 25 })
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({ apiToken: 'new-token' })
+    })
+
+    it('does not touch sync storage when only tokens change', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageSync, mockStorageLocal } = webextension as any
+
+      await storage.saveSettings({ accounts: [] })
+
+      expect(mockStorageSync.set).not.toHaveBeenCalled()
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({ accounts: [] })
+    })
+  })
+
+  describe('migrateSyncedSecrets', () => {
+    it('moves API tokens from sync to local storage', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageSync, mockStorageLocal } = webextension as any
+      mockStorageSync.get.mockResolvedValueOnce({ apiToken: 'synced-token' })
+
+      await storage.migrateSyncedSecrets()
+
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({ apiToken: 'synced-token' })
+      expect(mockStorageSync.remove).toHaveBeenCalledWith(['apiToken'])
+    })
+
+    it('keeps a token already stored locally', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageSync, mockStorageLocal } = webextension as any
+      mockStorageSync.get.mockResolvedValueOnce({ apiToken: 'synced-token' })
+      mockStorageLocal.get.mockResolvedValueOnce({ apiToken: 'local-token' })
+
+      await storage.migrateSyncedSecrets()
+
+      expect(mockStorageLocal.set).not.toHaveBeenCalled()
+      expect(mockStorageSync.remove).toHaveBeenCalledWith(['apiToken'])
+    })
+
+    it('does nothing once migrated', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageSync, mockStorageLocal } = webextension as any
+      mockStorageSync.get.mockResolvedValueOnce({})
+
+      await storage.migrateSyncedSecrets()
+
+      expect(mockStorageLocal.set).not.toHaveBeenCalled()
+      expect(mockStorageSync.remove).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('token encryption', () => {
+    // Back the local and session areas with plain objects so reads see earlier writes
+    async function useMemoryStorage(local: Record<string, unknown>) {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal, mockStorageSession } = webextension as any
+      const session: Record<string, unknown> = {}
+      for (const [mock, data] of [
+        [mockStorageLocal, local],
+        [mockStorageSession, session],
+      ] as const) {
+        mock.get.mockImplementation((keys: string | string[]) =>
+          Promise.resolve(
+            Object.fromEntries(
+              [keys]
+                .flat()
+                .filter(key => key in data)
+                .map(key => [key, data[key]])
+            )
+          )
+        )
+        mock.set.mockImplementation((items: Record<string, unknown>) => {
+          Object.assign(data, items)
+          return Promise.resolve()
+        })
+        mock.remove.mockImplementation((keys: string | string[]) => {
+          for (const key of [keys].flat()) delete data[key]
+          return Promise.resolve()
+        })
+      }
+      return { local, session }
+    }
+
+    it('replaces the plain token with an encrypted vault', async () => {
+      const { local } = await useMemoryStorage({ apiToken: 'secret-token' })
+
+      await storage.encryptTokens('correct horse')
+
+      expect(local.apiToken).toBeUndefined()
+      expect(local.secretVault).toEqual({
+        salt: expect.any(String),
+        iv: expect.any(String),
+        data: expect.any(String),
       })
+      expect(JSON.stringify(local)).not.toContain('secret-token')
+      expect(await storage.getTokenLockState()).toBe('unlocked')
+      expect((await storage.getSettings()).apiToken).toBe('secret-token')
+    })
+
+    it('hides the token until unlocked with the passphrase', async () => {
+      await useMemoryStorage({ apiToken: 'secret-token' })
+      await storage.encryptTokens('correct horse')
+      await storage.lockTokens()
+
+      expect(await storage.getTokenLockState()).toBe('locked')
+      expect((await storage.getSettings()).apiToken).toBeNull()
+      await expect(storage.unlockTokens('wrong')).rejects.toThrow('Wrong passphrase')
+
+      await storage.unlockTokens('correct horse')
+
+      expect((await storage.getSettings()).apiToken).toBe('secret-token')
+    })
+
+    it('re-encrypts tokens saved while unlocked', async () => {
+      const { local } = await useMemoryStorage({ apiToken: 'secret-token' })
+      await storage.encryptTokens('correct horse')
+
+      await storage.saveSettings({ apiToken: 'new-token' })
+      await storage.lockTokens()
+      await storage.unlockTokens('correct horse')
+
+      expect(local.apiToken).toBeUndefined()
+      expect((await storage.getSettings()).apiToken).toBe('new-token')
+    })
+
+    it('refuses to save tokens while locked', async () => {
+      await useMemoryStorage({ apiToken: 'secret-token' })
+      await storage.encryptTokens('correct horse')
+      await storage.lockTokens()
+
+      await expect(storage.saveSettings({ apiToken: 'new-token' })).rejects.toThrow(
+        'API tokens are locked'
+      )
+    })
+
+    it('stores the token in plain local storage again when encryption is removed', async () => {
+      const { local } = await useMemoryStorage({ apiToken: 'secret-token' })
+      await storage.encryptTokens('correct horse')
+
+      await storage.decryptTokens()
+
+      expect(local).toEqual({ apiToken: 'secret-token', accounts: [], oauthCredentials: null })
+      expect(await storage.getTokenLockState()).toBe('plain')
+    })
+
+    it('seals the OAuth login with the tokens', async () => {
+      const credentials = {
+        clientId: 'APP_ID',
+        clientSecret: 'APP_SECRET',
+        accessToken: 'ACCESS',
+        refreshToken: 'REFRESH',
+        expiresAt: 1000,
+      }
+      const { local } = await useMemoryStorage({ oauthCredentials: credentials })
+      await storage.encryptTokens('correct horse')
+      await storage.lockTokens()
+
+      for (const secret of ['APP_SECRET', 'ACCESS', 'REFRESH']) {
+        expect(JSON.stringify(local)).not.toContain(secret)
+      }
+      expect(await storage.getOAuthCredentials()).toBeNull()
+      await expect(storage.saveOAuthCredentials(credentials)).rejects.toThrow(
+        'API tokens are locked'
+      )
+
+      await storage.unlockTokens('correct horse')
+
+      expect(await storage.getOAuthCredentials()).toEqual(credentials)
     })
   })
 
@@ -156,7 +416,86 @@ describe('storage', () => {
 
       const torrents = await storage.getTorrents()
 
-      expect(torrents).toEqual(mockTorrents)
+      // The magnet has no info hash to backfill from
+      expect(torrents).toEqual([{ ...mockTorrents[0], hash: '' }])
+    })
+
+    it('repairs stored records and leaves out unusable ones', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.get.mockResolvedValueOnce({
+        torrents: [
+          {
+            id: '1',
+            magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+            filename: 'test.torrent',
+            status: 'ready',
+            addedAt: 1000,
+          },
+          { id: '2', status: 'unknown' },
+          'broken',
+        ],
+      })
+
+      const torrents = await storage.getTorrents()
+
+      expect(torrents).toEqual([
+        {
+          id: '1',
+          magnetLink: 'magnet:?xt=urn:btih:0123456789abcdef0123456789abcdef01234567',
+          hash: '0123456789abcdef0123456789abcdef01234567',
+          filename: 'test.torrent',
+          downloadUrl: null,
+          status: 'ready',
+          addedAt: 1000,
+          lastRetry: 1000,
+          retryCount: 0,
+        },
+      ])
+    })
+  })
+
+  describe('quarantineTorrents', () => {
+    it('appends records to the quarantine', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      const existing = { record: { id: 'old' }, quarantinedAt: 500 }
+      mockStorageLocal.get.mockResolvedValueOnce({ quarantinedTorrents: [existing] })
+      mockStorageLocal.set.mockResolvedValue(undefined)
+
+      await storage.quarantineTorrents([{ id: 'new' }])
+
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({
+        quarantinedTorrents: [
+          existing,
+          { record: { id: 'new' }, quarantinedAt: expect.any(Number) },
+        ],
+      })
+    })
+
+    it('does nothing without records', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+
+      await storage.quarantineTorrents([])
+
+      expect(mockStorageLocal.set).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('schema version', () => {
+    it('is 0 before versioning', async () => {
+      expect(await storage.getSchemaVersion()).toBe(0)
+    })
+
+    it('saves the version to local storage', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.set.mockResolvedValue(undefined)
+
+      await storage.setSchemaVersion(2)
+
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({ schemaVersion: 2 })
     })
   })
 
@@ -208,6 +547,50 @@ describe('storage', () => {
       const savedTorrents = mockStorageLocal.set.mock.calls[0][0].torrents as any[]
       expect(savedTorrents).toHaveLength(2)
     })
+
+    it('archives the torrents dropped from the list', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageSync } = webextension as any
+      const { archiveTorrents } = await import('../history-db')
+      mockStorageSync.get.mockResolvedValueOnce({ maxListSize: 1 })
+      const torrent = (id: string) => ({
+        id,
+        magnetLink: '',
+        hash: '',
+        filename: `${id}.mkv`,
+        downloadUrl: null,
+        status: 'ready' as const,
+        addedAt: 1000,
+        lastRetry: 1000,
+        retryCount: 0,
+      })
+
+      await storage.saveTorrents([torrent('new'), torrent('old')])
+
+      expect(archiveTorrents).toHaveBeenCalledWith([torrent('old')])
+    })
+
+    it('still saves the list when archiving fails', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageSync, mockStorageLocal } = webextension as any
+      const { archiveTorrents } = await import('../history-db')
+      mockStorageSync.get.mockResolvedValueOnce({ maxListSize: 1 })
+      vi.mocked(archiveTorrents).mockRejectedValueOnce(new Error('IndexedDB unavailable'))
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      await storage.saveTorrents([{ id: 'a' }, { id: 'b' }] as any)
+
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({ torrents: [{ id: 'a' }] })
+      consoleSpy.mockRestore()
+    })
+
+    it('does not touch the archive when nothing is dropped', async () => {
+      const { archiveTorrents } = await import('../history-db')
+
+      await storage.saveTorrents([])
+
+      expect(archiveTorrents).not.toHaveBeenCalled()
+    })
   })
 
   describe('addTorrent', () => {
@@ -248,6 +631,106 @@ describe('storage', () => {
     })
   })
 
+  describe('torrent mutations', () => {
+    const createTorrent = (id: string) => ({
+      id,
+      magnetLink: '',
+      hash: '',
+      filename: `${id}.mkv`,
+      downloadUrl: null,
+      status: 'processing' as const,
+      addedAt: 1000,
+      lastRetry: 1000,
+      retryCount: 0,
+    })
+
+    // Local storage that keeps what is written to it
+    const useLocalArea = async (data: Record<string, unknown>) => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.get.mockImplementation(async (keys?: any) => {
+        const key = typeof keys === 'string' ? keys : Object.keys(keys ?? {})[0]
+        return key in data ? { [key]: data[key] } : {}
+      })
+      mockStorageLocal.set.mockImplementation(async (items: Record<string, unknown>) => {
+        Object.assign(data, items)
+      })
+      return mockStorageLocal
+    }
+
+    it('runs concurrent mutations one after another on fresh data', async () => {
+      const data: Record<string, unknown> = { torrents: [createTorrent('1')] }
+      await useLocalArea(data)
+
+      await Promise.all([
+        storage.addTorrent(createTorrent('2')),
+        storage.updateTorrent('1', { status: 'ready' }),
+        storage.updateTorrent('2', torrent => ({ retryCount: torrent.retryCount + 1 })),
+      ])
+
+      expect(data.torrents).toEqual([
+        { ...createTorrent('2'), retryCount: 1 },
+        { ...createTorrent('1'), status: 'ready' },
+      ])
+    })
+
+    it('keeps running after a failed mutation', async () => {
+      const data: Record<string, unknown> = { torrents: [createTorrent('1')] }
+      await useLocalArea(data)
+
+      const failed = storage.mutateTorrents(() => {
+        throw new Error('Broken mutation')
+      })
+      const removed = storage.removeTorrent('1')
+
+      await expect(failed).rejects.toThrow('Broken mutation')
+      await removed
+      expect(data.torrents).toEqual([])
+    })
+
+    it('updates mirrored account torrents and skips missing ids', async () => {
+      const data: Record<string, unknown> = {
+        torrents: [createTorrent('1')],
+        accountTorrents: [createTorrent('RD1')],
+      }
+      const mockStorageLocal = await useLocalArea(data)
+
+      const updated = await storage.updateTorrents({
+        RD1: { downloadUrl: 'https://example.com/a.mkv' },
+        gone: { status: 'ready' },
+      })
+
+      expect(updated).toEqual([
+        { ...createTorrent('RD1'), downloadUrl: 'https://example.com/a.mkv' },
+      ])
+      expect(data.accountTorrents).toEqual(updated)
+      // The tracked list had nothing to update
+      expect(mockStorageLocal.set).not.toHaveBeenCalledWith(
+        expect.objectContaining({ torrents: expect.anything() })
+      )
+      expect(await storage.updateTorrent('gone', { status: 'ready' })).toBeNull()
+    })
+
+    it('quarantines unusable records when the list is next written', async () => {
+      const broken = { id: 'RD2', status: 'gone' }
+      const data: Record<string, unknown> = {
+        torrents: [createTorrent('1'), broken],
+        accountTorrents: [broken],
+      }
+      await useLocalArea(data)
+
+      await storage.updateTorrent('missing', { status: 'ready' })
+      await storage.updateTorrent('missing', { status: 'ready' })
+
+      expect(data.torrents).toEqual([createTorrent('1')])
+      expect(data.accountTorrents).toEqual([])
+      expect(data.quarantinedTorrents).toEqual([
+        { record: broken, quarantinedAt: expect.any(Number) },
+        { record: broken, quarantinedAt: expect.any(Number) },
+      ])
+    })
+  })
+
   describe('removeTorrent', () => {
     it('removes torrent by id', async () => {
       const webextension = await import('webextension-polyfill')
@@ -570,6 +1053,122 @@ describe('storage', () => {
     })
   })
 
+  describe('getAvailabilityCache', () => {
+    it('returns empty cache when storage is empty', async () => {
+      const cache = await storage.getAvailabilityCache()
+
+      expect(cache).toEqual({})
+    })
+
+    it('returns stored availability cache', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      const availabilityCache = { abc: { cached: true, checkedAt: 1 } }
+      mockStorageLocal.get.mockResolvedValueOnce({ availabilityCache })
+
+      const cache = await storage.getAvailabilityCache()
+
+      expect(cache).toEqual(availabilityCache)
+    })
+  })
+
+  describe('setHashAvailability', () => {
+    it('stores lowercased hash with timestamp', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.set.mockResolvedValue(undefined)
+
+      await storage.setHashAvailability('ABCDEF', true)
+
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({
+        availabilityCache: { abcdef: { cached: true, checkedAt: expect.any(Number) } },
+      })
+      expect(storage.getCache().availabilityCache.abcdef.cached).toBe(true)
+    })
+
+    it('drops the oldest entries when the cache is full', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.set.mockResolvedValue(undefined)
+      const availabilityCache = Object.fromEntries(
+        Array.from({ length: 500 }, (_, i) => [`hash-${i}`, { cached: false, checkedAt: i + 1 }])
+      )
+      mockStorageLocal.get.mockResolvedValueOnce({ availabilityCache })
+
+      await storage.setHashAvailability('newest', true)
+
+      const saved = mockStorageLocal.set.mock.calls[0][0].availabilityCache
+      expect(Object.keys(saved)).toHaveLength(500)
+      expect(saved.newest).toBeDefined()
+      expect(saved['hash-0']).toBeUndefined()
+      expect(saved['hash-499']).toBeDefined()
+    })
+  })
+
+  describe('torrent progress', () => {
+    it('returns empty progress when storage is empty', async () => {
+      expect(await storage.getTorrentProgress()).toEqual({})
+    })
+
+    it('saves progress and updates the cache', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.set.mockResolvedValue(undefined)
+      const torrentProgress = { 'torrent-1': { progress: 40, status: 'downloading' as const } }
+
+      await storage.saveTorrentProgress(torrentProgress)
+
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({ torrentProgress })
+      expect(storage.getCache().torrentProgress).toEqual(torrentProgress)
+    })
+  })
+
+  describe('account torrents', () => {
+    const accountTorrent = {
+      id: 'RD1',
+      source: 'account' as const,
+      magnetLink: 'magnet:?xt=urn:btih:abc',
+      hash: 'abc',
+      filename: 'account.mkv',
+      downloadUrl: null,
+      status: 'ready' as const,
+      addedAt: 1000,
+      lastRetry: 1000,
+      retryCount: 0,
+    }
+
+    it('returns an empty list when nothing was synced', async () => {
+      expect(await storage.getAccountTorrents()).toEqual([])
+    })
+
+    it('saves account torrents with the sync time and updates the cache', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.set.mockResolvedValue(undefined)
+
+      await storage.saveAccountTorrents([accountTorrent])
+
+      expect(mockStorageLocal.set).toHaveBeenCalledWith({
+        accountTorrents: [accountTorrent],
+        accountSyncedAt: expect.any(Number),
+      })
+      expect(storage.getCache().accountTorrents).toEqual([accountTorrent])
+    })
+
+    it('removeTorrent also removes a mirrored account torrent', async () => {
+      const webextension = await import('webextension-polyfill')
+      const { mockStorageLocal } = webextension as any
+      mockStorageLocal.get.mockImplementation(async (keys?: any) =>
+        keys === 'torrents' ? { torrents: [] } : { accountTorrents: [accountTorrent] }
+      )
+      mockStorageLocal.set.mockResolvedValue(undefined)
+
+      await storage.removeTorrent('RD1')
+
+      expect(mockStorageLocal.set).toHaveBeenLastCalledWith({ accountTorrents: [] })
+    })
+  })
+
   describe('getDarkMode', () => {
     it('returns dark mode from dashboard settings', async () => {
       const webextension = await import('webextension-polyfill')
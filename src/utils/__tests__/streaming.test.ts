@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { buildM3uPlaylist, buildStreamUrl, getStreamVariants, getTrackOptions } from '../streaming'
+import type { RdMediaInfos } from '../types'
+
+const links = {
+  apple: { full: 'https://stream.real-debrid.com/t/ABC/eng1/none/aac/full.m3u8' },
+  dash: { full: 'https://stream.real-debrid.com/t/ABC/eng1/none/aac/full.mpd' },
+  liveMP4: {
+    full: 'https://stream.real-debrid.com/t/ABC/eng1/none/aac/full.mp4',
+    '720p': 'https://stream.real-debrid.com/t/ABC/eng1/none/aac/720p.mp4',
+  },
+}
+
+const infos = {
+  filename: 'Movie.mkv',
+  duration: 5400.4,
+  details: {
+    audio: {
+      eng1: { stream: '0:1', lang: 'English', lang_iso: 'eng', codec: 'ac3' },
+      fre1: { stream: '0:2', lang: 'French', lang_iso: 'fre', codec: 'aac' },
+    },
+    subtitles: {
+      eng1: { stream: '0:3', lang: '', lang_iso: 'eng', type: 'SRT' },
+    },
+  },
+  availableFormats: { apple: 'm3u8', dash: 'mpd', liveMP4: 'mp4', h264WebM: 'webm' },
+  modelUrl:
+    'https://stream.real-debrid.com/t/ABC/{audio}/{subtitles}/{audioCodec}/{quality}.{format}',
+} as unknown as RdMediaInfos
+
+describe('getStreamVariants', () => {
+  it('lists the MP4 and HLS streams', () => {
+    expect(getStreamVariants(links)).toEqual([
+      { format: 'liveMP4', quality: 'full', url: links.liveMP4.full },
+      { format: 'liveMP4', quality: '720p', url: links.liveMP4['720p'] },
+      { format: 'apple', quality: 'full', url: links.apple.full },
+    ])
+  })
+})
+
+describe('getTrackOptions', () => {
+  it('labels tracks with their language and codec', () => {
+    expect(getTrackOptions(infos.details.audio)).toEqual([
+      { id: 'eng1', label: 'English (ac3)' },
+      { id: 'fre1', label: 'French (aac)' },
+    ])
+    expect(getTrackOptions(infos.details.subtitles)).toEqual([{ id: 'eng1', label: 'eng (SRT)' }])
+    expect(getTrackOptions(undefined)).toEqual([])
+  })
+})
+
+describe('buildStreamUrl', () => {
+  const variants = getStreamVariants(links)
+
+  it('fills in the chosen tracks', () => {
+    expect(
+      buildStreamUrl(variants, infos, {
+        format: 'apple',
+        quality: 'full',
+        audio: 'fre1',
+        subtitles: 'eng1',
+      })
+    ).toBe('https://stream.real-debrid.com/t/ABC/fre1/eng1/aac/full.m3u8')
+  })
+
+  it('defaults to the first audio track without subtitles', () => {
+    expect(buildStreamUrl(variants, infos, { format: 'liveMP4', quality: '720p' })).toBe(
+      'https://stream.real-debrid.com/t/ABC/eng1/none/aac/720p.mp4'
+    )
+  })
+
+  it('uses the transcoded URL without media infos', () => {
+    expect(buildStreamUrl(variants, null, { format: 'liveMP4', quality: 'full' })).toBe(
+      links.liveMP4.full
+    )
+  })
+
+  it('returns null for a missing stream', () => {
+    expect(buildStreamUrl(variants, infos, { format: 'apple', quality: '720p' })).toBeNull()
+  })
+})
+
+describe('buildM3uPlaylist', () => {
+  it('lists each stream with its title and duration', () => {
+    expect(
+      buildM3uPlaylist([
+        { title: 'Movie.mkv', url: links.liveMP4.full, duration: infos.duration },
+        { title: 'Extra\nScene.mkv', url: links.apple.full },
+      ])
+    ).toBe(
+      [
+        '#EXTM3U',
+        '#EXTINF:5400,Movie.mkv',
+        links.liveMP4.full,
+        '#EXTINF:-1,Extra Scene.mkv',
+        links.apple.full,
+        '',
+      ].join('\n')
+    )
+  })
+})
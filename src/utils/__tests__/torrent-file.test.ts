@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import browser from 'webextension-polyfill'
+import {
+  parseTorrentFile,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  isTorrentFile,
+  sendTorrentFile,
+  MAX_TORRENT_FILE_SIZE,
+} from '../torrent-file'
+
+// Mock webextension-polyfill
+vi.mock('webextension-polyfill', () => ({
+  default: {
+    runtime: {
+      sendMessage: vi.fn(),
+    },
+  },
+}))
+
+const INFO = `d6:lengthi1024e4:name8:test.bin12:piece lengthi16384e6:pieces20:${'a'.repeat(20)}e`
+// sha1 of INFO
+const INFO_HASH = '4e649c4fab84c8a840933785cd41848d7fcc5d73'
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer
+
+describe('torrent-file', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('parseTorrentFile', () => {
+    it('computes the info hash from the raw info dictionary', async () => {
+      const torrent = encode(`d8:announce19:udp://tracker:80/an4:info${INFO}e`)
+
+      const result = await parseTorrentFile(torrent)
+
+      expect(result).toEqual({ hash: INFO_HASH, name: 'test.bin' })
+    })
+
+    it('skips nested lists and dictionaries before the info key', async () => {
+      const torrent = encode(`d13:announce-listll3:abcel3:defee7:commentd1:xi1ee4:info${INFO}e`)
+
+      expect((await parseTorrentFile(torrent)).hash).toBe(INFO_HASH)
+    })
+
+    it('prefers name.utf-8 over name', async () => {
+      const info = 'd4:name3:abc10:name.utf-89:été.txte'
+      const torrent = encode(`d4:info${info}e`)
+
+      expect((await parseTorrentFile(torrent)).name).toBe('été.txt')
+    })
+
+    it('throws when there is no info dictionary', async () => {
+      await expect(parseTorrentFile(encode('d8:announce3:abce'))).rejects.toThrow(
+        'Torrent file has no info dictionary'
+      )
+    })
+
+    it('throws for data that is not bencoded', async () => {
+      await expect(parseTorrentFile(encode('<html></html>'))).rejects.toThrow()
+      await expect(parseTorrentFile(encode(`d4:info${INFO.slice(0, 20)}`))).rejects.toThrow()
+    })
+  })
+
+  describe('base64 helpers', () => {
+    it('round-trips binary data', () => {
+      const bytes = new Uint8Array([0, 1, 127, 128, 255])
+
+      const decoded = base64ToArrayBuffer(arrayBufferToBase64(bytes.buffer))
+
+      expect(Array.from(new Uint8Array(decoded))).toEqual([0, 1, 127, 128, 255])
+    })
+  })
+
+  describe('isTorrentFile', () => {
+    it('accepts .torrent extensions and the bittorrent mime type', () => {
+      expect(isTorrentFile(new File([], 'Movie.TORRENT'))).toBe(true)
+      expect(isTorrentFile(new File([], 'download', { type: 'application/x-bittorrent' }))).toBe(
+        true
+      )
+    })
+
+    it('rejects other files', () => {
+      expect(isTorrentFile(new File([], 'notes.txt', { type: 'text/plain' }))).toBe(false)
+    })
+  })
+
+  describe('sendTorrentFile', () => {
+    it('sends the file contents as base64 to the background', async () => {
+      vi.mocked(browser.runtime.sendMessage).mockResolvedValue({ success: true })
+      const file = new File([INFO], 'test.torrent')
+
+      const result = await sendTorrentFile(file)
+
+      expect(result).toEqual({ success: true })
+      expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'ADD_TORRENT_FILE',
+        fileData: arrayBufferToBase64(encode(INFO)),
+        fileName: 'test.torrent',
+      })
+    })
+
+    it('rejects files that are too large without messaging the background', async () => {
+      const file = new File([], 'huge.torrent')
+      Object.defineProperty(file, 'size', { value: MAX_TORRENT_FILE_SIZE + 1 })
+
+      const result = await sendTorrentFile(file)
+
+      expect(result.error).toBe('huge.torrent is too large to be a .torrent file')
+      expect(browser.runtime.sendMessage).not.toHaveBeenCalled()
+    })
+  })
+})
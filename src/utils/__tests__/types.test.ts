@@ -89,7 +89,32 @@ describe('types', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: {
+          enabled: false,
+          extensions: [],
+          minSizeMB: 0,
+          largestOnly: false,
+          include: '',
+          exclude: '',
+        },
+        aria2: {
+          enabled: false,
+          rpcUrl: 'http://localhost:6800/jsonrpc',
+          secret: '',
+          dir: '',
+          perTorrentFolder: true,
+          autoSend: false,
+        },
+        managedDownloads: false,
+        downloadFilenameTemplate: '{torrentName}/{filePath}',
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       }
       expect(settings.maxListSize).toBe(10)
       expect(settings.apiToken).toBe('test-token')
@@ -103,7 +128,32 @@ describe('types', () => {
         maxRetryDuration: 300,
         contextMenuEnabled: false,
         alwaysSaveAllFiles: false,
+        fileSelectionRules: {
+          enabled: false,
+          extensions: [],
+          minSizeMB: 0,
+          largestOnly: false,
+          include: '',
+          exclude: '',
+        },
+        aria2: {
+          enabled: false,
+          rpcUrl: 'http://localhost:6800/jsonrpc',
+          secret: '',
+          dir: '',
+          perTorrentFolder: true,
+          autoSend: false,
+        },
+        managedDownloads: false,
+        downloadFilenameTemplate: '{torrentName}/{filePath}',
         visibleTorrentsCount: 5,
+        confirmUncachedTorrents: false,
+        interceptMagnetLinks: false,
+        interceptAction: 'add',
+        interceptSiteMode: 'denylist',
+        interceptSiteList: [],
+        accounts: [],
+        activeAccountId: null,
       }
       expect(settings.apiToken).toBeNull()
     })
@@ -0,0 +1,148 @@
+import axios from 'axios'
+import { formatDownloadFilename } from './downloads'
+import { getItemLinks, type ExportItem } from './link-export'
+import type { Aria2Settings } from './types'
+
+export const DEFAULT_ARIA2_SETTINGS: Aria2Settings = {
+  enabled: false,
+  rpcUrl: 'http://localhost:6800/jsonrpc',
+  secret: '',
+  dir: '',
+  perTorrentFolder: true,
+  autoSend: false,
+}
+
+type Aria2Connection = Pick<Aria2Settings, 'rpcUrl' | 'secret'>
+
+interface Aria2Response<T> {
+  id: string
+  jsonrpc: '2.0'
+  result?: T
+  error?: { code: number; message: string }
+}
+
+let requestId = 0
+
+/**
+ * aria2 rejected a download after others of the same item were queued
+ *
+ * `sentUrls` lists the links that did get queued, so a later send can skip them.
+ */
+export class Aria2SendError extends Error {
+  readonly sentUrls: string[]
+
+  constructor(message: string, sentUrls: string[]) {
+    super(message)
+    this.name = 'Aria2SendError'
+    this.sentUrls = sentUrls
+  }
+}
+
+/**
+ * Call an aria2 JSON-RPC method
+ *
+ * The secret is sent as the leading `token:` parameter, as aria2 expects.
+ *
+ * @throws Error with aria2's message (e.g. `aria2: Unauthorized`), or when the
+ *   server can't be reached
+ */
+export async function callAria2<T>(
+  connection: Aria2Connection,
+  method: string,
+  params: unknown[] = []
+): Promise<T> {
+  const body = {
+    jsonrpc: '2.0',
+    id: `rd-handler-${++requestId}`,
+    method,
+    params: connection.secret ? [`token:${connection.secret}`, ...params] : params,
+  }
+
+  let data: Aria2Response<T>
+  try {
+    data = (await axios.post<Aria2Response<T>>(connection.rpcUrl, body)).data
+  } catch (error) {
+    // aria2 answers failed calls with an HTTP error status and a JSON-RPC error body
+    const response = (error as { response?: { data?: Aria2Response<T> } }).response
+    if (!response?.data?.error?.message) {
+      throw new Error(`Could not reach aria2 at ${connection.rpcUrl}`)
+    }
+    data = response.data
+  }
+
+  if (data.error) {
+    throw new Error(`aria2: ${data.error.message}`)
+  }
+  return data.result as T
+}
+
+/**
+ * Host permission pattern the extension needs to reach the RPC endpoint
+ *
+ * @returns null if the URL isn't a valid http(s) URL
+ */
+export function getAria2Origin(rpcUrl: string): string | null {
+  try {
+    const url = new URL(rpcUrl)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? `${url.origin}/*` : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Version of the aria2 server; used to check the URL and secret
+ */
+export async function getAria2Version(connection: Aria2Connection): Promise<string> {
+  return (await callAria2<{ version: string }>(connection, 'aria2.getVersion')).version
+}
+
+// Replace characters that aren't allowed in file or folder names on common filesystems
+function toSafeName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'download'
+}
+
+/**
+ * Queue every download link of a finished item in aria2
+ *
+ * Files keep their folders inside the torrent, below the download directory.
+ *
+ * @param skipUrls Links queued by an earlier send that failed part-way
+ * @returns The GIDs aria2 assigned to the new downloads
+ * @throws Error if the item has no links or aria2 rejects the first download;
+ *   Aria2SendError if it rejects one after others were queued
+ */
+export async function sendToAria2(
+  settings: Aria2Settings,
+  item: ExportItem,
+  skipUrls: string[] = []
+): Promise<string[]> {
+  const links = getItemLinks(item)
+  if (links.length === 0) {
+    throw new Error('No download links to send')
+  }
+
+  let dir = settings.dir.trim()
+  if (settings.perTorrentFolder) {
+    // The subfolder needs a base, so fall back to the directory aria2 saves to by default
+    const base = dir || (await callAria2<{ dir: string }>(settings, 'aria2.getGlobalOption')).dir
+    dir = `${base.replace(/[\\/]+$/, '')}/${toSafeName(item.filename)}`
+  }
+
+  const gids: string[] = []
+  const sentUrls: string[] = []
+  for (const link of links.filter(link => !skipUrls.includes(link.url))) {
+    const options: Record<string, string> = {
+      out: formatDownloadFilename('{filePath}', item.filename, link),
+    }
+    if (dir) options.dir = dir
+    try {
+      gids.push(await callAria2<string>(settings, 'aria2.addUri', [[link.url], options]))
+    } catch (error) {
+      if (sentUrls.length === 0) throw error
+      throw new Aria2SendError((error as Error).message, sentUrls)
+    }
+    sentUrls.push(link.url)
+  }
+  return gids
+}
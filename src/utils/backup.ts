@@ -0,0 +1,211 @@
+import browser from 'webextension-polyfill'
+import { storage, DEFAULT_DASHBOARD_SETTINGS, DEFAULT_SETTINGS } from './storage'
+import { saveTextFile } from './downloads'
+import { isRecord, isValidSetting, matchesDefault, repairTorrentItem } from './schema'
+import type {
+  BackupDocument,
+  DashboardSettings,
+  NotificationState,
+  RestoreMode,
+  Settings,
+  TorrentItem,
+} from './types'
+
+export const BACKUP_FORMAT = 'rd-magnet-handler-backup'
+
+// Bump when the document layout changes; parseBackup has to read every older version
+export const BACKUP_VERSION = 1
+
+// Tokens, and the accounts they belong to, are only included on request since the file is plain text
+const SECRET_KEYS: (keyof Settings)[] = ['apiToken', 'accounts', 'activeAccountId']
+
+// Known settings with the right types; unknown keys, e.g. from newer versions, are dropped
+function parseSettings(value: unknown): Partial<Settings> {
+  if (!isRecord(value)) throw new Error('The backup has no settings')
+
+  const settings: Record<string, unknown> = {}
+  for (const [key, expected] of Object.entries(DEFAULT_SETTINGS)) {
+    if (value[key] === undefined) continue
+    if (!isValidSetting(key, expected, value[key]))
+      throw new Error(`Invalid setting "${key}" in the backup`)
+    // Fill in fields that older versions didn't have
+    settings[key] = isRecord(expected) ? { ...expected, ...(value[key] as object) } : value[key]
+  }
+  return settings as Partial<Settings>
+}
+
+/**
+ * Serialise settings, dashboard settings, the torrent list and notification state
+ *
+ * @param includeSecrets Include API tokens, accounts and the aria2 RPC secret
+ */
+export async function createBackup(includeSecrets = false): Promise<BackupDocument> {
+  const settings: Partial<Settings> = { ...(await storage.getSettings()) }
+  if (!includeSecrets) {
+    for (const key of SECRET_KEYS) delete settings[key]
+    settings.aria2 = { ...settings.aria2!, secret: '' }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    includesSecrets: includeSecrets,
+    settings,
+    dashboardSettings: await storage.getDashboardSettings(),
+    torrents: await storage.getTorrents(),
+    notificationState: await storage.getNotificationState(),
+  }
+}
+
+/**
+ * Save a backup as a dated JSON file
+ */
+export function downloadBackup(backup: BackupDocument): void {
+  const date = new Date(backup.exportedAt).toISOString().slice(0, 10)
+  saveTextFile(
+    `${JSON.stringify(backup, null, 2)}\n`,
+    `rd-magnet-handler-backup-${date}.json`,
+    'application/json'
+  )
+}
+
+/**
+ * Read and validate a backup file
+ *
+ * @throws Error describing the first problem found
+ */
+export function parseBackup(text: string): BackupDocument {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a Real-Debrid Magnet Handler backup')
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new Error('The backup has no valid version')
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${data.version} needs a newer version of the extension`)
+  }
+
+  if (!Array.isArray(data.torrents)) throw new Error('The backup has no torrent list')
+  const torrents = data.torrents.map(repairTorrentItem)
+  const invalid = torrents.findIndex(torrent => torrent === null)
+  if (invalid !== -1) throw new Error(`Invalid torrent at position ${invalid + 1} in the backup`)
+
+  const dashboardSettings = data.dashboardSettings ?? DEFAULT_DASHBOARD_SETTINGS
+  if (!matchesDefault(DEFAULT_DASHBOARD_SETTINGS, dashboardSettings)) {
+    throw new Error('Invalid dashboard settings in the backup')
+  }
+
+  const notificationState = (data.notificationState ?? {
+    notifiedTorrentIds: [],
+    lastNotificationTime: 0,
+  }) as NotificationState
+  if (
+    !isRecord(notificationState) ||
+    !Array.isArray(notificationState.notifiedTorrentIds) ||
+    !notificationState.notifiedTorrentIds.every(id => typeof id === 'string') ||
+    typeof notificationState.lastNotificationTime !== 'number'
+  ) {
+    throw new Error('Invalid notification state in the backup')
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    includesSecrets: data.includesSecrets === true,
+    settings: parseSettings(data.settings),
+    dashboardSettings: {
+      ...DEFAULT_DASHBOARD_SETTINGS,
+      ...(dashboardSettings as Partial<DashboardSettings>),
+    },
+    torrents: torrents as TorrentItem[],
+    notificationState,
+  }
+}
+
+// Hoster items have no hash, so they are told apart by id
+function dedupeByHash(torrents: TorrentItem[]): TorrentItem[] {
+  const seen = new Set<string>()
+  return torrents.filter(torrent => {
+    const key = torrent.hash ? `hash:${torrent.hash.toLowerCase()}` : `id:${torrent.id}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Merge restored torrents into the tracked list, or replace the list with them
+ *
+ * Torrents are deduplicated by hash, with the current copy winning when merging.
+ * Runs in the background, which owns the torrent list.
+ *
+ * @returns Number of torrents restored; those beyond the list size go to the history archive
+ */
+export async function restoreTorrents(torrents: TorrentItem[], mode: RestoreMode): Promise<number> {
+  let count = 0
+  await storage.mutateTorrents(current => {
+    const restored = dedupeByHash([...(mode === 'merge' ? current : []), ...torrents]).sort(
+      (a, b) => b.addedAt - a.addedAt
+    )
+    count = restored.length
+    return restored
+  })
+  return count
+}
+
+/**
+ * Restore a parsed backup
+ *
+ * Settings are always taken from the backup; without secrets in it, the current
+ * tokens, accounts and aria2 secret are kept. The torrents are handed to the
+ * background's restoreTorrents.
+ *
+ * @returns Number of torrents restored
+ */
+export async function restoreBackup(backup: BackupDocument, mode: RestoreMode): Promise<number> {
+  const current = await storage.getSettings()
+  const settings = { ...backup.settings }
+  if (!backup.includesSecrets) {
+    for (const key of SECRET_KEYS) delete settings[key]
+    if (settings.aria2) settings.aria2 = { ...settings.aria2, secret: current.aria2.secret }
+  }
+  // Settings first, so the restored list size applies to the torrents
+  await storage.saveSettings(settings)
+  await storage.saveDashboardSettings(backup.dashboardSettings)
+
+  const response = (await browser.runtime.sendMessage({
+    type: 'RESTORE_TORRENTS',
+    torrents: backup.torrents,
+    mode,
+  })) as { success?: boolean; count?: number; error?: string } | undefined
+  if (!response?.success) {
+    throw new Error(response?.error || 'Failed to restore the torrents')
+  }
+
+  if (mode === 'merge') {
+    const state = await storage.getNotificationState()
+    await storage.saveNotificationState({
+      ...state,
+      notifiedTorrentIds: [
+        ...new Set([...state.notifiedTorrentIds, ...backup.notificationState.notifiedTorrentIds]),
+      ],
+      lastNotificationTime: Math.max(
+        state.lastNotificationTime,
+        backup.notificationState.lastNotificationTime
+      ),
+    })
+  } else {
+    await storage.saveNotificationState(backup.notificationState)
+  }
+
+  return response.count ?? 0
+}
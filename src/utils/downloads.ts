@@ -0,0 +1,91 @@
+import type { Downloads } from 'webextension-polyfill'
+import type { DownloadLink, LocalDownload } from './types'
+
+export const DEFAULT_DOWNLOAD_TEMPLATE = '{torrentName}/{filePath}'
+
+const TEMPLATE_TOKENS = ['torrentName', 'filePath', 'fileName']
+
+/**
+ * Check a download file name template
+ *
+ * @returns An error message, or null if the template can be used
+ */
+export function validateDownloadTemplate(template: string): string | null {
+  const tokens = [...template.matchAll(/\{(\w+)\}/g)].map(match => match[1])
+  const unknown = tokens.find(token => !TEMPLATE_TOKENS.includes(token))
+  if (unknown) {
+    return `Unknown placeholder {${unknown}} in the download file name template`
+  }
+  if (!tokens.includes('filePath') && !tokens.includes('fileName')) {
+    return 'The download file name template needs {filePath} or {fileName}'
+  }
+  return null
+}
+
+// Browsers reject these characters, and relative segments, in download file names
+function toSafeSegment(segment: string): string {
+  return segment.replace(/[:*?"<>|\x00-\x1f]/g, '_').replace(/^[\s.]+|[\s.]+$/g, '')
+}
+
+/**
+ * File name, relative to the browser's download folder, to save a link under
+ *
+ * Placeholders: `{torrentName}`, `{filePath}` (path inside the torrent, with its
+ * folders) and `{fileName}`. Slashes in the result become folders.
+ */
+export function formatDownloadFilename(
+  template: string,
+  torrentName: string,
+  link: Pick<DownloadLink, 'filename' | 'path'>
+): string {
+  const values: Record<string, string> = {
+    torrentName,
+    filePath: link.path ?? link.filename,
+    fileName: link.filename,
+  }
+  const filled = template.replace(/\{(\w+)\}/g, (match, token: string) => values[token] ?? match)
+  const path = filled
+    .split(/[\\/]+/)
+    .map(toSafeSegment)
+    .filter(Boolean)
+    .join('/')
+  return path || toSafeSegment(link.filename) || 'download'
+}
+
+/**
+ * Tracked state of a browser download
+ */
+export function toLocalDownload(item: Downloads.DownloadItem): LocalDownload {
+  return {
+    id: item.id,
+    state: item.state,
+    bytesReceived: item.bytesReceived,
+    totalBytes: Math.max(item.totalBytes, 0),
+    ...(item.error && { error: item.error }),
+  }
+}
+
+/**
+ * Percentage downloaded, or null while the size is unknown
+ */
+export function getDownloadPercent(download: LocalDownload): number | null {
+  if (download.state === 'complete') return 100
+  return download.totalBytes > 0
+    ? Math.floor((download.bytesReceived / download.totalBytes) * 100)
+    : null
+}
+
+/**
+ * Save text as a file through the page's own download, without the downloads permission
+ */
+export function saveTextFile(content: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = filename
+  document.body.appendChild(anchor)
+  anchor.click()
+  document.body.removeChild(anchor)
+  // Revoke after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,113 @@
+import type { FileSelectionRules } from './types'
+
+export const DEFAULT_FILE_RULES: FileSelectionRules = {
+  enabled: false,
+  extensions: [],
+  minSizeMB: 0,
+  largestOnly: false,
+  include: '',
+  exclude: '',
+}
+
+export const VIDEO_EXTENSIONS = ['mkv', 'mp4', 'avi', 'm4v', 'mov', 'wmv', 'ts', 'webm']
+
+// The parts of a Real-Debrid torrent file the rules look at
+export interface RuleFile {
+  id: number
+  path: string
+  bytes: number
+}
+
+const MB = 1024 * 1024
+
+/**
+ * Lowercase extension of a file path, without the dot; '' if it has none
+ */
+export function getFileExtension(path: string): string {
+  const name = path.split('/').pop() ?? ''
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+}
+
+/**
+ * Parse a comma/space separated extension list such as `.mkv, MP4 avi`
+ */
+export function parseExtensionList(text: string): string[] {
+  const extensions: string[] = []
+  for (const entry of text.split(/[\s,]+/)) {
+    const extension = entry
+      .trim()
+      .toLowerCase()
+      .replace(/^\*?\./, '')
+    if (extension && !extensions.includes(extension)) extensions.push(extension)
+  }
+  return extensions
+}
+
+/**
+ * Check the include/exclude patterns compile
+ *
+ * @returns an error message for the first invalid pattern, or null if both are valid
+ */
+export function validateFileRules(rules: FileSelectionRules): string | null {
+  for (const [name, pattern] of [
+    ['Include', rules.include],
+    ['Exclude', rules.exclude],
+  ]) {
+    if (!pattern) continue
+    try {
+      new RegExp(pattern, 'i')
+    } catch {
+      return `${name} pattern is not a valid regular expression`
+    }
+  }
+  return null
+}
+
+/**
+ * Pick the files a multi-file torrent should download
+ *
+ * Files must have one of the listed extensions, be at least `minSizeMB`,
+ * match `include` and not match `exclude`; `largestOnly` then keeps the
+ * biggest of them.
+ *
+ * @returns the selected file ids; empty when nothing matches or a pattern is
+ *   invalid, so the caller can fall back to manual selection
+ */
+export function applyFileRules(files: RuleFile[], rules: FileSelectionRules): number[] {
+  if (validateFileRules(rules)) return []
+  const include = rules.include ? new RegExp(rules.include, 'i') : null
+  const exclude = rules.exclude ? new RegExp(rules.exclude, 'i') : null
+
+  const matches = files.filter(file => {
+    const extension = getFileExtension(file.path)
+    if (rules.extensions.length > 0 && !rules.extensions.includes(extension)) return false
+    if (file.bytes < rules.minSizeMB * MB) return false
+    if (include && !include.test(file.path)) return false
+    if (exclude && exclude.test(file.path)) return false
+    return true
+  })
+
+  if (rules.largestOnly && matches.length > 1) {
+    const largest = matches.reduce((max, file) => (file.bytes > max.bytes ? file : max))
+    return [largest.id]
+  }
+  return matches.map(file => file.id)
+}
+
+/**
+ * Parse the options page sample list: one `path, size in MB` per line
+ *
+ * Lines without a size count as empty files.
+ */
+export function parseSampleFiles(text: string): RuleFile[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const match = line.match(/^(.*?)\s*,\s*([\d.]+)$/)
+      const path = match ? match[1] : line
+      const sizeMB = match ? parseFloat(match[2]) : 0
+      return { id: index + 1, path, bytes: Math.round(sizeMB * MB) }
+    })
+}
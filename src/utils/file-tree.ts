@@ -0,0 +1,105 @@
+import { VIDEO_EXTENSIONS, getFileExtension } from './file-rules'
+import type { RdTorrentInfo } from './types'
+
+export type TorrentFile = NonNullable<RdTorrentInfo['files']>[number]
+
+export type FileCategory = 'video' | 'subtitles' | 'archives'
+export type FileSortOrder = 'name' | 'size'
+
+export const FILE_CATEGORIES: Record<FileCategory, string[]> = {
+  video: VIDEO_EXTENSIONS,
+  subtitles: ['srt', 'ass', 'ssa', 'sub', 'idx', 'vtt', 'sup'],
+  archives: ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'],
+}
+
+export interface FileTreeFolder {
+  name: string
+  path: string // Slash-joined folder names from the root; '' for the root
+  bytes: number // Total size of the files below this folder
+  folders: FileTreeFolder[]
+  files: TorrentFile[]
+}
+
+export interface FileTreeOptions {
+  search?: string // Case-insensitive match on the file path
+  categories?: FileCategory[] // Keep files of any of these categories; empty keeps all
+  sort?: FileSortOrder
+}
+
+/**
+ * Format a byte count as e.g. `1.5 GB`
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`
+}
+
+/**
+ * File name without its folders
+ */
+export function getFileName(path: string): string {
+  return path.split('/').pop() ?? path
+}
+
+function matchesCategories(path: string, categories: FileCategory[]): boolean {
+  if (categories.length === 0) return true
+  const extension = getFileExtension(path)
+  return categories.some(category => FILE_CATEGORIES[category].includes(extension))
+}
+
+function sortFolder(folder: FileTreeFolder, sort: FileSortOrder) {
+  const byName = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true })
+  if (sort === 'size') {
+    folder.folders.sort((a, b) => b.bytes - a.bytes)
+    folder.files.sort((a, b) => b.bytes - a.bytes)
+  } else {
+    folder.folders.sort((a, b) => byName(a.name, b.name))
+    folder.files.sort((a, b) => byName(getFileName(a.path), getFileName(b.path)))
+  }
+  folder.folders.forEach(child => sortFolder(child, sort))
+}
+
+/**
+ * Group a torrent's flat file list into folders
+ *
+ * Files that don't pass the search or category filters are left out, and so
+ * are folders left without files.
+ */
+export function buildFileTree(files: TorrentFile[], options: FileTreeOptions = {}): FileTreeFolder {
+  const search = options.search?.trim().toLowerCase()
+  const root: FileTreeFolder = { name: '', path: '', bytes: 0, folders: [], files: [] }
+
+  for (const file of files) {
+    if (search && !file.path.toLowerCase().includes(search)) continue
+    if (!matchesCategories(file.path, options.categories ?? [])) continue
+
+    // Real-Debrid paths start with a slash
+    const folderNames = file.path.split('/').filter(Boolean).slice(0, -1)
+    let folder = root
+    folder.bytes += file.bytes
+    for (const name of folderNames) {
+      const path = folder.path ? `${folder.path}/${name}` : name
+      let child = folder.folders.find(f => f.name === name)
+      if (!child) {
+        child = { name, path, bytes: 0, folders: [], files: [] }
+        folder.folders.push(child)
+      }
+      child.bytes += file.bytes
+      folder = child
+    }
+    folder.files.push(file)
+  }
+
+  sortFolder(root, options.sort ?? 'name')
+  return root
+}
+
+/**
+ * Ids of every file below a folder, in display order
+ */
+export function collectFileIds(folder: FileTreeFolder): number[] {
+  return [...folder.folders.flatMap(collectFileIds), ...folder.files.map(file => file.id)]
+}
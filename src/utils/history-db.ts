@@ -0,0 +1,98 @@
+import type { HistoryEntry, HistoryQuery, TorrentItem } from './types'
+
+const DB_NAME = 'rd-history'
+const DB_VERSION = 1
+const STORE = 'torrents'
+
+// Opened once per page/worker and reused
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+      store.createIndex('addedAt', 'addedAt')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch(error => {
+    // Let the next call try again instead of caching the failure
+    dbPromise = null
+    throw error
+  })
+  return dbPromise
+}
+
+// Run one request in its own transaction
+async function run<T>(
+  mode: IDBTransactionMode,
+  send: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode)
+    const request = send(transaction.objectStore(STORE))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Move torrents dropped from the active list into the history archive
+ *
+ * Items already in the archive are overwritten with the newer copy.
+ */
+export async function archiveTorrents(torrents: TorrentItem[]): Promise<void> {
+  if (torrents.length === 0) return
+  const db = await openDatabase()
+  const archivedAt = Date.now()
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite')
+    const store = transaction.objectStore(STORE)
+    for (const torrent of torrents) {
+      store.put({ ...torrent, archivedAt } satisfies HistoryEntry)
+    }
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Search the archive, newest first
+ *
+ * `search` matches the filename, hash or hoster URL (case insensitive);
+ * `from`/`to` bound the time the torrent was added (inclusive, ms timestamps).
+ */
+export async function queryHistory(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+  const from = query.from ?? 0
+  const to = query.to ?? Number.MAX_SAFE_INTEGER
+  const range = IDBKeyRange.bound(from, to)
+  const entries = await run<HistoryEntry[]>('readonly', store =>
+    store.index('addedAt').getAll(range)
+  )
+
+  const search = query.search?.trim().toLowerCase()
+  const matches = search
+    ? entries.filter(entry =>
+        [entry.filename, entry.hash, entry.sourceUrl].some(value =>
+          value?.toLowerCase().includes(search)
+        )
+      )
+    : entries
+  return matches.reverse()
+}
+
+export async function getHistoryEntry(id: string): Promise<HistoryEntry | null> {
+  return (await run<HistoryEntry | undefined>('readonly', store => store.get(id))) ?? null
+}
+
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await run('readwrite', store => store.put(entry))
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await run('readwrite', store => store.delete(id))
+}
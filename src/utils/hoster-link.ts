@@ -0,0 +1,21 @@
+/**
+ * Check if a string is an http(s) URL that could be a file-hoster link
+ */
+export function isHosterLink(link: string): boolean {
+  return getHosterName(link) !== null
+}
+
+/**
+ * Get the hoster domain of a link (without a leading "www.")
+ * @returns the domain, or null if the link is not an http(s) URL
+ */
+export function getHosterName(link: string): string | null {
+  let url: URL
+  try {
+    url = new URL(link.trim())
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+  return url.hostname.replace(/^www\./, '') || null
+}
@@ -0,0 +1,149 @@
+import { formatDownloadFilename, saveTextFile } from './downloads'
+import { buildM3uPlaylist } from './streaming'
+import type { DownloadLink, TorrentItem } from './types'
+
+// Formats offered by the export menus, in menu order
+export const EXPORT_FORMATS = {
+  m3u8: { label: 'M3U8 Playlist', extension: 'm3u8', mimeType: 'audio/x-mpegurl' },
+  aria2: { label: 'aria2 Input File', extension: 'aria2.txt', mimeType: 'text/plain' },
+  wget: { label: 'wget Script', extension: 'wget.sh', mimeType: 'text/x-shellscript' },
+  curl: { label: 'curl Script', extension: 'curl.sh', mimeType: 'text/x-shellscript' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  crawljob: { label: 'JDownloader Crawljob', extension: 'crawljob', mimeType: 'text/plain' },
+  text: { label: 'Plain Text', extension: 'txt', mimeType: 'text/plain' },
+} as const
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS
+
+export type ExportItem = Pick<TorrentItem, 'filename' | 'downloadUrl' | 'links'>
+
+/**
+ * Download links of an item, falling back to its single download URL
+ */
+export function getItemLinks(item: ExportItem): DownloadLink[] {
+  if (item.links?.length) return item.links
+  return item.downloadUrl
+    ? [{ url: item.downloadUrl, filename: item.filename, selected: true }]
+    : []
+}
+
+// Files of multi-file torrents go in a folder named after the torrent
+function getExportPath(item: ExportItem, link: DownloadLink, linkCount: number): string {
+  return formatDownloadFilename(
+    linkCount > 1 ? '{torrentName}/{filePath}' : '{fileName}',
+    item.filename,
+    link
+  )
+}
+
+function toEntries(items: ExportItem[]) {
+  return items.flatMap(item => {
+    const links = getItemLinks(item)
+    return links.map(link => ({ item, link, path: getExportPath(item, link, links.length) }))
+  })
+}
+
+// Single-quote for POSIX shells
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// Line-based formats break on embedded newlines
+function toLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ')
+}
+
+function buildShellScript(
+  entries: ReturnType<typeof toEntries>,
+  command: (path: string, url: string) => string
+): string {
+  const lines = ['#!/bin/sh', 'set -e']
+  const dirs = new Set<string>()
+  for (const { link, path } of entries) {
+    const dir = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : ''
+    if (dir && !dirs.has(dir)) {
+      dirs.add(dir)
+      lines.push(`mkdir -p ${shellQuote(dir)}`)
+    }
+    lines.push(command(path, link.url))
+  }
+  return [...lines, ''].join('\n')
+}
+
+/**
+ * Render the links of the items in an export format
+ */
+export function exportLinks(format: ExportFormat, items: ExportItem[]): string {
+  const entries = toEntries(items)
+
+  switch (format) {
+    case 'm3u8':
+      return buildM3uPlaylist(entries.map(({ link }) => ({ title: link.filename, url: link.url })))
+    case 'aria2':
+      // aria2c -i: a URI line, then its options indented below it
+      return entries.map(({ link, path }) => `${toLine(link.url)}\n  out=${path}\n`).join('')
+    case 'wget':
+      return buildShellScript(
+        entries,
+        (path, url) => `wget -c -O ${shellQuote(path)} ${shellQuote(url)}`
+      )
+    case 'curl':
+      return buildShellScript(
+        entries,
+        (path, url) => `curl -L -C - -o ${shellQuote(path)} ${shellQuote(url)}`
+      )
+    case 'json':
+      return `${JSON.stringify(
+        items.map(item => ({
+          name: item.filename,
+          links: getItemLinks(item).map(({ filename, path, url, size }) => ({
+            filename,
+            path,
+            url,
+            size,
+          })),
+        })),
+        null,
+        2
+      )}\n`
+    case 'crawljob':
+      // JDownloader folder watch: one key=value block per link, grouped into packages
+      return entries
+        .map(({ item, link }) =>
+          [
+            `text=${toLine(link.url)}`,
+            `packageName=${toLine(item.filename)}`,
+            `filename=${toLine(link.filename)}`,
+            'enabled=TRUE',
+            'autoStart=TRUE',
+            'autoConfirm=TRUE',
+            '',
+          ].join('\n')
+        )
+        .join('\n')
+    case 'text':
+      return entries.map(({ link }) => `${toLine(link.url)}\n`).join('')
+  }
+}
+
+/**
+ * File name for an export, named after the torrent when there is only one
+ */
+export function getExportFilename(format: ExportFormat, items: ExportItem[]): string {
+  const base =
+    items.length === 1
+      ? items[0].filename.replace(/[\\/:*?"<>|\r\n]/g, '_').trim() || 'links'
+      : 'real-debrid-links'
+  return `${base}.${EXPORT_FORMATS[format].extension}`
+}
+
+/**
+ * Save an export through the page's file download
+ */
+export function downloadExport(format: ExportFormat, items: ExportItem[]): void {
+  saveTextFile(
+    exportLinks(format, items),
+    getExportFilename(format, items),
+    EXPORT_FORMATS[format].mimeType
+  )
+}
@@ -0,0 +1,134 @@
+import type { ParsedMagnet } from './types'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+// SHA-256 multihash prefix: function code 0x12, digest length 0x20
+const BTMH_SHA256_PREFIX = '1220'
+
+/**
+ * Decode an RFC 4648 base32 string (no padding) to lowercase hex
+ * @returns hex string, or null if the input contains invalid characters
+ */
+export function base32ToHex(input: string): string | null {
+  let bits = 0
+  let value = 0
+  let hex = ''
+
+  for (const char of input.toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) return null
+
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bits -= 8
+      hex += ((value >>> bits) & 0xff).toString(16).padStart(2, '0')
+    }
+  }
+
+  return hex
+}
+
+/**
+ * Normalise a btih value (40-char hex or 32-char base32) to lowercase hex
+ */
+function normaliseBtih(value: string): string | null {
+  if (/^[a-f0-9]{40}$/i.test(value)) return value.toLowerCase()
+  if (/^[a-z2-7]{32}$/i.test(value)) return base32ToHex(value)
+  return null
+}
+
+/**
+ * Extract the SHA-256 digest from a btmh multihash
+ */
+function normaliseBtmh(value: string): string | null {
+  const multihash = value.toLowerCase()
+  if (!multihash.startsWith(BTMH_SHA256_PREFIX)) return null
+  const digest = multihash.slice(BTMH_SHA256_PREFIX.length)
+  return /^[a-f0-9]{64}$/.test(digest) ? digest : null
+}
+
+/**
+ * Match a magnet parameter name, including the numbered form (e.g. xt.1, tr.2)
+ */
+function isParam(key: string, name: string): boolean {
+  return key === name || new RegExp(`^${name}\\.\\d+$`).test(key)
+}
+
+/**
+ * Parse a magnet URI
+ *
+ * Supports v1 (`urn:btih:`, hex or base32), v2 (`urn:btmh:`) and hybrid magnets
+ * with several `xt` params, plus the `dn`, `tr` and `xl` params.
+ *
+ * @param magnetLink - The magnet URI
+ * @returns The parsed magnet, or null if it has no usable info hash
+ */
+export function parseMagnet(magnetLink: string): ParsedMagnet | null {
+  const link = magnetLink.trim()
+  if (!/^magnet:\?/i.test(link)) return null
+
+  let params: URLSearchParams
+  try {
+    params = new URLSearchParams(link.slice('magnet:?'.length))
+  } catch {
+    return null
+  }
+
+  const btih: string[] = []
+  const btmh: string[] = []
+  const trackers: string[] = []
+  let displayName: string | undefined
+  let exactLength: number | undefined
+
+  for (const [key, value] of params) {
+    if (isParam(key, 'xt')) {
+      const match = value.match(/^urn:(btih|btmh):(.+)$/i)
+      if (!match) continue
+      const isV1 = match[1].toLowerCase() === 'btih'
+      const hash = isV1 ? normaliseBtih(match[2]) : normaliseBtmh(match[2])
+      const target = isV1 ? btih : btmh
+      if (hash && !target.includes(hash)) target.push(hash)
+    } else if (isParam(key, 'tr')) {
+      if (value && !trackers.includes(value)) trackers.push(value)
+    } else if (key === 'dn' && value) {
+      displayName = value
+    } else if (key === 'xl') {
+      const length = Number(value)
+      if (Number.isSafeInteger(length) && length >= 0) exactLength = length
+    }
+  }
+
+  const hash = btih[0] ?? btmh[0]
+  if (!hash) return null
+
+  return { hash, btih, btmh, displayName, trackers, exactLength }
+}
+
+/**
+ * Check if a string is a magnet URI with a usable info hash
+ */
+export function isValidMagnet(magnetLink: string): boolean {
+  return parseMagnet(magnetLink) !== null
+}
+
+/**
+ * Extract the primary info hash (lowercase hex) from a magnet URI
+ */
+export function extractHashFromMagnet(magnetLink: string): string | null {
+  return parseMagnet(magnetLink)?.hash ?? null
+}
+
+/**
+ * Build a minimal magnet URI for an info hash (e.g. for torrents added from a file)
+ *
+ * A 64-char SHA-256 digest, as parseMagnet returns for v2-only magnets, becomes a
+ * `urn:btmh:` multihash; anything else is a v1 `urn:btih:` hash.
+ */
+export function buildMagnet(hash: string, displayName?: string): string {
+  const dn = displayName ? `&dn=${encodeURIComponent(displayName)}` : ''
+  const xt = /^[a-f0-9]{64}$/i.test(hash)
+    ? `urn:btmh:${BTMH_SHA256_PREFIX}${hash.toLowerCase()}`
+    : `urn:btih:${hash}`
+  return `magnet:?xt=${xt}${dn}`
+}
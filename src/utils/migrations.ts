@@ -0,0 +1,52 @@
+import { storage } from './storage'
+
+interface Migration {
+  version: number
+  description: string
+  migrate: () => Promise<void>
+}
+
+// Ordered by version; append new steps, never change or reorder released ones
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move API tokens from sync to local storage',
+    migrate: () => storage.migrateSyncedSecrets(),
+  },
+  {
+    version: 2,
+    description: 'Backfill torrent hashes and quarantine malformed torrents',
+    migrate: () => storage.repairTorrentLists(),
+  },
+  {
+    version: 3,
+    description: 'Remove OAuth logins left unencrypted beside the token vault',
+    migrate: () => storage.removeUnsealedOAuthCredentials(),
+  },
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Run the migrations newer than the stored schema version, oldest first
+ *
+ * The version is saved after each step, so a failed migration stops the run and
+ * is retried on the next start without repeating the ones before it.
+ *
+ * @returns Schema version of the stored data afterwards
+ */
+export async function runMigrations(): Promise<number> {
+  let version = await storage.getSchemaVersion()
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue
+    try {
+      await migration.migrate()
+    } catch (error) {
+      console.error(`Migration ${migration.version} (${migration.description}) failed:`, error)
+      break
+    }
+    version = migration.version
+    await storage.setSchemaVersion(version)
+  }
+  return version
+}
@@ -1,5 +1,9 @@
 import browser from 'webextension-polyfill'
 import { storage } from './storage'
+import type { RdUser } from './types'
+
+// Warn about premium expiry when this many days (or fewer) are left
+export const PREMIUM_EXPIRY_WARNING_DAYS = 7
 
 /**
  * Check if notification permission is granted
@@ -190,6 +194,43 @@ export async function notifyTorrentStatusChange(
   }
 }
 
+/**
+ * Notify when the Real-Debrid premium subscription is about to expire
+ * Only notifies once per expiration date, so renewing re-arms the warning
+ * @param user - The Real-Debrid user returned by /user
+ */
+export async function notifyPremiumExpiring(user: RdUser): Promise<void> {
+  if (user.type !== 'premium') {
+    return
+  }
+
+  const daysLeft = Math.floor(user.premium / 86400)
+  if (daysLeft > PREMIUM_EXPIRY_WARNING_DAYS) {
+    return
+  }
+
+  const notificationState = await storage.getNotificationState()
+  if (notificationState.premiumExpiryNotified === user.expiration) {
+    return
+  }
+
+  const dashboardSettings = await storage.getDashboardSettings()
+  if (!dashboardSettings.notificationsEnabled) {
+    return
+  }
+
+  await showNotification('Premium Expiring Soon', {
+    body:
+      daysLeft > 0
+        ? `Your Real-Debrid premium expires in ${daysLeft} day${daysLeft > 1 ? 's' : ''}`
+        : 'Your Real-Debrid premium expires today',
+    tag: 'premium-expiry',
+  })
+
+  notificationState.premiumExpiryNotified = user.expiration
+  await storage.saveNotificationState(notificationState)
+}
+
 /**
  * Clear notification state for completed torrents
  * Useful when clearing completed torrents from the dashboard
@@ -0,0 +1,43 @@
+/**
+ * Token bucket rate limiter
+ *
+ * Holds up to `capacity` tokens and refills at `ratePerMinute`. Callers wait
+ * in FIFO order for a token, so bursts are smoothed out instead of rejected.
+ */
+export class TokenBucket {
+  private tokens: number
+  private lastRefill: number
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly capacity: number,
+    private readonly ratePerMinute: number
+  ) {
+    this.tokens = capacity
+    this.lastRefill = Date.now()
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    const refilled = ((now - this.lastRefill) * this.ratePerMinute) / 60000
+    this.tokens = Math.min(this.capacity, this.tokens + refilled)
+    this.lastRefill = now
+  }
+
+  /**
+   * Wait until a token is available and take it
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(async () => {
+      this.refill()
+      if (this.tokens < 1) {
+        const waitMs = Math.ceil(((1 - this.tokens) * 60000) / this.ratePerMinute)
+        await new Promise(resolve => setTimeout(resolve, waitMs))
+        this.refill()
+      }
+      this.tokens -= 1
+    })
+    this.queue = turn
+    return turn
+  }
+}
@@ -0,0 +1,108 @@
+import type { RdErrorKind, RdErrorResponse } from './types'
+
+// Real-Debrid `error_code` values, see https://api.real-debrid.com/#api_error_codes
+const ERROR_CODE_KINDS: Record<number, RdErrorKind> = {
+  [-1]: 'service_unavailable', // Internal error
+  5: 'rate_limited', // Slow down
+  7: 'not_found', // Resource not found
+  8: 'bad_token',
+  9: 'permission_denied',
+  16: 'hoster_unavailable', // Unsupported hoster
+  17: 'hoster_unavailable', // Hoster in maintenance
+  18: 'hoster_unavailable', // Hoster limit reached
+  19: 'hoster_unavailable', // Hoster temporarily unavailable
+  20: 'permission_denied', // Hoster not available for free users
+  21: 'too_many_active_downloads',
+  22: 'permission_denied', // IP address not allowed
+  24: 'hoster_unavailable', // File unavailable
+  25: 'service_unavailable',
+  34: 'rate_limited', // Too many requests
+  35: 'infringing_file',
+}
+
+const KIND_MESSAGES: Record<RdErrorKind, string> = {
+  bad_token: 'Your Real-Debrid API token is invalid or expired. Update it in the options.',
+  permission_denied: 'Real-Debrid denied access. Check that your account is premium.',
+  too_many_active_downloads:
+    'Too many active downloads on Real-Debrid. Wait for some to finish or remove them.',
+  infringing_file: 'Real-Debrid blocked this file as infringing.',
+  hoster_unavailable: 'The file hoster is unavailable or unsupported right now.',
+  not_found: 'The torrent no longer exists on Real-Debrid.',
+  rate_limited: 'Too many requests to Real-Debrid. Try again in a moment.',
+  service_unavailable: 'Real-Debrid is temporarily unavailable. Try again later.',
+  network: 'Could not reach Real-Debrid. Check your connection.',
+  unknown: 'Real-Debrid request failed.',
+}
+
+// Temporary conditions worth retrying later; the rest need user action
+const RETRYABLE_KINDS: RdErrorKind[] = [
+  'too_many_active_downloads',
+  'hoster_unavailable',
+  'rate_limited',
+  'service_unavailable',
+  'network',
+]
+
+function kindFromStatus(status?: number): RdErrorKind {
+  if (status === undefined) return 'network'
+  if (status === 401) return 'bad_token'
+  if (status === 403) return 'permission_denied'
+  if (status === 404) return 'not_found'
+  if (status === 429) return 'rate_limited'
+  if (status >= 500) return 'service_unavailable'
+  return 'unknown'
+}
+
+/**
+ * Error thrown by the Real-Debrid client
+ *
+ * `message` is safe to show to the user; the raw API error is kept in `apiError`.
+ */
+export class RdApiError extends Error {
+  readonly kind: RdErrorKind
+  readonly retryable: boolean
+  readonly status?: number
+  readonly code?: number
+  readonly apiError?: string
+
+  constructor(
+    kind: RdErrorKind,
+    options: { status?: number; code?: number; apiError?: string } = {}
+  ) {
+    super(KIND_MESSAGES[kind])
+    this.name = 'RdApiError'
+    this.kind = kind
+    this.retryable = RETRYABLE_KINDS.includes(kind)
+    this.status = options.status
+    this.code = options.code
+    this.apiError = options.apiError
+  }
+}
+
+/**
+ * Convert an axios (or any other) error into an RdApiError
+ *
+ * The `error_code` in the response body wins over the HTTP status, since
+ * Real-Debrid reuses 403 and 503 for several unrelated failures.
+ */
+export function toRdApiError(error: unknown): RdApiError {
+  if (error instanceof RdApiError) return error
+
+  const response = (error as { response?: { status?: number; data?: unknown } } | null)?.response
+  const body = response?.data as Partial<RdErrorResponse> | undefined
+  const code = typeof body?.error_code === 'number' ? body.error_code : undefined
+  const kind = (code !== undefined && ERROR_CODE_KINDS[code]) || kindFromStatus(response?.status)
+
+  return new RdApiError(kind, {
+    status: response?.status,
+    code,
+    apiError: typeof body?.error === 'string' ? body.error : undefined,
+  })
+}
+
+/**
+ * Check whether an error is a Real-Debrid error of the given kind
+ */
+export function isRdErrorKind(error: unknown, kind: RdErrorKind): error is RdApiError {
+  return error instanceof RdApiError && error.kind === kind
+}
@@ -1,22 +1,147 @@
-import axios, { type AxiosInstance } from 'axios'
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios'
 import { storage } from './storage'
-import type { RdTorrentAddedResponse, RdTorrentInfo, RdUnrestrictLinkResponse } from './types'
+import { toRdApiError } from './rd-error'
+import { TokenBucket } from './rate-limiter'
+import { refreshAccessToken } from './realdebrid-oauth'
+import type {
+  RdTorrentAddedResponse,
+  RdTorrentInfo,
+  RdTorrentsPage,
+  RdUnrestrictLinkResponse,
+  RdUnrestrictCheckResponse,
+  RdUser,
+  RdTraffic,
+  RdTrafficDetails,
+  RdInstantAvailability,
+  RdTranscodeLinks,
+  RdMediaInfos,
+} from './types'
+
+// Backoff for 429 Too Many Requests and 503 Service Unavailable
+const MAX_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 30000
+
+interface AxiosLikeError {
+  isAxiosError: true
+  response?: { status?: number; headers?: Record<string, string> }
+}
+
+function isAxiosLikeError(error: unknown): error is AxiosLikeError {
+  return (error as { isAxiosError?: boolean } | null)?.isAxiosError === true
+}
+
+// Honour Retry-After when the API sends it, otherwise back off exponentially
+function getRetryDelay(error: AxiosLikeError, attempt: number): number {
+  const retryAfter = Number(error.response?.headers?.['retry-after'])
+  const delay =
+    Number.isFinite(retryAfter) && retryAfter >= 0
+      ? retryAfter * 1000
+      : RETRY_BASE_DELAY_MS * 2 ** attempt
+  return Math.min(delay, MAX_RETRY_DELAY_MS)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Real-Debrid allows 250 requests per minute. A burst of 25 on top of a
+// 225/min refill keeps any one-minute window within that limit.
+const RATE_LIMIT_BURST = 25
+const RATE_LIMIT_PER_MINUTE = 225
+
+// Refresh OAuth access tokens a little before they actually expire
+const TOKEN_REFRESH_MARGIN_MS = 60000
+
+// The limit is per IP rather than per token, so every account shares one bucket
+const limiter = new TokenBucket(RATE_LIMIT_BURST, RATE_LIMIT_PER_MINUTE)
 
 class RealDebridAPI {
   private client: AxiosInstance
   private baseURL = 'https://api.real-debrid.com/rest/1.0'
+  // GET requests currently on the wire, keyed by URL
+  private inFlight = new Map<string, Promise<AxiosResponse<unknown>>>()
+  // Token read from settings; cleared when the settings change
+  private apiToken: string | null = null
+  // When the cached token needs refreshing (null for plain API tokens, which don't expire)
+  private tokenRefreshAt: number | null = null
+  // Shared so concurrent requests don't rotate the refresh token twice
+  private tokenLoad: Promise<string> | null = null
 
-  constructor() {
+  // accountId selects one of Settings.accounts; null is the default apiToken/OAuth account
+  constructor(private readonly accountId: string | null = null) {
     this.client = axios.create({
       baseURL: this.baseURL,
       headers: { 'Content-Type': 'application/json' },
     })
+    storage.onSettingsChanged(changes => {
+      if ('apiToken' in changes || 'accounts' in changes) this.apiToken = null
+    })
   }
 
   private async ensureAuth(): Promise<void> {
+    const expired = this.tokenRefreshAt !== null && Date.now() >= this.tokenRefreshAt
+    if (!this.apiToken || expired) {
+      this.tokenLoad ??= this.loadToken().finally(() => {
+        this.tokenLoad = null
+      })
+      this.apiToken = await this.tokenLoad
+    }
+    this.client.defaults.headers.common['Authorization'] = `Bearer ${this.apiToken}`
+  }
+
+  // Read the token from storage, refreshing an OAuth login that is about to expire
+  private async loadToken(): Promise<string> {
+    if (this.accountId) {
+      const settings = await storage.getSettings()
+      const account = settings.accounts.find(a => a.id === this.accountId)
+      if (!account?.apiToken) throw new Error('NO_TOKEN')
+      this.tokenRefreshAt = null
+      return account.apiToken
+    }
+
+    let credentials = await storage.getOAuthCredentials()
+    if (credentials) {
+      if (Date.now() >= credentials.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+        credentials = await refreshAccessToken(credentials)
+        await storage.saveOAuthCredentials(credentials)
+      }
+      this.tokenRefreshAt = credentials.expiresAt - TOKEN_REFRESH_MARGIN_MS
+      return credentials.accessToken
+    }
+
     const settings = await storage.getSettings()
     if (!settings.apiToken) throw new Error('NO_TOKEN')
-    this.client.defaults.headers.common['Authorization'] = `Bearer ${settings.apiToken}`
+    this.tokenRefreshAt = null
+    return settings.apiToken
+  }
+
+  // Send a request, retrying on rate limits and outages, and map failures to RdApiError
+  private async request<T>(send: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await limiter.acquire()
+      try {
+        return await send()
+      } catch (error) {
+        if (!isAxiosLikeError(error)) throw error
+        const status = error.response?.status
+        if ((status === 429 || status === 503) && attempt < MAX_RETRIES) {
+          await sleep(getRetryDelay(error, attempt))
+          continue
+        }
+        throw toRdApiError(error)
+      }
+    }
+  }
+
+  // Share one request between callers asking for the same resource at the same time
+  private get<T>(url: string): Promise<AxiosResponse<T>> {
+    const pending = this.inFlight.get(url)
+    if (pending) return pending as Promise<AxiosResponse<T>>
+
+    const request = this.request(() => this.client.get<T>(url)).finally(() =>
+      this.inFlight.delete(url)
+    )
+    this.inFlight.set(url, request)
+    return request
   }
 
   async validateToken(token: string): Promise<boolean> {
@@ -30,19 +155,60 @@ class RealDebridAPI {
     }
   }
 
+  async getUser(): Promise<RdUser> {
+    await this.ensureAuth()
+    const response = await this.get<RdUser>('/user')
+    return response.data
+  }
+
+  async getTraffic(): Promise<RdTraffic> {
+    await this.ensureAuth()
+    const response = await this.get<RdTraffic>('/traffic')
+    return response.data
+  }
+
+  // Defaults to the last 7 days when no range is given (API limit is 31 days)
+  async getTrafficDetails(start?: string, end?: string): Promise<RdTrafficDetails> {
+    await this.ensureAuth()
+    const params = new URLSearchParams()
+    if (start) params.append('start', start)
+    if (end) params.append('end', end)
+    const query = params.toString()
+    const response = await this.get<RdTrafficDetails>(`/traffic/details${query ? `?${query}` : ''}`)
+    return response.data
+  }
+
   async addMagnet(magnetLink: string): Promise<RdTorrentAddedResponse> {
     await this.ensureAuth()
     const params = new URLSearchParams()
     params.append('magnet', magnetLink)
-    const response = await this.client.post<RdTorrentAddedResponse>('/torrents/addMagnet', params, {
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    })
+    const response = await this.request(() =>
+      this.client.post<RdTorrentAddedResponse>('/torrents/addMagnet', params, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      })
+    )
+    return response.data
+  }
+
+  async addTorrentFile(file: ArrayBuffer): Promise<RdTorrentAddedResponse> {
+    await this.ensureAuth()
+    const response = await this.request(() =>
+      this.client.put<RdTorrentAddedResponse>('/torrents/addTorrent', file, {
+        headers: { 'Content-Type': 'application/x-bittorrent' },
+      })
+    )
     return response.data
   }
 
   async getTorrentInfo(torrentId: string): Promise<RdTorrentInfo> {
     await this.ensureAuth()
-    const response = await this.client.get<RdTorrentInfo>(`/torrents/info/${torrentId}`)
+    const response = await this.get<RdTorrentInfo>(`/torrents/info/${torrentId}`)
+    return response.data
+  }
+
+  async checkInstantAvailability(hash: string): Promise<RdInstantAvailability> {
+    await this.ensureAuth()
+    const response = await this.get<RdInstantAvailability>(`/torrents/instantAvailability/${hash}`)
     return response.data
   }
 
@@ -50,33 +216,122 @@ class RealDebridAPI {
     await this.ensureAuth()
     const params = new URLSearchParams()
     params.append('files', files)
-    await this.client.post(`/torrents/selectFiles/${torrentId}`, params, {
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    })
+    await this.request(() =>
+      this.client.post(`/torrents/selectFiles/${torrentId}`, params, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      })
+    )
   }
 
   async deleteTorrent(torrentId: string): Promise<void> {
     await this.ensureAuth()
-    await this.client.delete(`/torrents/delete/${torrentId}`)
+    await this.request(() => this.client.delete(`/torrents/delete/${torrentId}`))
   }
 
   async getTorrents(filter?: 'active'): Promise<RdTorrentInfo[]> {
     await this.ensureAuth()
     const params = filter ? `?filter=${filter}` : ''
-    const response = await this.client.get<RdTorrentInfo[]>(`/torrents${params}`)
+    const response = await this.get<RdTorrentInfo[]>(`/torrents${params}`)
     return response.data
   }
 
+  async getTorrentsPage(page = 1, limit = 100, filter?: 'active'): Promise<RdTorrentsPage> {
+    await this.ensureAuth()
+    const params = new URLSearchParams()
+    params.append('page', String(page))
+    params.append('limit', String(limit))
+    if (filter) params.append('filter', filter)
+    const response = await this.get<RdTorrentInfo[]>(`/torrents?${params}`)
+    const totalCount = Number(response.headers?.['x-total-count'])
+    return {
+      // Pages past the end come back as 204 No Content
+      torrents: response.data || [],
+      totalCount: Number.isFinite(totalCount) ? totalCount : null,
+    }
+  }
+
+  // Walk every page of the account's torrent list
+  async getAllTorrents(limit = 100): Promise<RdTorrentInfo[]> {
+    const torrents: RdTorrentInfo[] = []
+    for (let page = 1; ; page++) {
+      const result = await this.getTorrentsPage(page, limit)
+      torrents.push(...result.torrents)
+      if (result.torrents.length < limit) break
+      if (result.totalCount !== null && torrents.length >= result.totalCount) break
+    }
+    return torrents
+  }
+
   async unrestrictLink(link: string): Promise<RdUnrestrictLinkResponse> {
     await this.ensureAuth()
     const params = new URLSearchParams()
     params.append('link', link)
 
-    const response = await this.client.post<RdUnrestrictLinkResponse>('/unrestrict/link', params, {
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    })
+    const response = await this.request(() =>
+      this.client.post<RdUnrestrictLinkResponse>('/unrestrict/link', params, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      })
+    )
+    return response.data
+  }
+
+  // Streaming URLs of a streamable unrestricted file, by format and quality
+  async getTranscodeLinks(id: string): Promise<RdTranscodeLinks> {
+    await this.ensureAuth()
+    const response = await this.get<RdTranscodeLinks>(`/streaming/transcode/${id}`)
+    return response.data
+  }
+
+  // Duration, audio and subtitle tracks of a streamable unrestricted file
+  async getMediaInfos(id: string): Promise<RdMediaInfos> {
+    await this.ensureAuth()
+    const response = await this.get<RdMediaInfos>(`/streaming/mediaInfos/${id}`)
+    return response.data
+  }
+
+  // Check whether a hoster link is supported and get its file info without unrestricting it
+  async checkLink(link: string): Promise<RdUnrestrictCheckResponse> {
+    await this.ensureAuth()
+    const params = new URLSearchParams()
+    params.append('link', link)
+
+    const response = await this.request(() =>
+      this.client.post<RdUnrestrictCheckResponse>('/unrestrict/check', params, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      })
+    )
+    return response.data
+  }
+
+  // Expand a hoster folder link into the links of the files it contains
+  async unrestrictFolder(link: string): Promise<string[]> {
+    await this.ensureAuth()
+    const params = new URLSearchParams()
+    params.append('link', link)
+
+    const response = await this.request(() =>
+      this.client.post<string[]>('/unrestrict/folder', params, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      })
+    )
     return response.data
   }
 }
 
 export const rdAPI = new RealDebridAPI()
+
+const accountAPIs = new Map<string, RealDebridAPI>()
+
+/**
+ * Get the client for a Real-Debrid account
+ * @param accountId - Id from Settings.accounts; null or undefined for the default account
+ */
+export function getAccountAPI(accountId?: string | null): RealDebridAPI {
+  if (!accountId) return rdAPI
+  let api = accountAPIs.get(accountId)
+  if (!api) {
+    api = new RealDebridAPI(accountId)
+    accountAPIs.set(accountId, api)
+  }
+  return api
+}
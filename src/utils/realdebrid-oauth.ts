@@ -0,0 +1,132 @@
+import axios from 'axios'
+import type { OAuthCredentials, RdDeviceCode, RdDeviceCredentials, RdOAuthToken } from './types'
+
+// Public client id Real-Debrid provides for open-source apps
+export const RD_OAUTH_CLIENT_ID = 'X245A4XAIBGVM'
+export const RD_OAUTH_BASE_URL = 'https://api.real-debrid.com/oauth/v2'
+
+const DEVICE_GRANT_TYPE = 'http://oauth.net/grant_type/device/1.0'
+
+interface OAuthOptions {
+  // Override to point the flow at a mock server
+  baseURL?: string
+}
+
+interface AuthorizeOptions extends OAuthOptions {
+  signal?: AbortSignal
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Login cancelled'))
+    const timeoutId = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId)
+      reject(new Error('Login cancelled'))
+    })
+  })
+}
+
+/**
+ * Start a device-code login
+ * @returns The code the user enters on the verification page
+ */
+export async function requestDeviceCode({
+  baseURL = RD_OAUTH_BASE_URL,
+}: OAuthOptions = {}): Promise<RdDeviceCode> {
+  const params = new URLSearchParams({ client_id: RD_OAUTH_CLIENT_ID, new_credentials: 'yes' })
+  const response = await axios.get<RdDeviceCode>(`${baseURL}/device/code?${params}`)
+  return response.data
+}
+
+/**
+ * Ask whether the user has approved the device yet
+ * @returns The app credentials, or null while the approval is pending
+ */
+export async function getDeviceCredentials(
+  deviceCode: string,
+  { baseURL = RD_OAUTH_BASE_URL }: OAuthOptions = {}
+): Promise<RdDeviceCredentials | null> {
+  const params = new URLSearchParams({ client_id: RD_OAUTH_CLIENT_ID, code: deviceCode })
+  try {
+    const response = await axios.get<RdDeviceCredentials>(`${baseURL}/device/credentials?${params}`)
+    return response.data?.client_secret ? response.data : null
+  } catch (error) {
+    // Real-Debrid answers 403 until the user approves the device
+    if ((error as { response?: { status?: number } }).response?.status === 403) return null
+    throw error
+  }
+}
+
+/**
+ * Exchange a device code or refresh token for an access token
+ */
+async function requestToken(
+  clientId: string,
+  clientSecret: string,
+  code: string,
+  baseURL: string
+): Promise<OAuthCredentials> {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    code,
+    grant_type: DEVICE_GRANT_TYPE,
+  })
+  const response = await axios.post<RdOAuthToken>(`${baseURL}/token`, params, {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  })
+  const token = response.data
+  return {
+    clientId,
+    clientSecret,
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token,
+    expiresAt: Date.now() + token.expires_in * 1000,
+  }
+}
+
+/**
+ * Wait for the user to approve the device, then fetch the first access token
+ *
+ * Polls at the interval Real-Debrid asks for until the device code expires.
+ *
+ * @throws Error if the code expires or the signal is aborted
+ */
+export async function authorizeDevice(
+  deviceCode: RdDeviceCode,
+  { baseURL = RD_OAUTH_BASE_URL, signal }: AuthorizeOptions = {}
+): Promise<OAuthCredentials> {
+  const expiresAt = Date.now() + deviceCode.expires_in * 1000
+  const intervalMs = Math.max(deviceCode.interval, 1) * 1000
+
+  while (Date.now() < expiresAt) {
+    const credentials = await getDeviceCredentials(deviceCode.device_code, { baseURL })
+    if (credentials) {
+      return requestToken(
+        credentials.client_id,
+        credentials.client_secret,
+        deviceCode.device_code,
+        baseURL
+      )
+    }
+    await wait(intervalMs, signal)
+  }
+
+  throw new Error('The login code expired. Please try again.')
+}
+
+/**
+ * Get a new access token; Real-Debrid rotates the refresh token as well
+ */
+export async function refreshAccessToken(
+  credentials: OAuthCredentials,
+  { baseURL = RD_OAUTH_BASE_URL }: OAuthOptions = {}
+): Promise<OAuthCredentials> {
+  return requestToken(
+    credentials.clientId,
+    credentials.clientSecret,
+    credentials.refreshToken,
+    baseURL
+  )
+}
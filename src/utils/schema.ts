@@ -0,0 +1,146 @@
+import { extractHashFromMagnet } from './magnet'
+import type { DownloadLink, RdAccount, TorrentItem, TorrentStatus } from './types'
+
+const TORRENT_STATUSES: TorrentStatus[] = [
+  'processing',
+  'ready',
+  'error',
+  'timeout',
+  'selecting_files',
+]
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Whether a value has the shape of its default; keys the default doesn't have are not checked
+ *
+ * A null default stands for a string that may be unset, an array for a list of strings.
+ */
+export function matchesDefault(expected: unknown, value: unknown): boolean {
+  if (expected === null) return value === null || typeof value === 'string'
+  if (Array.isArray(expected)) {
+    return Array.isArray(value) && value.every(item => typeof item === 'string')
+  }
+  if (isRecord(expected)) {
+    return (
+      isRecord(value) &&
+      Object.entries(value).every(
+        ([key, item]) => !(key in expected) || matchesDefault(expected[key], item)
+      )
+    )
+  }
+  return typeof value === typeof expected
+}
+
+function isAccount(value: unknown): value is RdAccount {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.apiToken === 'string'
+  )
+}
+
+// Settings whose empty default doesn't describe their items
+const SETTING_VALIDATORS: Record<string, (value: unknown) => boolean> = {
+  accounts: value => Array.isArray(value) && value.every(isAccount),
+}
+
+/**
+ * Whether a setting value has the type of its default
+ */
+export function isValidSetting(key: string, expected: unknown, value: unknown): boolean {
+  return SETTING_VALIDATORS[key]?.(value) ?? matchesDefault(expected, value)
+}
+
+/**
+ * Stored settings with every value of the wrong type replaced by its default
+ *
+ * Nested settings objects are merged over their defaults, so fields added in
+ * later versions are filled in.
+ */
+export function repairSettings<T extends object>(defaults: T, stored: Record<string, unknown>): T {
+  const repaired: Record<string, unknown> = { ...stored }
+  for (const [key, expected] of Object.entries(defaults)) {
+    if (!isValidSetting(key, expected, stored[key])) {
+      repaired[key] = expected
+    } else if (isRecord(expected)) {
+      repaired[key] = { ...expected, ...(stored[key] as object) }
+    }
+  }
+  return repaired as T
+}
+
+function repairLink(value: unknown): DownloadLink | null {
+  if (!isRecord(value) || typeof value.url !== 'string') return null
+  return {
+    ...(value as unknown as DownloadLink),
+    filename: typeof value.filename === 'string' ? value.filename : value.url,
+    selected: typeof value.selected === 'boolean' ? value.selected : true,
+  }
+}
+
+/**
+ * Repair a stored torrent record
+ *
+ * Missing or mistyped fields get safe values (the hash is taken from the magnet
+ * link when possible).
+ *
+ * @returns null if the record can't be used: no id or an unknown status
+ */
+export function repairTorrentItem(value: unknown): TorrentItem | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) return null
+  if (!TORRENT_STATUSES.includes(value.status as TorrentStatus)) return null
+
+  const magnetLink = typeof value.magnetLink === 'string' ? value.magnetLink : ''
+  const hash =
+    typeof value.hash === 'string' && value.hash
+      ? value.hash
+      : (extractHashFromMagnet(magnetLink) ?? '')
+  const addedAt = Number.isFinite(value.addedAt) ? (value.addedAt as number) : 0
+
+  const torrent: TorrentItem = {
+    ...(value as unknown as TorrentItem),
+    magnetLink,
+    hash,
+    filename: typeof value.filename === 'string' ? value.filename : value.id,
+    downloadUrl: typeof value.downloadUrl === 'string' ? value.downloadUrl : null,
+    addedAt,
+    lastRetry: Number.isFinite(value.lastRetry) ? (value.lastRetry as number) : addedAt,
+    retryCount: Number.isInteger(value.retryCount) ? (value.retryCount as number) : 0,
+  }
+  if (value.links !== undefined) {
+    torrent.links = Array.isArray(value.links)
+      ? value.links.map(repairLink).filter(link => link !== null)
+      : []
+  }
+  if (value.kind !== undefined && value.kind !== 'torrent' && value.kind !== 'hoster') {
+    delete torrent.kind
+  }
+  if (value.source !== undefined && value.source !== 'extension' && value.source !== 'account') {
+    delete torrent.source
+  }
+  return torrent
+}
+
+/**
+ * Split a stored torrent list into repaired records and the ones that can't be used
+ */
+export function validateTorrents(value: unknown): {
+  torrents: TorrentItem[]
+  quarantined: unknown[]
+} {
+  const torrents: TorrentItem[] = []
+  const quarantined: unknown[] = []
+  for (const item of Array.isArray(value) ? value : []) {
+    const torrent = repairTorrentItem(item)
+    if (torrent) {
+      torrents.push(torrent)
+    } else {
+      quarantined.push(item)
+    }
+  }
+  return { torrents, quarantined }
+}
@@ -0,0 +1,99 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from './torrent-file'
+import type { SecretVault } from './types'
+
+// Byte view rather than the bare ArrayBuffer, which WebCrypto rejects across JS realms
+const fromBase64 = (base64: string) => new Uint8Array(base64ToArrayBuffer(base64))
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000
+const SALT_BYTES = 16
+// 96-bit IV as recommended for AES-GCM; a fresh one is used for every encryption
+const IV_BYTES = 12
+
+/**
+ * Derive an AES-GCM key from a passphrase
+ *
+ * The key is extractable so it can be kept in session storage, which is what
+ * lets the tokens stay unlocked until the browser closes.
+ *
+ * @param passphrase - User passphrase
+ * @param salt - Base64 salt stored with the vault
+ */
+export async function deriveVaultKey(passphrase: string, salt: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: fromBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      hash: 'SHA-256',
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Generate a random salt for a new vault
+ */
+export function createVaultSalt(): string {
+  return arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)).buffer)
+}
+
+/**
+ * Export a vault key as base64 so it survives storage.session
+ */
+export async function exportVaultKey(key: CryptoKey): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.exportKey('raw', key))
+}
+
+/**
+ * Import a key exported with exportVaultKey
+ */
+export async function importVaultKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', true, ['encrypt', 'decrypt'])
+}
+
+/**
+ * Encrypt a JSON-serialisable value
+ * @param salt - Salt the key was derived with, stored alongside so the vault can be unlocked again
+ */
+export async function sealVault(
+  key: CryptoKey,
+  salt: string,
+  value: unknown
+): Promise<SecretVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  )
+  return { salt, iv: arrayBufferToBase64(iv.buffer), data: arrayBufferToBase64(data) }
+}
+
+/**
+ * Decrypt a vault sealed with sealVault
+ * @throws Error('Wrong passphrase') if the key doesn't match (AES-GCM authentication fails)
+ */
+export async function openVault<T>(key: CryptoKey, vault: SecretVault): Promise<T> {
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+      key,
+      fromBase64(vault.data)
+    )
+  } catch {
+    throw new Error('Wrong passphrase')
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T
+}
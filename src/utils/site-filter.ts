@@ -0,0 +1,72 @@
+import type { Settings } from './types'
+
+type InterceptSettings = Pick<
+  Settings,
+  'interceptMagnetLinks' | 'interceptSiteMode' | 'interceptSiteList'
+>
+
+// Pages the magnet interceptor runs on, granted as an optional host permission when it is enabled
+export const INTERCEPTOR_ORIGINS = ['http://*/*', 'https://*/*']
+
+/**
+ * Normalise a site list entry to a bare hostname
+ *
+ * Accepts entries typed the way users copy them: `https://example.com/path`,
+ * `*.example.com` or `Example.com` all become `example.com`.
+ *
+ * @returns the hostname, or null for blank entries
+ */
+export function normaliseSitePattern(pattern: string): string | null {
+  const host = pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/^\*\./, '')
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '')
+  return host || null
+}
+
+/**
+ * Parse a newline/comma separated site list into unique hostnames
+ */
+export function parseSiteList(text: string): string[] {
+  const sites: string[] = []
+  for (const entry of text.split(/[\n,]/)) {
+    const site = normaliseSitePattern(entry)
+    if (site && !sites.includes(site)) sites.push(site)
+  }
+  return sites
+}
+
+/**
+ * Check whether a hostname is the listed site or one of its subdomains
+ */
+export function matchesSite(hostname: string, site: string): boolean {
+  const host = hostname.toLowerCase()
+  return host === site || host.endsWith(`.${site}`)
+}
+
+/**
+ * Decide whether magnet links clicked on a page should be intercepted
+ *
+ * @param pageUrl - URL of the page the link was clicked on
+ * @param settings - Interception settings
+ * @returns true if interception is enabled and the site passes the allow/deny list
+ */
+export function isInterceptionAllowed(pageUrl: string, settings: InterceptSettings): boolean {
+  if (!settings.interceptMagnetLinks) return false
+
+  let hostname: string
+  try {
+    hostname = new URL(pageUrl).hostname
+  } catch {
+    return false
+  }
+  // Only regular web pages (no file://, about:, extension pages)
+  if (!hostname) return false
+
+  const listed = (settings.interceptSiteList || []).some(site => matchesSite(hostname, site))
+  return settings.interceptSiteMode === 'allowlist' ? listed : !listed
+}
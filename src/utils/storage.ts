@@ -1,5 +1,71 @@
 import browser from 'webextension-polyfill'
-import type { TorrentItem, Settings, DashboardSettings, NotificationState } from './types'
+import { archiveTorrents } from './history-db'
+import { DEFAULT_FILE_RULES } from './file-rules'
+import { DEFAULT_ARIA2_SETTINGS } from './aria2'
+import { DEFAULT_DOWNLOAD_TEMPLATE } from './downloads'
+import {
+  createVaultSalt,
+  deriveVaultKey,
+  exportVaultKey,
+  importVaultKey,
+  openVault,
+  sealVault,
+} from './secret-vault'
+import { isRecord, repairSettings, validateTorrents } from './schema'
+import type {
+  TorrentItem,
+  Settings,
+  SecretSettings,
+  SecretVault,
+  TokenLockState,
+  DashboardSettings,
+  NotificationState,
+  AvailabilityCache,
+  TorrentProgressMap,
+  OAuthCredentials,
+  QuarantinedTorrent,
+  TorrentUpdate,
+} from './types'
+
+// Upper bound for remembered hash availability entries (oldest are dropped first)
+const MAX_AVAILABILITY_CACHE_SIZE = 500
+
+// Settings holding API tokens, which must not sync to other devices
+const SECRET_SETTINGS_KEYS: (keyof Settings & keyof SecretSettings)[] = ['apiToken', 'accounts']
+
+// Everything stored in plain local storage or sealed in the SecretVault
+const SECRET_KEYS: (keyof SecretSettings)[] = [...SECRET_SETTINGS_KEYS, 'oauthCredentials']
+
+// Local storage keys holding TorrentItem lists, validated whenever they are read
+const TORRENT_LIST_KEYS = ['torrents', 'accountTorrents']
+
+export const DEFAULT_SETTINGS: Settings = {
+  apiToken: null,
+  maxListSize: 10,
+  retryInterval: 30,
+  maxRetryDuration: 300,
+  contextMenuEnabled: false,
+  alwaysSaveAllFiles: false,
+  fileSelectionRules: DEFAULT_FILE_RULES,
+  aria2: DEFAULT_ARIA2_SETTINGS,
+  managedDownloads: false,
+  downloadFilenameTemplate: DEFAULT_DOWNLOAD_TEMPLATE,
+  visibleTorrentsCount: 5,
+  confirmUncachedTorrents: false,
+  interceptMagnetLinks: false,
+  interceptAction: 'add',
+  interceptSiteMode: 'denylist',
+  interceptSiteList: [],
+  accounts: [],
+  activeAccountId: null,
+}
+
+export const DEFAULT_DASHBOARD_SETTINGS: DashboardSettings = {
+  darkMode: 'auto',
+  notificationsEnabled: true,
+  autoRefresh: true,
+  refreshInterval: 30,
+}
 
 // In-memory cache for useSyncExternalStore sync snapshot requirement
 const storageCache: Record<string, any> = {}
@@ -14,11 +80,19 @@ function notifySubscribers(): void {
   }
 }
 
+// Drop torrent records the pages can't render (see utils/schema.ts)
+function toCacheValue(key: string, value: unknown): unknown {
+  if (value === undefined || !TORRENT_LIST_KEYS.includes(key)) return value
+  return validateTorrents(value).torrents
+}
+
 // Initialize cache on load
 async function initializeCache() {
   const localData = await browser.storage.local.get(null)
   const syncData = await browser.storage.sync.get(null)
-  Object.assign(storageCache, localData, syncData)
+  for (const [key, value] of Object.entries({ ...localData, ...syncData })) {
+    storageCache[key] = toCacheValue(key, value)
+  }
   // Notify subscribers after cache is populated
   notifySubscribers()
 }
@@ -26,7 +100,7 @@ async function initializeCache() {
 // Listen for storage changes to update cache
 browser.storage.onChanged.addListener(changes => {
   for (const [key, { newValue }] of Object.entries(changes)) {
-    storageCache[key] = newValue
+    storageCache[key] = toCacheValue(key, newValue)
   }
 })
 
@@ -36,53 +110,277 @@ initializeCache()
 // Export for testing
 export const _testNotifySubscribers = notifySubscribers
 
+// Tail of the queued mutations of each storage key
+const storageLocks = new Map<string, Promise<unknown>>()
+
+// Run a read-modify-write of a storage key once the ones queued before it have finished
+// Only serializes within one context, which is why pages leave torrent writes to the background
+function withStorageLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const result = (storageLocks.get(key) ?? Promise.resolve()).then(task)
+  const tail = result.catch(() => {})
+  storageLocks.set(key, tail)
+  tail.then(() => {
+    if (storageLocks.get(key) === tail) storageLocks.delete(key)
+  })
+  return result
+}
+
+// Trim the tracked list to maxListSize, moving the overflow to the history archive
+async function capTorrents(torrents: TorrentItem[]): Promise<TorrentItem[]> {
+  const settings = await storage.getSettings()
+  const evicted = torrents.slice(settings.maxListSize)
+  if (evicted.length > 0) {
+    try {
+      await archiveTorrents(evicted)
+    } catch (error) {
+      // The active list still has to be saved, even if the archive is unavailable
+      console.error('Failed to archive evicted torrents:', error)
+    }
+  }
+  return torrents.slice(0, settings.maxListSize)
+}
+
+async function writeTorrents(torrents: TorrentItem[]): Promise<void> {
+  await browser.storage.local.set({ torrents })
+  // Create new array reference so useSyncExternalStore detects change
+  storageCache.torrents = [...torrents]
+}
+
+// Read a torrent list for a write, quarantining the records validateTorrents rejects
+// `repaired` is set when they were found, so the list must be written back without them
+async function readTorrentList(
+  key: string
+): Promise<{ torrents: TorrentItem[]; repaired: boolean }> {
+  const { [key]: value } = await browser.storage.local.get(key)
+  const { torrents, quarantined } = validateTorrents(value)
+  // A value that isn't a list is quarantined whole
+  const rejected = value === undefined || Array.isArray(value) ? quarantined : [value]
+  await storage.quarantineTorrents(rejected)
+  return { torrents, repaired: rejected.length > 0 }
+}
+
+// Read the API tokens: plain from local storage, or from session storage while the vault is unlocked
+// Keys that were never stored come back undefined
+async function readSecretSettings(): Promise<Partial<SecretSettings>> {
+  const local = await browser.storage.local.get([...SECRET_KEYS, 'secretVault'])
+  if (!local.secretVault) {
+    return local as Partial<SecretSettings>
+  }
+  const session = await browser.storage.session.get('secrets')
+  return (session.secrets as SecretSettings) ?? { apiToken: null, accounts: [] }
+}
+
+// Write API tokens, re-encrypting the vault when passphrase protection is on
+async function writeSecretSettings(secrets: Partial<SecretSettings>): Promise<void> {
+  const { secretVault } = await browser.storage.local.get('secretVault')
+  if (!secretVault) {
+    await browser.storage.local.set(secrets)
+    return
+  }
+
+  const session = await browser.storage.session.get(['secrets', 'vaultKey'])
+  if (!session.vaultKey) throw new Error('API tokens are locked')
+  const updated = { ...(session.secrets as SecretSettings), ...secrets }
+  const key = await importVaultKey(session.vaultKey as string)
+  const vault = await sealVault(key, (secretVault as SecretVault).salt, updated)
+  await browser.storage.local.set({ secretVault: vault })
+  await browser.storage.session.set({ secrets: updated })
+}
+
 export const storage = {
-  // Sync storage (settings)
+  // Sync storage (settings), with the API tokens merged in from local storage
+  // While logged in with OAuth, apiToken is its current access token
   async getSettings(): Promise<Settings> {
-    const result = await browser.storage.sync.get({
-      apiToken: null,
-      maxListSize: 10,
-      retryInterval: 30,
-      maxRetryDuration: 300,
-      contextMenuEnabled: false,
-      alwaysSaveAllFiles: false,
-      visibleTorrentsCount: 5,
+    const result = await browser.storage.sync.get({ ...DEFAULT_SETTINGS })
+    const secrets = await readSecretSettings()
+    // Tokens left in sync storage by older versions count until migrateSyncedSecrets moves them
+    return repairSettings(DEFAULT_SETTINGS, {
+      ...result,
+      apiToken: secrets.oauthCredentials?.accessToken ?? secrets.apiToken ?? result.apiToken,
+      accounts: secrets.accounts ?? result.accounts,
     })
-    return result as unknown as Settings
   },
 
   async saveSettings(settings: Partial<Settings>): Promise<void> {
-    await browser.storage.sync.set(settings)
+    const { apiToken, accounts, ...synced } = settings
+    if (Object.keys(synced).length > 0) {
+      await browser.storage.sync.set(synced)
+    }
+    const secrets = Object.fromEntries(
+      Object.entries({ apiToken, accounts }).filter(([, value]) => value !== undefined)
+    )
+    if (Object.keys(secrets).length > 0) {
+      await writeSecretSettings(secrets)
+    }
     // Update cache
     Object.assign(storageCache, settings as Record<string, unknown>)
   },
 
+  // Listen for settings changes made from any extension page
+  onSettingsChanged(callback: (changes: Partial<Settings>) => void): () => void {
+    const listener = (changes: Record<string, { newValue?: unknown }>, areaName: string) => {
+      const updated: Record<string, unknown> = {}
+      if (areaName === 'sync') {
+        for (const [key, { newValue }] of Object.entries(changes)) {
+          updated[key] = newValue
+        }
+      } else if (areaName === 'local') {
+        for (const key of SECRET_SETTINGS_KEYS) {
+          if (key in changes) updated[key] = changes[key].newValue
+        }
+        // Logging in or out with OAuth changes the token in use
+        if (changes.oauthCredentials) {
+          const credentials = changes.oauthCredentials.newValue as OAuthCredentials | null
+          updated.apiToken = credentials?.accessToken ?? updated.apiToken ?? null
+        }
+      } else if (areaName === 'session' && changes.secrets) {
+        // Vault unlocked, locked or re-encrypted
+        const secrets = changes.secrets.newValue as SecretSettings | undefined
+        updated.apiToken = secrets?.oauthCredentials?.accessToken ?? secrets?.apiToken ?? null
+        updated.accounts = secrets?.accounts ?? []
+      }
+      if (Object.keys(updated).length === 0) return
+      callback(updated as Partial<Settings>)
+    }
+    browser.storage.onChanged.addListener(listener)
+    return () => browser.storage.onChanged.removeListener(listener)
+  },
+
   // Local storage (torrents)
   async getTorrents(): Promise<TorrentItem[]> {
     const result = await browser.storage.local.get('torrents')
-    return (result.torrents as TorrentItem[]) || []
+    // Unusable records are left out here and quarantined by the next write of the list
+    return validateTorrents(result.torrents).torrents
   },
 
+  // Replace the whole tracked list, e.g. when restoring a backup
   async saveTorrents(torrents: TorrentItem[]): Promise<void> {
-    const settings = await this.getSettings()
-    const trimmed = torrents.slice(0, settings.maxListSize)
-    await browser.storage.local.set({ torrents: trimmed })
-    // Create new array reference so useSyncExternalStore detects change
-    storageCache.torrents = [...trimmed]
+    await this.mutateTorrents(() => torrents)
+  },
+
+  // Read-modify-write of the tracked list, queued behind the other mutations of it
+  // `mutate` must not start other mutations; returning the same array skips the write
+  async mutateTorrents(mutate: (torrents: TorrentItem[]) => TorrentItem[]): Promise<TorrentItem[]> {
+    return withStorageLock('torrents', async () => {
+      const { torrents, repaired } = await readTorrentList('torrents')
+      const updated = mutate(torrents)
+      if (updated === torrents && !repaired) return torrents
+      // Capped on every write, as maxListSize may have been lowered since the last one
+      const saved = await capTorrents(updated)
+      await writeTorrents(saved)
+      return saved
+    })
   },
 
   async addTorrent(torrent: TorrentItem): Promise<void> {
-    const torrents = await this.getTorrents()
-    torrents.unshift(torrent)
-    await this.saveTorrents(torrents)
+    await this.mutateTorrents(torrents => [torrent, ...torrents])
+  },
+
+  // Apply updates to tracked or mirrored items as currently stored; returns the updated items
+  // Ids that are no longer stored are skipped
+  async updateTorrents(updates: Record<string, TorrentUpdate>): Promise<TorrentItem[]> {
+    const pending = new Map(Object.entries(updates))
+    const updated: TorrentItem[] = []
+    const apply = (torrents: TorrentItem[]) => {
+      if (!torrents.some(t => pending.has(t.id))) return torrents
+      return torrents.map(torrent => {
+        const update = pending.get(torrent.id)
+        if (!update) return torrent
+        const next = { ...torrent, ...(typeof update === 'function' ? update(torrent) : update) }
+        updated.push(next)
+        return next
+      })
+    }
+    await this.mutateTorrents(apply)
+    if (updated.length < pending.size) {
+      await this.mutateAccountTorrents(apply)
+    }
+    return updated
+  },
+
+  // Update one item; null if it is no longer stored
+  async updateTorrent(id: string, update: TorrentUpdate): Promise<TorrentItem | null> {
+    const [updated] = await this.updateTorrents({ [id]: update })
+    return updated ?? null
+  },
+
+  async removeTorrents(ids: string[]): Promise<void> {
+    await this.mutateTorrents(torrents => torrents.filter(t => !ids.includes(t.id)))
+    await this.mutateAccountTorrents(accountTorrents =>
+      accountTorrents.some(t => ids.includes(t.id))
+        ? accountTorrents.filter(t => !ids.includes(t.id))
+        : accountTorrents
+    )
   },
 
   async removeTorrent(id: string): Promise<void> {
-    const torrents = await this.getTorrents()
-    const filtered = torrents.filter(t => t.id !== id)
-    await browser.storage.local.set({ torrents: filtered })
-    // Create new array reference so useSyncExternalStore detects change
-    storageCache.torrents = [...filtered]
+    await this.removeTorrents([id])
+  },
+
+  // Torrents mirrored from the Real-Debrid account (not limited by maxListSize)
+  async getAccountTorrents(): Promise<TorrentItem[]> {
+    const result = await browser.storage.local.get({ accountTorrents: [] })
+    return validateTorrents(result.accountTorrents).torrents
+  },
+
+  // Replace the mirrored list after a sync
+  async saveAccountTorrents(torrents: TorrentItem[]): Promise<void> {
+    await this.mutateAccountTorrents(() => torrents, { synced: true })
+  },
+
+  // Read-modify-write of the mirrored list, like mutateTorrents; `synced` records the sync time
+  async mutateAccountTorrents(
+    mutate: (torrents: TorrentItem[]) => TorrentItem[],
+    { synced = false } = {}
+  ): Promise<TorrentItem[]> {
+    return withStorageLock('accountTorrents', async () => {
+      const { torrents, repaired } = await readTorrentList('accountTorrents')
+      const updated = mutate(torrents)
+      if (updated === torrents && !synced && !repaired) return torrents
+      if (synced) {
+        const accountSyncedAt = Date.now()
+        await browser.storage.local.set({ accountTorrents: updated, accountSyncedAt })
+        storageCache.accountSyncedAt = accountSyncedAt
+      } else {
+        await browser.storage.local.set({ accountTorrents: updated })
+      }
+      storageCache.accountTorrents = [...updated]
+      return updated
+    })
+  },
+
+  // Torrent records that failed validation, kept aside instead of being deleted
+  async getQuarantinedTorrents(): Promise<QuarantinedTorrent[]> {
+    const result = await browser.storage.local.get({ quarantinedTorrents: [] })
+    return (result.quarantinedTorrents as QuarantinedTorrent[]) || []
+  },
+
+  async quarantineTorrents(records: unknown[]): Promise<void> {
+    if (records.length === 0) return
+    await withStorageLock('quarantinedTorrents', async () => {
+      const quarantinedAt = Date.now()
+      const quarantined = [
+        ...(await this.getQuarantinedTorrents()),
+        ...records.map(record => ({ record, quarantinedAt })),
+      ]
+      await browser.storage.local.set({ quarantinedTorrents: quarantined })
+    })
+  },
+
+  // Write both torrent lists back repaired, quarantining the records that can't be repaired
+  async repairTorrentLists(): Promise<void> {
+    await this.mutateTorrents(torrents => [...torrents])
+    await this.mutateAccountTorrents(torrents => [...torrents])
+  },
+
+  // Version of the stored data layout (see utils/migrations.ts); 0 before versioning
+  async getSchemaVersion(): Promise<number> {
+    const result = await browser.storage.local.get({ schemaVersion: 0 })
+    return typeof result.schemaVersion === 'number' ? result.schemaVersion : 0
+  },
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await browser.storage.local.set({ schemaVersion: version })
   },
 
   // Cache access for useSyncExternalStore
@@ -99,14 +397,10 @@ export const storage = {
   // Dashboard settings storage
   async getDashboardSettings(): Promise<DashboardSettings> {
     const result = await browser.storage.sync.get({
-      dashboardSettings: {
-        darkMode: 'auto' as const,
-        notificationsEnabled: true,
-        autoRefresh: true,
-        refreshInterval: 30,
-      },
+      dashboardSettings: DEFAULT_DASHBOARD_SETTINGS,
     })
-    return result.dashboardSettings as DashboardSettings
+    const stored = isRecord(result.dashboardSettings) ? result.dashboardSettings : {}
+    return repairSettings(DEFAULT_DASHBOARD_SETTINGS, stored)
   },
 
   async saveDashboardSettings(settings: Partial<DashboardSettings>): Promise<void> {
@@ -139,6 +433,138 @@ export const storage = {
     storageCache.notificationState = state
   },
 
+  // Availability cache storage (hashes seen as cached / not cached)
+  async getAvailabilityCache(): Promise<AvailabilityCache> {
+    const result = await browser.storage.local.get({ availabilityCache: {} })
+    return (result.availabilityCache as AvailabilityCache) || {}
+  },
+
+  async setHashAvailability(hash: string, cached: boolean): Promise<void> {
+    const cache = await this.getAvailabilityCache()
+    cache[hash.toLowerCase()] = { cached, checkedAt: Date.now() }
+
+    const entries = Object.entries(cache)
+    const pruned =
+      entries.length > MAX_AVAILABILITY_CACHE_SIZE
+        ? Object.fromEntries(
+            entries
+              .sort((a, b) => b[1].checkedAt - a[1].checkedAt)
+              .slice(0, MAX_AVAILABILITY_CACHE_SIZE)
+          )
+        : cache
+
+    await browser.storage.local.set({ availabilityCache: pruned })
+    storageCache.availabilityCache = pruned
+  },
+
+  // Live torrent progress (speed, seeders, ETA) refreshed by background polling
+  async getTorrentProgress(): Promise<TorrentProgressMap> {
+    const result = await browser.storage.local.get({ torrentProgress: {} })
+    return (result.torrentProgress as TorrentProgressMap) || {}
+  },
+
+  async saveTorrentProgress(progress: TorrentProgressMap): Promise<void> {
+    await browser.storage.local.set({ torrentProgress: progress })
+    storageCache.torrentProgress = progress
+  },
+
+  // OAuth login, stored with the API tokens so it is sealed in the vault too; null while locked
+  async getOAuthCredentials(): Promise<OAuthCredentials | null> {
+    const secrets = await readSecretSettings()
+    return secrets.oauthCredentials ?? null
+  },
+
+  async saveOAuthCredentials(credentials: OAuthCredentials): Promise<void> {
+    await writeSecretSettings({ oauthCredentials: credentials })
+  },
+
+  async clearOAuthCredentials(): Promise<void> {
+    await writeSecretSettings({ oauthCredentials: null })
+  },
+
+  // Older versions left the OAuth login in plain local storage beside the vault; it can't be
+  // sealed without the passphrase, so it is removed and the user logs in again
+  async removeUnsealedOAuthCredentials(): Promise<void> {
+    const local = await browser.storage.local.get(['oauthCredentials', 'secretVault'])
+    if (local.secretVault && local.oauthCredentials !== undefined) {
+      await browser.storage.local.remove('oauthCredentials')
+    }
+  },
+
+  // Move API tokens saved in sync storage by older versions to local storage
+  async migrateSyncedSecrets(): Promise<void> {
+    const synced = await browser.storage.sync.get(SECRET_SETTINGS_KEYS)
+    const keys = SECRET_SETTINGS_KEYS.filter(key => synced[key] !== undefined)
+    if (keys.length === 0) return
+
+    const local = await browser.storage.local.get([...SECRET_SETTINGS_KEYS, 'secretVault'])
+    // Anything already stored locally is newer than the synced copy
+    if (!local.secretVault) {
+      const missing = keys.filter(key => local[key] === undefined)
+      if (missing.length > 0) {
+        await browser.storage.local.set(Object.fromEntries(missing.map(key => [key, synced[key]])))
+      }
+    }
+    await browser.storage.sync.remove(keys)
+  },
+
+  // Passphrase protection for API tokens (see utils/secret-vault.ts)
+  async getTokenLockState(): Promise<TokenLockState> {
+    const { secretVault } = await browser.storage.local.get('secretVault')
+    if (!secretVault) return 'plain'
+    const { vaultKey } = await browser.storage.session.get('vaultKey')
+    return vaultKey ? 'unlocked' : 'locked'
+  },
+
+  // Encrypt the stored API tokens; they stay unlocked for the rest of this browser session
+  async encryptTokens(passphrase: string): Promise<void> {
+    if ((await this.getTokenLockState()) !== 'plain') {
+      throw new Error('API tokens are already encrypted')
+    }
+
+    const current = await readSecretSettings()
+    const secrets: SecretSettings = {
+      apiToken: current.apiToken ?? null,
+      accounts: current.accounts ?? [],
+      oauthCredentials: current.oauthCredentials ?? null,
+    }
+    const salt = createVaultSalt()
+    const key = await deriveVaultKey(passphrase, salt)
+    const vault = await sealVault(key, salt, secrets)
+
+    await browser.storage.session.set({ secrets, vaultKey: await exportVaultKey(key) })
+    await browser.storage.local.set({ secretVault: vault })
+    await browser.storage.local.remove(SECRET_KEYS)
+  },
+
+  // Decrypt the API tokens into session storage until the browser closes
+  // Throws Error('Wrong passphrase') if the passphrase doesn't match
+  async unlockTokens(passphrase: string): Promise<void> {
+    const { secretVault } = await browser.storage.local.get('secretVault')
+    if (!secretVault) return
+
+    const vault = secretVault as SecretVault
+    const key = await deriveVaultKey(passphrase, vault.salt)
+    const secrets = await openVault<SecretSettings>(key, vault)
+    await browser.storage.session.set({ secrets, vaultKey: await exportVaultKey(key) })
+  },
+
+  async lockTokens(): Promise<void> {
+    await browser.storage.session.remove(['secrets', 'vaultKey'])
+  },
+
+  // Turn passphrase protection off, storing the tokens in plain local storage again
+  async decryptTokens(): Promise<void> {
+    if ((await this.getTokenLockState()) !== 'unlocked') {
+      throw new Error('Unlock the API tokens first')
+    }
+
+    const { secrets } = await browser.storage.session.get('secrets')
+    await browser.storage.local.set(secrets as SecretSettings)
+    await browser.storage.local.remove('secretVault')
+    await this.lockTokens()
+  },
+
   // Dark mode preference (stored separately for quick access)
   async getDarkMode(): Promise<'light' | 'dark' | 'auto'> {
     const settings = await this.getDashboardSettings()
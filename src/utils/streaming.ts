@@ -0,0 +1,88 @@
+import type { RdMediaInfos, RdMediaTrack, RdTranscodeLinks } from './types'
+
+// Transcoded formats the player offers, with their MIME type for <video>
+export const STREAM_FORMATS = {
+  liveMP4: { label: 'MP4', mimeType: 'video/mp4', extension: 'mp4' },
+  apple: { label: 'HLS', mimeType: 'application/vnd.apple.mpegurl', extension: 'm3u8' },
+} as const
+
+export type StreamFormat = keyof typeof STREAM_FORMATS
+
+export interface StreamVariant {
+  format: StreamFormat
+  quality: string
+  url: string
+}
+
+export interface StreamOptions {
+  format: StreamFormat
+  quality: string
+  audio?: string // Audio track id from the media infos, e.g. eng1
+  subtitles?: string // Subtitle track id; burned into the stream
+}
+
+export interface TrackOption {
+  id: string
+  label: string
+}
+
+/**
+ * MP4 and HLS streams of a file, MP4 first
+ */
+export function getStreamVariants(links: RdTranscodeLinks): StreamVariant[] {
+  return (Object.keys(STREAM_FORMATS) as StreamFormat[]).flatMap(format =>
+    Object.entries(links[format] ?? {}).map(([quality, url]) => ({ format, quality, url }))
+  )
+}
+
+/**
+ * Audio or subtitle tracks as select options, e.g. `English (AC3)`
+ */
+export function getTrackOptions(tracks?: Record<string, RdMediaTrack>): TrackOption[] {
+  return Object.entries(tracks ?? {}).map(([id, track]) => {
+    const name = track.lang || track.lang_iso || id
+    const detail = track.codec || track.type
+    return { id, label: detail ? `${name} (${detail})` : name }
+  })
+}
+
+/**
+ * Stream URL for a format, quality and track choice
+ *
+ * Track choice needs the media infos' URL model; without it the plain
+ * transcoded URL is used.
+ *
+ * @returns null if the file has no stream for the format and quality
+ */
+export function buildStreamUrl(
+  variants: StreamVariant[],
+  infos: RdMediaInfos | null,
+  options: StreamOptions
+): string | null {
+  const variant = variants.find(v => v.format === options.format && v.quality === options.quality)
+  if (!variant) return null
+  if (!infos?.modelUrl?.includes('{format}')) return variant.url
+
+  const values: Record<string, string> = {
+    audio: options.audio ?? Object.keys(infos.details.audio ?? {})[0] ?? '',
+    subtitles: options.subtitles ?? 'none',
+    audioCodec: 'aac',
+    quality: options.quality,
+    format: infos.availableFormats?.[options.format] ?? STREAM_FORMATS[options.format].extension,
+  }
+  return infos.modelUrl.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+}
+
+/**
+ * M3U playlist for external players such as VLC or mpv
+ */
+export function buildM3uPlaylist(
+  entries: { title: string; url: string; duration?: number }[]
+): string {
+  const lines = entries.flatMap(entry => [
+    // -1 marks an unknown duration
+    `#EXTINF:${Math.round(entry.duration ?? -1)},${entry.title.replace(/[\r\n]+/g, ' ')}`,
+    entry.url,
+  ])
+  return ['#EXTM3U', ...lines, ''].join('\n')
+}
@@ -0,0 +1,152 @@
+import browser from 'webextension-polyfill'
+import type { TorrentFileInfo } from './types'
+
+// Upper bound for uploaded .torrent files (Real-Debrid rejects anything this large anyway)
+export const MAX_TORRENT_FILE_SIZE = 10 * 1024 * 1024
+
+const CHAR_D = 0x64 // 'd'
+const CHAR_E = 0x65 // 'e'
+const CHAR_I = 0x69 // 'i'
+const CHAR_L = 0x6c // 'l'
+const CHAR_COLON = 0x3a // ':'
+
+/**
+ * Read a bencoded byte string starting at `pos`
+ * @returns the string bytes and the position right after it
+ */
+function readBytes(bytes: Uint8Array, pos: number): { value: Uint8Array; end: number } {
+  let colon = pos
+  while (colon < bytes.length && bytes[colon] !== CHAR_COLON) colon++
+  const length = Number(new TextDecoder().decode(bytes.subarray(pos, colon)))
+  if (colon >= bytes.length || !Number.isSafeInteger(length) || length < 0) {
+    throw new Error('Invalid bencoded string')
+  }
+  const start = colon + 1
+  const end = start + length
+  if (end > bytes.length) throw new Error('Truncated bencoded string')
+  return { value: bytes.subarray(start, end), end }
+}
+
+/**
+ * Skip over one bencoded value starting at `pos`
+ * @returns the position right after the value
+ */
+function skipValue(bytes: Uint8Array, pos: number): number {
+  const type = bytes[pos]
+  if (type === CHAR_I) {
+    const end = bytes.indexOf(CHAR_E, pos)
+    if (end === -1) throw new Error('Unterminated bencoded integer')
+    return end + 1
+  }
+  if (type === CHAR_L || type === CHAR_D) {
+    let cursor = pos + 1
+    while (bytes[cursor] !== CHAR_E) {
+      if (cursor >= bytes.length) throw new Error('Unterminated bencoded container')
+      cursor = skipValue(bytes, cursor)
+    }
+    return cursor + 1
+  }
+  if (type >= 0x30 && type <= 0x39) {
+    return readBytes(bytes, pos).end
+  }
+  throw new Error('Invalid bencoded value')
+}
+
+/**
+ * Read the entries of a bencoded dictionary starting at `pos`
+ * @returns map of key to the start/end offsets of its raw value
+ */
+function readDictEntries(bytes: Uint8Array, pos: number): Map<string, [number, number]> {
+  if (bytes[pos] !== CHAR_D) throw new Error('Expected bencoded dictionary')
+  const entries = new Map<string, [number, number]>()
+  let cursor = pos + 1
+  while (bytes[cursor] !== CHAR_E) {
+    if (cursor >= bytes.length) throw new Error('Unterminated bencoded dictionary')
+    const key = readBytes(bytes, cursor)
+    const end = skipValue(bytes, key.end)
+    entries.set(new TextDecoder().decode(key.value), [key.end, end])
+    cursor = end
+  }
+  return entries
+}
+
+/**
+ * Parse a .torrent file and compute its v1 info hash locally
+ *
+ * The info hash is the SHA-1 of the raw bencoded `info` dictionary, so duplicate
+ * detection works the same for uploaded files as for magnet links.
+ *
+ * @param buffer - Raw .torrent file contents
+ * @throws Error if the file is not a valid bencoded torrent
+ */
+export async function parseTorrentFile(buffer: ArrayBuffer): Promise<TorrentFileInfo> {
+  const bytes = new Uint8Array(buffer)
+  const infoRange = readDictEntries(bytes, 0).get('info')
+  if (!infoRange) throw new Error('Torrent file has no info dictionary')
+
+  const info = bytes.subarray(...infoRange)
+  const infoEntries = readDictEntries(info, 0)
+  // Prefer the explicit UTF-8 name when both are present
+  const nameRange = infoEntries.get('name.utf-8') ?? infoEntries.get('name')
+  const name = nameRange ? new TextDecoder().decode(readBytes(info, nameRange[0]).value) : undefined
+
+  const digest = await crypto.subtle.digest('SHA-1', info)
+  const hash = Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+
+  return { hash, name }
+}
+
+/**
+ * Encode binary data as base64 so it survives runtime messaging
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 produced by arrayBufferToBase64
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes.buffer
+}
+
+/**
+ * Check whether a dropped/picked file looks like a .torrent file
+ */
+export function isTorrentFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.torrent') || file.type === 'application/x-bittorrent'
+}
+
+/**
+ * Read a .torrent file and send it to the background for upload
+ * @returns The background response ({ success, torrent } or { error })
+ */
+export async function sendTorrentFile(
+  file: File
+): Promise<{ success?: boolean; error?: string; [key: string]: unknown }> {
+  if (file.size > MAX_TORRENT_FILE_SIZE) {
+    return { error: `${file.name} is too large to be a .torrent file` }
+  }
+
+  const buffer = await file.arrayBuffer()
+  const response = (await browser.runtime.sendMessage({
+    type: 'ADD_TORRENT_FILE',
+    fileData: arrayBufferToBase64(buffer),
+    fileName: file.name,
+  })) as { success?: boolean; error?: string; [key: string]: unknown }
+
+  return response ?? { error: 'No response from background' }
+}
@@ -1,17 +1,72 @@
 export type TorrentStatus = 'processing' | 'ready' | 'error' | 'timeout' | 'selecting_files'
 
+// Torrents come from magnets or .torrent files; hoster items from file-hoster URLs
+export type ItemKind = 'torrent' | 'hoster'
+
+// Items added through the extension, or mirrored from the Real-Debrid account history
+export type ItemSource = 'extension' | 'account'
+
 export interface TorrentItem {
   id: string
-  magnetLink: string
-  hash: string
+  kind?: ItemKind // Missing on items saved before hoster support - treat as 'torrent'
+  source?: ItemSource // Missing means 'extension'
+  magnetLink: string // Empty for hoster items
+  hash: string // Empty for hoster items
+  sourceUrl?: string // Original hoster (or folder) URL for hoster items
+  host?: string // Hoster domain for hoster items
   filename: string
   downloadUrl: string | null
+  links?: DownloadLink[]
   status: TorrentStatus
+  error?: string // User-facing reason for the last failure
+  accountId?: string // RdAccount the item lives on; missing means the default account
+  sentToAria2At?: number // Last time the links were handed to aria2
+  aria2SentUrls?: string[] // Links queued by a send aria2 failed part-way; the next send skips them
   addedAt: number
   lastRetry: number
   retryCount: number
 }
 
+// Torrent evicted from the capped active list into the IndexedDB archive (see utils/history-db.ts)
+export interface HistoryEntry extends TorrentItem {
+  archivedAt: number
+}
+
+// Changes to a stored item; the function form gets the item as currently stored
+export type TorrentUpdate = Partial<TorrentItem> | ((torrent: TorrentItem) => Partial<TorrentItem>)
+
+// Stored torrent record that failed validation (see utils/schema.ts), kept as it was found
+export interface QuarantinedTorrent {
+  record: unknown
+  quarantinedAt: number
+}
+
+export interface HistoryQuery {
+  search?: string
+  from?: number // addedAt lower bound (ms, inclusive)
+  to?: number // addedAt upper bound (ms, inclusive)
+}
+
+// Automatic file selection for multi-file torrents (see utils/file-rules.ts)
+export interface FileSelectionRules {
+  enabled: boolean
+  extensions: string[] // Lowercase, without the dot; empty allows any extension
+  minSizeMB: number // Skip smaller files such as samples; 0 disables the check
+  largestOnly: boolean // Keep only the biggest of the matching files
+  include: string // Case-insensitive regex the file path must match; empty disables it
+  exclude: string // Case-insensitive regex the file path must not match; empty disables it
+}
+
+// aria2 download manager reached over JSON-RPC (see utils/aria2.ts)
+export interface Aria2Settings {
+  enabled: boolean
+  rpcUrl: string // e.g. http://nas.local:6800/jsonrpc
+  secret: string // aria2 --rpc-secret; empty when the server has none
+  dir: string // Download directory on the aria2 host; empty uses aria2's own default
+  perTorrentFolder: boolean // Save each torrent's files in a folder named after it
+  autoSend: boolean // Send links as soon as a torrent finishes
+}
+
 export interface Settings {
   apiToken: string | null
   maxListSize: number
@@ -19,7 +74,47 @@ export interface Settings {
   maxRetryDuration: number
   contextMenuEnabled: boolean
   alwaysSaveAllFiles: boolean
+  fileSelectionRules: FileSelectionRules
+  aria2: Aria2Settings
+  managedDownloads: boolean // Download with browser.downloads (optional permission) and track progress
+  downloadFilenameTemplate: string // e.g. {torrentName}/{filePath}; see utils/downloads.ts
   visibleTorrentsCount: number
+  confirmUncachedTorrents: boolean
+  interceptMagnetLinks: boolean
+  interceptAction: InterceptAction
+  interceptSiteMode: InterceptSiteMode
+  interceptSiteList: string[]
+  accounts: RdAccount[] // Additional accounts, on top of the default apiToken/OAuth one
+  activeAccountId: string | null // Account new items are added to; null for the default account
+}
+
+// A named Real-Debrid account besides the default one
+export interface RdAccount {
+  id: string
+  name: string
+  apiToken: string
+}
+
+// What to do with a magnet link clicked on a web page (see content/magnet-interceptor.ts)
+export type InterceptAction = 'add' | 'popup'
+
+// Whether interceptSiteList lists the only sites to intercept on, or sites to skip
+export type InterceptSiteMode = 'allowlist' | 'denylist'
+
+// Parsed magnet URI (see utils/magnet.ts)
+export interface ParsedMagnet {
+  hash: string // Primary info hash, lowercase hex (btih preferred, else btmh digest)
+  btih: string[] // BitTorrent v1 info hashes, base32 normalised to lowercase hex
+  btmh: string[] // BitTorrent v2 SHA-256 info hash digests, lowercase hex
+  displayName?: string // dn
+  trackers: string[] // tr
+  exactLength?: number // xl, in bytes
+}
+
+// Locally parsed .torrent file (see utils/torrent-file.ts)
+export interface TorrentFileInfo {
+  hash: string // v1 info hash, lowercase hex
+  name?: string
 }
 
 // Real-Debrid API response types
@@ -33,13 +128,24 @@ export interface RdTorrentInfo {
   filename: string
   hash: string
   status:
+    | 'magnet_error'
     | 'magnet_conversion'
     | 'waiting_files_selection'
+    | 'queued'
     | 'downloading'
     | 'downloaded'
     | 'error'
+    | 'virus'
+    | 'compressing'
+    | 'uploading'
     | 'dead'
   progress: number
+  bytes?: number // Size of selected files only
+  original_bytes?: number // Total size of the torrent
+  speed?: number // bytes/sec, only present while downloading
+  seeders?: number // Only present while downloading
+  added?: string // ISO date the torrent was added to the account
+  ended?: string // ISO date, only present when finished
   files?: Array<{
     id: number
     path: string
@@ -49,6 +155,35 @@ export interface RdTorrentInfo {
   links?: string[]
 }
 
+// One page of GET /torrents; totalCount comes from the X-Total-Count header
+export interface RdTorrentsPage {
+  torrents: RdTorrentInfo[]
+  totalCount: number | null
+}
+
+// Instant availability response, keyed by hash. Hashes that aren't cached map to []
+export interface RdInstantAvailability {
+  [hash: string]:
+    | { rd?: Array<{ [fileId: string]: { filename: string; filesize: number } }> }
+    | unknown[]
+}
+
+export type AvailabilityStatus = 'cached' | 'not_cached' | 'unknown'
+
+export interface AvailabilityResult {
+  hash: string
+  status: AvailabilityStatus
+  source: 'api' | 'local' | 'none'
+}
+
+// Locally remembered availability, used when the upstream endpoint is unavailable
+export interface AvailabilityCache {
+  [hash: string]: {
+    cached: boolean
+    checkedAt: number
+  }
+}
+
 // Store torrent info for file selection UI
 export interface TorrentInfoCache {
   [torrentId: string]: RdTorrentInfo
@@ -59,6 +194,19 @@ export interface RdErrorResponse {
   error_code?: number
 }
 
+// Failure categories the UI and background react to differently
+export type RdErrorKind =
+  | 'bad_token'
+  | 'permission_denied'
+  | 'too_many_active_downloads'
+  | 'infringing_file'
+  | 'hoster_unavailable'
+  | 'not_found'
+  | 'rate_limited'
+  | 'service_unavailable'
+  | 'network'
+  | 'unknown'
+
 export interface RdUnrestrictLinkResponse {
   id: string
   filename: string
@@ -71,6 +219,135 @@ export interface RdUnrestrictLinkResponse {
   streamable: number
 }
 
+export interface RdUnrestrictCheckResponse {
+  host: string
+  link: string
+  filename: string
+  filesize: number
+  supported: number // 1 if the hoster is supported, 0 otherwise
+}
+
+// Streaming URLs of an unrestricted file (/streaming/transcode/{id}), by format then quality
+// Formats: apple (HLS), dash, liveMP4 and h264WebM
+export interface RdTranscodeLinks {
+  [format: string]: { [quality: string]: string }
+}
+
+export interface RdMediaTrack {
+  stream: string
+  lang: string
+  lang_iso: string
+  codec?: string
+  type?: string // Subtitle format, e.g. SRT or ASS
+}
+
+// Media details of an unrestricted file (/streaming/mediaInfos/{id})
+export interface RdMediaInfos {
+  filename: string
+  hoster: string
+  link: string
+  type: string // movie, show or audio
+  duration: number // Seconds
+  bitrate: number
+  size: number
+  details: {
+    video?: Record<string, RdMediaTrack>
+    audio?: Record<string, RdMediaTrack> // Keyed by track id, e.g. eng1
+    subtitles?: Record<string, RdMediaTrack>
+  }
+  baseUrl: string
+  availableFormats: Record<string, string> // Format to file extension
+  availableQualities: Record<string, string> // Label to quality id
+  modelUrl: string // Stream URL with {audio}, {subtitles}, {audioCodec}, {quality} and {format} placeholders
+  host: string
+}
+
+// OAuth device-code flow (https://api.real-debrid.com/#device_auth_no_secret)
+export interface RdDeviceCode {
+  device_code: string
+  user_code: string
+  interval: number // Seconds to wait between credential polls
+  expires_in: number // Seconds until the codes expire
+  verification_url: string
+  direct_verification_url?: string
+}
+
+export interface RdDeviceCredentials {
+  client_id: string
+  client_secret: string
+}
+
+export interface RdOAuthToken {
+  access_token: string
+  expires_in: number // Seconds
+  token_type: string
+  refresh_token: string
+}
+
+// Stored OAuth login; storage.getSettings reports its current access token as Settings.apiToken
+export interface OAuthCredentials {
+  clientId: string
+  clientSecret: string
+  accessToken: string
+  refreshToken: string
+  expiresAt: number // Timestamp (ms)
+}
+
+// Settings that hold API tokens, plus the OAuth login; kept in storage.local (or a SecretVault)
+// instead of sync
+export type SecretSettings = Pick<Settings, 'apiToken' | 'accounts'> & {
+  oauthCredentials: OAuthCredentials | null
+}
+
+// 'plain' when tokens aren't passphrase protected; 'locked' until unlocked in this browser session
+export type TokenLockState = 'plain' | 'locked' | 'unlocked'
+
+// Passphrase-encrypted SecretSettings (see utils/secret-vault.ts), all fields base64
+export interface SecretVault {
+  salt: string // PBKDF2 salt
+  iv: string // AES-GCM IV
+  data: string // Ciphertext including the authentication tag
+}
+
+export interface RdUser {
+  id: number
+  username: string
+  email: string
+  points: number // Fidelity points
+  locale: string
+  avatar: string
+  type: 'premium' | 'free'
+  premium: number // Seconds left as a Premium user
+  expiration: string // ISO date of premium expiration
+}
+
+// Traffic left on limited hosters, keyed by host
+export interface RdTraffic {
+  [host: string]: {
+    left: number
+    bytes: number
+    links: number
+    limit: number
+    type: 'links' | 'gigabytes' | 'bytes'
+    extra: number
+    reset: 'daily' | 'weekly' | 'monthly'
+  }
+}
+
+// Traffic used per day (YYYY-MM-DD), broken down by host
+export interface RdTrafficDetails {
+  [date: string]: {
+    host: { [host: string]: number }
+    bytes: number
+  }
+}
+
+export interface AccountInfo {
+  user: RdUser
+  traffic: RdTraffic
+  trafficDetails: RdTrafficDetails
+}
+
 // Conversion Dashboard Types
 
 export interface TorrentProgress {
@@ -83,16 +360,35 @@ export interface TorrentProgress {
   peers?: number
 }
 
+// Live progress of processing torrents, keyed by torrent id (written by background polling)
+export interface TorrentProgressMap {
+  [torrentId: string]: TorrentProgress
+}
+
 export interface DownloadLink {
   url: string
   filename: string
   size?: number
   selected: boolean
+  path?: string // Path of the file inside the torrent, e.g. /Season 1/E01.mkv
+  id?: string // Unrestrict id, used by the streaming endpoints
+  streamable?: boolean
+  localDownload?: LocalDownload
+}
+
+// A browser download of a link, tracked by the background while it runs
+export interface LocalDownload {
+  id: number // browser.downloads id
+  state: 'in_progress' | 'complete' | 'interrupted'
+  bytesReceived: number
+  totalBytes: number // 0 while the size is unknown
+  error?: string // Interrupt reason, e.g. NETWORK_FAILED or USER_CANCELED
 }
 
 export interface NotificationState {
   notifiedTorrentIds: string[]
   lastNotificationTime: number
+  premiumExpiryNotified?: string // Expiration date the premium warning was shown for
 }
 
 export type DarkMode = 'light' | 'dark' | 'auto'
@@ -104,9 +400,23 @@ export interface DashboardSettings {
   refreshInterval: number
 }
 
+// Exported settings and torrent list (see utils/backup.ts)
+export interface BackupDocument {
+  format: 'rd-magnet-handler-backup'
+  version: number
+  exportedAt: number
+  includesSecrets: boolean // API tokens, accounts and the aria2 secret; left out by default
+  settings: Partial<Settings>
+  dashboardSettings: DashboardSettings
+  torrents: TorrentItem[]
+  notificationState: NotificationState
+}
+
+// Merge keeps the current torrents and adds new ones from the backup; replace swaps the list
+export type RestoreMode = 'merge' | 'replace'
+
 export interface ExtendedTorrentItem extends TorrentItem {
   progress?: TorrentProgress
-  links?: DownloadLink[]
   addedAt: number
   lastUpdated: number
 }
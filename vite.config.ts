@@ -15,8 +15,12 @@ export default defineConfig({
         name: 'Real-Debrid Magnet Handler',
         version: '1.2.0',
         description: 'Convert magnet links to HTTP downloads via Real-Debrid',
-        permissions: ['storage', 'alarms', 'contextMenus'],
+        permissions: ['storage', 'alarms', 'contextMenus', 'scripting'],
+        // Requested from the options when downloads are handed to the browser's download manager
+        optional_permissions: ['downloads'],
         host_permissions: ['https://api.real-debrid.com/*'],
+        // Requested at runtime for the aria2 RPC endpoint the user configures
+        optional_host_permissions: ['http://*/*', 'https://*/*'],
         action: {
           default_popup: 'src/popup/popup.html',
           default_icon: {
@@ -52,6 +56,11 @@ export default defineConfig({
             resources: ['src/dashboard/dashboard.html'],
             matches: ['<all_urls>'],
           },
+          // Built as a content script; the background registers it while interception is on
+          {
+            resources: ['src/content/magnet-interceptor.ts'],
+            matches: ['http://*/*', 'https://*/*'],
+          },
         ],
       },
     }) as any,
@@ -60,5 +69,9 @@ export default defineConfig({
   build: {
     outDir: 'dist',
     emptyOutDir: true,
+    rollupOptions: {
+      // Opened in a tab by the dashboard, so it isn't in the manifest for the plugin to pick up
+      input: ['src/player/player.html'],
+    },
   },
 })